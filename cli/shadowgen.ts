@@ -0,0 +1,392 @@
+import { readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { parseArgs } from "node:util";
+import {
+  decodeDepthBytes,
+  decodeImageBytes,
+  encodeOra,
+  encodePng,
+  encodePsd,
+} from "../src/codecs";
+import { sceneLayers } from "../src/layers";
+import {
+  parseProject,
+  type ProjectImage,
+  type ProjectImages,
+} from "../src/project";
+import { DEFAULT_SCENE, refitPlacement, renderScene } from "../src/scene";
+import type { DepthMap } from "../src/shadow";
+
+// Command-line renderer: the app's pipeline (see src/scene.ts) without a
+// browser. Same scene + images -> same pixels as the composite canvas.
+
+const USAGE = `Usage: shadowgen render [options]
+
+Inputs (flags override the project):
+  --project <file.json>   saved project; its image paths resolve relative to it
+  --fg <image>            foreground cutout (PNG with alpha, or JPEG)
+  --bg <image>            background
+  --depth <file>          depth map for the foreground: PNG (16-bit kept at
+                          full precision), JPEG, PFM, OpenEXR, or raw
+                          float32 sized to the foreground's aspect
+  --bg-depth <file>       depth / height map of the background (same formats,
+                          raw float32 sized to the background's aspect);
+                          shadows fall onto its relief
+  --angle <deg>           key light angle
+  --elev <deg>            key light elevation (1..89)
+
+Outputs (PNG unless noted; at least one):
+  --out <file>            composite
+  --shadow <file>         shadow pass (cast + contact, tinted)
+  --contact-shadow <file> contact shadow pass
+  --reflection <file>     reflection pass; turns the reflection on (with the
+                          project's settings) in the composite as well
+  --mask <file>           foreground mask in the placement frame
+  --layers <file>         every pass as its own layer: .psd (Photoshop) or
+                          .ora (OpenRaster)
+
+  -h, --help              show this help`;
+
+// Bad invocation (exit code 2) as opposed to a failed render (1)
+class UsageError extends Error {}
+
+type Options = {
+  project?: string;
+  fg?: string;
+  bg?: string;
+  depth?: string;
+  "bg-depth"?: string;
+  angle?: string;
+  elev?: string;
+  out?: string;
+  shadow?: string;
+  "contact-shadow"?: string;
+  reflection?: string;
+  mask?: string;
+  layers?: string;
+  help?: boolean;
+};
+
+function readOptions(argv: string[]): Options | null {
+  let parsed;
+  try {
+    parsed = parseArgs({
+      args: argv,
+      allowPositionals: true,
+      options: {
+        project: { type: "string" },
+        fg: { type: "string" },
+        bg: { type: "string" },
+        depth: { type: "string" },
+        "bg-depth": { type: "string" },
+        angle: { type: "string" },
+        elev: { type: "string" },
+        out: { type: "string" },
+        shadow: { type: "string" },
+        "contact-shadow": { type: "string" },
+        reflection: { type: "string" },
+        mask: { type: "string" },
+        layers: { type: "string" },
+        help: { type: "boolean", short: "h" },
+      },
+    });
+  } catch (err) {
+    throw new UsageError((err as Error).message);
+  }
+
+  const { values, positionals } = parsed;
+  if (values.help) return null;
+  if (positionals.length !== 1 || positionals[0] !== "render") {
+    throw new UsageError(
+      positionals.length === 0
+        ? "missing command (expected: render)"
+        : `unknown command "${positionals.join(" ")}" (expected: render)`
+    );
+  }
+  return values;
+}
+
+function numberOption(value: string, name: string, min: number, max: number) {
+  const n = Number(value);
+  if (value.trim() === "" || !Number.isFinite(n)) {
+    throw new UsageError(`--${name} should be a number (got "${value}")`);
+  }
+  if (n < min || n > max) {
+    throw new UsageError(
+      `--${name} should be between ${min} and ${max} (got ${n})`
+    );
+  }
+  return n;
+}
+
+async function readBytes(file: string, what: string): Promise<Uint8Array> {
+  try {
+    return new Uint8Array(await readFile(file));
+  } catch (err) {
+    const code = (err as NodeJS.ErrnoException).code;
+    const reason =
+      code === "ENOENT"
+        ? "no such file"
+        : code === "EISDIR"
+          ? "is a directory"
+          : (err as Error).message;
+    throw new Error(`cannot read ${what} "${file}": ${reason}`);
+  }
+}
+
+// Bytes -> image (decodeImageBytes) or depth map (decodeDepthBytes)
+type Decoder<T> = (bytes: Uint8Array) => Promise<T>;
+
+async function decode<T>(
+  bytes: Uint8Array,
+  what: string,
+  source: string,
+  decoder: Decoder<T>
+) {
+  try {
+    return await decoder(bytes);
+  } catch (err) {
+    throw new Error(
+      `cannot decode ${what} "${source}": ${(err as Error).message}`
+    );
+  }
+}
+
+async function loadImageFile<T>(
+  file: string,
+  what: string,
+  decoder: Decoder<T>
+): Promise<T> {
+  return decode(await readBytes(file, what), what, file, decoder);
+}
+
+// Project image: embedded data URL, http(s) URL, or a path relative to the
+// project file.
+async function loadProjectImage<T>(
+  image: ProjectImage,
+  projectDir: string,
+  what: string,
+  decoder: Decoder<T>
+): Promise<T> {
+  if ("embedded" in image) {
+    const comma = image.embedded.indexOf(",");
+    const bytes = new Uint8Array(
+      Buffer.from(image.embedded.slice(comma + 1), "base64")
+    );
+    return decode(bytes, what, "embedded image", decoder);
+  }
+
+  const { href } = image;
+  if (/^https?:/i.test(href)) {
+    let response: Response;
+    try {
+      response = await fetch(href);
+    } catch (err) {
+      throw new Error(
+        `cannot fetch ${what} "${href}": ${(err as Error).message}`
+      );
+    }
+    if (!response.ok) {
+      throw new Error(
+        `cannot fetch ${what} "${href}": HTTP ${response.status}`
+      );
+    }
+    return decode(
+      new Uint8Array(await response.arrayBuffer()),
+      what,
+      href,
+      decoder
+    );
+  }
+  return loadImageFile(path.resolve(projectDir, href), what, decoder);
+}
+
+async function render(options: Options) {
+  const outputs = [
+    ["composite", options.out],
+    ["shadow", options.shadow],
+    ["contactShadow", options["contact-shadow"]],
+    ["reflection", options.reflection],
+    ["mask", options.mask],
+  ] as const;
+  if (outputs.every(([, file]) => !file) && !options.layers) {
+    throw new UsageError(
+      "nothing to write: pass --out, --shadow, --contact-shadow, --reflection, --mask or --layers"
+    );
+  }
+  for (const [, file] of outputs) {
+    if (file && path.extname(file).toLowerCase() !== ".png") {
+      throw new UsageError(`only PNG output is supported ("${file}")`);
+    }
+  }
+  const layersFormat = options.layers
+    ? path.extname(options.layers).toLowerCase()
+    : null;
+  if (layersFormat && layersFormat !== ".psd" && layersFormat !== ".ora") {
+    throw new UsageError(
+      `--layers writes .psd or .ora files ("${options.layers}")`
+    );
+  }
+
+  const angle =
+    options.angle !== undefined
+      ? numberOption(options.angle, "angle", -360, 360)
+      : undefined;
+  const elev =
+    options.elev !== undefined
+      ? numberOption(options.elev, "elev", 1, 89)
+      : undefined;
+
+  let scene = DEFAULT_SCENE;
+  let images: ProjectImages | null = null;
+  let projectDir = process.cwd();
+  if (options.project) {
+    const text = new TextDecoder().decode(
+      await readBytes(options.project, "project")
+    );
+    let project;
+    try {
+      project = parseProject(text);
+    } catch (err) {
+      throw new Error(
+        `cannot open project "${options.project}": ${(err as Error).message}`
+      );
+    }
+    scene = project.scene;
+    images = project.images;
+    projectDir = path.dirname(path.resolve(options.project));
+  }
+
+  const load = async <T>(
+    flag: string | undefined,
+    image: ProjectImage | null | undefined,
+    what: string,
+    decoder: Decoder<T>
+  ) =>
+    flag
+      ? loadImageFile(flag, what, decoder)
+      : image
+        ? loadProjectImage(image, projectDir, what, decoder)
+        : null;
+
+  const [foreground, background] = await Promise.all([
+    load(options.fg, images?.foreground, "foreground", decodeImageBytes),
+    load(options.bg, images?.background, "background", decodeImageBytes),
+  ]);
+  // Raw float32 depth is sized from the foreground's aspect
+  const depth: DepthMap | null = await load(
+    options.depth,
+    images?.depth,
+    "depth map",
+    (bytes) =>
+      decodeDepthBytes(
+        bytes,
+        foreground ? foreground.width / foreground.height : null,
+        "foreground"
+      )
+  );
+  const surface: DepthMap | null = await load(
+    options["bg-depth"],
+    images?.surface,
+    "background depth map",
+    (bytes) =>
+      decodeDepthBytes(
+        bytes,
+        background ? background.width / background.height : null,
+        "background"
+      )
+  );
+  if (!foreground) {
+    throw new UsageError("no foreground: pass --fg or a project that has one");
+  }
+  if (!background) {
+    throw new UsageError("no background: pass --bg or a project that has one");
+  }
+
+  // A different cutout than the project's takes the same spot, auto contact
+  if (options.fg && scene.placement) {
+    scene = {
+      ...scene,
+      placement: refitPlacement(scene.placement, foreground),
+      contactPoints: null,
+    };
+  }
+  // The GrabCut box and brush strokes belong to the project's own cutout
+  if (options.fg) {
+    scene = {
+      ...scene,
+      cutout: { ...scene.cutout, box: null },
+      mask: { ...scene.mask, strokes: [] },
+    };
+  }
+  if (angle !== undefined || elev !== undefined) {
+    const [key, ...rest] = scene.lights;
+    scene = {
+      ...scene,
+      lights: [
+        {
+          ...key,
+          kind: "directional",
+          angle: angle ?? key.angle,
+          elev: elev ?? key.elev,
+        },
+        ...rest,
+      ],
+    };
+  }
+
+  if (options.reflection) {
+    scene = { ...scene, reflection: { ...scene.reflection, enabled: true } };
+  }
+
+  const sceneImages = { background, foreground, depth, surface };
+  const passes = renderScene(sceneImages, scene);
+
+  const write = async (file: string, data: Uint8Array) => {
+    try {
+      await writeFile(file, data);
+    } catch (err) {
+      throw new Error(`cannot write "${file}": ${(err as Error).message}`);
+    }
+  };
+  // Every requested pass or none: nothing is written when one is missing
+  for (const [pass, file] of outputs) {
+    if (file && !passes[pass]) {
+      throw new Error(
+        `the ${pass} pass rendered no image, so there is nothing to write to "${file}"`
+      );
+    }
+  }
+  for (const [pass, file] of outputs) {
+    const image = passes[pass];
+    if (file && image) await write(file, await encodePng(image));
+  }
+  if (options.layers) {
+    const doc = sceneLayers(sceneImages.background, scene, passes);
+    await write(
+      options.layers,
+      layersFormat === ".psd" ? encodePsd(doc) : await encodeOra(doc)
+    );
+  }
+}
+
+async function main(argv: string[]): Promise<number> {
+  try {
+    const options = readOptions(argv);
+    if (!options) {
+      console.log(USAGE);
+      return 0;
+    }
+    await render(options);
+    return 0;
+  } catch (err) {
+    console.error(`shadowgen: ${(err as Error).message}`);
+    if (err instanceof UsageError) {
+      console.error("Run `shadowgen --help` for usage.");
+      return 2;
+    }
+    return 1;
+  }
+}
+
+process.exitCode = await main(process.argv.slice(2));
@@ -1,119 +1,590 @@
-import { useEffect, useRef, useState } from "react";
-
-type Light = { angle: number; elev: number };
-
-function readFileAsDataURL(file: File): Promise<string> {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.onload = () => resolve(String(reader.result));
-    reader.onerror = () => reject(reader.error);
-    reader.readAsDataURL(file);
-  });
-}
-
-function loadImage(src: string): Promise<HTMLImageElement> {
-  return new Promise((resolve, reject) => {
-    const img = new Image();
-    // Safe for future cases where images might not be data URLs
-    img.crossOrigin = "anonymous";
-    img.onload = () => resolve(img);
-    img.onerror = reject;
-    img.src = src;
-  });
-}
-
-function clamp01(x: number) {
-  return Math.max(0, Math.min(1, x));
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import DepthOverlay from "./DepthOverlay";
+import CutoutBoxOverlay from "./CutoutBoxOverlay";
+import GroundOverlay from "./GroundOverlay";
+import MaskBrushOverlay from "./MaskBrushOverlay";
+import LightList from "./LightList";
+import PlacementOverlay from "./PlacementOverlay";
+import ReferenceOverlay from "./ReferenceOverlay";
+import {
+  pairBatchFiles,
+  runBatch,
+  type BatchItem,
+  type BatchProgress,
+} from "./batch";
+import {
+  clearCanvas,
+  decodeDepthMap,
+  decodeImage,
+  putFrame,
+  putImage,
+  readFileAsDataURL,
+} from "./dom";
+import {
+  alignDepth,
+  borderColor,
+  contactPointsToBackground,
+  contactPointsToPlacement,
+  estimateLight,
+  defaultCutoutBox,
+  fitPlacement,
+  isDepthSamples,
+  lightFromReference,
+  placementFrame,
+  renderDepthMap,
+  type BackgroundRemoval,
+  type ContactShadowSettings,
+  type DepthAlignment,
+  type DepthEncoding,
+  type DepthMap,
+  type MaskRefinement,
+  type MaskStroke,
+  type GroundPlane,
+  type LightEstimate,
+  type Placement,
+  type Point,
+  type ReflectionSettings,
+  type RgbaImage,
+  type ShadowReference,
+  type ShadowStyle,
+  type SurfaceSettings,
+} from "./shadow";
+import {
+  defaultGroundQuad,
+  quadEdges,
+  type GroundMode,
+  type GroundQuad,
+} from "./groundPlane";
+import {
+  parseProject,
+  PROJECT_FORMAT,
+  PROJECT_VERSION,
+  stringifyProject,
+  type DepthSettings,
+  type Project,
+  type ProjectImage,
+  type ProjectScene,
+  type SelfShadingSettings,
+} from "./project";
+import { hexToRgb, rgbToHex, type SceneLight } from "./sceneLights";
+import { DEFAULT_SCENE, sceneGroundPlane } from "./scene";
+import { useHistory } from "./useHistory";
+import { useRenderWorker } from "./useRenderWorker";
+import type { PipelineRequest, ShadowRenderer } from "./pipeline";
+
+// What undo / redo restores: the scene plus the images it was made with
+type SceneImage<T = RgbaImage> = {
+  src: string | null;
+  img: T | null;
+  name: string | null;
+};
+// The alignment part of the depth settings
+function alignmentOf(depth: DepthAlignment): DepthAlignment {
+  const { scaleX, scaleY, rotation, offsetX, offsetY } = depth;
+  return { scaleX, scaleY, rotation, offsetX, offsetY };
 }
 
-function lerp(a: number, b: number, t: number) {
-  return a + (b - a) * t;
-}
-
-type DepthLayer = { canvas: HTMLCanvasElement; zMid: number };
+type HistoryState = {
+  scene: ProjectScene;
+  fg: SceneImage;
+  bg: SceneImage;
+  depth: SceneImage<DepthMap>;
+  surface: SceneImage<DepthMap>;
+};
 
 export default function App() {
   const [fgSrc, setFgSrc] = useState<string | null>(null);
   const [bgSrc, setBgSrc] = useState<string | null>(null);
   const [depthSrc, setDepthSrc] = useState<string | null>(null);
+  const [surfaceSrc, setSurfaceSrc] = useState<string | null>(null);
+
+  // File names, for projects that reference images instead of embedding them
+  const [fgName, setFgName] = useState<string | null>(null);
+  const [bgName, setBgName] = useState<string | null>(null);
+  const [depthName, setDepthName] = useState<string | null>(null);
+  const [surfaceName, setSurfaceName] = useState<string | null>(null);
+
+  // Project files: embed images (self-contained) or reference them by name
+  const [embedImages, setEmbedImages] = useState(true);
+  const [projectMessage, setProjectMessage] = useState<string | null>(null);
+  // Why the last layered export failed
+  const [exportMessage, setExportMessage] = useState<string | null>(null);
+
+  // Decoded RGBA buffers fed to the shadow pipeline
+  const [fgImg, setFgImg] = useState<RgbaImage | null>(null);
+  const [bgImg, setBgImg] = useState<RgbaImage | null>(null);
+  const [fgMessage, setFgMessage] = useState<string | null>(null);
+  const [bgMessage, setBgMessage] = useState<string | null>(null);
+  const [depthImg, setDepthImg] = useState<DepthMap | null>(null);
+  // Depth / height map of the background
+  const [surfaceImg, setSurfaceImg] = useState<DepthMap | null>(null);
 
   const canvasRef = useRef<HTMLCanvasElement | null>(null);
   const maskRef = useRef<HTMLCanvasElement | null>(null);
   const shadowRef = useRef<HTMLCanvasElement | null>(null);
-  const depthCanvasRef = useRef<HTMLCanvasElement | null>(null); // offscreen depth sampling
+  const contactShadowRef = useRef<HTMLCanvasElement | null>(null);
+  const reflectionRef = useRef<HTMLCanvasElement | null>(null);
+  const selfShadingRef = useRef<HTMLCanvasElement | null>(null);
 
   // Depth preview canvases (new)
   const depthPreviewRef = useRef<HTMLCanvasElement | null>(null);
   const depthMaskedPreviewRef = useRef<HTMLCanvasElement | null>(null);
+  const surfacePreviewRef = useRef<HTMLCanvasElement | null>(null);
 
-  const [light, setLight] = useState<Light>({ angle: 180, elev: 55 });
-  const [maskVersion, setMaskVersion] = useState(0);
-  const [shadowVersion, setShadowVersion] = useState(0);
+  // Key light first; more can be added (see LightList)
+  const [lights, setLights] = useState<SceneLight[]>(DEFAULT_SCENE.lights);
+  const [ambient, setAmbient] = useState(DEFAULT_SCENE.ambient);
 
-  const [fgPlacement, setFgPlacement] = useState<{
-    x: number;
-    y: number;
-    w: number;
-    h: number;
-  } | null>(null);
+  // Last light guessed from the background (shown next to the button)
+  const [lightEstimate, setLightEstimate] = useState<LightEstimate | null>(
+    null
+  );
+  // Object -> shadow tip line drawn on the background
+  const [reference, setReference] = useState<ShadowReference | null>(null);
+  const [editReference, setEditReference] = useState(false);
+
+  // Starts as "bottom-center, scaled to fit"; edited on the composite canvas
+  const [fgPlacement, setFgPlacement] = useState<Placement | null>(null);
+
+  // Backdrop removal for foregrounds without alpha; the GrabCut box is in
+  // cutout pixels and drawn on the foreground preview
+  const [cutout, setCutout] = useState<BackgroundRemoval>(DEFAULT_SCENE.cutout);
+  const [editCutoutBox, setEditCutoutBox] = useState(false);
+
+  // Mask clean-up; brush strokes are in cutout pixels (so they follow the
+  // placement) and drawn on the mask preview
+  const [maskRefinement, setMaskRefinement] = useState<MaskRefinement>(
+    DEFAULT_SCENE.mask
+  );
+  const [maskBrush, setMaskBrush] = useState(false);
+  const [brushMode, setBrushMode] = useState<MaskStroke["mode"]>("erase");
+  const [brushRadius, setBrushRadius] = useState(12);
+
+  // Ground contact: null = auto-detect from the mask, else manual points
+  // normalized to the foreground box (so they follow the placement)
+  const [contactPoints, setContactPoints] = useState<Point[] | null>(null);
+  const [editContact, setEditContact] = useState(false);
+
+  // Ground plane calibration (background pixels); "off" = screen-space shadows
+  const [groundMode, setGroundMode] = useState<GroundMode>(
+    DEFAULT_SCENE.ground.mode
+  );
+  const [groundQuad, setGroundQuad] = useState<GroundQuad | null>(null);
+  const [groundLines, setGroundLines] = useState<[Point, Point][]>([]);
+  const [groundAspect, setGroundAspect] = useState(DEFAULT_SCENE.ground.aspect);
+  const [editGround, setEditGround] = useState(false);
+
+  // Relief of the background the cast shadow falls on (from its depth /
+  // height map, or estimated)
+  const [surface, setSurface] = useState<SurfaceSettings>(
+    DEFAULT_SCENE.surface
+  );
+  const [surfaceMessage, setSurfaceMessage] = useState<string | null>(null);
 
-  // Depth buffer
-  const [depthBuf, setDepthBuf] = useState<Float32Array | null>(null);
-  const [depthW, setDepthW] = useState(0);
-  const [depthH, setDepthH] = useState(0);
-  const [depthVersion, setDepthVersion] = useState(0);
+  // Controls
+  const [depthStrength, setDepthStrength] = useState(
+    DEFAULT_SCENE.depthStrength
+  );
 
-  // Prebuilt depth slices (so we don't rebuild per light change)
-  const depthLayersRef = useRef<DepthLayer[]>([]);
-  const [depthLayersVersion, setDepthLayersVersion] = useState(0);
+  // Shadow color + how it blends into the background
+  const [shadowStyle, setShadowStyle] = useState<ShadowStyle>(
+    DEFAULT_SCENE.shadowStyle
+  );
 
-  // Controls
-  const [depthStrength, setDepthStrength] = useState(0.8);
+  // Contact (ambient occlusion) shadow; opacity 0 turns the pass off
+  const [contactShadow, setContactShadow] = useState<ContactShadowSettings>(
+    DEFAULT_SCENE.contactShadow
+  );
+  // Mirror image in a glossy floor or water
+  const [reflection, setReflection] = useState<ReflectionSettings>(
+    DEFAULT_SCENE.reflection
+  );
+  const [selfShading, setSelfShading] = useState<SelfShadingSettings>(
+    DEFAULT_SCENE.selfShading
+  );
 
-  // Depth calibration
-  const [invertDepth, setInvertDepth] = useState(false);
-  const [depthGamma, setDepthGamma] = useState(1.0); // 0.4..2.5 typical
-  const [layerCount, setLayerCount] = useState(16); // 8..32 typical
+  // Depth calibration: decoding and range, then invert / gamma
+  const [depthEncoding, setDepthEncoding] = useState<DepthEncoding>(
+    DEFAULT_SCENE.depth.encoding
+  );
+  const [depthAutoRange, setDepthAutoRange] = useState(
+    DEFAULT_SCENE.depth.autoRange
+  );
+  const [depthClipMin, setDepthClipMin] = useState(DEFAULT_SCENE.depth.clipMin);
+  const [depthClipMax, setDepthClipMax] = useState(DEFAULT_SCENE.depth.clipMax);
+  const [invertDepth, setInvertDepth] = useState(DEFAULT_SCENE.depth.invert);
+  const [depthGamma, setDepthGamma] = useState(DEFAULT_SCENE.depth.gamma); // 0.4..2.5 typical
+  const [layerCount, setLayerCount] = useState(DEFAULT_SCENE.depth.layerCount); // 8..32 typical
+  const [depthProjection, setDepthProjection] = useState<
+    DepthSettings["projection"]
+  >(DEFAULT_SCENE.depth.projection);
+  // Without a depth map, guess one from the mask
+  const [depthEstimate, setDepthEstimate] = useState(
+    DEFAULT_SCENE.depth.estimate
+  );
 
-  // Depth alignment (new)
-  // offset in pixels in the depth-sampling canvas space (same size as fgPlacement w/h)
-  const [depthOffsetX, setDepthOffsetX] = useState(0);
-  const [depthOffsetY, setDepthOffsetY] = useState(0);
-  // scale multiplier around center (1 = no scale)
-  const [depthScale, setDepthScale] = useState(1);
+  // Depth alignment: the map's place in the placement box (offsets in box
+  // pixels), edited with the sliders or on the onion-skin overlay
+  const [depthAlign, setDepthAlign] = useState<DepthAlignment>(
+    alignmentOf(DEFAULT_SCENE.depth)
+  );
+  const [editDepth, setEditDepth] = useState(false);
+  const [depthOverlayOpacity, setDepthOverlayOpacity] = useState(0.5);
+  const [depthMessage, setDepthMessage] = useState<string | null>(null);
+
+  // Batch: cutouts (+ matched depth maps) rendered with the current scene
+  const [batchItems, setBatchItems] = useState<BatchItem[]>([]);
+  const [batchProgress, setBatchProgress] = useState<BatchProgress | null>(
+    null
+  );
+  const [batchMessage, setBatchMessage] = useState<string | null>(null);
+  const batchAbort = useRef<AbortController | null>(null);
 
   // Optional: hide/show previews (new)
   const [showDepthPreview, setShowDepthPreview] = useState(true);
+  const [showSurfacePreview, setShowSurfacePreview] = useState(false);
+  // Cast shadow renderer (a view setting: not saved, not undone)
+  const [shadowRenderer, setShadowRenderer] = useState<ShadowRenderer>("cpu");
+
+  // -----------------------------
+  // Undo / redo: snapshots of the scene + images
+  // -----------------------------
+  function captureScene(): ProjectScene {
+    return {
+      lights,
+      ambient,
+      placement: fgPlacement,
+      cutout,
+      mask: maskRefinement,
+      contactPoints,
+      depthStrength,
+      depth: {
+        encoding: depthEncoding,
+        autoRange: depthAutoRange,
+        clipMin: depthClipMin,
+        clipMax: depthClipMax,
+        invert: invertDepth,
+        gamma: depthGamma,
+        projection: depthProjection,
+        layerCount,
+        ...depthAlign,
+        estimate: depthEstimate,
+      },
+      selfShading,
+      contactShadow,
+      shadowStyle,
+      ground: {
+        mode: groundMode,
+        quad: groundQuad,
+        lines: groundLines,
+        aspect: groundAspect,
+      },
+      surface,
+      reflection,
+    };
+  }
+
+  function applyScene(scene: ProjectScene) {
+    setLights(scene.lights);
+    setAmbient(scene.ambient);
+    setFgPlacement(scene.placement);
+    setCutout(scene.cutout);
+    setMaskRefinement(scene.mask);
+    setContactPoints(scene.contactPoints);
+    setDepthStrength(scene.depthStrength);
+    setDepthEncoding(scene.depth.encoding);
+    setDepthAutoRange(scene.depth.autoRange);
+    setDepthClipMin(scene.depth.clipMin);
+    setDepthClipMax(scene.depth.clipMax);
+    setInvertDepth(scene.depth.invert);
+    setDepthGamma(scene.depth.gamma);
+    setDepthProjection(scene.depth.projection);
+    setLayerCount(scene.depth.layerCount);
+    setDepthAlign(alignmentOf(scene.depth));
+    setDepthEstimate(scene.depth.estimate);
+    setSelfShading(scene.selfShading);
+    setContactShadow(scene.contactShadow);
+    setShadowStyle(scene.shadowStyle);
+    setGroundMode(scene.ground.mode);
+    setGroundQuad(scene.ground.quad);
+    setGroundLines(scene.ground.lines);
+    setGroundAspect(scene.ground.aspect);
+    setSurface(scene.surface);
+    setReflection(scene.reflection);
+  }
+
+  const history = useHistory<HistoryState>(
+    () => ({
+      scene: captureScene(),
+      fg: { src: fgSrc, img: fgImg, name: fgName },
+      bg: { src: bgSrc, img: bgImg, name: bgName },
+      depth: { src: depthSrc, img: depthImg, name: depthName },
+      surface: { src: surfaceSrc, img: surfaceImg, name: surfaceName },
+    }),
+    (state) => {
+      applyScene(state.scene);
+      setFgSrc(state.fg.src);
+      setFgImg(state.fg.img);
+      setFgName(state.fg.name);
+      setBgSrc(state.bg.src);
+      setBgImg(state.bg.img);
+      setBgName(state.bg.name);
+      setDepthSrc(state.depth.src);
+      setDepthImg(state.depth.img);
+      setDepthName(state.depth.name);
+      setSurfaceSrc(state.surface.src);
+      setSurfaceImg(state.surface.img);
+      setSurfaceName(state.surface.name);
+    }
+  );
+  const { record } = history;
+
+  // Ctrl+Z / Ctrl+Shift+Z (or Ctrl+Y); Cmd on macOS
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+      // Leave text fields their own undo
+      const t = e.target as HTMLElement | null;
+      if (t instanceof HTMLTextAreaElement || t?.isContentEditable) return;
+      if (t instanceof HTMLInputElement && /^(text|number)$/.test(t.type)) {
+        return;
+      }
+      const key = e.key.toLowerCase();
+      if (key === "z" && !e.shiftKey) history.undo();
+      else if ((key === "z" && e.shiftKey) || key === "y") history.redo();
+      else return;
+      e.preventDefault();
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  });
 
   // -----------------------------
   // File imports
   // -----------------------------
   async function onPickFg(file: File | null) {
     if (!file) {
+      record("Remove foreground");
       setFgSrc(null);
+      setFgImg(null);
+      setFgMessage(null);
       setFgPlacement(null);
+      setContactPoints(null);
+      return;
+    }
+    const src = await readFileAsDataURL(file);
+    let img: RgbaImage;
+    try {
+      img = await decodeImage(src);
+    } catch (err) {
+      setFgMessage(`${file.name}: ${(err as Error).message}`);
       return;
     }
-    setFgPlacement(null);
-    setFgSrc(await readFileAsDataURL(file));
+    record("Replace foreground");
+    setFgSrc(src);
+    setFgName(file.name);
+    setFgImg(img);
+    setFgMessage(null);
+    setFgPlacement(bgImg ? fitPlacement(bgImg, img) : null);
+    setContactPoints(null);
+    // The box and strokes were drawn on the old cutout
+    setCutout((c) => ({ ...c, box: null }));
+    setMaskRefinement((m) => ({ ...m, strokes: [] }));
   }
 
   async function onPickBg(file: File | null) {
     if (!file) {
+      record("Remove background");
       setBgSrc(null);
+      setBgImg(null);
+      setBgMessage(null);
       setFgPlacement(null);
+      setSurfaceSrc(null);
+      setSurfaceImg(null);
+      return;
+    }
+    const src = await readFileAsDataURL(file);
+    let img: RgbaImage;
+    try {
+      img = await decodeImage(src);
+    } catch (err) {
+      setBgMessage(`${file.name}: ${(err as Error).message}`);
+      return;
+    }
+    record("Replace background");
+    setBgSrc(src);
+    setBgName(file.name);
+    setBgImg(img);
+    setBgMessage(null);
+    setFgPlacement(fgImg ? fitPlacement(img, fgImg) : null);
+    setLightEstimate(null);
+    setReference(null);
+
+    // The old calibration belongs to the old photo
+    const quad = defaultGroundQuad(img.width, img.height);
+    setGroundQuad(quad);
+    setGroundLines(quadEdges(quad));
+    setSurfaceSrc(null);
+    setSurfaceImg(null);
+  }
+
+  async function onPickSurface(file: File | null) {
+    if (!file) {
+      record("Remove background depth map");
+      setSurfaceSrc(null);
+      setSurfaceImg(null);
+      return;
+    }
+    const src = await readFileAsDataURL(file);
+    let img: DepthMap;
+    try {
+      img = await decodeDepthMap(
+        src,
+        bgImg ? bgImg.width / bgImg.height : null,
+        "background"
+      );
+    } catch (err) {
+      setSurfaceMessage(`${file.name}: ${(err as Error).message}`);
       return;
     }
-    setFgPlacement(null);
-    setBgSrc(await readFileAsDataURL(file));
+    record("Replace background depth map");
+    setSurfaceSrc(src);
+    setSurfaceName(file.name);
+    setSurfaceImg(img);
+    setSurfaceMessage(null);
   }
 
   async function onPickDepth(file: File | null) {
     if (!file) {
+      record("Remove depth map");
       setDepthSrc(null);
+      setDepthImg(null);
+      return;
+    }
+    const src = await readFileAsDataURL(file);
+    let img: DepthMap;
+    try {
+      img = await decodeDepthMap(
+        src,
+        fgImg ? fgImg.width / fgImg.height : null,
+        "foreground"
+      );
+    } catch (err) {
+      setDepthMessage(`${file.name}: ${(err as Error).message}`);
+      return;
+    }
+    record("Replace depth map");
+    setDepthSrc(src);
+    setDepthName(file.name);
+    setDepthImg(img);
+    setDepthMessage(null);
+  }
+
+  // -----------------------------
+  // Project save / open
+  // -----------------------------
+  function projectImage(
+    src: string | null,
+    name: string | null
+  ): ProjectImage | null {
+    if (!src) return null;
+    return embedImages || !name ? { embedded: src } : { href: name };
+  }
+
+  function onSaveProject() {
+    const project: Project = {
+      format: PROJECT_FORMAT,
+      version: PROJECT_VERSION,
+      images: {
+        foreground: projectImage(fgSrc, fgName),
+        background: projectImage(bgSrc, bgName),
+        depth: projectImage(depthSrc, depthName),
+        surface: projectImage(surfaceSrc, surfaceName),
+      },
+      scene: captureScene(),
+    };
+    const blob = new Blob([stringifyProject(project)], {
+      type: "application/json",
+    });
+    downloadBlob(blob, `project_${makeStamp()}.json`);
+    setProjectMessage(null);
+  }
+
+  async function onOpenProject(file: File | null) {
+    if (!file) return;
+    let project: Project;
+    try {
+      project = parseProject(await file.text());
+    } catch (err) {
+      setProjectMessage(`${file.name}: ${(err as Error).message}`);
       return;
     }
-    setDepthSrc(await readFileAsDataURL(file));
+
+    // Referenced images resolve like URLs; local paths usually can't be read
+    // from the browser, so those are reported for re-upload.
+    const missing: string[] = [];
+    const load = async <T,>(
+      image: ProjectImage | null,
+      label: string,
+      decode: (src: string) => Promise<T>
+    ) => {
+      if (!image) return null;
+      const src = "embedded" in image ? image.embedded : image.href;
+      try {
+        return { src, img: await decode(src) };
+      } catch {
+        missing.push(`${label} (${src.slice(0, 60)})`);
+        return null;
+      }
+    };
+    const fg = await load(project.images.foreground, "foreground", decodeImage);
+    const bg = await load(project.images.background, "background", decodeImage);
+    const dm = await load(project.images.depth, "depth map", (src) =>
+      decodeDepthMap(
+        src,
+        fg ? fg.img.width / fg.img.height : null,
+        "foreground"
+      )
+    );
+    const sm = await load(
+      project.images.surface,
+      "background depth map",
+      (src) =>
+        decodeDepthMap(
+          src,
+          bg ? bg.img.width / bg.img.height : null,
+          "background"
+        )
+    );
+
+    const href = (image: ProjectImage | null) =>
+      image && "href" in image ? image.href : null;
+    record("Open project");
+    setFgSrc(fg?.src ?? null);
+    setFgImg(fg?.img ?? null);
+    setFgName(href(project.images.foreground));
+    setBgSrc(bg?.src ?? null);
+    setBgImg(bg?.img ?? null);
+    setBgName(href(project.images.background));
+    setDepthSrc(dm?.src ?? null);
+    setDepthImg(dm?.img ?? null);
+    setDepthName(href(project.images.depth));
+    setSurfaceSrc(sm?.src ?? null);
+    setSurfaceImg(sm?.img ?? null);
+    setSurfaceName(href(project.images.surface));
+
+    applyScene(project.scene);
+
+    setEditContact(false);
+    setEditGround(false);
+    setEditReference(false);
+    setReference(null);
+    setLightEstimate(null);
+    setProjectMessage(
+      missing.length > 0
+        ? `Opened ${file.name}; re-upload: ${missing.join(", ")}`
+        : `Opened ${file.name}`
+    );
   }
 
   // -----------------------------
@@ -132,6 +603,38 @@ export default function App() {
     await exportCanvas(shadowRef.current, `shadow_${makeStamp()}.png`);
   }
 
+  async function onExportContactShadow() {
+    await exportCanvas(
+      contactShadowRef.current,
+      `contact_shadow_${makeStamp()}.png`
+    );
+  }
+
+  async function onExportReflection() {
+    await exportCanvas(reflectionRef.current, `reflection_${makeStamp()}.png`);
+  }
+
+  // One file with every pass as its own layer, for finishing in an editor.
+  // Rendered again here: the worker only hands back display frames.
+  async function onExportLayered(format: "psd" | "ora") {
+    if (!renderRequest || !bgImg || !fgImg) return;
+    let bytes: Uint8Array;
+    try {
+      bytes = await rendered.exportLayers(renderRequest, format);
+    } catch (err) {
+      setExportMessage(`Layer export failed: ${(err as Error).message}`);
+      return;
+    }
+    setExportMessage(null);
+    downloadBlob(
+      new Blob([bytes.buffer as ArrayBuffer], {
+        type:
+          format === "psd" ? "image/vnd.adobe.photoshop" : "image/openraster",
+      }),
+      `layers_${makeStamp()}.${format}`
+    );
+  }
+
   async function onExportMask() {
     await exportCanvas(maskRef.current, `mask_${makeStamp()}.png`);
   }
@@ -187,597 +690,440 @@ export default function App() {
   }
 
   // -----------------------------
-  // Compute fgPlacement (once bg+fg are loaded)
+  // Batch
   // -----------------------------
-  useEffect(() => {
-    if (!bgSrc || !fgSrc) return;
-
-    const canvas = canvasRef.current;
-    if (!canvas) return;
-
-    let cancelled = false;
-
-    const bg = new Image();
-    const fg = new Image();
-
-    const tryCompute = () => {
-      if (cancelled) return;
-      if (!bg.complete || !fg.complete) return;
-      if (bg.naturalWidth === 0 || fg.naturalWidth === 0) return;
-
-      canvas.width = bg.naturalWidth;
-      canvas.height = bg.naturalHeight;
+  function onPickBatch(files: FileList | null) {
+    const { items, unmatchedDepth } = pairBatchFiles(
+      files ? Array.from(files) : []
+    );
+    setBatchItems(items);
+    const withDepth = items.filter((item) => item.depth).length;
+    setBatchMessage(
+      `${items.length} cutouts, ${withDepth} with depth` +
+        (unmatchedDepth.length > 0
+          ? `; no cutout for ${unmatchedDepth.join(", ")}`
+          : "")
+    );
+  }
 
-      const scale = Math.min(
-        1,
-        canvas.width / fg.naturalWidth,
-        canvas.height / fg.naturalHeight
+  async function onRunBatch() {
+    if (!bgImg || batchItems.length === 0) return;
+    const controller = new AbortController();
+    batchAbort.current = controller;
+    const stamp = makeStamp();
+    try {
+      const { zip, failed } = await runBatch(
+        batchItems,
+        bgImg,
+        captureScene(),
+        {
+          stamp,
+          surface: surfaceImg,
+          signal: controller.signal,
+          onProgress: setBatchProgress,
+        }
       );
-
-      const w = Math.round(scale * fg.naturalWidth);
-      const h = Math.round(scale * fg.naturalHeight);
-      const x = Math.round((canvas.width - w) / 2);
-      const y = Math.round(canvas.height - h);
-
-      setFgPlacement({ x, y, w, h });
-    };
-
-    bg.onload = tryCompute;
-    fg.onload = tryCompute;
-    bg.src = bgSrc;
-    fg.src = fgSrc;
-
-    return () => {
-      cancelled = true;
-    };
-  }, [bgSrc, fgSrc]);
+      downloadBlob(zip, `batch_${stamp}.zip`);
+      setBatchMessage(
+        `Done: ${batchItems.length - failed.length} of ${batchItems.length}` +
+          (failed.length > 0 ? `; skipped ${failed.join("; ")}` : "")
+      );
+    } catch (err) {
+      setBatchMessage(
+        controller.signal.aborted
+          ? "Batch cancelled"
+          : `Batch failed: ${(err as Error).message}`
+      );
+    } finally {
+      batchAbort.current = null;
+      setBatchProgress(null);
+    }
+  }
 
   // -----------------------------
-  // Draw composite: BG -> Shadow -> FG
+  // Shadow pipeline (pure, see ./shadow)
   // -----------------------------
-  useEffect(() => {
-    if (!bgSrc) return;
-
-    const canvas = canvasRef.current;
-    if (!canvas) return;
+  const onPlacementChange = useCallback(
+    (p: Placement) => {
+      record("Transform subject");
+      setFgPlacement(p);
+    },
+    [record]
+  );
 
-    const ctx = canvas.getContext("2d");
-    if (!ctx) return;
+  function onResetPlacement() {
+    if (!bgImg || !fgImg) return;
+    record("Reset placement");
+    setFgPlacement(fitPlacement(bgImg, fgImg));
+  }
 
-    let cancelled = false;
+  // Manual contact points in background pixels, for the overlay
+  const contactPointsBg = useMemo(
+    () =>
+      contactPoints && fgPlacement
+        ? contactPointsToBackground(contactPoints, fgPlacement)
+        : [],
+    [contactPoints, fgPlacement]
+  );
 
-    const bg = new Image();
-    bg.onload = () => {
-      if (cancelled) return;
+  const onContactPointsChange = useCallback(
+    (points: Point[]) => {
+      if (!fgPlacement) return;
+      record("Contact points");
+      setContactPoints(contactPointsToPlacement(points, fgPlacement));
+    },
+    [fgPlacement, record]
+  );
 
-      if (
-        canvas.width !== bg.naturalWidth ||
-        canvas.height !== bg.naturalHeight
-      ) {
-        canvas.width = bg.naturalWidth;
-        canvas.height = bg.naturalHeight;
-      }
+  // Slider / picker edits of grouped settings, one undo label per group
+  function editContactShadow(
+    update: (s: ContactShadowSettings) => ContactShadowSettings
+  ) {
+    record("Contact shadow");
+    setContactShadow(update);
+  }
 
-      ctx.clearRect(0, 0, canvas.width, canvas.height);
-      ctx.drawImage(bg, 0, 0);
+  function editReflection(
+    label: string,
+    update: (s: ReflectionSettings) => ReflectionSettings
+  ) {
+    record(label);
+    setReflection(update);
+  }
 
-      const shadowCanvas = shadowRef.current;
-      if (shadowCanvas && shadowCanvas.width > 0 && shadowCanvas.height > 0) {
-        ctx.drawImage(shadowCanvas, 0, 0);
-      }
+  function editDepthAlign(label: string, update: Partial<DepthAlignment>) {
+    record(label);
+    setDepthAlign((a) => ({ ...a, ...update }));
+  }
 
-      if (!fgSrc || !fgPlacement) return;
-
-      const fg = new Image();
-      fg.onload = () => {
-        if (cancelled) return;
-        ctx.drawImage(
-          fg,
-          fgPlacement.x,
-          fgPlacement.y,
-          fgPlacement.w,
-          fgPlacement.h
-        );
-      };
-      fg.src = fgSrc;
-    };
+  function onAutoAlignDepth() {
+    if (!depthImg || !fgImg || !fgPlacement) return;
+    const a = alignDepth(
+      depthImg,
+      fgImg,
+      captureScene().depth,
+      fgPlacement.w,
+      fgPlacement.h
+    );
+    if (!a) {
+      setDepthMessage("Auto align: no clear subject outline in the depth map");
+      return;
+    }
+    editDepthAlign("Auto align depth", {
+      ...a,
+      offsetX: Math.round(a.offsetX),
+      offsetY: Math.round(a.offsetY),
+    });
+    setDepthMessage(null);
+  }
 
-    bg.src = bgSrc;
+  function editCutout(
+    label: string,
+    update: (c: BackgroundRemoval) => BackgroundRemoval
+  ) {
+    record(label);
+    setCutout(update);
+  }
 
-    return () => {
-      cancelled = true;
-    };
-  }, [bgSrc, fgSrc, fgPlacement, shadowVersion]);
+  function editMask(
+    label: string,
+    update: (m: MaskRefinement) => MaskRefinement
+  ) {
+    record(label);
+    setMaskRefinement(update);
+  }
 
-  // -----------------------------
-  // Build mask from FG alpha
-  // -----------------------------
-  useEffect(() => {
-    if (!fgSrc) return;
-    if (!fgPlacement) return;
+  function editSurface(
+    label: string,
+    update: (s: SurfaceSettings) => SurfaceSettings
+  ) {
+    record(label);
+    setSurface(update);
+  }
 
-    const maskCanvas = maskRef.current;
-    if (!maskCanvas) return;
+  function editSelfShading(
+    update: (s: SelfShadingSettings) => SelfShadingSettings
+  ) {
+    record("Self-shading");
+    setSelfShading(update);
+  }
 
-    const ctx = maskCanvas.getContext("2d");
-    if (!ctx) return;
+  function editShadowStyle(update: (s: ShadowStyle) => ShadowStyle) {
+    record("Shadow color");
+    setShadowStyle(update);
+  }
 
-    const off = document.createElement("canvas");
-    off.width = fgPlacement.w;
-    off.height = fgPlacement.h;
+  // Editing starts from the detected line's end points
+  function onToggleEditContact(on: boolean) {
+    setEditContact(on);
+    if (on && !contactPoints && contact && fgPlacement) {
+      const ends: Point[] = [
+        [contact.x0, contact.y0],
+        [contact.x1, contact.y1],
+      ];
+      record("Contact points");
+      setContactPoints(contactPointsToPlacement(ends, fgPlacement));
+    }
+  }
 
-    const offCtx = off.getContext("2d", { willReadFrequently: true });
-    if (!offCtx) return;
+  // Lines mode: the rectangle is where the two pairs of lines cross
+  const groundPlane = useMemo<GroundPlane | undefined>(
+    () =>
+      sceneGroundPlane({
+        mode: groundMode,
+        quad: groundQuad,
+        lines: groundLines,
+        aspect: groundAspect,
+      }),
+    [groundMode, groundQuad, groundLines, groundAspect]
+  );
 
-    const fg = new Image();
-    fg.onload = () => {
-      offCtx.clearRect(0, 0, off.width, off.height);
-      offCtx.drawImage(fg, 0, 0, off.width, off.height);
+  // Points the key light (first in the list) at the guess, keeping the rest
+  // of its settings.
+  function applyLightGuess(
+    label: string,
+    guess: { angle: number; elev: number }
+  ) {
+    record(label);
+    setLights(
+      lights.map((l, i) =>
+        i === 0
+          ? {
+              ...l,
+              kind: "directional",
+              angle: Math.round(guess.angle),
+              elev: Math.round(guess.elev),
+            }
+          : l
+      )
+    );
+  }
 
-      const imgData = offCtx.getImageData(0, 0, off.width, off.height);
-      const d = imgData.data;
+  function onEstimateLight() {
+    if (!bgImg) return;
+    const estimate = estimateLight(bgImg);
+    setLightEstimate(estimate);
+    applyLightGuess("Estimate light", estimate);
+  }
 
-      for (let i = 0; i < d.length; i += 4) {
-        const a = d[i + 3];
-        d[i + 0] = 255;
-        d[i + 1] = 255;
-        d[i + 2] = 255;
-        d[i + 3] = a;
-      }
+  function onApplyReference() {
+    if (!reference) return;
+    const guess = lightFromReference(
+      reference,
+      lights[0].elev,
+      groundPlane ? 0 : undefined
+    );
+    if (guess) applyLightGuess("Light from reference", guess);
+  }
 
-      maskCanvas.width = off.width;
-      maskCanvas.height = off.height;
-      ctx.putImageData(imgData, 0, 0);
-      setMaskVersion((v) => v + 1);
-    };
+  // Everything below the placement runs in the render worker; stages whose
+  // inputs didn't change are reused there (see pipeline.ts)
+  const renderRequest = useMemo<PipelineRequest | null>(
+    () =>
+      fgPlacement
+        ? {
+            scene: {
+              lights,
+              ambient,
+              placement: fgPlacement,
+              cutout,
+              mask: maskRefinement,
+              contactPoints,
+              depthStrength,
+              depth: {
+                encoding: depthEncoding,
+                autoRange: depthAutoRange,
+                clipMin: depthClipMin,
+                clipMax: depthClipMax,
+                invert: invertDepth,
+                gamma: depthGamma,
+                projection: depthProjection,
+                layerCount,
+                ...depthAlign,
+                estimate: depthEstimate,
+              },
+              selfShading,
+              contactShadow,
+              shadowStyle,
+              ground: {
+                mode: groundMode,
+                quad: groundQuad,
+                lines: groundLines,
+                aspect: groundAspect,
+              },
+              surface,
+              reflection,
+            },
+            showDepthPreview,
+            showSurfacePreview,
+            renderer: shadowRenderer,
+          }
+        : null,
+    [
+      lights,
+      ambient,
+      fgPlacement,
+      cutout,
+      maskRefinement,
+      contactPoints,
+      depthStrength,
+      depthEncoding,
+      depthAutoRange,
+      depthClipMin,
+      depthClipMax,
+      invertDepth,
+      depthGamma,
+      depthProjection,
+      layerCount,
+      depthAlign,
+      depthEstimate,
+      selfShading,
+      contactShadow,
+      shadowStyle,
+      groundMode,
+      groundQuad,
+      groundLines,
+      groundAspect,
+      surface,
+      reflection,
+      showDepthPreview,
+      showSurfacePreview,
+      shadowRenderer,
+    ]
+  );
 
-    fg.src = fgSrc;
-  }, [fgSrc, fgPlacement]);
+  const rendered = useRenderWorker(
+    { fg: fgImg, bg: bgImg, depth: depthImg, surface: surfaceImg },
+    renderRequest
+  );
+  const { frames, contact } = rendered;
 
   // -----------------------------
-  // Build depth buffer from depthSrc (with invert/gamma + alignment)
+  // Present results on the preview canvases
   // -----------------------------
+  // Composite; the background alone without a foreground
   useEffect(() => {
-    let cancelled = false;
-
-    async function buildDepth() {
-      if (!depthSrc || !fgPlacement) {
-        setDepthBuf(null);
-        setDepthW(0);
-        setDepthH(0);
-        setDepthVersion((v) => v + 1);
-        return;
-      }
-
-      const w = Math.max(1, Math.round(fgPlacement.w));
-      const h = Math.max(1, Math.round(fgPlacement.h));
-
-      let c = depthCanvasRef.current;
-      if (!c) {
-        c = document.createElement("canvas");
-        depthCanvasRef.current = c;
-      }
-      c.width = w;
-      c.height = h;
+    const c = canvasRef.current;
+    if (!c) return;
+    if (frames.composite) putFrame(c, frames.composite);
+    else if (bgImg) putImage(c, bgImg);
+    else clearCanvas(c);
+  }, [frames.composite, bgImg]);
 
-      const ctx = c.getContext("2d", { willReadFrequently: true });
-      if (!ctx) return;
-
-      const img = await loadImage(depthSrc);
-      if (cancelled) return;
-
-      // Draw depth image into the sampling canvas, with center-scale + offsets.
-      ctx.setTransform(1, 0, 0, 1, 0, 0);
-      ctx.clearRect(0, 0, w, h);
-
-      const s = Math.max(0.1, Math.min(4, depthScale));
-      const dx = depthOffsetX;
-      const dy = depthOffsetY;
-
-      // baseline draw is "fill the same w/h"
-      const dw = w * s;
-      const dh = h * s;
-      const x = (w - dw) / 2 + dx;
-      const y = (h - dh) / 2 + dy;
-
-      ctx.drawImage(img, x, y, dw, dh);
-
-      const id = ctx.getImageData(0, 0, w, h);
-      const data = id.data;
-
-      const buf = new Float32Array(w * h);
-
-      for (let i = 0, p = 0; i < data.length; i += 4, p++) {
-        const r = data[i];
-        const g = data[i + 1];
-        const b = data[i + 2];
-
-        let z = (r + g + b) / (3 * 255); // 0..1
-        if (invertDepth) z = 1 - z;
-
-        // gamma: <1 boosts highlights, >1 boosts shadows
-        z = Math.pow(clamp01(z), depthGamma);
-
-        buf[p] = z;
-      }
-
-      if (cancelled) return;
-
-      setDepthBuf(buf);
-      setDepthW(w);
-      setDepthH(h);
-      setDepthVersion((v) => v + 1);
-    }
-
-    buildDepth();
-
-    return () => {
-      cancelled = true;
-    };
-  }, [
-    depthSrc,
-    fgPlacement,
-    invertDepth,
-    depthGamma,
-    depthScale,
-    depthOffsetX,
-    depthOffsetY,
-  ]);
-
-  // -----------------------------
-  // Depth preview render (new): processed depth + masked depth
-  // -----------------------------
   useEffect(() => {
-    const c1 = depthPreviewRef.current;
-    const c2 = depthMaskedPreviewRef.current;
-
-    // If previews are hidden, keep canvases minimal (but still valid)
-    if (!showDepthPreview) {
-      if (c1) {
-        c1.width = 1;
-        c1.height = 1;
-        const x = c1.getContext("2d");
-        x?.clearRect(0, 0, 1, 1);
-      }
-      if (c2) {
-        c2.width = 1;
-        c2.height = 1;
-        const x = c2.getContext("2d");
-        x?.clearRect(0, 0, 1, 1);
-      }
-      return;
-    }
-
-    if (!depthBuf || depthW <= 0 || depthH <= 0) {
-      if (c1) {
-        c1.width = 1;
-        c1.height = 1;
-        const x = c1.getContext("2d");
-        x?.clearRect(0, 0, 1, 1);
-      }
-      if (c2) {
-        c2.width = 1;
-        c2.height = 1;
-        const x = c2.getContext("2d");
-        x?.clearRect(0, 0, 1, 1);
-      }
-      return;
-    }
-
-    const w = depthW;
-    const h = depthH;
-
-    // Build grayscale image (opaque)
-    const img = new ImageData(w, h);
-    const id = img.data;
-
-    for (let p = 0; p < w * h; p++) {
-      const v = Math.round(clamp01(depthBuf[p]) * 255);
-      const o = p * 4;
-      id[o + 0] = v;
-      id[o + 1] = v;
-      id[o + 2] = v;
-      id[o + 3] = 255;
-    }
-
-    if (c1) {
-      if (c1.width !== w) c1.width = w;
-      if (c1.height !== h) c1.height = h;
-      const ctx = c1.getContext("2d", { willReadFrequently: true });
-      ctx?.putImageData(img, 0, 0);
-    }
-
-    // Build masked grayscale image (alpha from mask)
-    if (c2) {
-      if (c2.width !== w) c2.width = w;
-      if (c2.height !== h) c2.height = h;
-
-      const out = new ImageData(w, h);
-      const od = out.data;
-
-      let maskAlpha: Uint8ClampedArray | null = null;
-      const maskCanvas = maskRef.current;
-      if (maskCanvas && maskCanvas.width === w && maskCanvas.height === h) {
-        const mctx = maskCanvas.getContext("2d", { willReadFrequently: true });
-        if (mctx) {
-          const mid = mctx.getImageData(0, 0, w, h).data;
-          maskAlpha = new Uint8ClampedArray(w * h);
-          for (let p = 0; p < w * h; p++) {
-            maskAlpha[p] = mid[p * 4 + 3];
-          }
-        }
-      }
-
-      for (let p = 0; p < w * h; p++) {
-        const v = Math.round(clamp01(depthBuf[p]) * 255);
-        const a = maskAlpha ? maskAlpha[p] : 255;
-        const o = p * 4;
-        od[o + 0] = v;
-        od[o + 1] = v;
-        od[o + 2] = v;
-        od[o + 3] = a; // transparent outside subject
-      }
-
-      const ctx2 = c2.getContext("2d", { willReadFrequently: true });
-      ctx2?.putImageData(out, 0, 0);
+    const c = maskRef.current;
+    if (frames.mask) {
+      if (c) putFrame(c, frames.mask);
+    } else {
+      clearCanvas(c);
     }
-  }, [showDepthPreview, depthBuf, depthW, depthH, maskVersion]);
+  }, [frames.mask]);
 
-  // -----------------------------
-  // Pre-slice mask into depth layers (rebuild only when mask/depth changes)
-  // -----------------------------
   useEffect(() => {
-    const maskCanvas = maskRef.current;
-
-    if (!maskCanvas || !fgPlacement || !depthBuf) {
-      depthLayersRef.current = [];
-      setDepthLayersVersion((v) => v + 1);
-      return;
+    const c = shadowRef.current;
+    if (frames.shadow) {
+      if (c) putFrame(c, frames.shadow);
+    } else {
+      clearCanvas(c);
     }
+  }, [frames.shadow]);
 
-    const w = fgPlacement.w;
-    const h = fgPlacement.h;
-
-    if (maskCanvas.width !== w || maskCanvas.height !== h) {
-      depthLayersRef.current = [];
-      setDepthLayersVersion((v) => v + 1);
-      return;
+  useEffect(() => {
+    const c = contactShadowRef.current;
+    if (frames.contactShadow) {
+      if (c) putFrame(c, frames.contactShadow);
+    } else {
+      clearCanvas(c);
     }
+  }, [frames.contactShadow]);
 
-    if (depthW !== w || depthH !== h) {
-      depthLayersRef.current = [];
-      setDepthLayersVersion((v) => v + 1);
-      return;
+  // Reflection layer (transparent when off)
+  useEffect(() => {
+    const c = reflectionRef.current;
+    if (frames.reflection) {
+      if (c) putFrame(c, frames.reflection);
+    } else {
+      clearCanvas(c);
     }
+  }, [frames.reflection]);
 
-    const mctx = maskCanvas.getContext("2d", { willReadFrequently: true });
-    if (!mctx) {
-      depthLayersRef.current = [];
-      setDepthLayersVersion((v) => v + 1);
-      return;
+  // Shading layer (transparent when off or without depth)
+  useEffect(() => {
+    const c = selfShadingRef.current;
+    if (frames.selfShading) {
+      if (c) putFrame(c, frames.selfShading);
+    } else {
+      clearCanvas(c);
     }
+  }, [frames.selfShading]);
 
-    const maskId = mctx.getImageData(0, 0, w, h);
-    const maskData = maskId.data;
-
-    const layerCountLocal = Math.max(1, Math.round(layerCount));
-    const layers: DepthLayer[] = [];
-
-    for (let li = 0; li < layerCountLocal; li++) {
-      const z0 = li / layerCountLocal;
-      const z1 = (li + 1) / layerCountLocal;
-      const zMid = (z0 + z1) * 0.5;
-
-      const c = document.createElement("canvas");
-      c.width = w;
-      c.height = h;
-
-      const ctx = c.getContext("2d", { willReadFrequently: true });
-      if (!ctx) continue;
-
-      const out = new ImageData(w, h);
-      const outData = out.data;
-
-      for (let p = 0; p < w * h; p++) {
-        const a = maskData[p * 4 + 3];
-        if (a === 0) continue;
-
-        const z = depthBuf[p];
-        const inRange =
-          li === layerCountLocal - 1 ? z >= z0 && z <= 1 : z >= z0 && z < z1;
-        if (!inRange) continue;
-
-        // store as black with alpha
-        outData[p * 4 + 0] = 0;
-        outData[p * 4 + 1] = 0;
-        outData[p * 4 + 2] = 0;
-        outData[p * 4 + 3] = a;
-      }
-
-      ctx.putImageData(out, 0, 0);
-      layers.push({ canvas: c, zMid });
+  // Depth previews: processed depth + masked depth; none = keep the canvases
+  // minimal (but still valid)
+  useEffect(() => {
+    const c = depthPreviewRef.current;
+    if (frames.depthPreview) {
+      if (c) putFrame(c, frames.depthPreview);
+    } else {
+      clearCanvas(c);
     }
+  }, [frames.depthPreview]);
 
-    depthLayersRef.current = layers;
-    setDepthLayersVersion((v) => v + 1);
-  }, [fgPlacement, maskVersion, depthVersion, depthBuf, depthW, depthH, layerCount]);
-
-  // -----------------------------
-  // Draw shadow (depth-aware when depth layers exist)
-  // -----------------------------
   useEffect(() => {
-    if (!bgSrc) return;
-    if (!fgSrc) return;
-    if (!fgPlacement) return;
-
-    const baseCanvas = canvasRef.current;
-    const shadowCanvas = shadowRef.current;
-    const maskCanvas = maskRef.current;
-    if (!baseCanvas || !shadowCanvas || !maskCanvas) return;
-    if (maskCanvas.width === 0 || maskCanvas.height === 0) return;
-
-    const sctx = shadowCanvas.getContext("2d");
-    if (!sctx) return;
-
-    shadowCanvas.width = baseCanvas.width;
-    shadowCanvas.height = baseCanvas.height;
-
-    sctx.clearRect(0, 0, shadowCanvas.width, shadowCanvas.height);
-    sctx.setTransform(1, 0, 0, 1, 0, 0);
-    sctx.globalAlpha = 1;
-    sctx.filter = "none";
-    sctx.globalCompositeOperation = "source-over";
-
-    const w = fgPlacement.w;
-    const h = fgPlacement.h;
-
-    const rad = (light.angle * Math.PI) / 180;
-    const dirX = -Math.cos(rad);
-    const dirY = Math.sin(rad);
-
-    const elevClamped = Math.max(1, Math.min(89, light.elev));
-    const elevRad = (elevClamped * Math.PI) / 180;
-    const kBase = 1 / Math.tan(elevRad);
-
-    const squash = 0.7;
-    const perpX = -dirY;
-    const perpY = dirX;
-
-    // Anchor at bottom-center of subject
-    const ax = fgPlacement.x + w / 2;
-    const ay = fgPlacement.y + h;
-
-    const layers = depthLayersRef.current;
-
-    // Fallback: no depth layers -> old single-mask method
-    if (!layers || layers.length === 0) {
-      const c = -kBase * dirX + squash * perpX;
-      const d = -kBase * dirY + squash * perpY;
-
-      sctx.save();
-      sctx.translate(ax, ay);
-      sctx.transform(1, 0, c, d, 0, 0);
-
-      const invTan = 1 / Math.tan(elevRad);
-      const blurPx = Math.round(6 * Math.max(0.7, Math.min(2.0, invTan)));
-
-      // blurred layer
-      sctx.filter = `blur(${blurPx}px)`;
-      sctx.globalAlpha = 0.45;
-      sctx.globalCompositeOperation = "source-over";
-      sctx.drawImage(maskCanvas, -w / 2, -h, w, h);
-      sctx.globalCompositeOperation = "source-in";
-      sctx.fillStyle = "black";
-      sctx.fillRect(-w / 2, -h, w, h);
-
-      // sharp layer
-      sctx.filter = "none";
-      sctx.globalAlpha = 0.9;
-      sctx.globalCompositeOperation = "source-over";
-      sctx.drawImage(maskCanvas, -w / 2, -h, w, h);
-      sctx.globalCompositeOperation = "source-in";
-      sctx.fillStyle = "black";
-      sctx.fillRect(-w / 2, -h, w, h);
-
-      // fade (vertical in local space)
-      sctx.filter = "none";
-      sctx.globalAlpha = 1;
-      sctx.globalCompositeOperation = "destination-in";
-
-      const fade = sctx.createLinearGradient(0, -h, 0, 0);
-      fade.addColorStop(0.0, "rgba(0,0,0,0.0)");
-      fade.addColorStop(0.6, "rgba(0,0,0,0.6)");
-      fade.addColorStop(1.0, "rgba(0,0,0,1.0)");
-
-      sctx.fillStyle = fade;
-      sctx.fillRect(-w / 2, -h, w, h);
-
-      sctx.globalCompositeOperation = "source-over";
-      sctx.globalAlpha = 1;
-      sctx.filter = "none";
-      sctx.restore();
-
-      setShadowVersion((v) => v + 1);
-      return;
+    const c = depthMaskedPreviewRef.current;
+    if (frames.depthMaskedPreview) {
+      if (c) putFrame(c, frames.depthMaskedPreview);
+    } else {
+      clearCanvas(c);
     }
+  }, [frames.depthMaskedPreview]);
 
-    // Depth-aware draw
-    const invTan = 1 / Math.tan(elevRad);
-    const baseBlur = Math.round(6 * Math.max(0.7, Math.min(2.0, invTan)));
-
-    for (const layer of layers) {
-      const z = clamp01(layer.zMid);
-
-      // cast length varies by depth
-      const kLayer = kBase * (1 + depthStrength * z);
-
-      const cL = -kLayer * dirX + squash * perpX;
-      const dL = -kLayer * dirY + squash * perpY;
-
-      // deeper -> blurrier + lighter
-      const blurMult = lerp(0.7, 1.8, z);
-      const blurPx = Math.round(baseBlur * blurMult);
-
-      const sharpAlpha = lerp(0.85, 0.25, z);
-      const blurAlpha = lerp(0.06, 0.2, z);
-
-      sctx.save();
-      sctx.translate(ax, ay);
-      sctx.transform(1, 0, cL, dL, 0, 0);
-      sctx.globalCompositeOperation = "source-over";
-
-      // blurred
-      sctx.filter = `blur(${blurPx}px)`;
-      sctx.globalAlpha = blurAlpha;
-      sctx.drawImage(layer.canvas, -w / 2, -h, w, h);
-
-      // sharp
-      sctx.filter = "none";
-      sctx.globalAlpha = sharpAlpha;
-      sctx.drawImage(layer.canvas, -w / 2, -h, w, h);
-
-      sctx.restore();
+  useEffect(() => {
+    const c = surfacePreviewRef.current;
+    if (frames.surfacePreview) {
+      if (c) putFrame(c, frames.surfacePreview);
+    } else {
+      clearCanvas(c);
     }
+  }, [frames.surfacePreview]);
+
+  // Depth drives the shadow from a loaded map or an estimate; invert and
+  // gamma only calibrate a loaded one
+  const depthReady = (!!depthImg || depthEstimate) && !!fgPlacement;
+  const keying = cutout.mode === "color" || cutout.mode === "flood";
+  // What "key color from border" picks, shown in the color input
+  const fgBorderColor = useMemo(
+    () => (fgImg ? borderColor(fgImg) : null),
+    [fgImg]
+  );
 
-    // Fade the whole shadow along cast direction in screen space
-    sctx.save();
-    sctx.setTransform(1, 0, 0, 1, 0, 0);
-    sctx.globalCompositeOperation = "destination-in";
-    sctx.filter = "none";
-    sctx.globalAlpha = 1;
-
-    const maxLen = Math.max(
-      10,
-      h * kBase * (1 + Math.max(0, depthStrength)) * 0.9
-    );
-    const gx0 = ax;
-    const gy0 = ay;
-    const gx1 = ax + dirX * maxLen;
-    const gy1 = ay + dirY * maxLen;
-
-    const g = sctx.createLinearGradient(gx0, gy0, gx1, gy1);
-    g.addColorStop(0.0, "rgba(0,0,0,1.0)");
-    g.addColorStop(0.75, "rgba(0,0,0,0.55)");
-    g.addColorStop(1.0, "rgba(0,0,0,0.0)");
-
-    sctx.fillStyle = g;
-    sctx.fillRect(0, 0, shadowCanvas.width, shadowCanvas.height);
-
-    sctx.restore();
-
-    setShadowVersion((v) => v + 1);
-  }, [
-    bgSrc,
-    fgSrc,
-    fgPlacement,
-    light,
-    maskVersion,
-    depthVersion,
-    depthLayersVersion,
-    depthStrength,
-  ]);
-
-  const depthReady = !!depthBuf && depthW > 0 && depthH > 0;
+  // The calibrated map for the alignment overlay; alignment edits reuse it
+  const depthOverlayImage = useMemo(
+    () =>
+      depthImg
+        ? renderDepthMap(depthImg, {
+            ...alignmentOf(DEFAULT_SCENE.depth),
+            encoding: depthEncoding,
+            autoRange: depthAutoRange,
+            clipMin: depthClipMin,
+            clipMax: depthClipMax,
+            invert: invertDepth,
+            gamma: depthGamma,
+          })
+        : null,
+    [
+      depthImg,
+      depthEncoding,
+      depthAutoRange,
+      depthClipMin,
+      depthClipMax,
+      invertDepth,
+      depthGamma,
+    ]
+  );
+  const depthLoaded = !!depthImg && !!fgPlacement;
+  // The relief comes from a loaded map or an estimate of the background
+  const surfaceReady = (!!surfaceImg || surface.estimate) && !!bgImg;
+  const reflectionReady = reflection.enabled && !!fgPlacement;
 
   return (
     <div
@@ -809,6 +1155,10 @@ export default function App() {
           />
         </label>
 
+        {fgMessage && (
+          <div style={{ opacity: 0.8, fontSize: 12 }}>{fgMessage}</div>
+        )}
+
         <label style={{ display: "grid", gap: 6 }}>
           Upload Background
           <input
@@ -818,31 +1168,951 @@ export default function App() {
           />
         </label>
 
+        {bgMessage && (
+          <div style={{ opacity: 0.8, fontSize: 12 }}>{bgMessage}</div>
+        )}
+
         <label style={{ display: "grid", gap: 6 }}>
-          Upload Depth Map (aligned to foreground)
+          Upload Depth Map (image, 16-bit PNG, PFM, EXR or raw float32)
           <input
             type="file"
-            accept="image/*"
+            accept="image/*,.pfm,.exr,.raw,.f32"
             onChange={(e) => onPickDepth(e.target.files?.[0] ?? null)}
           />
         </label>
 
         <div style={{ opacity: 0.8, fontSize: 12, marginTop: 6 }}>
-          Depth loaded: {depthSrc ? "yes" : "no"} | Buffer:{" "}
-          {depthReady ? `${depthW}x${depthH}` : "none"} | Depth v: {depthVersion}
+          Depth loaded:{" "}
+          {depthImg
+            ? `${depthImg.width}x${depthImg.height} ${isDepthSamples(depthImg) ? "float" : "8-bit"}`
+            : depthEstimate
+              ? "estimated"
+              : "no"}{" "}
+          | Buffer:{" "}
+          {rendered.depthSize
+            ? `${rendered.depthSize.width}x${rendered.depthSize.height}`
+            : "none"}
         </div>
-      </div>
 
-      {/* Controls */}
-      <div
-        style={{
-          marginTop: 14,
-          display: "flex",
-          gap: 16,
-          flexWrap: "wrap",
-          alignItems: "end",
-        }}
+        {depthMessage && (
+          <div style={{ opacity: 0.8, fontSize: 12 }}>{depthMessage}</div>
+        )}
+
+        <label style={{ display: "grid", gap: 6 }}>
+          Upload Background Depth / Height Map
+          <input
+            type="file"
+            accept="image/*,.pfm,.exr,.raw,.f32"
+            onChange={(e) => onPickSurface(e.target.files?.[0] ?? null)}
+          />
+        </label>
+
+        <div style={{ opacity: 0.8, fontSize: 12, marginTop: 6 }}>
+          Background relief:{" "}
+          {surfaceImg
+            ? `${surfaceImg.width}x${surfaceImg.height} ${isDepthSamples(surfaceImg) ? "float" : "8-bit"}`
+            : surface.estimate
+              ? "estimated"
+              : "flat"}
+        </div>
+
+        {surfaceMessage && (
+          <div style={{ opacity: 0.8, fontSize: 12 }}>{surfaceMessage}</div>
+        )}
+      </div>
+
+      {/* Project */}
+      <div
+        style={{
+          marginTop: 10,
+          display: "flex",
+          gap: 12,
+          flexWrap: "wrap",
+          alignItems: "center",
+        }}
+      >
+        <button onClick={onSaveProject}>Save Project</button>
+
+        <label style={{ display: "flex", gap: 8, alignItems: "center" }}>
+          Open Project
+          <input
+            type="file"
+            accept=".json,application/json"
+            onChange={(e) => {
+              onOpenProject(e.target.files?.[0] ?? null);
+              e.target.value = "";
+            }}
+          />
+        </label>
+
+        <label style={{ display: "flex", gap: 8, alignItems: "center" }}>
+          <input
+            type="checkbox"
+            checked={embedImages}
+            onChange={(e) => setEmbedImages(e.target.checked)}
+          />
+          Embed images in project
+        </label>
+
+        {projectMessage && (
+          <div style={{ opacity: 0.8, fontSize: 12 }}>{projectMessage}</div>
+        )}
+      </div>
+
+      {/* History */}
+      <div
+        style={{
+          marginTop: 10,
+          display: "flex",
+          gap: 12,
+          flexWrap: "wrap",
+          alignItems: "center",
+        }}
+      >
+        <button
+          onClick={history.undo}
+          disabled={!history.canUndo}
+          title="Ctrl+Z"
+        >
+          Undo
+        </button>
+        <button
+          onClick={history.redo}
+          disabled={!history.canRedo}
+          title="Ctrl+Shift+Z"
+        >
+          Redo
+        </button>
+
+        <details>
+          <summary style={{ cursor: "pointer" }}>
+            History ({history.index + 1}/{history.labels.length})
+          </summary>
+          <ol
+            style={{
+              margin: "6px 0 0",
+              paddingLeft: 24,
+              maxHeight: 180,
+              overflowY: "auto",
+              fontSize: 12,
+            }}
+          >
+            {history.labels.map((label, i) => (
+              <li
+                key={i}
+                onClick={() => history.jump(i)}
+                style={{
+                  cursor: "pointer",
+                  fontWeight: i === history.index ? 600 : 400,
+                  opacity: i > history.index ? 0.5 : 1,
+                }}
+              >
+                {label}
+              </li>
+            ))}
+          </ol>
+        </details>
+      </div>
+
+      {/* Lights */}
+      <div style={{ marginTop: 14 }}>
+        <LightList
+          lights={lights}
+          onChange={(next) => {
+            record("Edit lights");
+            setLights(next);
+          }}
+          sceneWidth={bgImg?.width ?? 1000}
+          sceneHeight={bgImg?.height ?? 1000}
+        />
+
+        <div
+          style={{
+            marginTop: 10,
+            display: "flex",
+            gap: 12,
+            flexWrap: "wrap",
+            alignItems: "center",
+          }}
+        >
+          <button onClick={onEstimateLight} disabled={!bgImg}>
+            Estimate from Background
+          </button>
+
+          <label style={{ display: "flex", gap: 8, alignItems: "center" }}>
+            <input
+              type="checkbox"
+              checked={editReference}
+              onChange={(e) => setEditReference(e.target.checked)}
+              disabled={!bgImg}
+            />
+            Draw reference line
+          </label>
+
+          <button onClick={onApplyReference} disabled={!reference}>
+            Apply Reference
+          </button>
+
+          {lightEstimate && (
+            <div style={{ opacity: 0.8, fontSize: 12 }}>
+              Estimate ({lightEstimate.source}):{" "}
+              {lightEstimate.angle.toFixed(0)}
+              °, elevation {lightEstimate.elev}°, confidence{" "}
+              {Math.round(lightEstimate.confidence * 100)}%
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Controls */}
+      <div
+        style={{
+          marginTop: 14,
+          display: "flex",
+          gap: 16,
+          flexWrap: "wrap",
+          alignItems: "end",
+        }}
+      >
+        <label
+          style={{
+            display: "grid",
+            gap: 6,
+            minWidth: 260,
+            flex: "1 1 260px",
+          }}
+        >
+          Ambient light: {ambient.toFixed(2)}
+          <input
+            type="range"
+            min={0}
+            max={1}
+            step={0.01}
+            value={ambient}
+            onChange={(e) => {
+              record("Ambient");
+              setAmbient(Number(e.target.value));
+            }}
+          />
+        </label>
+
+        <label
+          style={{
+            display: "grid",
+            gap: 6,
+            minWidth: 260,
+            flex: "1 1 260px",
+          }}
+        >
+          Depth strength: {depthStrength.toFixed(2)}
+          <input
+            type="range"
+            min={0}
+            max={2}
+            step={0.01}
+            value={depthStrength}
+            onChange={(e) => {
+              record("Depth strength");
+              setDepthStrength(Number(e.target.value));
+            }}
+            disabled={!depthReady}
+          />
+        </label>
+
+        <label
+          style={{
+            display: "grid",
+            gap: 6,
+            minWidth: 180,
+            flex: "0 1 180px",
+          }}
+        >
+          Estimate depth without a map
+          <input
+            type="checkbox"
+            checked={depthEstimate}
+            onChange={(e) => {
+              record("Estimate depth");
+              setDepthEstimate(e.target.checked);
+            }}
+            disabled={!!depthImg}
+          />
+        </label>
+
+        <label
+          style={{
+            display: "grid",
+            gap: 6,
+            minWidth: 180,
+            flex: "0 1 180px",
+          }}
+        >
+          Invert depth
+          <input
+            type="checkbox"
+            checked={invertDepth}
+            onChange={(e) => {
+              record("Invert depth");
+              setInvertDepth(e.target.checked);
+            }}
+            disabled={!depthLoaded}
+          />
+        </label>
+
+        <label
+          style={{
+            display: "grid",
+            gap: 6,
+            minWidth: 260,
+            flex: "1 1 260px",
+          }}
+        >
+          Depth gamma: {depthGamma.toFixed(2)}
+          <input
+            type="range"
+            min={0.4}
+            max={2.5}
+            step={0.01}
+            value={depthGamma}
+            onChange={(e) => {
+              record("Depth gamma");
+              setDepthGamma(Number(e.target.value));
+            }}
+            disabled={!depthLoaded}
+          />
+        </label>
+
+        <label style={{ display: "grid", gap: 6 }}>
+          Depth shadow
+          <select
+            value={depthProjection}
+            onChange={(e) => {
+              record("Depth shadow");
+              setDepthProjection(e.target.value as DepthSettings["projection"]);
+            }}
+            disabled={!depthReady}
+          >
+            <option value="sliced">Sliced (fast preview)</option>
+            <option value="continuous">Continuous (per pixel)</option>
+          </select>
+        </label>
+
+        <label
+          style={{
+            display: "grid",
+            gap: 6,
+            minWidth: 260,
+            flex: "1 1 260px",
+          }}
+        >
+          Depth layers: {layerCount}
+          <input
+            type="range"
+            min={8}
+            max={32}
+            step={1}
+            value={layerCount}
+            onChange={(e) => {
+              record("Depth layers");
+              setLayerCount(Number(e.target.value));
+            }}
+            disabled={!depthReady || depthProjection !== "sliced"}
+          />
+        </label>
+      </div>
+
+      {/* Background removal */}
+      <div
+        style={{
+          marginTop: 10,
+          display: "flex",
+          gap: 16,
+          flexWrap: "wrap",
+          alignItems: "end",
+        }}
+      >
+        <label style={{ display: "grid", gap: 6 }}>
+          Remove background
+          <select
+            value={cutout.mode}
+            onChange={(e) =>
+              editCutout("Background removal", (c) => ({
+                ...c,
+                mode: e.target.value as BackgroundRemoval["mode"],
+              }))
+            }
+            disabled={!fgSrc}
+          >
+            <option value="off">Off (use the cutout's alpha)</option>
+            <option value="color">Color key</option>
+            <option value="flood">Flood fill from edges</option>
+            <option value="grabcut">GrabCut from a box</option>
+          </select>
+        </label>
+
+        <label
+          style={{
+            display: "grid",
+            gap: 6,
+            minWidth: 180,
+            flex: "0 1 180px",
+          }}
+        >
+          Key color from border
+          <input
+            type="checkbox"
+            checked={cutout.color === null}
+            onChange={(e) =>
+              editCutout("Key color", (c) => ({
+                ...c,
+                color: e.target.checked ? null : (fgBorderColor ?? [0, 255, 0]),
+              }))
+            }
+            disabled={!keying}
+          />
+        </label>
+
+        <label style={{ display: "grid", gap: 6 }}>
+          Key color
+          <input
+            type="color"
+            value={rgbToHex(cutout.color ?? fgBorderColor ?? [0, 0, 0])}
+            onChange={(e) =>
+              editCutout("Key color", (c) => ({
+                ...c,
+                color: hexToRgb(e.target.value),
+              }))
+            }
+            disabled={!keying || cutout.color === null}
+          />
+        </label>
+
+        <label
+          style={{
+            display: "grid",
+            gap: 6,
+            minWidth: 260,
+            flex: "1 1 260px",
+          }}
+        >
+          Key tolerance: {Math.round(cutout.tolerance * 100)}%
+          <input
+            type="range"
+            min={0}
+            max={0.5}
+            step={0.01}
+            value={cutout.tolerance}
+            onChange={(e) =>
+              editCutout("Key tolerance", (c) => ({
+                ...c,
+                tolerance: Number(e.target.value),
+              }))
+            }
+            disabled={!keying}
+          />
+        </label>
+
+        <label
+          style={{
+            display: "grid",
+            gap: 6,
+            minWidth: 260,
+            flex: "1 1 260px",
+          }}
+        >
+          Key softness: {Math.round(cutout.softness * 100)}%
+          <input
+            type="range"
+            min={0}
+            max={0.3}
+            step={0.01}
+            value={cutout.softness}
+            onChange={(e) =>
+              editCutout("Key softness", (c) => ({
+                ...c,
+                softness: Number(e.target.value),
+              }))
+            }
+            disabled={!keying}
+          />
+        </label>
+
+        <div style={{ display: "flex", gap: 10, alignItems: "center" }}>
+          <label style={{ display: "flex", gap: 8, alignItems: "center" }}>
+            <input
+              type="checkbox"
+              checked={editCutoutBox}
+              onChange={(e) => setEditCutoutBox(e.target.checked)}
+              disabled={!fgImg || cutout.mode !== "grabcut"}
+            />
+            Draw box on foreground preview
+          </label>
+
+          <button
+            onClick={() =>
+              editCutout("Cutout box", (c) => ({ ...c, box: null }))
+            }
+            disabled={cutout.mode !== "grabcut" || !cutout.box}
+          >
+            Reset Box
+          </button>
+        </div>
+      </div>
+
+      {/* Mask refinement */}
+      <div
+        style={{
+          marginTop: 10,
+          display: "flex",
+          gap: 16,
+          flexWrap: "wrap",
+          alignItems: "end",
+        }}
+      >
+        <label
+          style={{
+            display: "grid",
+            gap: 6,
+            minWidth: 260,
+            flex: "1 1 260px",
+          }}
+        >
+          Alpha threshold: {Math.round(maskRefinement.threshold * 100)}%
+          <input
+            type="range"
+            min={0}
+            max={0.99}
+            step={0.01}
+            value={maskRefinement.threshold}
+            onChange={(e) =>
+              editMask("Mask threshold", (m) => ({
+                ...m,
+                threshold: Number(e.target.value),
+              }))
+            }
+            disabled={!fgSrc}
+          />
+        </label>
+
+        <label
+          style={{
+            display: "grid",
+            gap: 6,
+            minWidth: 260,
+            flex: "1 1 260px",
+          }}
+        >
+          Remove specks under: {maskRefinement.minIsland}px
+          <input
+            type="range"
+            min={0}
+            max={2000}
+            step={10}
+            value={maskRefinement.minIsland}
+            onChange={(e) =>
+              editMask("Remove specks", (m) => ({
+                ...m,
+                minIsland: Number(e.target.value),
+              }))
+            }
+            disabled={!fgSrc}
+          />
+        </label>
+
+        <label
+          style={{
+            display: "grid",
+            gap: 6,
+            minWidth: 260,
+            flex: "1 1 260px",
+          }}
+        >
+          Fill holes under: {maskRefinement.fillHoles}px
+          <input
+            type="range"
+            min={0}
+            max={5000}
+            step={10}
+            value={maskRefinement.fillHoles}
+            onChange={(e) =>
+              editMask("Fill holes", (m) => ({
+                ...m,
+                fillHoles: Number(e.target.value),
+              }))
+            }
+            disabled={!fgSrc}
+          />
+        </label>
+
+        <label
+          style={{
+            display: "grid",
+            gap: 6,
+            minWidth: 260,
+            flex: "1 1 260px",
+          }}
+        >
+          Erode / dilate: {maskRefinement.grow}px
+          <input
+            type="range"
+            min={-20}
+            max={20}
+            step={1}
+            value={maskRefinement.grow}
+            onChange={(e) =>
+              editMask("Erode / dilate", (m) => ({
+                ...m,
+                grow: Number(e.target.value),
+              }))
+            }
+            disabled={!fgSrc}
+          />
+        </label>
+
+        <label
+          style={{
+            display: "grid",
+            gap: 6,
+            minWidth: 260,
+            flex: "1 1 260px",
+          }}
+        >
+          Feather: {maskRefinement.feather.toFixed(1)}px
+          <input
+            type="range"
+            min={0}
+            max={20}
+            step={0.5}
+            value={maskRefinement.feather}
+            onChange={(e) =>
+              editMask("Feather", (m) => ({
+                ...m,
+                feather: Number(e.target.value),
+              }))
+            }
+            disabled={!fgSrc}
+          />
+        </label>
+      </div>
+
+      {/* Mask brush */}
+      <div
+        style={{
+          marginTop: 10,
+          display: "flex",
+          gap: 16,
+          flexWrap: "wrap",
+          alignItems: "end",
+        }}
+      >
+        <label
+          style={{
+            display: "grid",
+            gap: 6,
+            minWidth: 180,
+            flex: "0 1 180px",
+          }}
+        >
+          Brush on mask preview
+          <input
+            type="checkbox"
+            checked={maskBrush}
+            onChange={(e) => setMaskBrush(e.target.checked)}
+            disabled={!fgSrc || !fgPlacement}
+          />
+        </label>
+
+        <label style={{ display: "grid", gap: 6 }}>
+          Brush
+          <select
+            value={brushMode}
+            onChange={(e) => setBrushMode(e.target.value as MaskStroke["mode"])}
+            disabled={!maskBrush}
+          >
+            <option value="paint">Paint (add to mask)</option>
+            <option value="erase">Erase (remove from mask)</option>
+          </select>
+        </label>
+
+        <label
+          style={{
+            display: "grid",
+            gap: 6,
+            minWidth: 260,
+            flex: "1 1 260px",
+          }}
+        >
+          Brush size: {brushRadius}px
+          <input
+            type="range"
+            min={1}
+            max={100}
+            step={1}
+            value={brushRadius}
+            onChange={(e) => setBrushRadius(Number(e.target.value))}
+            disabled={!maskBrush}
+          />
+        </label>
+
+        <div style={{ display: "flex", gap: 10, alignItems: "center" }}>
+          <button
+            onClick={() =>
+              editMask("Clear brush strokes", (m) => ({ ...m, strokes: [] }))
+            }
+            disabled={maskRefinement.strokes.length === 0}
+          >
+            Clear Strokes ({maskRefinement.strokes.length})
+          </button>
+
+          <button
+            onClick={() => editMask("Reset mask", () => DEFAULT_SCENE.mask)}
+            disabled={maskRefinement === DEFAULT_SCENE.mask}
+          >
+            Reset Mask
+          </button>
+        </div>
+      </div>
+
+      {/* Self-shading */}
+      <div
+        style={{
+          marginTop: 10,
+          display: "flex",
+          gap: 16,
+          flexWrap: "wrap",
+          alignItems: "end",
+        }}
+      >
+        <label
+          style={{
+            display: "grid",
+            gap: 6,
+            minWidth: 180,
+            flex: "0 1 180px",
+          }}
+        >
+          Shade subject from depth
+          <input
+            type="checkbox"
+            checked={selfShading.enabled}
+            onChange={(e) =>
+              editSelfShading((s) => ({ ...s, enabled: e.target.checked }))
+            }
+            disabled={!depthReady}
+          />
+        </label>
+
+        <label
+          style={{
+            display: "grid",
+            gap: 6,
+            minWidth: 260,
+            flex: "1 1 260px",
+          }}
+        >
+          Shading strength: {selfShading.strength.toFixed(2)}
+          <input
+            type="range"
+            min={0}
+            max={1}
+            step={0.01}
+            value={selfShading.strength}
+            onChange={(e) =>
+              editSelfShading((s) => ({
+                ...s,
+                strength: Number(e.target.value),
+              }))
+            }
+            disabled={!depthReady || !selfShading.enabled}
+          />
+        </label>
+      </div>
+
+      {/* Contact shadow */}
+      <div
+        style={{
+          marginTop: 10,
+          display: "flex",
+          gap: 16,
+          flexWrap: "wrap",
+          alignItems: "end",
+        }}
+      >
+        <label
+          style={{
+            display: "grid",
+            gap: 6,
+            minWidth: 260,
+            flex: "1 1 260px",
+          }}
+        >
+          Contact shadow opacity: {contactShadow.opacity.toFixed(2)}
+          <input
+            type="range"
+            min={0}
+            max={1}
+            step={0.01}
+            value={contactShadow.opacity}
+            onChange={(e) =>
+              editContactShadow((s) => ({
+                ...s,
+                opacity: Number(e.target.value),
+              }))
+            }
+            disabled={!fgPlacement}
+          />
+        </label>
+
+        <label
+          style={{
+            display: "grid",
+            gap: 6,
+            minWidth: 260,
+            flex: "1 1 260px",
+          }}
+        >
+          Contact spread: {contactShadow.spread.toFixed(3)}
+          <input
+            type="range"
+            min={0.005}
+            max={0.15}
+            step={0.001}
+            value={contactShadow.spread}
+            onChange={(e) =>
+              editContactShadow((s) => ({
+                ...s,
+                spread: Number(e.target.value),
+              }))
+            }
+            disabled={!fgPlacement}
+          />
+        </label>
+
+        <label
+          style={{
+            display: "grid",
+            gap: 6,
+            minWidth: 260,
+            flex: "1 1 260px",
+          }}
+        >
+          Contact falloff: {contactShadow.falloff.toFixed(3)}
+          <input
+            type="range"
+            min={0.01}
+            max={0.3}
+            step={0.001}
+            value={contactShadow.falloff}
+            onChange={(e) =>
+              editContactShadow((s) => ({
+                ...s,
+                falloff: Number(e.target.value),
+              }))
+            }
+            disabled={!fgPlacement}
+          />
+        </label>
+      </div>
+
+      {/* Reflection: mirror image in a glossy floor or water */}
+      <div
+        style={{
+          marginTop: 10,
+          display: "flex",
+          gap: 16,
+          flexWrap: "wrap",
+          alignItems: "end",
+        }}
       >
+        <label
+          style={{
+            display: "grid",
+            gap: 6,
+            minWidth: 180,
+            flex: "0 1 180px",
+          }}
+        >
+          Reflection
+          <input
+            type="checkbox"
+            checked={reflection.enabled}
+            onChange={(e) => {
+              const enabled = e.target.checked;
+              editReflection("Reflection", (r) => ({ ...r, enabled }));
+            }}
+            disabled={!fgPlacement}
+          />
+        </label>
+
+        <label
+          style={{
+            display: "grid",
+            gap: 6,
+            minWidth: 260,
+            flex: "1 1 260px",
+          }}
+        >
+          Reflection opacity: {reflection.opacity.toFixed(2)}
+          <input
+            type="range"
+            min={0}
+            max={1}
+            step={0.01}
+            value={reflection.opacity}
+            onChange={(e) => {
+              const opacity = Number(e.target.value);
+              editReflection("Reflection opacity", (r) => ({ ...r, opacity }));
+            }}
+            disabled={!reflectionReady}
+          />
+        </label>
+
+        <label
+          style={{
+            display: "grid",
+            gap: 6,
+            minWidth: 260,
+            flex: "1 1 260px",
+          }}
+        >
+          Reflection fade: {reflection.fade.toFixed(2)} of the height
+          <input
+            type="range"
+            min={0.05}
+            max={1}
+            step={0.01}
+            value={reflection.fade}
+            onChange={(e) => {
+              const fade = Number(e.target.value);
+              editReflection("Reflection fade", (r) => ({ ...r, fade }));
+            }}
+            disabled={!reflectionReady}
+          />
+        </label>
+
+        <label
+          style={{
+            display: "grid",
+            gap: 6,
+            minWidth: 260,
+            flex: "1 1 260px",
+          }}
+        >
+          Reflection blur: {reflection.blur.toFixed(3)} px per px
+          <input
+            type="range"
+            min={0}
+            max={0.2}
+            step={0.005}
+            value={reflection.blur}
+            onChange={(e) => {
+              const blur = Number(e.target.value);
+              editReflection("Reflection blur", (r) => ({ ...r, blur }));
+            }}
+            disabled={!reflectionReady}
+          />
+        </label>
+
         <label
           style={{
             display: "grid",
@@ -851,15 +2121,350 @@ export default function App() {
             flex: "1 1 260px",
           }}
         >
-          Light angle: {light.angle}°
+          Ripple: {reflection.ripple.toFixed(3)}
           <input
             type="range"
             min={0}
-            max={360}
-            value={light.angle}
+            max={0.05}
+            step={0.001}
+            value={reflection.ripple}
+            onChange={(e) => {
+              const ripple = Number(e.target.value);
+              editReflection("Ripple", (r) => ({ ...r, ripple }));
+            }}
+            disabled={!reflectionReady}
+          />
+        </label>
+
+        <label
+          style={{
+            display: "grid",
+            gap: 6,
+            minWidth: 260,
+            flex: "1 1 260px",
+          }}
+        >
+          Ripple wavelength: {reflection.wavelength.toFixed(3)}
+          <input
+            type="range"
+            min={0.01}
+            max={0.2}
+            step={0.001}
+            value={reflection.wavelength}
+            onChange={(e) => {
+              const wavelength = Number(e.target.value);
+              editReflection("Ripple wavelength", (r) => ({
+                ...r,
+                wavelength,
+              }));
+            }}
+            disabled={!reflectionReady || reflection.ripple <= 0}
+          />
+        </label>
+      </div>
+
+      {/* Shadow color */}
+      <div
+        style={{
+          marginTop: 10,
+          display: "flex",
+          gap: 16,
+          flexWrap: "wrap",
+          alignItems: "end",
+        }}
+      >
+        <label style={{ display: "grid", gap: 6 }}>
+          Shadow color
+          <select
+            value={shadowStyle.color}
+            onChange={(e) =>
+              editShadowStyle((s) => ({
+                ...s,
+                color: e.target.value as ShadowStyle["color"],
+              }))
+            }
+          >
+            <option value="fixed">Fixed</option>
+            <option value="auto">Sampled from background</option>
+          </select>
+        </label>
+
+        <label style={{ display: "grid", gap: 6 }}>
+          Color
+          <input
+            type="color"
+            value={rgbToHex(shadowStyle.rgb)}
+            onChange={(e) =>
+              editShadowStyle((s) => ({ ...s, rgb: hexToRgb(e.target.value) }))
+            }
+            disabled={shadowStyle.color !== "fixed"}
+          />
+        </label>
+
+        <label style={{ display: "grid", gap: 6 }}>
+          Blend
+          <select
+            value={shadowStyle.blend}
             onChange={(e) =>
-              setLight((s) => ({ ...s, angle: Number(e.target.value) }))
+              editShadowStyle((s) => ({
+                ...s,
+                blend: e.target.value as ShadowStyle["blend"],
+              }))
             }
+          >
+            <option value="normal">Normal</option>
+            <option value="multiply">Multiply</option>
+          </select>
+        </label>
+      </div>
+
+      {/* Ground plane */}
+      <div
+        style={{
+          marginTop: 10,
+          display: "flex",
+          gap: 16,
+          flexWrap: "wrap",
+          alignItems: "end",
+        }}
+      >
+        <label style={{ display: "grid", gap: 6 }}>
+          Ground plane
+          <select
+            value={groundMode}
+            onChange={(e) => {
+              const mode = e.target.value as GroundMode;
+              record("Ground plane");
+              setGroundMode(mode);
+              setEditGround(mode !== "off");
+            }}
+            disabled={!bgImg}
+          >
+            <option value="off">Screen space (no calibration)</option>
+            <option value="quad">Mark a ground rectangle</option>
+            <option value="lines">Mark vanishing lines</option>
+          </select>
+        </label>
+
+        <label
+          style={{
+            display: "grid",
+            gap: 6,
+            minWidth: 260,
+            flex: "1 1 260px",
+          }}
+        >
+          Rectangle width / depth: {groundAspect.toFixed(2)}
+          <input
+            type="range"
+            min={0.25}
+            max={4}
+            step={0.01}
+            value={groundAspect}
+            onChange={(e) => {
+              record("Ground plane");
+              setGroundAspect(Number(e.target.value));
+            }}
+            disabled={groundMode === "off"}
+          />
+        </label>
+
+        <label style={{ display: "flex", gap: 8, alignItems: "center" }}>
+          <input
+            type="checkbox"
+            checked={editGround}
+            onChange={(e) => setEditGround(e.target.checked)}
+            disabled={groundMode === "off"}
+          />
+          Edit ground plane
+        </label>
+
+        <button
+          onClick={() => {
+            if (!bgImg) return;
+            const quad = defaultGroundQuad(bgImg.width, bgImg.height);
+            record("Reset ground");
+            setGroundQuad(quad);
+            setGroundLines(quadEdges(quad));
+            setGroundAspect(1);
+          }}
+          disabled={groundMode === "off"}
+        >
+          Reset Ground
+        </button>
+
+        {groundMode === "lines" && !groundPlane && (
+          <div style={{ opacity: 0.8, fontSize: 12 }}>
+            Lines don&apos;t intersect; shadows fall back to screen space
+          </div>
+        )}
+      </div>
+
+      {/* Background relief: walls and steps the shadow climbs and breaks on */}
+      <div
+        style={{
+          marginTop: 10,
+          display: "flex",
+          gap: 16,
+          flexWrap: "wrap",
+          alignItems: "end",
+        }}
+      >
+        <label style={{ display: "grid", gap: 6 }}>
+          Background map
+          <select
+            value={surface.kind}
+            onChange={(e) => {
+              const kind = e.target.value as SurfaceSettings["kind"];
+              editSurface("Background map", (s) => ({ ...s, kind }));
+            }}
+            disabled={!surfaceImg}
+          >
+            <option value="depth">Depth (bright = far)</option>
+            <option value="height">Height (bright = high)</option>
+          </select>
+        </label>
+
+        <label
+          style={{
+            display: "grid",
+            gap: 6,
+            minWidth: 180,
+            flex: "0 1 180px",
+          }}
+        >
+          Estimate relief without a map
+          <input
+            type="checkbox"
+            checked={surface.estimate}
+            onChange={(e) => {
+              const estimate = e.target.checked;
+              editSurface("Estimate relief", (s) => ({ ...s, estimate }));
+            }}
+            disabled={!bgImg || !!surfaceImg}
+          />
+        </label>
+
+        <label
+          style={{
+            display: "grid",
+            gap: 6,
+            minWidth: 180,
+            flex: "0 1 180px",
+          }}
+        >
+          Invert relief
+          <input
+            type="checkbox"
+            checked={surface.invert}
+            onChange={(e) => {
+              const invert = e.target.checked;
+              editSurface("Invert relief", (s) => ({ ...s, invert }));
+            }}
+            disabled={!surfaceReady}
+          />
+        </label>
+
+        <label
+          style={{
+            display: "grid",
+            gap: 6,
+            minWidth: 260,
+            flex: "1 1 260px",
+          }}
+        >
+          Relief height: {Math.round(surface.height * 100)}% of the image
+          <input
+            type="range"
+            min={0}
+            max={1}
+            step={0.01}
+            value={surface.height}
+            onChange={(e) => {
+              const height = Number(e.target.value);
+              editSurface("Relief height", (s) => ({ ...s, height }));
+            }}
+            disabled={!surfaceReady}
+          />
+        </label>
+
+        <label
+          style={{
+            display: "grid",
+            gap: 6,
+            minWidth: 260,
+            flex: "1 1 260px",
+          }}
+        >
+          Relief smoothing: {surface.smooth.toFixed(1)} px
+          <input
+            type="range"
+            min={0}
+            max={20}
+            step={0.5}
+            value={surface.smooth}
+            onChange={(e) => {
+              const smooth = Number(e.target.value);
+              editSurface("Relief smoothing", (s) => ({ ...s, smooth }));
+            }}
+            disabled={!surfaceReady}
+          />
+        </label>
+
+        <label style={{ display: "flex", gap: 8, alignItems: "center" }}>
+          <input
+            type="checkbox"
+            checked={showSurfacePreview}
+            onChange={(e) => setShowSurfacePreview(e.target.checked)}
+            disabled={!surfaceReady}
+          />
+          Show relief preview
+        </label>
+      </div>
+
+      {/* Depth range: how the map's values become depth */}
+      <div
+        style={{
+          marginTop: 10,
+          display: "flex",
+          gap: 16,
+          flexWrap: "wrap",
+          alignItems: "end",
+        }}
+      >
+        <label style={{ display: "grid", gap: 6 }}>
+          Depth encoding
+          <select
+            value={depthEncoding}
+            onChange={(e) => {
+              record("Depth encoding");
+              setDepthEncoding(e.target.value as DepthEncoding);
+            }}
+            disabled={!depthImg || isDepthSamples(depthImg)}
+          >
+            <option value="gray">Grayscale</option>
+            <option value="turbo">Turbo colormap</option>
+            <option value="inferno">Inferno colormap</option>
+          </select>
+        </label>
+
+        <label
+          style={{
+            display: "grid",
+            gap: 6,
+            minWidth: 180,
+            flex: "0 1 180px",
+          }}
+        >
+          Auto range
+          <input
+            type="checkbox"
+            checked={depthAutoRange}
+            onChange={(e) => {
+              record("Depth range");
+              setDepthAutoRange(e.target.checked);
+            }}
+            disabled={!depthImg}
           />
         </label>
 
@@ -871,15 +2476,20 @@ export default function App() {
             flex: "1 1 260px",
           }}
         >
-          Light elevation: {light.elev}°
+          Clip near: {Math.round(depthClipMin * 100)}%
           <input
             type="range"
-            min={1}
-            max={89}
-            value={light.elev}
-            onChange={(e) =>
-              setLight((s) => ({ ...s, elev: Number(e.target.value) }))
-            }
+            min={0}
+            max={1}
+            step={0.01}
+            value={depthClipMin}
+            onChange={(e) => {
+              record("Depth range");
+              setDepthClipMin(
+                Math.min(Number(e.target.value), depthClipMax - 0.01)
+              );
+            }}
+            disabled={!depthImg}
           />
         </label>
 
@@ -891,32 +2501,55 @@ export default function App() {
             flex: "1 1 260px",
           }}
         >
-          Depth strength: {depthStrength.toFixed(2)}
+          Clip far: {Math.round(depthClipMax * 100)}%
           <input
             type="range"
             min={0}
-            max={2}
+            max={1}
             step={0.01}
-            value={depthStrength}
-            onChange={(e) => setDepthStrength(Number(e.target.value))}
-            disabled={!depthReady}
+            value={depthClipMax}
+            onChange={(e) => {
+              record("Depth range");
+              setDepthClipMax(
+                Math.max(Number(e.target.value), depthClipMin + 0.01)
+              );
+            }}
+            disabled={!depthImg}
           />
         </label>
+      </div>
 
+      {/* Depth alignment */}
+      <div
+        style={{
+          marginTop: 10,
+          display: "flex",
+          gap: 16,
+          flexWrap: "wrap",
+          alignItems: "end",
+        }}
+      >
         <label
           style={{
             display: "grid",
             gap: 6,
-            minWidth: 180,
-            flex: "0 1 180px",
+            minWidth: 260,
+            flex: "1 1 260px",
           }}
         >
-          Invert depth
+          Depth scale X: {depthAlign.scaleX.toFixed(2)}
           <input
-            type="checkbox"
-            checked={invertDepth}
-            onChange={(e) => setInvertDepth(e.target.checked)}
-            disabled={!depthReady}
+            type="range"
+            min={0.1}
+            max={4}
+            step={0.01}
+            value={depthAlign.scaleX}
+            onChange={(e) =>
+              editDepthAlign("Depth alignment", {
+                scaleX: Number(e.target.value),
+              })
+            }
+            disabled={!depthSrc}
           />
         </label>
 
@@ -928,15 +2561,19 @@ export default function App() {
             flex: "1 1 260px",
           }}
         >
-          Depth gamma: {depthGamma.toFixed(2)}
+          Depth scale Y: {depthAlign.scaleY.toFixed(2)}
           <input
             type="range"
-            min={0.4}
-            max={2.5}
+            min={0.1}
+            max={4}
             step={0.01}
-            value={depthGamma}
-            onChange={(e) => setDepthGamma(Number(e.target.value))}
-            disabled={!depthReady}
+            value={depthAlign.scaleY}
+            onChange={(e) =>
+              editDepthAlign("Depth alignment", {
+                scaleY: Number(e.target.value),
+              })
+            }
+            disabled={!depthSrc}
           />
         </label>
 
@@ -948,29 +2585,22 @@ export default function App() {
             flex: "1 1 260px",
           }}
         >
-          Depth layers: {layerCount}
+          Depth rotation: {Math.round(depthAlign.rotation)}°
           <input
             type="range"
-            min={8}
-            max={32}
+            min={-180}
+            max={180}
             step={1}
-            value={layerCount}
-            onChange={(e) => setLayerCount(Number(e.target.value))}
-            disabled={!depthReady}
+            value={depthAlign.rotation}
+            onChange={(e) =>
+              editDepthAlign("Depth alignment", {
+                rotation: Number(e.target.value),
+              })
+            }
+            disabled={!depthSrc}
           />
         </label>
-      </div>
 
-      {/* Depth alignment (new) */}
-      <div
-        style={{
-          marginTop: 10,
-          display: "flex",
-          gap: 16,
-          flexWrap: "wrap",
-          alignItems: "end",
-        }}
-      >
         <label
           style={{
             display: "grid",
@@ -979,14 +2609,18 @@ export default function App() {
             flex: "1 1 260px",
           }}
         >
-          Depth scale: {depthScale.toFixed(2)}
+          Depth offset X: {depthAlign.offsetX}px
           <input
             type="range"
-            min={0.5}
-            max={2}
-            step={0.01}
-            value={depthScale}
-            onChange={(e) => setDepthScale(Number(e.target.value))}
+            min={-300}
+            max={300}
+            step={1}
+            value={depthAlign.offsetX}
+            onChange={(e) =>
+              editDepthAlign("Depth alignment", {
+                offsetX: Number(e.target.value),
+              })
+            }
             disabled={!depthSrc}
           />
         </label>
@@ -999,14 +2633,18 @@ export default function App() {
             flex: "1 1 260px",
           }}
         >
-          Depth offset X: {depthOffsetX}px
+          Depth offset Y: {depthAlign.offsetY}px
           <input
             type="range"
             min={-300}
             max={300}
             step={1}
-            value={depthOffsetX}
-            onChange={(e) => setDepthOffsetX(Number(e.target.value))}
+            value={depthAlign.offsetY}
+            onChange={(e) =>
+              editDepthAlign("Depth alignment", {
+                offsetY: Number(e.target.value),
+              })
+            }
             disabled={!depthSrc}
           />
         </label>
@@ -1019,30 +2657,48 @@ export default function App() {
             flex: "1 1 260px",
           }}
         >
-          Depth offset Y: {depthOffsetY}px
+          Overlay opacity: {Math.round(depthOverlayOpacity * 100)}%
           <input
             type="range"
-            min={-300}
-            max={300}
-            step={1}
-            value={depthOffsetY}
-            onChange={(e) => setDepthOffsetY(Number(e.target.value))}
-            disabled={!depthSrc}
+            min={0.1}
+            max={1}
+            step={0.05}
+            value={depthOverlayOpacity}
+            onChange={(e) => setDepthOverlayOpacity(Number(e.target.value))}
+            disabled={!editDepth}
           />
         </label>
 
         <div style={{ display: "flex", gap: 10, alignItems: "center" }}>
           <button
-            onClick={() => {
-              setDepthScale(1);
-              setDepthOffsetX(0);
-              setDepthOffsetY(0);
-            }}
+            onClick={() =>
+              editDepthAlign(
+                "Depth alignment",
+                alignmentOf(DEFAULT_SCENE.depth)
+              )
+            }
             disabled={!depthSrc}
           >
             Reset Depth Align
           </button>
 
+          <button
+            onClick={onAutoAlignDepth}
+            disabled={!depthImg || !fgImg || !fgPlacement}
+          >
+            Auto Align
+          </button>
+
+          <label style={{ display: "flex", gap: 8, alignItems: "center" }}>
+            <input
+              type="checkbox"
+              checked={editDepth}
+              onChange={(e) => setEditDepth(e.target.checked)}
+              disabled={!depthImg || !fgPlacement}
+            />
+            Align on canvas
+          </label>
+
           <label style={{ display: "flex", gap: 8, alignItems: "center" }}>
             <input
               type="checkbox"
@@ -1056,7 +2712,9 @@ export default function App() {
       </div>
 
       {/* Export buttons */}
-      <div style={{ marginTop: 12, display: "flex", gap: 10, flexWrap: "wrap" }}>
+      <div
+        style={{ marginTop: 12, display: "flex", gap: 10, flexWrap: "wrap" }}
+      >
         <button
           onClick={onExportComposite}
           disabled={!bgSrc || !fgSrc || !fgPlacement}
@@ -1071,10 +2729,63 @@ export default function App() {
           Export Shadow (PNG)
         </button>
 
+        <button
+          onClick={onExportContactShadow}
+          disabled={!bgSrc || !fgSrc || !fgPlacement}
+        >
+          Export Contact Shadow (PNG)
+        </button>
+
+        <button
+          onClick={onExportReflection}
+          disabled={!bgSrc || !fgSrc || !fgPlacement || !reflection.enabled}
+        >
+          Export Reflection (PNG)
+        </button>
+
+        <button
+          onClick={() => onExportLayered("psd")}
+          disabled={!bgSrc || !fgSrc || !fgPlacement}
+        >
+          Export Layers (PSD)
+        </button>
+
+        <button
+          onClick={() => onExportLayered("ora")}
+          disabled={!bgSrc || !fgSrc || !fgPlacement}
+        >
+          Export Layers (OpenRaster)
+        </button>
+
         <button onClick={onExportMask} disabled={!fgSrc || !fgPlacement}>
           Export Mask (PNG)
         </button>
 
+        <button onClick={onResetPlacement} disabled={!fgPlacement}>
+          Reset Placement
+        </button>
+
+        <label style={{ display: "flex", gap: 8, alignItems: "center" }}>
+          <input
+            type="checkbox"
+            checked={editContact}
+            onChange={(e) => onToggleEditContact(e.target.checked)}
+            disabled={!fgPlacement}
+          />
+          Edit contact points
+        </label>
+
+        <button
+          onClick={() => {
+            record("Auto contact");
+            setContactPoints(null);
+            setEditContact(false);
+          }}
+          disabled={!contactPoints}
+        >
+          Auto Contact
+        </button>
+
         <button onClick={onExportForegroundOriginal} disabled={!fgSrc}>
           Export FG Original
         </button>
@@ -1082,6 +2793,53 @@ export default function App() {
           Export BG Original
         </button>
       </div>
+      {exportMessage && (
+        <div style={{ opacity: 0.8, fontSize: 12 }}>{exportMessage}</div>
+      )}
+
+      {/* Batch */}
+      <div
+        style={{
+          marginTop: 12,
+          display: "flex",
+          gap: 12,
+          flexWrap: "wrap",
+          alignItems: "center",
+        }}
+      >
+        <label style={{ display: "flex", gap: 8, alignItems: "center" }}>
+          Batch folder
+          <input
+            type="file"
+            multiple
+            {...{ webkitdirectory: "" }}
+            onChange={(e) => onPickBatch(e.target.files)}
+            disabled={!!batchProgress}
+          />
+        </label>
+
+        <button
+          onClick={onRunBatch}
+          disabled={!bgImg || batchItems.length === 0 || !!batchProgress}
+        >
+          Run Batch (ZIP)
+        </button>
+
+        {batchProgress && (
+          <>
+            <progress value={batchProgress.done} max={batchProgress.total} />
+            <span style={{ fontSize: 12 }}>
+              {batchProgress.done}/{batchProgress.total}
+              {batchProgress.current ? ` ${batchProgress.current}` : ""}
+            </span>
+            <button onClick={() => batchAbort.current?.abort()}>Cancel</button>
+          </>
+        )}
+
+        {batchMessage && !batchProgress && (
+          <div style={{ opacity: 0.8, fontSize: 12 }}>{batchMessage}</div>
+        )}
+      </div>
 
       {/* Previews */}
       <div
@@ -1109,16 +2867,30 @@ export default function App() {
             }}
           >
             {fgSrc ? (
-              <img
-                src={fgSrc}
-                alt="Foreground preview"
-                style={{
-                  width: "100%",
-                  height: "100%",
-                  objectFit: "contain",
-                  display: "block",
-                }}
-              />
+              <div style={{ position: "relative", height: "100%" }}>
+                <img
+                  src={fgSrc}
+                  alt="Foreground preview"
+                  style={{
+                    width: "100%",
+                    height: "100%",
+                    objectFit: "contain",
+                    display: "block",
+                  }}
+                />
+                {fgImg && editCutoutBox && cutout.mode === "grabcut" && (
+                  <CutoutBoxOverlay
+                    width={fgImg.width}
+                    height={fgImg.height}
+                    box={
+                      cutout.box ?? defaultCutoutBox(fgImg.width, fgImg.height)
+                    }
+                    onChange={(box) =>
+                      editCutout("Cutout box", (c) => ({ ...c, box }))
+                    }
+                  />
+                )}
+              </div>
             ) : (
               <div
                 style={{
@@ -1177,9 +2949,59 @@ export default function App() {
 
         {/* Composite */}
         <div style={{ minWidth: 0 }}>
-          <h3 style={{ margin: "8px 0" }}>Composite Preview</h3>
+          <h3
+            style={{
+              margin: "8px 0",
+              maxWidth: 520,
+              display: "flex",
+              gap: 10,
+              alignItems: "center",
+            }}
+          >
+            Composite Preview
+            {rendered.progress !== null && (
+              <progress
+                value={rendered.progress}
+                max={1}
+                style={{ width: 120 }}
+                title="Rendering"
+              />
+            )}
+            <label
+              style={{
+                marginLeft: "auto",
+                fontSize: 12,
+                fontWeight: "normal",
+                display: "flex",
+                gap: 6,
+                alignItems: "center",
+              }}
+            >
+              Renderer
+              <select
+                value={shadowRenderer}
+                onChange={(e) =>
+                  setShadowRenderer(e.target.value as ShadowRenderer)
+                }
+              >
+                <option value="cpu">CPU</option>
+                <option value="webgl">WebGL2</option>
+              </select>
+            </label>
+          </h3>
+          {shadowRenderer === "webgl" && rendered.renderer === "cpu" && (
+            <div style={{ fontSize: 12, opacity: 0.75, marginBottom: 6 }}>
+              WebGL2 is not available here; the shadow is drawn on the CPU.
+            </div>
+          )}
+          {rendered.error && (
+            <div style={{ color: "#c33", fontSize: 12, marginBottom: 6 }}>
+              Render failed: {rendered.error}
+            </div>
+          )}
           <div
             style={{
+              position: "relative",
               width: "100%",
               maxWidth: 520,
               aspectRatio: "1 / 1",
@@ -1199,7 +3021,77 @@ export default function App() {
                 display: "block",
               }}
             />
+            {bgImg && (
+              <PlacementOverlay
+                width={bgImg.width}
+                height={bgImg.height}
+                placement={fgPlacement}
+                onChange={onPlacementChange}
+                contact={contact}
+                editContact={editContact}
+                contactPoints={contactPointsBg}
+                onContactPointsChange={onContactPointsChange}
+              />
+            )}
+            {bgImg && editGround && groundMode !== "off" && (
+              <GroundOverlay
+                width={bgImg.width}
+                height={bgImg.height}
+                mode={groundMode}
+                quad={groundPlane?.quad ?? null}
+                aspect={groundAspect}
+                onQuadChange={(quad) => {
+                  record("Ground plane");
+                  setGroundQuad(quad);
+                }}
+                lines={groundLines}
+                onLinesChange={(lines) => {
+                  record("Ground plane");
+                  setGroundLines(lines);
+                }}
+              />
+            )}
+            {bgImg && editDepth && fgPlacement && depthOverlayImage && (
+              <DepthOverlay
+                width={bgImg.width}
+                height={bgImg.height}
+                placement={fgPlacement}
+                image={depthOverlayImage}
+                alignment={depthAlign}
+                opacity={depthOverlayOpacity}
+                onChange={(alignment) => {
+                  record("Depth alignment");
+                  setDepthAlign(alignment);
+                }}
+              />
+            )}
+            {bgImg && editReference && (
+              <ReferenceOverlay
+                width={bgImg.width}
+                height={bgImg.height}
+                reference={reference}
+                onChange={setReference}
+              />
+            )}
           </div>
+          {fgPlacement && (
+            <div style={{ opacity: 0.8, fontSize: 12, marginTop: 6 }}>
+              {editDepth && depthImg
+                ? "Drag the depth map onto the subject: inside to move, corners to scale (Shift keeps the aspect), top handle to rotate"
+                : editReference
+                  ? "Drag from an object's base to its shadow tip, Shift+click its top for the elevation"
+                  : editGround && groundMode !== "off"
+                    ? groundMode === "quad"
+                      ? "Drag the corners onto a rectangle lying on the ground"
+                      : "Drag the lines onto two pairs of parallel ground edges at right angles"
+                    : editContact
+                      ? "Click to add contact points, drag to move, Shift+click to remove"
+                      : "Drag to move, corners or wheel to scale, top handle or Shift+wheel to rotate"}{" "}
+              | {fgPlacement.w}x{fgPlacement.h} @ ({fgPlacement.x},{" "}
+              {fgPlacement.y}), {fgPlacement.rotation.toFixed(1)}° | Contact:{" "}
+              {contactPoints ? "manual" : "auto"}
+            </div>
+          )}
         </div>
       </div>
 
@@ -1215,6 +3107,50 @@ export default function App() {
       >
         <div style={{ minWidth: 0 }}>
           <h3 style={{ margin: "8px 0" }}>Mask</h3>
+          <div
+            style={{
+              width: "100%",
+              backgroundColor: "rgba(0,0,0,0.35)",
+              borderRadius: 10,
+              overflow: "hidden",
+              border: "1px solid rgba(255,255,255,0.12)",
+              boxSizing: "border-box",
+            }}
+          >
+            <div style={{ position: "relative", height: 360 }}>
+              <canvas
+                ref={maskRef}
+                style={{
+                  width: "100%",
+                  height: "100%",
+                  objectFit: "contain",
+                  display: "block",
+                  backgroundColor: "black",
+                }}
+              />
+              {maskBrush && fgImg && fgPlacement && (
+                <MaskBrushOverlay
+                  width={placementFrame(fgPlacement).w}
+                  height={placementFrame(fgPlacement).h}
+                  placement={fgPlacement}
+                  fgWidth={fgImg.width}
+                  fgHeight={fgImg.height}
+                  mode={brushMode}
+                  radius={brushRadius}
+                  onStroke={(stroke) =>
+                    editMask(
+                      stroke.mode === "paint" ? "Paint mask" : "Erase mask",
+                      (m) => ({ ...m, strokes: [...m.strokes, stroke] })
+                    )
+                  }
+                />
+              )}
+            </div>
+          </div>
+        </div>
+
+        <div style={{ minWidth: 0 }}>
+          <h3 style={{ margin: "8px 0" }}>Shadow</h3>
           <div
             style={{
               width: "100%",
@@ -1226,19 +3162,19 @@ export default function App() {
             }}
           >
             <canvas
-              ref={maskRef}
+              ref={shadowRef}
               style={{
                 width: "100%",
                 height: 360,
                 display: "block",
-                backgroundColor: "black",
+                backgroundColor: "white",
               }}
             />
           </div>
         </div>
 
         <div style={{ minWidth: 0 }}>
-          <h3 style={{ margin: "8px 0" }}>Shadow</h3>
+          <h3 style={{ margin: "8px 0" }}>Contact shadow</h3>
           <div
             style={{
               width: "100%",
@@ -1250,7 +3186,55 @@ export default function App() {
             }}
           >
             <canvas
-              ref={shadowRef}
+              ref={contactShadowRef}
+              style={{
+                width: "100%",
+                height: 360,
+                display: "block",
+                backgroundColor: "white",
+              }}
+            />
+          </div>
+        </div>
+
+        <div style={{ minWidth: 0 }}>
+          <h3 style={{ margin: "8px 0" }}>Reflection</h3>
+          <div
+            style={{
+              width: "100%",
+              backgroundColor: "rgba(0,0,0,0.35)",
+              borderRadius: 10,
+              overflow: "hidden",
+              border: "1px solid rgba(255,255,255,0.12)",
+              boxSizing: "border-box",
+            }}
+          >
+            <canvas
+              ref={reflectionRef}
+              style={{
+                width: "100%",
+                height: 360,
+                display: "block",
+                backgroundColor: "white",
+              }}
+            />
+          </div>
+        </div>
+
+        <div style={{ minWidth: 0 }}>
+          <h3 style={{ margin: "8px 0" }}>Self-shading</h3>
+          <div
+            style={{
+              width: "100%",
+              backgroundColor: "rgba(0,0,0,0.35)",
+              borderRadius: 10,
+              overflow: "hidden",
+              border: "1px solid rgba(255,255,255,0.12)",
+              boxSizing: "border-box",
+            }}
+          >
+            <canvas
+              ref={selfShadingRef}
               style={{
                 width: "100%",
                 height: 360,
@@ -1308,6 +3292,31 @@ export default function App() {
             />
           </div>
         </div>
+
+        <div style={{ minWidth: 0 }}>
+          <h3 style={{ margin: "8px 0" }}>Background relief</h3>
+          <div
+            style={{
+              width: "100%",
+              backgroundColor: "rgba(0,0,0,0.35)",
+              borderRadius: 10,
+              overflow: "hidden",
+              border: "1px solid rgba(255,255,255,0.12)",
+              boxSizing: "border-box",
+            }}
+          >
+            <canvas
+              ref={surfacePreviewRef}
+              style={{
+                width: "100%",
+                height: 360,
+                objectFit: "contain",
+                display: "block",
+                backgroundColor: "black",
+              }}
+            />
+          </div>
+        </div>
       </div>
     </div>
   );
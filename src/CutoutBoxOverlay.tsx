@@ -0,0 +1,109 @@
+import { useEffect, useRef, useState, type PointerEvent } from "react";
+import { canvasPixelRatio, clientToCanvas } from "./dom";
+import type { Point, Rect } from "./shadow";
+
+const BOX_COLOR = "rgba(120,255,160,0.95)";
+const OUTSIDE_SHADE = "rgba(0,0,0,0.45)";
+
+// Smaller drags are taken as clicks and ignored
+const MIN_BOX = 4;
+
+type Props = {
+  // Canvas pixel size (same as the foreground it sits on)
+  width: number;
+  height: number;
+  box: Rect;
+  onChange: (box: Rect) => void;
+};
+
+function boxBetween(a: Point, b: Point, width: number, height: number): Rect {
+  const x0 = Math.max(0, Math.round(Math.min(a[0], b[0])));
+  const y0 = Math.max(0, Math.round(Math.min(a[1], b[1])));
+  const x1 = Math.min(width, Math.round(Math.max(a[0], b[0])));
+  const y1 = Math.min(height, Math.round(Math.max(a[1], b[1])));
+  return { x: x0, y: y0, w: Math.max(0, x1 - x0), h: Math.max(0, y1 - y0) };
+}
+
+// Box around the subject for GrabCut, drawn over the foreground preview:
+// drag to draw a new one. Outside it is backdrop for sure; it is handed
+// over on release since every change reruns the cutout.
+export default function CutoutBoxOverlay({
+  width,
+  height,
+  box,
+  onChange,
+}: Props) {
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const startRef = useRef<Point | null>(null);
+  const [draft, setDraft] = useState<Rect | null>(null);
+  const shown = draft ?? box;
+
+  // -----------------------------
+  // Draw the box, the outside shaded
+  // -----------------------------
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    if (canvas.width !== width) canvas.width = width;
+    if (canvas.height !== height) canvas.height = height;
+
+    const ctx = canvas.getContext("2d");
+    if (!ctx) return;
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+
+    const r = canvasPixelRatio(canvas);
+    ctx.fillStyle = OUTSIDE_SHADE;
+    ctx.fillRect(0, 0, width, height);
+    ctx.clearRect(shown.x, shown.y, shown.w, shown.h);
+
+    ctx.lineWidth = 1.5 * r;
+    ctx.strokeStyle = BOX_COLOR;
+    ctx.setLineDash([6 * r, 4 * r]);
+    ctx.strokeRect(shown.x, shown.y, shown.w, shown.h);
+    ctx.setLineDash([]);
+  }, [width, height, shown]);
+
+  // -----------------------------
+  // Pointer drag
+  // -----------------------------
+  function onPointerDown(e: PointerEvent<HTMLCanvasElement>) {
+    const canvas = e.currentTarget;
+    canvas.setPointerCapture(e.pointerId);
+    startRef.current = clientToCanvas(canvas, e.clientX, e.clientY);
+  }
+
+  function onPointerMove(e: PointerEvent<HTMLCanvasElement>) {
+    const start = startRef.current;
+    if (!start) return;
+    const p = clientToCanvas(e.currentTarget, e.clientX, e.clientY);
+    setDraft(boxBetween(start, p, width, height));
+  }
+
+  function onPointerUp(e: PointerEvent<HTMLCanvasElement>) {
+    if (!startRef.current) return;
+    startRef.current = null;
+    e.currentTarget.releasePointerCapture(e.pointerId);
+    if (draft && draft.w >= MIN_BOX && draft.h >= MIN_BOX) onChange(draft);
+    setDraft(null);
+  }
+
+  return (
+    <canvas
+      ref={canvasRef}
+      onPointerDown={onPointerDown}
+      onPointerMove={onPointerMove}
+      onPointerUp={onPointerUp}
+      onPointerCancel={onPointerUp}
+      style={{
+        position: "absolute",
+        inset: 0,
+        width: "100%",
+        height: "100%",
+        objectFit: "contain",
+        display: "block",
+        cursor: "crosshair",
+        touchAction: "none",
+      }}
+    />
+  );
+}
@@ -0,0 +1,260 @@
+import { useEffect, useMemo, useRef, useState, type PointerEvent } from "react";
+import { canvasPixelRatio, clientToCanvas, putImage } from "./dom";
+import type { DepthAlignment, Placement, RgbaImage } from "./shadow";
+
+// Sizes in CSS pixels; converted to canvas pixels with canvasPixelRatio()
+const HANDLE_SIZE = 10;
+const ROTATE_OFFSET = 28;
+
+const MIN_SCALE = 0.1;
+const MAX_SCALE = 4;
+
+const BOX_COLOR = "rgba(255,140,60,0.95)";
+
+type Handle = "move" | "scale" | "rotate";
+
+type Drag = {
+  mode: Handle;
+  start: [number, number];
+  from: DepthAlignment;
+};
+
+type Props = {
+  // Canvas pixel size (same as the composite canvas it sits on)
+  width: number;
+  height: number;
+  placement: Placement;
+  // The calibrated depth map (renderDepthMap) and where it sits in the box
+  image: RgbaImage;
+  alignment: DepthAlignment;
+  opacity: number;
+  onChange: (alignment: DepthAlignment) => void;
+};
+
+// Where the depth map sits on the background: its center, the angle of its
+// axes (radians) and its half size, all in background pixels.
+function mapFrame(placement: Placement, a: DepthAlignment) {
+  const rot = (placement.rotation * Math.PI) / 180;
+  const cs = Math.cos(rot);
+  const sn = Math.sin(rot);
+  return {
+    cx: placement.x + placement.w / 2 + cs * a.offsetX - sn * a.offsetY,
+    cy: placement.y + placement.h / 2 + sn * a.offsetX + cs * a.offsetY,
+    angle: rot + (a.rotation * Math.PI) / 180,
+    hw: (placement.w * clampScale(a.scaleX)) / 2,
+    hh: (placement.h * clampScale(a.scaleY)) / 2,
+  };
+}
+
+// (x, y) relative to the frame's center, in its own axes
+function toLocal(f: ReturnType<typeof mapFrame>, x: number, y: number) {
+  const cs = Math.cos(f.angle);
+  const sn = Math.sin(f.angle);
+  const dx = x - f.cx;
+  const dy = y - f.cy;
+  return [cs * dx + sn * dy, -sn * dx + cs * dy];
+}
+
+function clampScale(s: number) {
+  return Math.max(MIN_SCALE, Math.min(MAX_SCALE, s));
+}
+
+function normalizeDegrees(deg: number) {
+  return ((((deg + 180) % 360) + 360) % 360) - 180;
+}
+
+// Onion skin of the depth map over the composite preview, for lining it up
+// with the subject: draws it at `opacity` inside its box + handles.
+//   drag inside      -> move
+//   drag a corner    -> scale each axis (Shift keeps the aspect)
+//   drag top handle  -> rotate (Shift snaps to 15°)
+export default function DepthOverlay({
+  width,
+  height,
+  placement,
+  image,
+  alignment,
+  opacity,
+  onChange,
+}: Props) {
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const dragRef = useRef<Drag | null>(null);
+  const [hover, setHover] = useState<Handle | null>(null);
+
+  const source = useMemo(() => {
+    const c = document.createElement("canvas");
+    putImage(c, image);
+    return c;
+  }, [image]);
+
+  // -----------------------------
+  // Draw map + box + handles
+  // -----------------------------
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    if (canvas.width !== width) canvas.width = width;
+    if (canvas.height !== height) canvas.height = height;
+
+    const ctx = canvas.getContext("2d");
+    if (!ctx) return;
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+
+    const r = canvasPixelRatio(canvas);
+    const f = mapFrame(placement, alignment);
+
+    ctx.save();
+    ctx.translate(f.cx, f.cy);
+    ctx.rotate(f.angle);
+    if (image.width > 0 && image.height > 0) {
+      ctx.globalAlpha = opacity;
+      ctx.drawImage(source, -f.hw, -f.hh, f.hw * 2, f.hh * 2);
+      ctx.globalAlpha = 1;
+    }
+
+    ctx.lineWidth = 1.5 * r;
+    ctx.strokeStyle = BOX_COLOR;
+    ctx.fillStyle = "white";
+    ctx.setLineDash([6 * r, 4 * r]);
+    ctx.strokeRect(-f.hw, -f.hh, f.hw * 2, f.hh * 2);
+    ctx.setLineDash([]);
+
+    const top = -f.hh - ROTATE_OFFSET * r;
+    ctx.beginPath();
+    ctx.moveTo(0, -f.hh);
+    ctx.lineTo(0, top);
+    ctx.stroke();
+
+    const hs = HANDLE_SIZE * r;
+    for (const [x, y] of [
+      [-f.hw, -f.hh],
+      [f.hw, -f.hh],
+      [f.hw, f.hh],
+      [-f.hw, f.hh],
+    ]) {
+      ctx.fillRect(x - hs / 2, y - hs / 2, hs, hs);
+      ctx.strokeRect(x - hs / 2, y - hs / 2, hs, hs);
+    }
+
+    ctx.beginPath();
+    ctx.arc(0, top, hs / 2, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.stroke();
+    ctx.restore();
+  }, [width, height, placement, alignment, opacity, image, source]);
+
+  // -----------------------------
+  // Pointer drag
+  // -----------------------------
+  function hitAt(canvas: HTMLCanvasElement, x: number, y: number) {
+    const r = canvasPixelRatio(canvas);
+    const tol = HANDLE_SIZE * r;
+    const f = mapFrame(placement, alignment);
+    const [lx, ly] = toLocal(f, x, y);
+
+    if (Math.hypot(lx, ly + f.hh + ROTATE_OFFSET * r) <= tol) return "rotate";
+    if (
+      Math.abs(Math.abs(lx) - f.hw) <= tol &&
+      Math.abs(Math.abs(ly) - f.hh) <= tol
+    ) {
+      return "scale";
+    }
+    if (Math.abs(lx) <= f.hw && Math.abs(ly) <= f.hh) return "move";
+    return null;
+  }
+
+  function onPointerDown(e: PointerEvent<HTMLCanvasElement>) {
+    const canvas = e.currentTarget;
+    const start = clientToCanvas(canvas, e.clientX, e.clientY);
+    const mode = hitAt(canvas, start[0], start[1]);
+    if (!mode) return;
+
+    canvas.setPointerCapture(e.pointerId);
+    dragRef.current = { mode, start, from: alignment };
+  }
+
+  function onPointerMove(e: PointerEvent<HTMLCanvasElement>) {
+    const canvas = e.currentTarget;
+    const [x, y] = clientToCanvas(canvas, e.clientX, e.clientY);
+    const drag = dragRef.current;
+    if (!drag) {
+      setHover(hitAt(canvas, x, y));
+      return;
+    }
+
+    const { from, start } = drag;
+    const f = mapFrame(placement, from);
+
+    if (drag.mode === "move") {
+      // Offsets are along the placement box axes
+      const rot = (placement.rotation * Math.PI) / 180;
+      const dx = x - start[0];
+      const dy = y - start[1];
+      onChange({
+        ...from,
+        offsetX: Math.round(
+          from.offsetX + Math.cos(rot) * dx + Math.sin(rot) * dy
+        ),
+        offsetY: Math.round(
+          from.offsetY - Math.sin(rot) * dx + Math.cos(rot) * dy
+        ),
+      });
+    } else if (drag.mode === "scale") {
+      const [x0, y0] = toLocal(f, start[0], start[1]);
+      const [x1, y1] = toLocal(f, x, y);
+      if (Math.abs(x0) < 1 || Math.abs(y0) < 1) return;
+      let kx = Math.abs(x1) / Math.abs(x0);
+      let ky = Math.abs(y1) / Math.abs(y0);
+      if (e.shiftKey) {
+        kx = ky = Math.hypot(x1, y1) / Math.hypot(x0, y0);
+      }
+      onChange({
+        ...from,
+        scaleX: clampScale(from.scaleX * kx),
+        scaleY: clampScale(from.scaleY * ky),
+      });
+    } else {
+      const a0 = Math.atan2(start[1] - f.cy, start[0] - f.cx);
+      const a1 = Math.atan2(y - f.cy, x - f.cx);
+      let rotation = from.rotation + ((a1 - a0) * 180) / Math.PI;
+      if (e.shiftKey) rotation = Math.round(rotation / 15) * 15;
+      onChange({ ...from, rotation: normalizeDegrees(rotation) });
+    }
+  }
+
+  function onPointerUp(e: PointerEvent<HTMLCanvasElement>) {
+    if (!dragRef.current) return;
+    dragRef.current = null;
+    e.currentTarget.releasePointerCapture(e.pointerId);
+  }
+
+  const cursor =
+    hover === "move"
+      ? "move"
+      : hover === "scale"
+        ? "nwse-resize"
+        : hover === "rotate"
+          ? "grab"
+          : "default";
+
+  return (
+    <canvas
+      ref={canvasRef}
+      onPointerDown={onPointerDown}
+      onPointerMove={onPointerMove}
+      onPointerUp={onPointerUp}
+      onPointerCancel={onPointerUp}
+      onPointerLeave={() => !dragRef.current && setHover(null)}
+      style={{
+        position: "absolute",
+        inset: 0,
+        width: "100%",
+        height: "100%",
+        objectFit: "contain",
+        display: "block",
+        cursor,
+        touchAction: "none",
+      }}
+    />
+  );
+}
@@ -0,0 +1,179 @@
+import { useEffect, useMemo, useRef, type PointerEvent } from "react";
+import { canvasPixelRatio, clientToCanvas } from "./dom";
+import type { GroundQuad } from "./groundPlane";
+import { applyMat3, groundHomography, type Point } from "./shadow";
+
+// Sizes in CSS pixels; converted to canvas pixels with canvasPixelRatio()
+const HANDLE_SIZE = 10;
+const GRID_STEPS = 4;
+
+const QUAD_COLOR = "rgba(40,220,200,0.95)";
+const LINE_COLORS = ["rgba(40,220,200,0.95)", "rgba(255,90,200,0.95)"];
+
+type Props = {
+  // Canvas pixel size (same as the composite canvas it sits on)
+  width: number;
+  height: number;
+  mode: "quad" | "lines";
+  // Ground rectangle in background pixels; in lines mode, derived from lines
+  quad: GroundQuad | null;
+  aspect: number;
+  onQuadChange: (quad: GroundQuad) => void;
+  // Two pairs of parallel ground lines (lines mode)
+  lines: [Point, Point][];
+  onLinesChange: (lines: [Point, Point][]) => void;
+};
+
+// Transparent canvas laid over the composite preview while calibrating the
+// ground: drag the rectangle's corners (quad mode) or the line endpoints
+// (lines mode). The resulting plane is drawn as a grid.
+export default function GroundOverlay({
+  width,
+  height,
+  mode,
+  quad,
+  aspect,
+  onQuadChange,
+  lines,
+  onLinesChange,
+}: Props) {
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const dragRef = useRef<number | null>(null);
+
+  const handles = useMemo<Point[]>(
+    () => (mode === "quad" ? (quad ?? []) : lines.flat()),
+    [mode, quad, lines]
+  );
+
+  // -----------------------------
+  // Draw plane grid + handles
+  // -----------------------------
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    if (canvas.width !== width) canvas.width = width;
+    if (canvas.height !== height) canvas.height = height;
+
+    const ctx = canvas.getContext("2d");
+    if (!ctx) return;
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+
+    const r = canvasPixelRatio(canvas);
+    ctx.save();
+
+    const g = quad && groundHomography({ quad, aspect });
+    if (g) {
+      ctx.strokeStyle = QUAD_COLOR;
+      ctx.lineWidth = 1 * r;
+      ctx.setLineDash([4 * r, 3 * r]);
+      for (let i = 0; i <= GRID_STEPS; i++) {
+        const t = i / GRID_STEPS;
+        const ends: [Point, Point][] = [
+          [
+            [t * aspect, 0],
+            [t * aspect, 1],
+          ],
+          [
+            [0, t],
+            [aspect, t],
+          ],
+        ];
+        for (const [[u0, v0], [u1, v1]] of ends) {
+          const a = applyMat3(g, u0, v0);
+          const b = applyMat3(g, u1, v1);
+          if (!a || !b) continue;
+          ctx.beginPath();
+          ctx.moveTo(a[0], a[1]);
+          ctx.lineTo(b[0], b[1]);
+          ctx.stroke();
+        }
+      }
+      ctx.setLineDash([]);
+    }
+
+    if (mode === "lines") {
+      ctx.lineWidth = 2 * r;
+      lines.forEach(([a, b], i) => {
+        ctx.strokeStyle = LINE_COLORS[i < 2 ? 0 : 1];
+        ctx.beginPath();
+        ctx.moveTo(a[0], a[1]);
+        ctx.lineTo(b[0], b[1]);
+        ctx.stroke();
+      });
+    }
+
+    const hs = HANDLE_SIZE * r;
+    ctx.lineWidth = 1.5 * r;
+    ctx.fillStyle = "white";
+    handles.forEach(([x, y], i) => {
+      ctx.strokeStyle =
+        mode === "quad" ? QUAD_COLOR : LINE_COLORS[i < 4 ? 0 : 1];
+      ctx.beginPath();
+      ctx.arc(x, y, hs / 2, 0, Math.PI * 2);
+      ctx.fill();
+      ctx.stroke();
+    });
+    ctx.restore();
+  }, [width, height, mode, quad, aspect, lines, handles]);
+
+  // -----------------------------
+  // Pointer drag
+  // -----------------------------
+  function moveHandle(index: number, p: Point) {
+    if (mode === "quad") {
+      if (!quad) return;
+      onQuadChange(quad.map((q, i) => (i === index ? p : q)) as GroundQuad);
+    } else {
+      onLinesChange(
+        lines.map(
+          (line, i) =>
+            line.map((q, j) => (i * 2 + j === index ? p : q)) as [Point, Point]
+        )
+      );
+    }
+  }
+
+  function onPointerDown(e: PointerEvent<HTMLCanvasElement>) {
+    const canvas = e.currentTarget;
+    const [x, y] = clientToCanvas(canvas, e.clientX, e.clientY);
+    const tol = HANDLE_SIZE * canvasPixelRatio(canvas);
+    const index = handles.findIndex(
+      ([hx, hy]) => Math.hypot(hx - x, hy - y) <= tol
+    );
+    if (index < 0) return;
+    canvas.setPointerCapture(e.pointerId);
+    dragRef.current = index;
+  }
+
+  function onPointerMove(e: PointerEvent<HTMLCanvasElement>) {
+    const index = dragRef.current;
+    if (index === null) return;
+    moveHandle(index, clientToCanvas(e.currentTarget, e.clientX, e.clientY));
+  }
+
+  function onPointerUp(e: PointerEvent<HTMLCanvasElement>) {
+    if (dragRef.current === null) return;
+    dragRef.current = null;
+    e.currentTarget.releasePointerCapture(e.pointerId);
+  }
+
+  return (
+    <canvas
+      ref={canvasRef}
+      onPointerDown={onPointerDown}
+      onPointerMove={onPointerMove}
+      onPointerUp={onPointerUp}
+      onPointerCancel={onPointerUp}
+      style={{
+        position: "absolute",
+        inset: 0,
+        width: "100%",
+        height: "100%",
+        objectFit: "contain",
+        display: "block",
+        cursor: "crosshair",
+        touchAction: "none",
+      }}
+    />
+  );
+}
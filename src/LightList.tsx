@@ -0,0 +1,224 @@
+import {
+  DEFAULT_FILL_LIGHT,
+  defaultLightPosition,
+  hexToRgb,
+  rgbToHex,
+  type SceneLight,
+} from "./sceneLights";
+
+type Props = {
+  lights: SceneLight[];
+  onChange: (lights: SceneLight[]) => void;
+  // Background size; bounds point-light positions
+  sceneWidth: number;
+  sceneHeight: number;
+};
+
+const sliderLabelStyle = {
+  display: "grid",
+  gap: 6,
+  minWidth: 200,
+  flex: "1 1 200px",
+} as const;
+
+// One row of controls per light, plus add / remove / solo.
+export default function LightList({
+  lights,
+  onChange,
+  sceneWidth,
+  sceneHeight,
+}: Props) {
+  function update(id: number, patch: Partial<SceneLight>) {
+    onChange(lights.map((l) => (l.id === id ? { ...l, ...patch } : l)));
+  }
+
+  function setKind(light: SceneLight, kind: SceneLight["kind"]) {
+    update(light.id, {
+      kind,
+      position: light.position ?? defaultLightPosition(sceneWidth, sceneHeight),
+    });
+  }
+
+  function movePosition(
+    light: SceneLight,
+    patch: Partial<NonNullable<SceneLight["position"]>>
+  ) {
+    const position =
+      light.position ?? defaultLightPosition(sceneWidth, sceneHeight);
+    update(light.id, { position: { ...position, ...patch } });
+  }
+
+  function add() {
+    const id = Math.max(0, ...lights.map((l) => l.id)) + 1;
+    onChange([...lights, { ...DEFAULT_FILL_LIGHT, id }]);
+  }
+
+  function remove(id: number) {
+    onChange(lights.filter((l) => l.id !== id));
+  }
+
+  const anySolo = lights.some((l) => l.solo);
+
+  return (
+    <div style={{ display: "grid", gap: 10 }}>
+      {lights.map((light, index) => (
+        <div
+          key={light.id}
+          style={{
+            display: "flex",
+            gap: 16,
+            flexWrap: "wrap",
+            alignItems: "end",
+            opacity: anySolo && !light.solo ? 0.5 : 1,
+          }}
+        >
+          <div style={{ minWidth: 70, fontWeight: 600 }}>
+            {index === 0 ? "Key" : `Light ${index + 1}`}
+          </div>
+
+          <label style={{ display: "grid", gap: 6 }}>
+            Type
+            <select
+              value={light.kind ?? "directional"}
+              onChange={(e) =>
+                setKind(light, e.target.value as SceneLight["kind"])
+              }
+            >
+              <option value="directional">Directional</option>
+              <option value="point">Point</option>
+            </select>
+          </label>
+
+          {light.kind === "point" && light.position ? (
+            <>
+              <label style={sliderLabelStyle}>
+                X: {Math.round(light.position.x)}px
+                <input
+                  type="range"
+                  min={-sceneWidth}
+                  max={2 * sceneWidth}
+                  value={light.position.x}
+                  onChange={(e) =>
+                    movePosition(light, { x: Number(e.target.value) })
+                  }
+                />
+              </label>
+
+              <label style={sliderLabelStyle}>
+                Y (ground): {Math.round(light.position.y)}px
+                <input
+                  type="range"
+                  min={0}
+                  max={2 * sceneHeight}
+                  value={light.position.y}
+                  onChange={(e) =>
+                    movePosition(light, { y: Number(e.target.value) })
+                  }
+                />
+              </label>
+
+              <label style={sliderLabelStyle}>
+                Height: {Math.round(light.position.height)}px
+                <input
+                  type="range"
+                  min={1}
+                  max={3 * sceneHeight}
+                  value={light.position.height}
+                  onChange={(e) =>
+                    movePosition(light, { height: Number(e.target.value) })
+                  }
+                />
+              </label>
+            </>
+          ) : (
+            <>
+              <label style={sliderLabelStyle}>
+                Angle: {light.angle}°
+                <input
+                  type="range"
+                  min={0}
+                  max={360}
+                  value={light.angle}
+                  onChange={(e) =>
+                    update(light.id, { angle: Number(e.target.value) })
+                  }
+                />
+              </label>
+
+              <label style={sliderLabelStyle}>
+                Elevation: {light.elev}°
+                <input
+                  type="range"
+                  min={1}
+                  max={89}
+                  value={light.elev}
+                  onChange={(e) =>
+                    update(light.id, { elev: Number(e.target.value) })
+                  }
+                />
+              </label>
+            </>
+          )}
+
+          <label style={sliderLabelStyle}>
+            Size (softness): {(light.size ?? 0).toFixed(1)}°
+            <input
+              type="range"
+              min={0}
+              max={20}
+              step={0.1}
+              value={light.size ?? 0}
+              onChange={(e) =>
+                update(light.id, { size: Number(e.target.value) })
+              }
+            />
+          </label>
+
+          <label style={sliderLabelStyle}>
+            Intensity: {(light.intensity ?? 1).toFixed(2)}
+            <input
+              type="range"
+              min={0}
+              max={2}
+              step={0.01}
+              value={light.intensity ?? 1}
+              onChange={(e) =>
+                update(light.id, { intensity: Number(e.target.value) })
+              }
+            />
+          </label>
+
+          <label style={{ display: "grid", gap: 6 }}>
+            Color
+            <input
+              type="color"
+              value={rgbToHex(light.color ?? [255, 255, 255])}
+              onChange={(e) =>
+                update(light.id, { color: hexToRgb(e.target.value) })
+              }
+            />
+          </label>
+
+          <div style={{ display: "flex", gap: 8 }}>
+            <button
+              onClick={() => update(light.id, { solo: !light.solo })}
+              style={light.solo ? { borderColor: "#646cff" } : undefined}
+            >
+              Solo
+            </button>
+            <button
+              onClick={() => remove(light.id)}
+              disabled={lights.length <= 1}
+            >
+              Remove
+            </button>
+          </div>
+        </div>
+      ))}
+
+      <div>
+        <button onClick={add}>Add Light</button>
+      </div>
+    </div>
+  );
+}
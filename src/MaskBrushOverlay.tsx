@@ -0,0 +1,157 @@
+import { useEffect, useMemo, useRef, useState, type PointerEvent } from "react";
+import { clientToCanvas } from "./dom";
+import {
+  apply,
+  compose,
+  invert,
+  placementFrameMatrix,
+  scale,
+  type MaskStroke,
+  type Placement,
+  type Point,
+} from "./shadow";
+
+const PAINT_COLOR = "rgba(120,200,255,0.55)";
+const ERASE_COLOR = "rgba(255,80,80,0.55)";
+
+type Props = {
+  // Canvas pixel size (same as the mask preview it sits on)
+  width: number;
+  height: number;
+  placement: Placement;
+  // Cutout size: strokes are kept in its pixels, so they survive moves
+  fgWidth: number;
+  fgHeight: number;
+  mode: MaskStroke["mode"];
+  radius: number; // cutout px
+  onStroke: (stroke: MaskStroke) => void;
+};
+
+// Paint / erase brush over the mask preview. The stroke in progress is drawn
+// here and handed over on release; the refined mask comes back as the preview.
+export default function MaskBrushOverlay({
+  width,
+  height,
+  placement,
+  fgWidth,
+  fgHeight,
+  mode,
+  radius,
+  onStroke,
+}: Props) {
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const strokeRef = useRef<Point[] | null>(null);
+  const [cursor, setCursor] = useState<Point | null>(null);
+  // Bumped to redraw while a stroke grows (points live in a ref)
+  const [, setTick] = useState(0);
+
+  // Cutout pixels -> mask preview pixels, and its mean scale
+  const toFrame = useMemo(
+    () =>
+      compose(
+        placementFrameMatrix(placement),
+        scale(placement.w / fgWidth, placement.h / fgHeight)
+      ),
+    [placement, fgWidth, fgHeight]
+  );
+  const toCutout = useMemo(() => invert(toFrame), [toFrame]);
+  const k = Math.sqrt((placement.w / fgWidth) * (placement.h / fgHeight));
+
+  // -----------------------------
+  // Draw the stroke in progress + brush outline
+  // -----------------------------
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    if (canvas.width !== width) canvas.width = width;
+    if (canvas.height !== height) canvas.height = height;
+
+    const ctx = canvas.getContext("2d");
+    if (!ctx) return;
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+
+    const color = mode === "paint" ? PAINT_COLOR : ERASE_COLOR;
+    const points = strokeRef.current;
+    if (points && points.length > 0) {
+      ctx.strokeStyle = color;
+      ctx.lineWidth = radius * 2 * k;
+      ctx.lineCap = "round";
+      ctx.lineJoin = "round";
+      ctx.beginPath();
+      points.forEach(([x, y], i) => {
+        const [fx, fy] = apply(toFrame, x, y);
+        if (i === 0) ctx.moveTo(fx, fy);
+        else ctx.lineTo(fx, fy);
+      });
+      if (points.length === 1) ctx.lineTo(...apply(toFrame, ...points[0]));
+      ctx.stroke();
+    }
+
+    if (cursor) {
+      const [fx, fy] = apply(toFrame, cursor[0], cursor[1]);
+      ctx.lineWidth = 1;
+      ctx.strokeStyle = color;
+      ctx.beginPath();
+      ctx.arc(fx, fy, Math.max(1, radius * k), 0, Math.PI * 2);
+      ctx.stroke();
+    }
+  });
+
+  // -----------------------------
+  // Pointer drag
+  // -----------------------------
+  function cutoutAt(e: PointerEvent<HTMLCanvasElement>): Point | null {
+    if (!toCutout) return null;
+    const [x, y] = clientToCanvas(e.currentTarget, e.clientX, e.clientY);
+    const [u, v] = apply(toCutout, x, y);
+    return [Math.round(u * 10) / 10, Math.round(v * 10) / 10];
+  }
+
+  function onPointerDown(e: PointerEvent<HTMLCanvasElement>) {
+    const p = cutoutAt(e);
+    if (!p) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    strokeRef.current = [p];
+    setTick((t) => t + 1);
+  }
+
+  function onPointerMove(e: PointerEvent<HTMLCanvasElement>) {
+    const p = cutoutAt(e);
+    setCursor(p);
+    const points = strokeRef.current;
+    if (!p || !points) return;
+    // Spacing well under the brush keeps the stroke round and the list short
+    const [lx, ly] = points[points.length - 1];
+    if (Math.hypot(p[0] - lx, p[1] - ly) < Math.max(1, radius / 4)) return;
+    points.push(p);
+  }
+
+  function onPointerUp(e: PointerEvent<HTMLCanvasElement>) {
+    const points = strokeRef.current;
+    if (!points) return;
+    strokeRef.current = null;
+    e.currentTarget.releasePointerCapture(e.pointerId);
+    onStroke({ mode, radius, points });
+  }
+
+  return (
+    <canvas
+      ref={canvasRef}
+      onPointerDown={onPointerDown}
+      onPointerMove={onPointerMove}
+      onPointerUp={onPointerUp}
+      onPointerCancel={onPointerUp}
+      onPointerLeave={() => setCursor(null)}
+      style={{
+        position: "absolute",
+        inset: 0,
+        width: "100%",
+        height: "100%",
+        objectFit: "contain",
+        display: "block",
+        cursor: "crosshair",
+        touchAction: "none",
+      }}
+    />
+  );
+}
@@ -0,0 +1,371 @@
+import { useEffect, useRef, useState, type PointerEvent } from "react";
+import { canvasPixelRatio, clientToCanvas } from "./dom";
+import {
+  hitTestPlacement,
+  placementHandles,
+  type ContactLine,
+  type Placement,
+  type PlacementHandle,
+  type Point,
+} from "./shadow";
+
+// Sizes in CSS pixels; converted to canvas pixels with canvasPixelRatio()
+const HANDLE_SIZE = 10;
+const ROTATE_OFFSET = 28;
+const MIN_SIZE = 8;
+// Wheel events closer together than this make one scale gesture
+const WHEEL_GESTURE_MS = 400;
+
+type Drag =
+  | {
+      mode: PlacementHandle;
+      start: [number, number];
+      from: Placement;
+    }
+  | { mode: "contact"; index: number };
+
+// Wheel scaling in progress: every step scales `from` by the whole factor so
+// far, so rounding doesn't add up
+type WheelGesture = {
+  from: Placement;
+  factor: number;
+  // Placement props that belong to the gesture (the last one sent and the
+  // one it was computed from, until the parent re-renders)
+  sent: Placement;
+  seen: Placement;
+  time: number;
+};
+
+type Props = {
+  // Canvas pixel size (same as the composite canvas it sits on)
+  width: number;
+  height: number;
+  placement: Placement | null;
+  onChange: (placement: Placement) => void;
+  // Ground contact line the shadow pivots on (drawn for reference)
+  contact: ContactLine | null;
+  // Contact editing: manual points in background pixels
+  editContact: boolean;
+  contactPoints: Point[];
+  onContactPointsChange: (points: Point[]) => void;
+};
+
+// Scales a placement uniformly about its center, keeping its aspect (no
+// side below MIN_SIZE).
+function scalePlacement(from: Placement, factor: number): Placement {
+  const s = Math.max(factor, MIN_SIZE / Math.min(from.w, from.h));
+  const w = Math.round(from.w * s);
+  const h = Math.round(from.h * s);
+  const cx = from.x + from.w / 2;
+  const cy = from.y + from.h / 2;
+  return {
+    ...from,
+    x: Math.round(cx - w / 2),
+    y: Math.round(cy - h / 2),
+    w,
+    h,
+  };
+}
+
+function normalizeDegrees(deg: number) {
+  return ((((deg + 180) % 360) + 360) % 360) - 180;
+}
+
+// Transparent canvas laid over the composite preview: draws the placement
+// box + handles and turns drag / wheel input into placement edits.
+//   drag inside      -> move
+//   drag a corner    -> scale about the center
+//   drag top handle  -> rotate (Shift snaps to 15°)
+//   wheel            -> scale, Shift + wheel -> rotate
+// With editContact on, the placement is locked and instead:
+//   click            -> add a contact point (and drag it)
+//   drag a point     -> move it
+//   Shift + click    -> remove a point
+export default function PlacementOverlay({
+  width,
+  height,
+  placement,
+  onChange,
+  contact,
+  editContact,
+  contactPoints,
+  onContactPointsChange,
+}: Props) {
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const dragRef = useRef<Drag | null>(null);
+  const wheelRef = useRef<WheelGesture | null>(null);
+  const [hover, setHover] = useState<PlacementHandle | null>(null);
+
+  // -----------------------------
+  // Draw box + handles
+  // -----------------------------
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    if (canvas.width !== width) canvas.width = width;
+    if (canvas.height !== height) canvas.height = height;
+
+    const ctx = canvas.getContext("2d");
+    if (!ctx) return;
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    if (!placement) return;
+
+    const r = canvasPixelRatio(canvas);
+    const { corners, center, rotate } = placementHandles(
+      placement,
+      ROTATE_OFFSET * r
+    );
+
+    ctx.save();
+    ctx.lineWidth = 1.5 * r;
+    ctx.strokeStyle = "rgba(100,108,255,0.95)";
+    ctx.fillStyle = "white";
+
+    ctx.setLineDash([6 * r, 4 * r]);
+    ctx.beginPath();
+    corners.forEach(([x, y], i) =>
+      i === 0 ? ctx.moveTo(x, y) : ctx.lineTo(x, y)
+    );
+    ctx.closePath();
+    ctx.stroke();
+    ctx.setLineDash([]);
+
+    // stem from top edge to rotate handle
+    const [tx, ty] = [
+      (corners[0][0] + corners[1][0]) / 2,
+      (corners[0][1] + corners[1][1]) / 2,
+    ];
+    ctx.beginPath();
+    ctx.moveTo(tx, ty);
+    ctx.lineTo(rotate[0], rotate[1]);
+    ctx.stroke();
+
+    const hs = HANDLE_SIZE * r;
+    for (const [x, y] of corners) {
+      ctx.fillRect(x - hs / 2, y - hs / 2, hs, hs);
+      ctx.strokeRect(x - hs / 2, y - hs / 2, hs, hs);
+    }
+
+    ctx.beginPath();
+    ctx.arc(rotate[0], rotate[1], hs / 2, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.stroke();
+
+    ctx.beginPath();
+    ctx.arc(center[0], center[1], 2 * r, 0, Math.PI * 2);
+    ctx.fillStyle = "rgba(100,108,255,0.95)";
+    ctx.fill();
+
+    if (contact) {
+      ctx.strokeStyle = "rgba(255,170,40,0.95)";
+      ctx.lineWidth = 2 * r;
+      ctx.setLineDash(editContact ? [] : [4 * r, 3 * r]);
+      ctx.beginPath();
+      ctx.moveTo(contact.x0 - hs, contact.y0);
+      ctx.lineTo(contact.x0, contact.y0);
+      ctx.lineTo(contact.x1, contact.y1);
+      ctx.lineTo(contact.x1 + hs, contact.y1);
+      ctx.stroke();
+      ctx.setLineDash([]);
+    }
+
+    if (editContact) {
+      ctx.fillStyle = "rgba(255,170,40,0.95)";
+      ctx.strokeStyle = "white";
+      ctx.lineWidth = 1.5 * r;
+      for (const [x, y] of contactPoints) {
+        ctx.beginPath();
+        ctx.arc(x, y, hs / 2, 0, Math.PI * 2);
+        ctx.fill();
+        ctx.stroke();
+      }
+    }
+    ctx.restore();
+  }, [width, height, placement, contact, editContact, contactPoints]);
+
+  // -----------------------------
+  // Wheel: scale / rotate (non-passive so the page doesn't scroll)
+  // -----------------------------
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || !placement || editContact) return;
+
+    const onWheel = (e: WheelEvent) => {
+      const [x, y] = clientToCanvas(canvas, e.clientX, e.clientY);
+      const r = canvasPixelRatio(canvas);
+      if (
+        !hitTestPlacement(placement, x, y, HANDLE_SIZE * r, ROTATE_OFFSET * r)
+      ) {
+        return;
+      }
+      e.preventDefault();
+
+      if (e.shiftKey) {
+        const delta = (e.deltaY || e.deltaX) > 0 ? 2 : -2;
+        onChange({
+          ...placement,
+          rotation: normalizeDegrees(placement.rotation + delta),
+        });
+      } else {
+        const g = wheelRef.current;
+        const ongoing =
+          g &&
+          e.timeStamp - g.time < WHEEL_GESTURE_MS &&
+          (placement === g.sent || placement === g.seen);
+        const from = ongoing ? g.from : placement;
+        // Held at the minimum size, so scrolling back grows it right away
+        const factor = Math.max(
+          (ongoing ? g.factor : 1) * Math.exp(-e.deltaY * 0.001),
+          MIN_SIZE / Math.min(from.w, from.h)
+        );
+        const sent = scalePlacement(from, factor);
+        wheelRef.current = {
+          from,
+          factor,
+          sent,
+          seen: placement,
+          time: e.timeStamp,
+        };
+        onChange(sent);
+      }
+    };
+
+    canvas.addEventListener("wheel", onWheel, { passive: false });
+    return () => canvas.removeEventListener("wheel", onWheel);
+  }, [placement, onChange, editContact]);
+
+  // -----------------------------
+  // Pointer drag
+  // -----------------------------
+  function hitAt(canvas: HTMLCanvasElement, clientX: number, clientY: number) {
+    if (!placement || editContact) return null;
+    const [x, y] = clientToCanvas(canvas, clientX, clientY);
+    const r = canvasPixelRatio(canvas);
+    return hitTestPlacement(
+      placement,
+      x,
+      y,
+      HANDLE_SIZE * r,
+      ROTATE_OFFSET * r
+    );
+  }
+
+  function contactIndexAt(canvas: HTMLCanvasElement, x: number, y: number) {
+    const tol = HANDLE_SIZE * canvasPixelRatio(canvas);
+    return contactPoints.findIndex(
+      ([px, py]) => Math.hypot(px - x, py - y) <= tol
+    );
+  }
+
+  function onPointerDown(e: PointerEvent<HTMLCanvasElement>) {
+    const canvas = e.currentTarget;
+
+    if (editContact) {
+      const p = clientToCanvas(canvas, e.clientX, e.clientY);
+      const index = contactIndexAt(canvas, p[0], p[1]);
+      if (e.shiftKey) {
+        if (index >= 0) {
+          onContactPointsChange(contactPoints.filter((_, i) => i !== index));
+        }
+        return;
+      }
+
+      canvas.setPointerCapture(e.pointerId);
+      if (index >= 0) {
+        dragRef.current = { mode: "contact", index };
+      } else {
+        onContactPointsChange([...contactPoints, p]);
+        dragRef.current = { mode: "contact", index: contactPoints.length };
+      }
+      return;
+    }
+
+    const mode = hitAt(canvas, e.clientX, e.clientY);
+    if (!mode || !placement) return;
+
+    canvas.setPointerCapture(e.pointerId);
+    dragRef.current = {
+      mode,
+      start: clientToCanvas(canvas, e.clientX, e.clientY),
+      from: placement,
+    };
+  }
+
+  function onPointerMove(e: PointerEvent<HTMLCanvasElement>) {
+    const canvas = e.currentTarget;
+    const drag = dragRef.current;
+    if (!drag) {
+      setHover(hitAt(canvas, e.clientX, e.clientY));
+      return;
+    }
+
+    const [x, y] = clientToCanvas(canvas, e.clientX, e.clientY);
+
+    if (drag.mode === "contact") {
+      onContactPointsChange(
+        contactPoints.map((p, i) => (i === drag.index ? [x, y] : p))
+      );
+      return;
+    }
+
+    const [sx, sy] = drag.start;
+    const from = drag.from;
+    const cx = from.x + from.w / 2;
+    const cy = from.y + from.h / 2;
+
+    if (drag.mode === "move") {
+      onChange({
+        ...from,
+        x: Math.round(from.x + x - sx),
+        y: Math.round(from.y + y - sy),
+      });
+    } else if (drag.mode === "scale") {
+      const d0 = Math.hypot(sx - cx, sy - cy);
+      if (d0 < 1) return;
+      onChange(scalePlacement(from, Math.hypot(x - cx, y - cy) / d0));
+    } else {
+      const a0 = Math.atan2(sy - cy, sx - cx);
+      const a1 = Math.atan2(y - cy, x - cx);
+      let rotation = from.rotation + ((a1 - a0) * 180) / Math.PI;
+      if (e.shiftKey) rotation = Math.round(rotation / 15) * 15;
+      onChange({ ...from, rotation: normalizeDegrees(rotation) });
+    }
+  }
+
+  function onPointerUp(e: PointerEvent<HTMLCanvasElement>) {
+    if (!dragRef.current) return;
+    dragRef.current = null;
+    e.currentTarget.releasePointerCapture(e.pointerId);
+  }
+
+  const cursor = editContact
+    ? "crosshair"
+    : hover === "move"
+      ? "move"
+      : hover === "scale"
+        ? "nwse-resize"
+        : hover === "rotate"
+          ? "grab"
+          : "default";
+
+  return (
+    <canvas
+      ref={canvasRef}
+      onPointerDown={onPointerDown}
+      onPointerMove={onPointerMove}
+      onPointerUp={onPointerUp}
+      onPointerCancel={onPointerUp}
+      onPointerLeave={() => !dragRef.current && setHover(null)}
+      style={{
+        position: "absolute",
+        inset: 0,
+        width: "100%",
+        height: "100%",
+        objectFit: "contain",
+        display: "block",
+        cursor,
+        touchAction: "none",
+      }}
+    />
+  );
+}
@@ -0,0 +1,147 @@
+import { useEffect, useRef, type PointerEvent } from "react";
+import { canvasPixelRatio, clientToCanvas } from "./dom";
+import type { Point, ShadowReference } from "./shadow";
+
+// Sizes in CSS pixels; converted to canvas pixels with canvasPixelRatio()
+const HANDLE_SIZE = 10;
+
+const LINE_COLOR = "rgba(255,220,60,0.95)";
+
+type Handle = keyof ShadowReference;
+
+type Props = {
+  // Canvas pixel size (same as the composite canvas it sits on)
+  width: number;
+  height: number;
+  reference: ShadowReference | null;
+  onChange: (reference: ShadowReference) => void;
+};
+
+// Transparent canvas laid over the composite preview for marking an object
+// in the background and its shadow:
+//   drag on empty space -> new line from the object's base to the shadow tip
+//   drag a handle       -> move it
+//   Shift + click       -> mark the object's top (gives the elevation too)
+export default function ReferenceOverlay({
+  width,
+  height,
+  reference,
+  onChange,
+}: Props) {
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const dragRef = useRef<Handle | null>(null);
+
+  // -----------------------------
+  // Draw base -> tip (+ base -> top)
+  // -----------------------------
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    if (canvas.width !== width) canvas.width = width;
+    if (canvas.height !== height) canvas.height = height;
+
+    const ctx = canvas.getContext("2d");
+    if (!ctx) return;
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    if (!reference) return;
+
+    const r = canvasPixelRatio(canvas);
+    const { base, tip, top } = reference;
+    ctx.save();
+    ctx.strokeStyle = LINE_COLOR;
+    ctx.lineWidth = 2 * r;
+
+    ctx.beginPath();
+    ctx.moveTo(base[0], base[1]);
+    ctx.lineTo(tip[0], tip[1]);
+    ctx.stroke();
+
+    if (top) {
+      ctx.setLineDash([4 * r, 3 * r]);
+      ctx.beginPath();
+      ctx.moveTo(base[0], base[1]);
+      ctx.lineTo(top[0], top[1]);
+      ctx.stroke();
+      ctx.setLineDash([]);
+    }
+
+    const hs = HANDLE_SIZE * r;
+    ctx.lineWidth = 1.5 * r;
+    for (const [x, y] of [base, tip, top].filter((p): p is Point => !!p)) {
+      ctx.beginPath();
+      ctx.arc(x, y, hs / 2, 0, Math.PI * 2);
+      ctx.fillStyle = "white";
+      ctx.fill();
+      ctx.stroke();
+    }
+    ctx.restore();
+  }, [width, height, reference]);
+
+  // -----------------------------
+  // Pointer drag
+  // -----------------------------
+  function handleAt(canvas: HTMLCanvasElement, [x, y]: Point): Handle | null {
+    if (!reference) return null;
+    const tol = HANDLE_SIZE * canvasPixelRatio(canvas);
+    const handles: Handle[] = ["tip", "top", "base"];
+    for (const key of handles) {
+      const p = reference[key];
+      if (p && Math.hypot(p[0] - x, p[1] - y) <= tol) return key;
+    }
+    return null;
+  }
+
+  function onPointerDown(e: PointerEvent<HTMLCanvasElement>) {
+    const canvas = e.currentTarget;
+    const p = clientToCanvas(canvas, e.clientX, e.clientY);
+
+    if (e.shiftKey) {
+      if (reference) onChange({ ...reference, top: p });
+      return;
+    }
+
+    canvas.setPointerCapture(e.pointerId);
+    const handle = handleAt(canvas, p);
+    if (handle) {
+      dragRef.current = handle;
+    } else {
+      onChange({ base: p, tip: p });
+      dragRef.current = "tip";
+    }
+  }
+
+  function onPointerMove(e: PointerEvent<HTMLCanvasElement>) {
+    const handle = dragRef.current;
+    if (!handle || !reference) return;
+    onChange({
+      ...reference,
+      [handle]: clientToCanvas(e.currentTarget, e.clientX, e.clientY),
+    });
+  }
+
+  function onPointerUp(e: PointerEvent<HTMLCanvasElement>) {
+    if (!dragRef.current) return;
+    dragRef.current = null;
+    e.currentTarget.releasePointerCapture(e.pointerId);
+  }
+
+  return (
+    <canvas
+      ref={canvasRef}
+      onPointerDown={onPointerDown}
+      onPointerMove={onPointerMove}
+      onPointerUp={onPointerUp}
+      onPointerCancel={onPointerUp}
+      style={{
+        position: "absolute",
+        inset: 0,
+        width: "100%",
+        height: "100%",
+        objectFit: "contain",
+        display: "block",
+        cursor: "crosshair",
+        touchAction: "none",
+      }}
+    />
+  );
+}
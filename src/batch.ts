@@ -0,0 +1,272 @@
+import {
+  createBatchJobs,
+  type BatchRequestMessage,
+  type BatchResponseMessage,
+} from "./batchJobs";
+import { decodeDepthMap, decodeImage, readFileAsDataURL } from "./dom";
+import type { ProjectScene } from "./project";
+import type { DepthMap, RgbaImage } from "./shadow";
+import { createZip, type ZipEntry } from "./zip";
+
+// Batch runs: one background + lighting setup applied to a folder of
+// cutouts, bundled into a ZIP of composites, shadows and masks (and
+// reflections when they are on).
+
+export type BatchItem = {
+  // Safe for file names, unique within the batch
+  name: string;
+  foreground: File;
+  depth: File | null;
+};
+
+export type BatchProgress = {
+  done: number;
+  total: number;
+  current: string | null;
+};
+
+export type BatchResult = {
+  zip: Blob;
+  // Items that could not be decoded or rendered, with the reason
+  failed: string[];
+};
+
+const IMAGE_EXT = /\.(png|jpe?g|webp|gif|bmp|avif)$/i;
+// Float depth formats, only taken as depth maps
+const DEPTH_EXT = /\.(pfm|exr|raw|f32)$/i;
+
+// "chair_depth.png", "chair-depth.png", "chair.depth.png", "depth/chair.png"
+const DEPTH_SUFFIX = /[-_. ]depth$/i;
+const DEPTH_DIR = /^depths?$/i;
+
+function pathOf(file: File) {
+  return file.webkitRelativePath || file.name;
+}
+
+function stemOf(name: string) {
+  return name.replace(/\.[^.]+$/, "");
+}
+
+function isDepthFile(file: File) {
+  const parts = pathOf(file).split("/");
+  return (
+    DEPTH_SUFFIX.test(stemOf(file.name)) ||
+    parts.slice(0, -1).some((p) => DEPTH_DIR.test(p))
+  );
+}
+
+// -----------------------------
+// Split a dropped folder into cutouts, each with the depth map of the same
+// name if there is one (see DEPTH_SUFFIX / DEPTH_DIR). Non-images are
+// ignored; depth maps without a cutout are reported in unmatchedDepth.
+// -----------------------------
+export function pairBatchFiles(files: File[]): {
+  items: BatchItem[];
+  unmatchedDepth: string[];
+} {
+  const images = files
+    .filter(
+      (f) =>
+        f.type.startsWith("image/") ||
+        IMAGE_EXT.test(f.name) ||
+        (DEPTH_EXT.test(f.name) && isDepthFile(f))
+    )
+    .sort((a, b) => pathOf(a).localeCompare(pathOf(b)));
+
+  const depthByKey = new Map<string, File>();
+  for (const f of images) {
+    if (!isDepthFile(f)) continue;
+    depthByKey.set(stemOf(f.name).replace(DEPTH_SUFFIX, "").toLowerCase(), f);
+  }
+
+  const used = new Set<string>();
+  const names = new Set<string>();
+  const items: BatchItem[] = [];
+  for (const f of images) {
+    if (isDepthFile(f)) continue;
+    const key = stemOf(f.name).toLowerCase();
+    const depth = depthByKey.get(key) ?? null;
+    if (depth) used.add(key);
+
+    const base = stemOf(f.name).replace(/[^\w.-]+/g, "_") || "item";
+    let name = base;
+    for (let n = 2; names.has(name); n++) name = `${base}_${n}`;
+    names.add(name);
+
+    items.push({ name, foreground: f, depth });
+  }
+
+  const unmatchedDepth = [...depthByKey]
+    .filter(([key]) => !used.has(key))
+    .map(([, f]) => f.name);
+
+  return { items, unmatchedDepth };
+}
+
+async function decodeFile(file: File): Promise<RgbaImage> {
+  return decodeImage(await readFileAsDataURL(file));
+}
+
+// Let the page repaint (progress) between items.
+function nextFrame() {
+  return new Promise<void>((resolve) => setTimeout(resolve, 0));
+}
+
+type BatchBackend = {
+  post: (message: BatchRequestMessage) => void;
+  // The reply to the item in flight
+  reply: () => Promise<ZipEntry[]>;
+  // Drops the worker; a pending reply, and any later one, rejects with
+  // `reason`
+  terminate: (reason?: unknown) => void;
+};
+
+// Module worker when available, else the same jobs on this thread (which
+// then blocks while an item renders).
+function createBatchBackend(): BatchBackend {
+  let pending: {
+    resolve: (entries: ZipEntry[]) => void;
+    reject: (reason: unknown) => void;
+  } | null = null;
+  const settle = (m: BatchResponseMessage) => {
+    const p = pending;
+    pending = null;
+    if (m.type === "error") p?.reject(new Error(m.message));
+    else p?.resolve(m.entries);
+  };
+  // Why the worker is gone, once it is
+  let gone: { reason: unknown } | null = null;
+  const fail = (reason: unknown) => {
+    gone ??= { reason };
+    pending?.reject(reason);
+    pending = null;
+  };
+  const reply = () =>
+    new Promise<ZipEntry[]>((resolve, reject) => {
+      if (gone) reject(gone.reason);
+      else pending = { resolve, reject };
+    });
+
+  try {
+    const worker = new Worker(new URL("./batch.worker.ts", import.meta.url), {
+      type: "module",
+    });
+    worker.onmessage = (e: MessageEvent<BatchResponseMessage>) =>
+      settle(e.data);
+    worker.onerror = (e) => {
+      worker.terminate();
+      fail(new Error(e.message || "batch worker failed"));
+    };
+    return {
+      post: (message) => worker.postMessage(message),
+      reply,
+      terminate: (reason) => {
+        worker.terminate();
+        fail(reason);
+      },
+    };
+  } catch {
+    let live = true;
+    const jobs = createBatchJobs((message) => {
+      if (live) settle(message);
+    });
+    return {
+      post: (message) => jobs.handle(message),
+      reply,
+      terminate: (reason) => {
+        live = false;
+        fail(reason);
+      },
+    };
+  }
+}
+
+// -----------------------------
+// Render every item with `scene` over `background`, in the batch worker.
+// Each cutout takes the scene's spot (see refitPlacement) with auto-detected
+// contact points, and the scene's backdrop removal and mask refinement minus
+// what was drawn on the app's cutout (the GrabCut box, brush strokes).
+// Entries reuse the export names with the item appended:
+//   composite_<stamp>_<item>.png, shadow_<stamp>_<item>.png, mask_<stamp>_<item>.png
+// An item that fails to decode or render is listed in `failed` and the
+// rest go on. Aborting the signal stops the item in flight (rejects with
+// AbortError).
+// -----------------------------
+export async function runBatch(
+  items: BatchItem[],
+  background: RgbaImage,
+  scene: ProjectScene,
+  options: {
+    stamp: string;
+    // Depth / height map of the background (shared by every item)
+    surface?: DepthMap | null;
+    signal?: AbortSignal;
+    onProgress?: (progress: BatchProgress) => void;
+  }
+): Promise<BatchResult> {
+  const { stamp, signal, onProgress } = options;
+  const entries: ZipEntry[] = [];
+  const failed: string[] = [];
+
+  signal?.throwIfAborted();
+  const backend = createBatchBackend();
+  const onAbort = () => backend.terminate(signal?.reason);
+  signal?.addEventListener("abort", onAbort);
+  try {
+    backend.post({
+      type: "setup",
+      background,
+      scene,
+      surface: options.surface ?? null,
+      stamp,
+    });
+
+    for (let i = 0; i < items.length; i++) {
+      const item = items[i];
+      onProgress?.({
+        done: i,
+        total: items.length,
+        current: item.foreground.name,
+      });
+      await nextFrame();
+      signal?.throwIfAborted();
+
+      let foreground: RgbaImage;
+      let depth: DepthMap | null;
+      try {
+        foreground = await decodeFile(item.foreground);
+        depth = item.depth
+          ? await decodeDepthMap(
+              await readFileAsDataURL(item.depth),
+              foreground.width / foreground.height,
+              "foreground"
+            )
+          : null;
+      } catch {
+        failed.push(`${item.foreground.name}: could not be decoded`);
+        continue;
+      }
+      signal?.throwIfAborted();
+
+      const reply = backend.reply();
+      backend.post({ type: "item", name: item.name, foreground, depth });
+      try {
+        entries.push(...(await reply));
+      } catch (err) {
+        signal?.throwIfAborted();
+        failed.push(`${item.foreground.name}: ${(err as Error).message}`);
+      }
+    }
+  } finally {
+    signal?.removeEventListener("abort", onAbort);
+    backend.terminate();
+  }
+
+  onProgress?.({ done: items.length, total: items.length, current: null });
+
+  const zip = createZip(entries);
+  return {
+    zip: new Blob([zip.buffer as ArrayBuffer], { type: "application/zip" }),
+    failed,
+  };
+}
@@ -0,0 +1,11 @@
+import { createBatchJobs, type BatchRequestMessage } from "./batchJobs";
+
+// Batch worker: renders and encodes batch items off the main thread, so the
+// page stays responsive and a cancel can drop the worker mid-item. See
+// runBatch for the page side.
+
+const jobs = createBatchJobs((message, transfer) =>
+  self.postMessage(message, { transfer })
+);
+
+self.onmessage = (e: MessageEvent<BatchRequestMessage>) => jobs.handle(e.data);
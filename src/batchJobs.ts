@@ -0,0 +1,113 @@
+import { encodePng } from "./codecs";
+import type { ProjectScene } from "./project";
+import { refitPlacement, renderScene } from "./scene";
+import type { DepthMap, RgbaImage } from "./shadow";
+import type { ZipEntry } from "./zip";
+
+// Messages between runBatch (batch.ts) and the batch worker
+// (batch.worker.ts), plus the worker-side item renderer, shared with the
+// in-page fallback.
+
+export type BatchRequestMessage =
+  | {
+      type: "setup";
+      background: RgbaImage;
+      scene: ProjectScene;
+      // Depth / height map of the background (shared by every item)
+      surface: DepthMap | null;
+      stamp: string;
+    }
+  | {
+      type: "item";
+      name: string;
+      foreground: RgbaImage;
+      depth: DepthMap | null;
+    };
+
+export type BatchResponseMessage =
+  | { type: "item"; name: string; entries: ZipEntry[] }
+  | { type: "error"; name: string; message: string };
+
+type BatchSetup = Extract<BatchRequestMessage, { type: "setup" }>;
+type BatchItemMessage = Extract<BatchRequestMessage, { type: "item" }>;
+
+// -----------------------------
+// Renders one item per "item" message with the scene of the last "setup",
+// answering with its ZIP entries (PNG bytes, transferred) in order.
+// -----------------------------
+export function createBatchJobs(
+  post: (message: BatchResponseMessage, transfer: Transferable[]) => void
+) {
+  let setup: BatchSetup | null = null;
+  // Items run one after the other, in the order they came
+  let queue = Promise.resolve();
+
+  async function render(item: BatchItemMessage) {
+    try {
+      if (!setup) throw new Error("batch item before setup");
+      const entries = await renderBatchItem(setup, item);
+      post(
+        { type: "item", name: item.name, entries },
+        entries.map((e) => e.data.buffer as ArrayBuffer)
+      );
+    } catch (err) {
+      post(
+        { type: "error", name: item.name, message: (err as Error).message },
+        []
+      );
+    }
+  }
+
+  function handle(message: BatchRequestMessage) {
+    if (message.type === "setup") {
+      setup = message;
+      return;
+    }
+    queue = queue.then(() => render(message));
+  }
+
+  return { handle };
+}
+
+// Each cutout takes the scene's spot (see refitPlacement) with auto-detected
+// contact points, and the scene's backdrop removal and mask refinement minus
+// what was drawn on the app's cutout (the GrabCut box, brush strokes).
+async function renderBatchItem(
+  { background, scene, surface, stamp }: BatchSetup,
+  { name, foreground, depth }: BatchItemMessage
+): Promise<ZipEntry[]> {
+  const passes = renderScene(
+    { background, foreground, depth, surface },
+    {
+      ...scene,
+      placement: scene.placement
+        ? refitPlacement(scene.placement, foreground)
+        : null,
+      cutout: { ...scene.cutout, box: null },
+      mask: { ...scene.mask, strokes: [] },
+      contactPoints: null,
+    }
+  );
+
+  const entries: ZipEntry[] = [
+    {
+      name: `composite_${stamp}_${name}.png`,
+      data: await encodePng(passes.composite),
+    },
+    {
+      name: `shadow_${stamp}_${name}.png`,
+      data: await encodePng(passes.shadow),
+    },
+    {
+      name: `mask_${stamp}_${name}.png`,
+      data: await encodePng(passes.mask),
+    },
+  ];
+  if (passes.reflection) {
+    entries.push({
+      name: `reflection_${stamp}_${name}.png`,
+      data: await encodePng(passes.reflection),
+    });
+  }
+  return entries;
+}
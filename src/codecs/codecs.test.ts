@@ -0,0 +1,296 @@
+import { describe, expect, it } from "vitest";
+import { createImage, type RgbaImage } from "../shadow";
+import { crc32 } from "../zip";
+import {
+  decodeDepthBytes,
+  decodeExr,
+  decodeImageBytes,
+  decodePfm,
+  decodePng,
+  decodePngSamples,
+  decodeRawFloat32,
+  encodePng,
+  isDepthFormat,
+} from ".";
+import { deflate } from "./zlib";
+
+// Deterministic pixels, including fully and partly transparent ones
+function noise(width: number, height: number): RgbaImage {
+  const img = createImage(width, height);
+  let seed = 7;
+  for (let i = 0; i < img.data.length; i++) {
+    seed = (seed * 1103515245 + 12345) >>> 0;
+    img.data[i] = seed >>> 24;
+  }
+  img.data[3] = 0;
+  img.data[7] = 255;
+  return img;
+}
+
+function bytesOf(parts: (number[] | Uint8Array)[]) {
+  const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+  let pos = 0;
+  for (const p of parts) {
+    out.set(p, pos);
+    pos += p.length;
+  }
+  return out;
+}
+
+function ascii(text: string) {
+  return Array.from(text, (ch) => ch.charCodeAt(0));
+}
+
+function u32be(v: number) {
+  return [(v >>> 24) & 255, (v >>> 16) & 255, (v >>> 8) & 255, v & 255];
+}
+
+function i32le(v: number) {
+  return [v & 255, (v >> 8) & 255, (v >> 16) & 255, (v >> 24) & 255];
+}
+
+function f32(values: number[], little: boolean) {
+  const out = new Uint8Array(values.length * 4);
+  const view = new DataView(out.buffer);
+  values.forEach((v, i) => view.setFloat32(i * 4, v, little));
+  return out;
+}
+
+// Half float bits of a value that has an exact half (normal or zero)
+function half(v: number) {
+  if (v === 0) return 0;
+  const sign = v < 0 ? 0x8000 : 0;
+  const exp = Math.floor(Math.log2(Math.abs(v)));
+  const frac = (Math.abs(v) / 2 ** exp - 1) * 1024;
+  return sign | ((exp + 15) << 10) | frac;
+}
+
+describe("PNG", () => {
+  it("round-trips 8-bit RGBA exactly", async () => {
+    const img = noise(13, 7);
+    const decoded = await decodePng(await encodePng(img));
+
+    expect([decoded.width, decoded.height]).toEqual([13, 7]);
+    expect(decoded.data).toEqual(img.data);
+  });
+
+  it("is sniffed by decodeImageBytes", async () => {
+    const img = noise(3, 2);
+    const decoded = await decodeImageBytes(await encodePng(img));
+
+    expect(decoded.data).toEqual(img.data);
+  });
+
+  it("keeps 16-bit gray samples at full precision", async () => {
+    const samples = [0, 1, 256, 32768, 65534, 65535];
+    const width = 3;
+    const height = 2;
+    const rows: number[] = [];
+    for (let y = 0; y < height; y++) {
+      rows.push(0); // no filter
+      for (let x = 0; x < width; x++) {
+        const v = samples[y * width + x];
+        rows.push(v >> 8, v & 255);
+      }
+    }
+    const chunk = (type: string, data: Uint8Array | number[]) => {
+      const body = bytesOf([ascii(type), data]);
+      return bytesOf([u32be(data.length), body, u32be(crc32(body))]);
+    };
+    const png = bytesOf([
+      [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a],
+      chunk("IHDR", [...u32be(width), ...u32be(height), 16, 0, 0, 0, 0]),
+      chunk("IDAT", await deflate(Uint8Array.from(rows))),
+      chunk("IEND", []),
+    ]);
+
+    const depth = await decodePngSamples(png);
+    expect(depth && [depth.width, depth.height]).toEqual([3, 2]);
+    samples.forEach((v, i) => expect(depth!.data[i]).toBeCloseTo(v / 65535, 7));
+
+    // The 8-bit decode keeps the high byte
+    const img = await decodePng(png);
+    expect(img.data[3 * 4]).toBe(128);
+  });
+
+  it("leaves 8-bit PNGs to decodePng", async () => {
+    expect(await decodePngSamples(await encodePng(noise(2, 2)))).toBeNull();
+  });
+});
+
+describe("decodeImageBytes", () => {
+  it("refuses what is neither PNG nor JPEG", async () => {
+    await expect(decodeImageBytes(Uint8Array.of(1, 2, 3, 4))).rejects.toThrow(
+      /unsupported image format/
+    );
+  });
+});
+
+// Single-part scanline OpenEXR with the given channels (sorted by name, as
+// the format wants), uncompressed or ZIP (16 lines per block)
+async function exr(
+  window: [number, number, number, number],
+  channels: { name: string; type: 1 | 2; values: number[] }[],
+  compression: 0 | 3
+) {
+  const [xMin, yMin, xMax, yMax] = window;
+  const width = xMax - xMin + 1;
+  const height = yMax - yMin + 1;
+  const attr = (name: string, type: string, value: number[]) => [
+    ...ascii(name),
+    0,
+    ...ascii(type),
+    0,
+    ...i32le(value.length),
+    ...value,
+  ];
+  const chlist = channels.flatMap((c) => [
+    ...ascii(c.name),
+    0,
+    ...i32le(c.type),
+    0,
+    0,
+    0,
+    0,
+    ...i32le(1),
+    ...i32le(1),
+  ]);
+  const header = bytesOf([
+    [0x76, 0x2f, 0x31, 0x01, 2, 0, 0, 0],
+    attr("channels", "chlist", [...chlist, 0]),
+    attr("compression", "compression", [compression]),
+    attr("dataWindow", "box2i", window.flatMap(i32le)),
+    attr("displayWindow", "box2i", window.flatMap(i32le)),
+    [0],
+  ]);
+
+  const line = (y: number) => {
+    const parts = channels.map((c) => {
+      const row = c.values.slice(y * width, (y + 1) * width);
+      if (c.type === 2) return f32(row, true);
+      const out = new Uint8Array(width * 2);
+      const view = new DataView(out.buffer);
+      row.forEach((v, x) => view.setUint16(x * 2, half(v), true));
+      return out;
+    });
+    return bytesOf(parts);
+  };
+
+  const linesPerBlock = compression === 3 ? 16 : 1;
+  const blocks: Uint8Array[] = [];
+  for (let y = 0; y < height; y += linesPerBlock) {
+    const lines = [];
+    for (let l = y; l < Math.min(height, y + linesPerBlock); l++) {
+      lines.push(line(l));
+    }
+    const raw = bytesOf(lines);
+    let data: Uint8Array = raw;
+    if (compression === 3) {
+      // Split even / odd bytes, then delta-encode
+      const half = (raw.length + 1) >> 1;
+      const split = new Uint8Array(raw.length);
+      raw.forEach((b, i) => (split[i & 1 ? half + (i >> 1) : i >> 1] = b));
+      const predicted = split.map((b, i) =>
+        i === 0 ? b : (b - split[i - 1] + 128) & 255
+      );
+      const packed = await deflate(predicted);
+      if (packed.length < raw.length) data = packed;
+    }
+    blocks.push(bytesOf([i32le(yMin + y), i32le(data.length), data]));
+  }
+
+  let offset = header.length + blocks.length * 8;
+  const table = new Uint8Array(blocks.length * 8);
+  const tv = new DataView(table.buffer);
+  blocks.forEach((b, i) => {
+    tv.setBigUint64(i * 8, BigInt(offset), true);
+    offset += b.length;
+  });
+  return bytesOf([header, table, ...blocks]);
+}
+
+describe("OpenEXR", () => {
+  it("reads the Z channel of an uncompressed float file", async () => {
+    const z = [0.125, 1.5, -2, 1000.25, 3.75, 0];
+    const file = await exr(
+      [10, 5, 12, 6],
+      [
+        { name: "B", type: 1, values: [0, 0, 0, 0, 0, 0] },
+        { name: "R", type: 1, values: [1, 1, 1, 1, 1, 1] },
+        { name: "Z", type: 2, values: z },
+      ],
+      0
+    );
+
+    expect(isDepthFormat(file)).toBe(true);
+    const depth = await decodeExr(file);
+    expect([depth.width, depth.height]).toEqual([3, 2]);
+    expect([...depth.data]).toEqual(z);
+  });
+
+  it("reads ZIP-compressed half samples", async () => {
+    const width = 32;
+    const height = 20;
+    const values = Array.from(
+      { length: width * height },
+      (_, p) => ((p % width) + Math.floor(p / width)) / 8
+    );
+    const file = await exr(
+      [0, 0, width - 1, height - 1],
+      [{ name: "R", type: 1, values }],
+      3
+    );
+
+    const depth = await decodeDepthBytes(file);
+    expect([depth.width, depth.height]).toEqual([width, height]);
+    expect([...depth.data]).toEqual(values);
+  });
+});
+
+describe("PFM", () => {
+  it("reads little-endian gray, bottom row first", () => {
+    const file = bytesOf([
+      ascii("Pf\n2 3\n-1.0\n"),
+      f32([5, 6, 3, 4, 1, 2], true),
+    ]);
+
+    const depth = decodePfm(file);
+    expect([depth.width, depth.height]).toEqual([2, 3]);
+    expect([...depth.data]).toEqual([1, 2, 3, 4, 5, 6]);
+  });
+
+  it("averages big-endian color", async () => {
+    const file = bytesOf([
+      ascii("PF 2 1 1.0\n"),
+      f32([1, 2, 3, 0, 0, 0.75], false),
+    ]);
+
+    const depth = await decodeDepthBytes(file);
+    expect([...depth.data]).toEqual([2, 0.25]);
+  });
+});
+
+describe("raw float32", () => {
+  it("picks the size closest to the aspect", () => {
+    const values = [1, 2, 3, 4, 5, 6, 7, 8];
+    const depth = decodeRawFloat32(f32(values, true), 2, "foreground");
+
+    expect([depth.width, depth.height]).toEqual([4, 2]);
+    expect([...depth.data]).toEqual(values);
+  });
+
+  it("names the image whose aspect matched nothing", () => {
+    expect(() =>
+      decodeRawFloat32(f32([1, 2, 3, 4, 5, 6, 7], true), 1, "background")
+    ).toThrow(/background's aspect/);
+  });
+
+  it("is only tried with an aspect", async () => {
+    const bytes = f32([1, 2, 3, 4], true);
+
+    await expect(decodeDepthBytes(bytes)).rejects.toThrow(
+      /unsupported depth format/
+    );
+    expect((await decodeDepthBytes(bytes, 1, "foreground")).width).toBe(2);
+  });
+});
@@ -0,0 +1,195 @@
+import type { DepthBuffer } from "../shadow";
+import { inflate } from "./zlib";
+
+const MAGIC = [0x76, 0x2f, 0x31, 0x01];
+
+// Version flags
+const TILED = 0x200;
+const NON_IMAGE = 0x800;
+const MULTIPART = 0x1000;
+
+// Compression ids; the others (PIZ, PXR24, B44, DWA) aren't supported
+const COMPRESSION = [
+  "none",
+  "RLE",
+  "ZIPS",
+  "ZIP",
+  "PIZ",
+  "PXR24",
+  "B44",
+  "B44A",
+  "DWAA",
+  "DWAB",
+];
+const LINES_PER_BLOCK: Record<number, number> = { 0: 1, 1: 1, 2: 1, 3: 16 };
+
+// Bytes per sample by pixel type: UINT, HALF, FLOAT
+const SAMPLE_SIZE = [4, 2, 4];
+
+// Channels tried for depth, in order (else the first one)
+const DEPTH_CHANNELS = [/^z$/i, /\.z$/i, /^depth$/i, /^y$/i, /^r$/i];
+
+type Channel = { name: string; type: number };
+
+export function isExr(bytes: Uint8Array) {
+  return MAGIC.every((b, i) => bytes[i] === b);
+}
+
+// -----------------------------
+// Decode a single-part scanline OpenEXR (uncompressed, RLE, ZIPS or ZIP;
+// half, float or uint samples) to its depth channel at full precision: Z if
+// there is one, else luminance / red / the first channel.
+// -----------------------------
+export async function decodeExr(bytes: Uint8Array): Promise<DepthBuffer> {
+  if (!isExr(bytes)) throw new Error("not an OpenEXR file");
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const flags = view.getUint32(4, true);
+  if (flags & (TILED | NON_IMAGE | MULTIPART)) {
+    throw new Error("only single-part scanline OpenEXR files are supported");
+  }
+
+  let pos = 8;
+  const readString = () => {
+    const start = pos;
+    while (pos < bytes.length && bytes[pos] !== 0) pos++;
+    if (pos >= bytes.length) throw new Error("truncated OpenEXR header");
+    return String.fromCharCode(...bytes.subarray(start, pos++));
+  };
+
+  let channels: Channel[] = [];
+  let compression = -1;
+  let window: number[] | null = null;
+  for (;;) {
+    const name = readString();
+    if (name === "") break;
+    readString(); // attribute type
+    const size = view.getInt32(pos, true);
+    pos += 4;
+    const start = pos;
+    if (name === "channels") {
+      channels = [];
+      for (;;) {
+        const channel = readString();
+        if (channel === "") break;
+        channels.push({ name: channel, type: view.getInt32(pos, true) });
+        pos += 16;
+      }
+    } else if (name === "compression") {
+      compression = bytes[pos];
+    } else if (name === "dataWindow") {
+      window = [0, 4, 8, 12].map((o) => view.getInt32(pos + o, true));
+    }
+    pos = start + size;
+  }
+
+  if (!window || channels.length === 0 || compression < 0) {
+    throw new Error("corrupt OpenEXR header");
+  }
+  const linesPerBlock = LINES_PER_BLOCK[compression];
+  if (!linesPerBlock) {
+    throw new Error(
+      `OpenEXR ${COMPRESSION[compression] ?? compression} compression is not supported (use ZIP or none)`
+    );
+  }
+
+  const [xMin, yMin, xMax, yMax] = window;
+  const width = xMax - xMin + 1;
+  const height = yMax - yMin + 1;
+  if (width <= 0 || height <= 0) throw new Error("corrupt OpenEXR header");
+
+  const pick =
+    DEPTH_CHANNELS.map((re) => channels.findIndex((c) => re.test(c.name))).find(
+      (i) => i >= 0
+    ) ?? 0;
+  const lineSize = channels.reduce(
+    (sum, c) => sum + SAMPLE_SIZE[c.type] * width,
+    0
+  );
+  const before = channels
+    .slice(0, pick)
+    .reduce((sum, c) => sum + SAMPLE_SIZE[c.type] * width, 0);
+  const type = channels[pick].type;
+  if (SAMPLE_SIZE[type] === undefined) {
+    throw new Error("corrupt OpenEXR channel list");
+  }
+
+  const data = new Float32Array(width * height);
+  const blocks = Math.ceil(height / linesPerBlock);
+  for (let b = 0; b < blocks; b++) {
+    const offset = Number(view.getBigUint64(pos + b * 8, true));
+    if (offset + 8 > bytes.length) throw new Error("truncated OpenEXR file");
+    const y0 = view.getInt32(offset, true) - yMin;
+    const packed = view.getInt32(offset + 4, true);
+    const lines = Math.min(linesPerBlock, height - y0);
+    const expected = lines * lineSize;
+    const chunk = bytes.subarray(offset + 8, offset + 8 + packed);
+    if (chunk.length < packed || y0 < 0 || lines <= 0) {
+      throw new Error("truncated OpenEXR file");
+    }
+
+    const block =
+      compression === 0 || packed >= expected
+        ? chunk
+        : unpredict(
+            compression === 1 ? unRle(chunk, expected) : await inflate(chunk)
+          );
+    if (block.length < expected) throw new Error("corrupt OpenEXR block");
+
+    const bv = new DataView(block.buffer, block.byteOffset, block.byteLength);
+    for (let l = 0; l < lines; l++) {
+      const row = (y0 + l) * width;
+      const base = l * lineSize + before;
+      for (let x = 0; x < width; x++) {
+        data[row + x] =
+          type === 1
+            ? halfToFloat(bv.getUint16(base + x * 2, true))
+            : type === 2
+              ? bv.getFloat32(base + x * 4, true)
+              : bv.getUint32(base + x * 4, true);
+      }
+    }
+  }
+
+  return { width, height, data };
+}
+
+// Run-length decoding: a negative count copies that many bytes, a positive
+// one repeats the next byte count + 1 times
+function unRle(src: Uint8Array, size: number): Uint8Array {
+  const out = new Uint8Array(size);
+  let i = 0;
+  let o = 0;
+  while (i < src.length && o < size) {
+    const count = (src[i++] << 24) >> 24;
+    if (count < 0) {
+      out.set(src.subarray(i, i - count), o);
+      i -= count;
+      o -= count;
+    } else {
+      out.fill(src[i++], o, o + count + 1);
+      o += count + 1;
+    }
+  }
+  return out;
+}
+
+// Undo the byte delta predictor, then re-interleave the two halves
+function unpredict(src: Uint8Array): Uint8Array {
+  const t = src.slice();
+  for (let i = 1; i < t.length; i++) t[i] = t[i - 1] + t[i] - 128;
+  const out = new Uint8Array(t.length);
+  const half = (t.length + 1) >> 1;
+  for (let i = 0; i < t.length; i++) {
+    out[i] = i & 1 ? t[half + (i >> 1)] : t[i >> 1];
+  }
+  return out;
+}
+
+function halfToFloat(h: number) {
+  const sign = h & 0x8000 ? -1 : 1;
+  const exp = (h >> 10) & 0x1f;
+  const frac = h & 0x3ff;
+  if (exp === 0) return sign * frac * 2 ** -24;
+  if (exp === 31) return frac ? NaN : sign * Infinity;
+  return sign * (1 + frac / 1024) * 2 ** (exp - 15);
+}
@@ -0,0 +1,91 @@
+import type { DepthBuffer, DepthMap, RgbaImage } from "../shadow";
+import { decodeExr, isExr } from "./exr";
+import { decodeJpeg, isJpeg } from "./jpeg";
+import { decodePfm, isPfm } from "./pfm";
+import { decodePng, decodePngSamples, isPng } from "./png";
+
+// DOM-free image codecs, for where there is no <img> / <canvas> to decode
+// with (Node scripts, the CLI), and the layered formats (PSD, OpenRaster)
+// a canvas cannot write.
+
+export { decodeExr, isExr } from "./exr";
+export { decodeJpeg, isJpeg } from "./jpeg";
+export { encodeOra } from "./ora";
+export { decodePfm, isPfm } from "./pfm";
+export { decodePng, decodePngSamples, encodePng, isPng } from "./png";
+export { encodePsd } from "./psd";
+
+// Raw float32 sizes are accepted this close to the expected aspect (log ratio)
+const RAW_ASPECT_TOLERANCE = 0.02;
+
+// Decode PNG or JPEG bytes, sniffed from the file signature.
+export async function decodeImageBytes(bytes: Uint8Array): Promise<RgbaImage> {
+  if (isPng(bytes)) return decodePng(bytes);
+  if (isJpeg(bytes)) return decodeJpeg(bytes);
+  throw new Error("unsupported image format (expected PNG or JPEG)");
+}
+
+// Depth formats that carry a signature (raw float32 has none)
+export function isDepthFormat(bytes: Uint8Array) {
+  return isPng(bytes) || isJpeg(bytes) || isPfm(bytes) || isExr(bytes);
+}
+
+// Decode a depth map, sniffed from the file signature: PNG (16-bit ones at
+// full precision), JPEG, PFM or OpenEXR. Anything else is read as raw
+// float32 when `aspect` (width / height of the image named `of`, e.g. the
+// foreground) is given.
+export async function decodeDepthBytes(
+  bytes: Uint8Array,
+  aspect: number | null = null,
+  of = "image"
+): Promise<DepthMap> {
+  if (isPng(bytes)) return (await decodePngSamples(bytes)) ?? decodePng(bytes);
+  if (isJpeg(bytes)) return decodeJpeg(bytes);
+  if (isPfm(bytes)) return decodePfm(bytes);
+  if (isExr(bytes)) return decodeExr(bytes);
+  if (aspect !== null) return decodeRawFloat32(bytes, aspect, of);
+  throw new Error(
+    "unsupported depth format (expected PNG, JPEG, PFM, OpenEXR or raw float32)"
+  );
+}
+
+// -----------------------------
+// Raw little-endian float32 samples, row by row from the top. The file has
+// no header, so the size is the one whose width / height is closest to
+// `aspect`, the one of the image named `of` (for the error); it throws when
+// none is close.
+// -----------------------------
+export function decodeRawFloat32(
+  bytes: Uint8Array,
+  aspect: number,
+  of: string
+): DepthBuffer {
+  const n = bytes.length / 4;
+  if (!Number.isInteger(n) || n === 0) {
+    throw new Error("raw float32 depth: size is not a multiple of 4 bytes");
+  }
+
+  let width = 0;
+  let best = Infinity;
+  for (let d = 1; d * d <= n; d++) {
+    if (n % d !== 0) continue;
+    for (const w of [d, n / d]) {
+      const off = Math.abs(Math.log(w / (n / w) / aspect));
+      if (off < best) {
+        best = off;
+        width = w;
+      }
+    }
+  }
+  if (best > RAW_ASPECT_TOLERANCE) {
+    throw new Error(
+      `raw float32 depth: no size for ${n} samples matches the ${of}'s aspect (${aspect.toFixed(3)})`
+    );
+  }
+
+  const height = n / width;
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const data = new Float32Array(n);
+  for (let p = 0; p < n; p++) data[p] = view.getFloat32(p * 4, true);
+  return { width, height, data };
+}
@@ -0,0 +1,678 @@
+import type { RgbaImage } from "../shadow";
+
+// Baseline + progressive (Huffman) JPEG decoder, after the structure of
+// ITU T.81 Annex F/G. Arithmetic-coded, lossless and 12-bit files are rare
+// and rejected with an error.
+
+// Zigzag index -> natural (row-major) index
+const ZIGZAG = new Int32Array([
+  0, 1, 8, 16, 9, 2, 3, 10, 17, 24, 32, 25, 18, 11, 4, 5, 12, 19, 26, 33, 40,
+  48, 41, 34, 27, 20, 13, 6, 7, 14, 21, 28, 35, 42, 49, 56, 57, 50, 43, 36, 29,
+  22, 15, 23, 30, 37, 44, 51, 58, 59, 52, 45, 38, 31, 39, 46, 53, 60, 61, 54,
+  47, 55, 62, 63,
+]);
+
+// IDCT basis: COS[x * 8 + u] = C(u) / 2 * cos((2x + 1) u pi / 16)
+const COS = (() => {
+  const t = new Float32Array(64);
+  for (let x = 0; x < 8; x++) {
+    for (let u = 0; u < 8; u++) {
+      const c = u === 0 ? Math.SQRT1_2 : 1;
+      t[x * 8 + u] = (c / 2) * Math.cos(((2 * x + 1) * u * Math.PI) / 16);
+    }
+  }
+  return t;
+})();
+
+type Huffman = {
+  maxCode: Int32Array;
+  valPtr: Int32Array;
+  minCode: Int32Array;
+  values: Uint8Array;
+};
+
+type Component = {
+  id: number;
+  h: number;
+  v: number;
+  quantId: number;
+  blocksPerLine: number;
+  blocksPerColumn: number;
+  // Blocks per line / column padded out to whole MCUs
+  blocksPerLineMcu: number;
+  blocksPerColumnMcu: number;
+  coeffs: Int16Array;
+  dc: Huffman | null;
+  ac: Huffman | null;
+  pred: number;
+};
+
+type Frame = {
+  progressive: boolean;
+  width: number;
+  height: number;
+  maxH: number;
+  maxV: number;
+  mcusPerLine: number;
+  mcusPerColumn: number;
+  components: Component[];
+};
+
+export function isJpeg(bytes: Uint8Array) {
+  return bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff;
+}
+
+// -----------------------------
+// Decode a JPEG to RGBA (opaque), applying its EXIF orientation like
+// browsers do when drawing an <img>.
+// -----------------------------
+export function decodeJpeg(bytes: Uint8Array): RgbaImage {
+  if (!isJpeg(bytes)) throw new Error("not a JPEG file");
+
+  const quant: Uint16Array[] = [];
+  const dcTables: Huffman[] = [];
+  const acTables: Huffman[] = [];
+  let frame: Frame | null = null;
+  let resetInterval = 0;
+  let adobeTransform: number | null = null;
+  let orientation = 1;
+
+  const u16 = (i: number) => (bytes[i] << 8) | bytes[i + 1];
+
+  let pos = 2;
+  while (pos < bytes.length) {
+    if (bytes[pos] !== 0xff) {
+      pos++;
+      continue;
+    }
+    const marker = bytes[pos + 1];
+    if (marker === 0xff) {
+      pos++; // fill byte
+      continue;
+    }
+    pos += 2;
+    if (marker === 0xd9) break; // EOI
+    if (marker >= 0xd0 && marker <= 0xd7) continue; // stray RSTn
+
+    const length = u16(pos);
+    const start = pos + 2;
+    const end = pos + length;
+    if (end > bytes.length) throw new Error("truncated JPEG");
+
+    switch (marker) {
+      case 0xdb: {
+        // DQT
+        let p = start;
+        while (p < end) {
+          const wide = bytes[p] >> 4;
+          const table = new Uint16Array(64);
+          for (let k = 0; k < 64; k++) {
+            table[ZIGZAG[k]] = wide ? u16(p + 1 + k * 2) : bytes[p + 1 + k];
+          }
+          quant[bytes[p] & 15] = table;
+          p += 1 + (wide ? 128 : 64);
+        }
+        break;
+      }
+      case 0xc4: {
+        // DHT
+        let p = start;
+        while (p < end) {
+          const counts = bytes.subarray(p + 1, p + 17);
+          const total = counts.reduce((n, c) => n + c, 0);
+          const table = buildHuffman(
+            counts,
+            bytes.subarray(p + 17, p + 17 + total)
+          );
+          if (bytes[p] >> 4) acTables[bytes[p] & 15] = table;
+          else dcTables[bytes[p] & 15] = table;
+          p += 17 + total;
+        }
+        break;
+      }
+      case 0xc0:
+      case 0xc1:
+      case 0xc2: {
+        if (bytes[start] !== 8) {
+          throw new Error(`${bytes[start]}-bit JPEGs are not supported`);
+        }
+        frame = readFrame(bytes, start, marker === 0xc2);
+        break;
+      }
+      case 0xc3:
+      case 0xc5:
+      case 0xc6:
+      case 0xc7:
+      case 0xc9:
+      case 0xca:
+      case 0xcb:
+      case 0xcd:
+      case 0xce:
+      case 0xcf:
+        throw new Error(
+          "unsupported JPEG coding (lossless or arithmetic); re-save as a standard JPEG or PNG"
+        );
+      case 0xdd:
+        resetInterval = u16(start);
+        break;
+      case 0xee:
+        // APP14 "Adobe": color transform flag
+        if (
+          String.fromCharCode(...bytes.subarray(start, start + 5)) === "Adobe"
+        ) {
+          adobeTransform = bytes[start + 11];
+        }
+        break;
+      case 0xe1:
+        orientation = readExifOrientation(bytes.subarray(start, end)) ?? 1;
+        break;
+      case 0xda: {
+        // SOS
+        if (!frame) throw new Error("JPEG scan before frame header");
+        const f: Frame = frame;
+        const n = bytes[start];
+        const scanComponents: Component[] = [];
+        for (let i = 0; i < n; i++) {
+          const id = bytes[start + 1 + i * 2];
+          const tables = bytes[start + 2 + i * 2];
+          const c = f.components.find((c) => c.id === id);
+          if (!c) throw new Error("JPEG scan names an unknown component");
+          c.dc = dcTables[tables >> 4] ?? null;
+          c.ac = acTables[tables & 15] ?? null;
+          scanComponents.push(c);
+        }
+        const p = start + 1 + n * 2;
+        pos = decodeScan(bytes, end, f, scanComponents, resetInterval, {
+          spectralStart: bytes[p],
+          spectralEnd: bytes[p + 1],
+          successivePrev: bytes[p + 2] >> 4,
+          successive: bytes[p + 2] & 15,
+        });
+        continue;
+      }
+    }
+    pos = end;
+  }
+
+  if (!frame) throw new Error("JPEG has no frame header");
+  const planes = frame.components.map((c) => {
+    const table = quant[c.quantId];
+    if (!table) throw new Error("JPEG quantization table missing");
+    return idctPlane(c, table);
+  });
+
+  const image = toRgba(frame, planes, adobeTransform);
+  return orient(image, orientation);
+}
+
+function readFrame(
+  bytes: Uint8Array,
+  start: number,
+  progressive: boolean
+): Frame {
+  const height = (bytes[start + 1] << 8) | bytes[start + 2];
+  const width = (bytes[start + 3] << 8) | bytes[start + 4];
+  if (width === 0 || height === 0) throw new Error("JPEG has no size");
+
+  const count = bytes[start + 5];
+  const raw = [];
+  for (let i = 0; i < count; i++) {
+    const p = start + 6 + i * 3;
+    raw.push({
+      id: bytes[p],
+      h: bytes[p + 1] >> 4 || 1,
+      v: bytes[p + 1] & 15 || 1,
+      quantId: bytes[p + 2],
+    });
+  }
+  const maxH = Math.max(...raw.map((c) => c.h));
+  const maxV = Math.max(...raw.map((c) => c.v));
+  const mcusPerLine = Math.ceil(width / 8 / maxH);
+  const mcusPerColumn = Math.ceil(height / 8 / maxV);
+
+  const components = raw.map((c): Component => {
+    const blocksPerLineMcu = mcusPerLine * c.h;
+    const blocksPerColumnMcu = mcusPerColumn * c.v;
+    return {
+      ...c,
+      blocksPerLine: Math.ceil((Math.ceil(width / 8) * c.h) / maxH),
+      blocksPerColumn: Math.ceil((Math.ceil(height / 8) * c.v) / maxV),
+      blocksPerLineMcu,
+      blocksPerColumnMcu,
+      coeffs: new Int16Array(blocksPerLineMcu * blocksPerColumnMcu * 64),
+      dc: null,
+      ac: null,
+      pred: 0,
+    };
+  });
+
+  return {
+    progressive,
+    width,
+    height,
+    maxH,
+    maxV,
+    mcusPerLine,
+    mcusPerColumn,
+    components,
+  };
+}
+
+// Canonical Huffman decoding tables (T.81 F.2.2.3)
+function buildHuffman(counts: Uint8Array, values: Uint8Array): Huffman {
+  const maxCode = new Int32Array(18).fill(-1);
+  const valPtr = new Int32Array(17);
+  const minCode = new Int32Array(17);
+  let code = 0;
+  let k = 0;
+  for (let len = 1; len <= 16; len++) {
+    valPtr[len] = k;
+    minCode[len] = code;
+    code += counts[len - 1];
+    k += counts[len - 1];
+    maxCode[len] = counts[len - 1] ? code - 1 : -1;
+    code <<= 1;
+  }
+  maxCode[17] = 0x7fffffff;
+  return { maxCode, valPtr, minCode, values: values.slice() };
+}
+
+// -----------------------------
+// One scan: entropy-decode coefficients into the components. Returns the
+// offset of the marker that ends the scan.
+// -----------------------------
+function decodeScan(
+  data: Uint8Array,
+  start: number,
+  frame: Frame,
+  components: Component[],
+  resetInterval: number,
+  spectral: {
+    spectralStart: number;
+    spectralEnd: number;
+    successivePrev: number;
+    successive: number;
+  }
+): number {
+  const { spectralStart, spectralEnd, successivePrev, successive } = spectral;
+  let offset = start;
+  let bitsData = 0;
+  let bitsCount = 0;
+  // Past a marker the entropy data is over; feed zeros
+  let atMarker = false;
+
+  const readBit = () => {
+    if (bitsCount > 0) return (bitsData >> --bitsCount) & 1;
+    if (atMarker || offset >= data.length) return 0;
+    bitsData = data[offset];
+    if (bitsData === 0xff) {
+      const next = data[offset + 1];
+      if (next !== 0) {
+        atMarker = true;
+        return 0;
+      }
+      offset++;
+    }
+    offset++;
+    bitsCount = 7;
+    return bitsData >> 7;
+  };
+
+  const decodeHuffman = (table: Huffman | null) => {
+    if (!table) throw new Error("JPEG Huffman table missing");
+    let code = readBit();
+    let len = 1;
+    while (code > table.maxCode[len]) {
+      code = (code << 1) | readBit();
+      if (++len > 16) return 0; // corrupt data; treat as zero
+    }
+    return table.values[table.valPtr[len] + code - table.minCode[len]];
+  };
+
+  const receive = (length: number) => {
+    let n = 0;
+    while (length-- > 0) n = (n << 1) | readBit();
+    return n;
+  };
+
+  const receiveAndExtend = (length: number) => {
+    if (length === 0) return 0;
+    const n = receive(length);
+    return n >= 1 << (length - 1) ? n : n - (1 << length) + 1;
+  };
+
+  let eobrun = 0;
+  let acState = 0;
+  let acNext = 0;
+
+  type Decoder = (c: Component, offset: number) => void;
+
+  const decodeBaseline: Decoder = (c, o) => {
+    const t = decodeHuffman(c.dc);
+    c.pred += receiveAndExtend(t);
+    c.coeffs[o] = c.pred;
+    for (let k = 1; k < 64;) {
+      const rs = decodeHuffman(c.ac);
+      const s = rs & 15;
+      const r = rs >> 4;
+      if (s === 0) {
+        if (r < 15) break;
+        k += 16;
+        continue;
+      }
+      k += r;
+      if (k > 63) break;
+      c.coeffs[o + ZIGZAG[k]] = receiveAndExtend(s);
+      k++;
+    }
+  };
+
+  const decodeDcFirst: Decoder = (c, o) => {
+    const t = decodeHuffman(c.dc);
+    c.pred += receiveAndExtend(t) * (1 << successive);
+    c.coeffs[o] = c.pred;
+  };
+
+  const decodeDcSuccessive: Decoder = (c, o) => {
+    if (readBit()) c.coeffs[o] |= 1 << successive;
+  };
+
+  const decodeAcFirst: Decoder = (c, o) => {
+    if (eobrun > 0) {
+      eobrun--;
+      return;
+    }
+    for (let k = spectralStart; k <= spectralEnd;) {
+      const rs = decodeHuffman(c.ac);
+      const s = rs & 15;
+      const r = rs >> 4;
+      if (s === 0) {
+        if (r < 15) {
+          eobrun = receive(r) + (1 << r) - 1;
+          break;
+        }
+        k += 16;
+        continue;
+      }
+      k += r;
+      if (k > 63) break;
+      c.coeffs[o + ZIGZAG[k]] = receiveAndExtend(s) * (1 << successive);
+      k++;
+    }
+  };
+
+  // Refinement: states 0 = read next symbol, 1/2 = skip r zeros (2 then
+  // place acNext), 3 = place acNext at the next zero, 4 = inside an EOB run
+  const decodeAcSuccessive: Decoder = (c, o) => {
+    let r = 0;
+    for (let k = spectralStart; k <= spectralEnd;) {
+      const z = o + ZIGZAG[k];
+      const sign = c.coeffs[z] < 0 ? -1 : 1;
+      switch (acState) {
+        case 0: {
+          const rs = decodeHuffman(c.ac);
+          const s = rs & 15;
+          r = rs >> 4;
+          if (s === 0) {
+            if (r < 15) {
+              eobrun = receive(r) + (1 << r);
+              acState = 4;
+            } else {
+              r = 16;
+              acState = 1;
+            }
+          } else {
+            acNext = receiveAndExtend(s);
+            acState = r ? 2 : 3;
+          }
+          continue;
+        }
+        case 1:
+        case 2:
+          if (c.coeffs[z]) {
+            c.coeffs[z] += sign * (readBit() << successive);
+          } else {
+            r--;
+            if (r === 0) acState = acState === 2 ? 3 : 0;
+          }
+          break;
+        case 3:
+          if (c.coeffs[z]) {
+            c.coeffs[z] += sign * (readBit() << successive);
+          } else {
+            c.coeffs[z] = acNext * (1 << successive);
+            acState = 0;
+          }
+          break;
+        case 4:
+          if (c.coeffs[z]) {
+            c.coeffs[z] += sign * (readBit() << successive);
+          }
+          break;
+      }
+      k++;
+    }
+    if (acState === 4 && --eobrun === 0) acState = 0;
+  };
+
+  const refining = successivePrev !== 0;
+  const decode: Decoder = !frame.progressive
+    ? decodeBaseline
+    : spectralStart === 0
+      ? refining
+        ? decodeDcSuccessive
+        : decodeDcFirst
+      : refining
+        ? decodeAcSuccessive
+        : decodeAcFirst;
+
+  const single = components.length === 1;
+  const mcuCount = single
+    ? components[0].blocksPerLine * components[0].blocksPerColumn
+    : frame.mcusPerLine * frame.mcusPerColumn;
+
+  let mcu = 0;
+  while (mcu < mcuCount) {
+    for (const c of components) c.pred = 0;
+    eobrun = 0;
+    acState = 0;
+    bitsCount = 0;
+    atMarker = false;
+
+    const toRead = resetInterval
+      ? Math.min(mcuCount - mcu, resetInterval)
+      : mcuCount;
+    for (let n = 0; n < toRead; n++, mcu++) {
+      if (single) {
+        const c = components[0];
+        const row = Math.floor(mcu / c.blocksPerLine);
+        const col = mcu % c.blocksPerLine;
+        decode(c, (row * c.blocksPerLineMcu + col) * 64);
+        continue;
+      }
+      const mcuRow = Math.floor(mcu / frame.mcusPerLine);
+      const mcuCol = mcu % frame.mcusPerLine;
+      for (const c of components) {
+        for (let v = 0; v < c.v; v++) {
+          for (let h = 0; h < c.h; h++) {
+            const row = mcuRow * c.v + v;
+            const col = mcuCol * c.h + h;
+            decode(c, (row * c.blocksPerLineMcu + col) * 64);
+          }
+        }
+      }
+    }
+
+    // Next marker: RSTn continues the scan, anything else ends it
+    while (
+      offset < data.length &&
+      !(
+        data[offset] === 0xff &&
+        data[offset + 1] !== 0 &&
+        data[offset + 1] !== 0xff
+      )
+    ) {
+      offset++;
+    }
+    const marker = data[offset + 1];
+    if (marker >= 0xd0 && marker <= 0xd7) offset += 2;
+    else break;
+  }
+
+  return offset;
+}
+
+// Dequantize + inverse DCT every block into an 8-bit plane of
+// blocksPerLineMcu * 8 by blocksPerColumnMcu * 8 samples.
+function idctPlane(c: Component, table: Uint16Array) {
+  const w = c.blocksPerLineMcu * 8;
+  const out = new Uint8ClampedArray(w * c.blocksPerColumnMcu * 8);
+  const block = new Float32Array(64);
+  const tmp = new Float32Array(64);
+
+  for (let by = 0; by < c.blocksPerColumnMcu; by++) {
+    for (let bx = 0; bx < c.blocksPerLineMcu; bx++) {
+      const o = (by * c.blocksPerLineMcu + bx) * 64;
+      for (let i = 0; i < 64; i++) block[i] = c.coeffs[o + i] * table[i];
+
+      // Rows: tmp[v][x] = sum_u COS[x][u] * block[v][u]
+      for (let v = 0; v < 8; v++) {
+        for (let x = 0; x < 8; x++) {
+          let s = 0;
+          for (let u = 0; u < 8; u++) s += COS[x * 8 + u] * block[v * 8 + u];
+          tmp[v * 8 + x] = s;
+        }
+      }
+      // Columns
+      for (let y = 0; y < 8; y++) {
+        for (let x = 0; x < 8; x++) {
+          let s = 0;
+          for (let v = 0; v < 8; v++) s += COS[y * 8 + v] * tmp[v * 8 + x];
+          out[(by * 8 + y) * w + bx * 8 + x] = Math.round(s + 128);
+        }
+      }
+    }
+  }
+
+  return out;
+}
+
+function toRgba(
+  frame: Frame,
+  planes: Uint8ClampedArray[],
+  adobeTransform: number | null
+): RgbaImage {
+  const { width, height, maxH, maxV, components } = frame;
+  const out = new Uint8ClampedArray(width * height * 4);
+  const n = components.length;
+  // Adobe files say whether they are YCbCr; others: 3 channels are YCbCr
+  const ycc = adobeTransform !== null ? adobeTransform !== 0 : n === 3;
+
+  const sample = (ci: number, x: number, y: number) => {
+    const c = components[ci];
+    const sx = Math.floor((x * c.h) / maxH);
+    const sy = Math.floor((y * c.v) / maxV);
+    return planes[ci][sy * c.blocksPerLineMcu * 8 + sx];
+  };
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const o = (y * width + x) * 4;
+      if (n < 3) {
+        const g = sample(0, x, y);
+        out[o] = out[o + 1] = out[o + 2] = g;
+        out[o + 3] = 255;
+        continue;
+      }
+
+      let r = sample(0, x, y);
+      let g = sample(1, x, y);
+      let b = sample(2, x, y);
+      if (ycc) {
+        const Y = r;
+        const cb = g - 128;
+        const cr = b - 128;
+        r = Y + 1.402 * cr;
+        g = Y - 0.344136 * cb - 0.714136 * cr;
+        b = Y + 1.772 * cb;
+      }
+      if (n === 4) {
+        // Adobe CMYK is stored inverted: 255 = no ink
+        const k = sample(3, x, y) / 255;
+        r *= k;
+        g *= k;
+        b *= k;
+      }
+      out[o] = r;
+      out[o + 1] = g;
+      out[o + 2] = b;
+      out[o + 3] = 255;
+    }
+  }
+
+  return { width, height, data: out };
+}
+
+// EXIF orientation tag (0x0112) from an APP1 payload, if present
+function readExifOrientation(app1: Uint8Array): number | null {
+  if (String.fromCharCode(...app1.subarray(0, 4)) !== "Exif") return null;
+  const tiff = app1.subarray(6);
+  if (tiff.length < 8) return null;
+  const little = tiff[0] === 0x49;
+  const view = new DataView(tiff.buffer, tiff.byteOffset, tiff.byteLength);
+  const u16 = (i: number) => view.getUint16(i, little);
+  const ifd = view.getUint32(4, little);
+  if (ifd + 2 > tiff.length) return null;
+  const entries = u16(ifd);
+  for (let i = 0; i < entries; i++) {
+    const e = ifd + 2 + i * 12;
+    if (e + 12 > tiff.length) break;
+    if (u16(e) === 0x0112) return u16(e + 8);
+  }
+  return null;
+}
+
+// Apply EXIF orientation 2..8 (mirror / rotate) to the decoded pixels.
+function orient(img: RgbaImage, orientation: number): RgbaImage {
+  if (orientation < 2 || orientation > 8) return img;
+  const { width: w, height: h } = img;
+  const swap = orientation >= 5;
+  const ow = swap ? h : w;
+  const oh = swap ? w : h;
+  const out = new Uint8ClampedArray(ow * oh * 4);
+
+  for (let y = 0; y < oh; y++) {
+    for (let x = 0; x < ow; x++) {
+      // Output pixel -> source pixel
+      let sx: number;
+      let sy: number;
+      switch (orientation) {
+        case 2:
+          [sx, sy] = [w - 1 - x, y];
+          break;
+        case 3:
+          [sx, sy] = [w - 1 - x, h - 1 - y];
+          break;
+        case 4:
+          [sx, sy] = [x, h - 1 - y];
+          break;
+        case 5:
+          [sx, sy] = [y, x];
+          break;
+        case 6:
+          [sx, sy] = [y, h - 1 - x];
+          break;
+        case 7:
+          [sx, sy] = [w - 1 - y, h - 1 - x];
+          break;
+        default:
+          [sx, sy] = [w - 1 - y, x];
+      }
+      const s = (sy * w + sx) * 4;
+      const o = (y * ow + x) * 4;
+      out.set(img.data.subarray(s, s + 4), o);
+    }
+  }
+
+  return { width: ow, height: oh, data: out };
+}
@@ -0,0 +1,327 @@
+import { describe, expect, it } from "vitest";
+import type { LayeredImage } from "../layers";
+import { createImage, type RgbaImage } from "../shadow";
+import { decodePng, encodeOra, encodePsd } from ".";
+
+function filled(
+  width: number,
+  height: number,
+  pixel: (x: number, y: number) => number[]
+): RgbaImage {
+  const img = createImage(width, height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++)
+      img.data.set(pixel(x, y), (y * width + x) * 4);
+  }
+  return img;
+}
+
+// Background, a multiplied half-strength shadow and a masked foreground,
+// the way sceneLayers builds them
+const DOC: LayeredImage = {
+  width: 300,
+  height: 6,
+  layers: [
+    {
+      name: "Background",
+      image: filled(300, 6, (x, y) => [x % 256, y * 40, 90, 255]),
+      x: 0,
+      y: 0,
+      opacity: 1,
+      blend: "normal",
+    },
+    {
+      name: "Shadow",
+      image: filled(3, 2, (x) => [0, 0, 0, 100 + x * 50]),
+      x: 2,
+      y: 1,
+      opacity: 0.5,
+      blend: "multiply",
+    },
+    {
+      name: "Foreground",
+      image: filled(4, 3, (x, y) => [200, 10 * x, 10 * y, 255]),
+      x: 1,
+      y: 2,
+      opacity: 1,
+      blend: "normal",
+      mask: filled(4, 3, (x) => [0, 0, 0, x * 85]),
+    },
+  ],
+  merged: filled(300, 6, (x, y) => [255 - (x % 256), y, 7, 255]),
+};
+
+function unpackBits(src: Uint8Array, size: number) {
+  const out = new Uint8Array(size);
+  let i = 0;
+  let o = 0;
+  while (o < size && i < src.length) {
+    const n = (src[i++] << 24) >> 24;
+    if (n >= 0) {
+      out.set(src.subarray(i, i + n + 1), o);
+      i += n + 1;
+      o += n + 1;
+    } else if (n !== -128) {
+      out.fill(src[i++], o, o + 1 - n);
+      o += 1 - n;
+    }
+  }
+  return out;
+}
+
+// Just enough of a PSD reader for what encodePsd writes
+function readPsd(bytes: Uint8Array) {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let pos = 0;
+  const u8 = () => bytes[pos++];
+  const u16 = () => ((pos += 2), view.getUint16(pos - 2));
+  const i16 = () => ((pos += 2), view.getInt16(pos - 2));
+  const u32 = () => ((pos += 4), view.getUint32(pos - 4));
+  const i32 = () => ((pos += 4), view.getInt32(pos - 4));
+  const str = (n: number) =>
+    String.fromCharCode(...bytes.subarray(pos, (pos += n)));
+  const skip = (n: number) => {
+    pos += n;
+  };
+
+  // Packed planes of `count` rows (row byte counts, then the rows)
+  const planes = (channels: number, width: number, height: number) => {
+    const counts = Array.from({ length: channels * height }, u16);
+    return Array.from({ length: channels }, (_, c) => {
+      const size = counts
+        .slice(c * height, (c + 1) * height)
+        .reduce((n, v) => n + v, 0);
+      return unpackBits(bytes.subarray(pos, (pos += size)), width * height);
+    });
+  };
+
+  const header = {
+    signature: str(4),
+    version: u16(),
+    channels: (skip(6), u16()),
+    height: u32(),
+    width: u32(),
+    depth: u16(),
+    mode: u16(),
+  };
+  skip(u32()); // color mode data
+  skip(u32()); // image resources
+  const layerAndMaskEnd = u32() + pos;
+  u32(); // layer info length
+
+  const records = Array.from({ length: i16() }, () => {
+    const [top, left, bottom, right] = [i32(), i32(), i32(), i32()];
+    const channels = Array.from({ length: u16() }, () => ({
+      id: i16(),
+      length: u32(),
+    }));
+    const signature = str(4);
+    const blend = str(4);
+    const opacity = u8();
+    skip(3); // clipping, flags, filler
+    const extraEnd = u32() + pos;
+    const maskLength = u32();
+    const maskStart = pos;
+    const mask =
+      maskLength > 0
+        ? { top: i32(), left: i32(), bottom: i32(), right: i32() }
+        : null;
+    pos = maskStart + maskLength;
+    skip(u32()); // blending ranges
+    const name = str(u8());
+    pos = extraEnd;
+    return {
+      top,
+      left,
+      bottom,
+      right,
+      channels,
+      signature,
+      blend,
+      opacity,
+      mask,
+      name,
+    };
+  });
+
+  const layers = records.map((r) => {
+    const data = new Map<number, Uint8Array>();
+    for (const { id } of r.channels) {
+      const rect = id === -2 ? r.mask! : r;
+      const width = rect.right - rect.left;
+      const height = rect.bottom - rect.top;
+      expect(u16()).toBe(1); // PackBits
+      data.set(id, planes(1, width, height)[0]);
+    }
+    return { ...r, data };
+  });
+
+  pos = layerAndMaskEnd;
+  expect(u16()).toBe(1);
+  const merged = planes(header.channels, header.width, header.height);
+  return { header, layers, merged };
+}
+
+// Stored entries of a ZIP, in order
+function readZip(bytes: Uint8Array) {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const entries = new Map<string, Uint8Array>();
+  let pos = 0;
+  while (view.getUint32(pos, true) === 0x04034b50) {
+    expect(view.getUint16(pos + 8, true)).toBe(0); // stored
+    const size = view.getUint32(pos + 18, true);
+    const nameLength = view.getUint16(pos + 26, true);
+    const start = pos + 30 + nameLength + view.getUint16(pos + 28, true);
+    const name = new TextDecoder().decode(
+      bytes.subarray(pos + 30, pos + 30 + nameLength)
+    );
+    entries.set(name, bytes.subarray(start, start + size));
+    pos = start + size;
+  }
+  return entries;
+}
+
+function channel(img: RgbaImage, c: number) {
+  return Uint8Array.from(
+    { length: img.width * img.height },
+    (_, p) => img.data[p * 4 + c]
+  );
+}
+
+describe("PSD", () => {
+  const psd = readPsd(encodePsd(DOC));
+
+  it("writes an 8-bit RGB header", () => {
+    expect(psd.header).toEqual({
+      signature: "8BPS",
+      version: 1,
+      channels: 3,
+      height: 6,
+      width: 300,
+      depth: 8,
+      mode: 3,
+    });
+  });
+
+  it("round-trips every layer's pixels, bounds and settings", () => {
+    expect(psd.layers.map((l) => l.name)).toEqual([
+      "Background",
+      "Shadow",
+      "Foreground",
+    ]);
+    DOC.layers.forEach((layer, i) => {
+      const read = psd.layers[i];
+      expect(read.signature).toBe("8BIM");
+      expect([read.left, read.top, read.right, read.bottom]).toEqual([
+        layer.x,
+        layer.y,
+        layer.x + layer.image.width,
+        layer.y + layer.image.height,
+      ]);
+      expect(read.blend).toBe(layer.blend === "multiply" ? "mul " : "norm");
+      expect(read.opacity).toBe(Math.round(layer.opacity * 255));
+      for (const [id, c] of [
+        [0, 0],
+        [1, 1],
+        [2, 2],
+        [-1, 3],
+      ]) {
+        expect(read.data.get(id)).toEqual(channel(layer.image, c));
+      }
+    });
+  });
+
+  it("keeps the layer mask", () => {
+    const read = psd.layers[2];
+    const { mask, x, y } = DOC.layers[2];
+
+    expect(read.mask).toEqual({
+      top: y,
+      left: x,
+      bottom: y + mask!.height,
+      right: x + mask!.width,
+    });
+    expect(read.data.get(-2)).toEqual(channel(mask!, 3));
+    expect(psd.layers[0].mask).toBeNull();
+  });
+
+  it("carries the flattened image", () => {
+    expect(psd.merged).toEqual([0, 1, 2].map((c) => channel(DOC.merged, c)));
+  });
+
+  it("packs rows of pairs after single pixels (PackBits' worst case)", () => {
+    const image = filled(300, 2, (x) => {
+      const v = x % 3 === 0 ? 10 : 20;
+      return [v, v, v, 255];
+    });
+    const read = readPsd(
+      encodePsd({
+        width: 300,
+        height: 2,
+        layers: [
+          { name: "Gray", image, x: 0, y: 0, opacity: 1, blend: "normal" },
+        ],
+        merged: image,
+      })
+    );
+
+    expect(read.layers[0].data.get(0)).toEqual(channel(image, 0));
+    expect(read.merged[1]).toEqual(channel(image, 1));
+  });
+});
+
+describe("OpenRaster", async () => {
+  const zip = readZip(await encodeOra(DOC));
+  const stack = new TextDecoder().decode(zip.get("stack.xml"));
+  const layers = [...stack.matchAll(/<layer ([^>]*)\/>/g)].map((m) =>
+    Object.fromEntries(
+      [...m[1].matchAll(/([\w-]+)="([^"]*)"/g)].map(([, k, v]) => [k, v])
+    )
+  );
+
+  it("starts with the uncompressed mimetype", () => {
+    expect([...zip.keys()][0]).toBe("mimetype");
+    expect(new TextDecoder().decode(zip.get("mimetype"))).toBe(
+      "image/openraster"
+    );
+  });
+
+  it("lists the layers top first, masks as hidden layers", () => {
+    expect(stack).toMatch(/<image version="0.0.5" w="300" h="6">/);
+    expect(
+      layers.map((l) => [l.name, l["composite-op"], l.opacity, l.visibility])
+    ).toEqual([
+      ["Foreground mask", "svg:src-over", "1.000", "hidden"],
+      ["Foreground", "svg:src-over", "1.000", "visible"],
+      ["Shadow", "svg:multiply", "0.500", "visible"],
+      ["Background", "svg:src-over", "1.000", "visible"],
+    ]);
+    expect([layers[2].x, layers[2].y]).toEqual(["2", "1"]);
+  });
+
+  it("round-trips the layer pixels, with the mask applied", async () => {
+    const byName = new Map(layers.map((l) => [l.name, l.src]));
+    const png = (name: string) => decodePng(zip.get(byName.get(name)!)!);
+
+    expect((await png("Background")).data).toEqual(DOC.layers[0].image.data);
+    expect((await png("Shadow")).data).toEqual(DOC.layers[1].image.data);
+
+    const { image, mask } = DOC.layers[2];
+    const fg = await png("Foreground");
+    expect(channel(fg, 0)).toEqual(channel(image, 0));
+    expect(channel(fg, 3)).toEqual(
+      channel(mask!, 3).map((m, p) =>
+        Math.round((image.data[p * 4 + 3] * m) / 255)
+      )
+    );
+    expect(channel(await png("Foreground mask"), 0)).toEqual(channel(mask!, 3));
+  });
+
+  it("carries the flattened image and a thumbnail", async () => {
+    const merged = await decodePng(zip.get("mergedimage.png")!);
+    const thumbnail = await decodePng(zip.get("Thumbnails/thumbnail.png")!);
+
+    expect(merged.data).toEqual(DOC.merged.data);
+    expect([thumbnail.width, thumbnail.height]).toEqual([256, 5]);
+  });
+});
@@ -0,0 +1,111 @@
+import type { ImageLayer, LayeredImage } from "../layers";
+import { cloneImage, createImage, drawImage, scale } from "../shadow";
+import { createZip, type ZipEntry } from "../zip";
+import { encodePng } from "./png";
+
+// Longest side of the preview thumbnail the format asks for
+const THUMBNAIL_SIZE = 256;
+
+const XML_ESCAPES: Record<string, string> = {
+  "&": "&amp;",
+  "<": "&lt;",
+  ">": "&gt;",
+  '"': "&quot;",
+  "'": "&apos;",
+};
+
+const COMPOSITE_OPS: Record<ImageLayer["blend"], string> = {
+  normal: "svg:src-over",
+  multiply: "svg:multiply",
+};
+
+// -----------------------------
+// Encode a layered image as OpenRaster (a ZIP of PNG layers + stack.xml).
+// The format has no layer masks, so a masked layer goes in with the mask
+// applied, and the mask follows as a hidden grayscale layer.
+// -----------------------------
+export async function encodeOra(doc: LayeredImage): Promise<Uint8Array> {
+  const { width, height } = doc;
+  const entries: ZipEntry[] = [
+    // Must come first, uncompressed
+    { name: "mimetype", data: new TextEncoder().encode("image/openraster") },
+  ];
+
+  // stack.xml lists the top layer first
+  const stack: string[] = [];
+  for (const [i, layer] of doc.layers.entries()) {
+    const { x, y, mask } = layer;
+    const src = `data/layer${i}.png`;
+    entries.push({ name: src, data: await encodePng(maskedImage(layer)) });
+    stack.unshift(
+      layerXml(layer.name, src, x, y, layer.opacity, layer.blend, true)
+    );
+
+    if (mask) {
+      const maskSrc = `data/layer${i}_mask.png`;
+      entries.push({ name: maskSrc, data: await encodePng(maskToGray(mask)) });
+      stack.unshift(
+        layerXml(`${layer.name} mask`, maskSrc, x, y, 1, "normal", false)
+      );
+    }
+  }
+
+  const s = Math.min(1, THUMBNAIL_SIZE / Math.max(width, height));
+  const thumbnail = createImage(width * s, height * s);
+  drawImage(thumbnail, doc.merged, scale(s, s));
+  entries.push(
+    {
+      name: "stack.xml",
+      data: new TextEncoder().encode(
+        `<?xml version="1.0" encoding="UTF-8"?>\n` +
+          `<image version="0.0.5" w="${width}" h="${height}">\n` +
+          `  <stack>\n${stack.join("")}  </stack>\n</image>\n`
+      ),
+    },
+    { name: "mergedimage.png", data: await encodePng(doc.merged) },
+    { name: "Thumbnails/thumbnail.png", data: await encodePng(thumbnail) }
+  );
+
+  return createZip(entries);
+}
+
+function layerXml(
+  name: string,
+  src: string,
+  x: number,
+  y: number,
+  opacity: number,
+  blend: ImageLayer["blend"],
+  visible: boolean
+) {
+  return (
+    `    <layer name="${escapeXml(name)}" src="${src}" x="${x}" y="${y}"` +
+    ` opacity="${opacity.toFixed(3)}" composite-op="${COMPOSITE_OPS[blend]}"` +
+    ` visibility="${visible ? "visible" : "hidden"}"/>\n`
+  );
+}
+
+// The layer's pixels with its mask (same size) multiplied into the alpha
+function maskedImage(layer: ImageLayer) {
+  const { image, mask } = layer;
+  if (!mask) return image;
+  const out = cloneImage(image);
+  for (let i = 3; i < out.data.length; i += 4) {
+    out.data[i] = Math.round((out.data[i] * mask.data[i]) / 255);
+  }
+  return out;
+}
+
+// Mask alpha as an opaque gray image (white = shown)
+function maskToGray(mask: ImageLayer["image"]) {
+  const out = createImage(mask.width, mask.height);
+  for (let p = 0; p < mask.width * mask.height; p++) {
+    const v = mask.data[p * 4 + 3];
+    out.data.set([v, v, v, 255], p * 4);
+  }
+  return out;
+}
+
+function escapeXml(text: string) {
+  return text.replace(/[&<>"']/g, (ch) => XML_ESCAPES[ch]);
+}
@@ -0,0 +1,68 @@
+import type { DepthBuffer } from "../shadow";
+
+export function isPfm(bytes: Uint8Array) {
+  return (
+    bytes[0] === 0x50 && // P
+    (bytes[1] === 0x46 || bytes[1] === 0x66) && // F (color) / f (gray)
+    (bytes[2] === 0x0a || bytes[2] === 0x0d || bytes[2] === 0x20)
+  );
+}
+
+// -----------------------------
+// Decode a PFM (portable float map): "PF" (RGB) or "Pf" (gray), size, and a
+// scale whose sign gives the byte order (negative = little endian), then
+// float32 rows from the bottom up. Color channels are averaged.
+// -----------------------------
+export function decodePfm(bytes: Uint8Array): DepthBuffer {
+  if (!isPfm(bytes)) throw new Error("not a PFM file");
+  const channels = bytes[1] === 0x46 ? 3 : 1;
+
+  // Header: four whitespace-separated tokens, then one whitespace byte
+  const tokens: string[] = [];
+  let pos = 0;
+  while (tokens.length < 4) {
+    while (pos < bytes.length && isSpace(bytes[pos])) pos++;
+    const start = pos;
+    while (pos < bytes.length && !isSpace(bytes[pos])) pos++;
+    if (pos >= bytes.length) throw new Error("truncated PFM header");
+    tokens.push(String.fromCharCode(...bytes.subarray(start, pos)));
+  }
+  pos++;
+
+  const width = Number(tokens[1]);
+  const height = Number(tokens[2]);
+  const scale = Number(tokens[3]);
+  if (
+    !Number.isInteger(width) ||
+    !Number.isInteger(height) ||
+    width <= 0 ||
+    height <= 0 ||
+    !Number.isFinite(scale) ||
+    scale === 0
+  ) {
+    throw new Error("corrupt PFM header");
+  }
+  if (bytes.length - pos < width * height * channels * 4) {
+    throw new Error("truncated PFM");
+  }
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset + pos);
+  const little = scale < 0;
+  const data = new Float32Array(width * height);
+  for (let row = 0; row < height; row++) {
+    const y = height - 1 - row;
+    for (let x = 0; x < width; x++) {
+      let sum = 0;
+      for (let c = 0; c < channels; c++) {
+        sum += view.getFloat32(((row * width + x) * channels + c) * 4, little);
+      }
+      data[y * width + x] = sum / channels;
+    }
+  }
+
+  return { width, height, data };
+}
+
+function isSpace(b: number) {
+  return b === 0x20 || b === 0x09 || b === 0x0a || b === 0x0d;
+}
@@ -0,0 +1,339 @@
+import type { DepthBuffer, RgbaImage } from "../shadow";
+import { crc32 } from "../zip";
+import { deflate, inflate } from "./zlib";
+
+const SIGNATURE = [137, 80, 78, 71, 13, 10, 26, 10];
+
+// Adam7 passes: [x0, y0, dx, dy]
+const ADAM7 = [
+  [0, 0, 8, 8],
+  [4, 0, 8, 8],
+  [0, 4, 4, 8],
+  [2, 0, 4, 4],
+  [0, 2, 2, 4],
+  [1, 0, 2, 2],
+  [0, 1, 1, 2],
+];
+
+export function isPng(bytes: Uint8Array) {
+  return SIGNATURE.every((b, i) => bytes[i] === b);
+}
+
+type PngData = {
+  width: number;
+  height: number;
+  bitDepth: number;
+  colorType: number;
+  channels: number;
+  palette: Uint8Array | null;
+  transparency: Uint8Array | null;
+  interlace: number;
+  // Inflated, still filtered scanlines
+  raw: Uint8Array;
+};
+
+// -----------------------------
+// Decode any standard PNG (all color types and bit depths, interlaced or
+// not) to 8-bit RGBA. 16-bit samples keep their high byte (see
+// decodePngSamples for all of it).
+// -----------------------------
+export async function decodePng(bytes: Uint8Array): Promise<RgbaImage> {
+  const png = await readPng(bytes);
+  const { width, height, bitDepth, colorType, channels } = png;
+  const { palette, transparency } = png;
+  const out: RgbaImage = {
+    width,
+    height,
+    data: new Uint8ClampedArray(width * height * 4),
+  };
+
+  // Transparent key color (gray / RGB images), compared at full bit depth
+  const key =
+    transparency && colorType === 0
+      ? [(transparency[0] << 8) | transparency[1]]
+      : transparency && colorType === 2
+        ? [0, 2, 4].map((i) => (transparency![i] << 8) | transparency![i + 1])
+        : null;
+  const maxValue = (1 << bitDepth) - 1;
+  const sample = sampler(png);
+  const to8 = (v: number) =>
+    bitDepth === 16 ? v >> 8 : Math.round((v * 255) / maxValue);
+
+  scanPixels(png, (line, x, p) => {
+    const d = out.data;
+    const o = p * 4;
+    if (colorType === 3) {
+      const i = sample(line, x, 0);
+      d[o] = palette![i * 3];
+      d[o + 1] = palette![i * 3 + 1];
+      d[o + 2] = palette![i * 3 + 2];
+      d[o + 3] =
+        transparency && i < transparency.length ? transparency[i] : 255;
+      return;
+    }
+    const v: number[] = [];
+    for (let c = 0; c < channels; c++) v.push(sample(line, x, c));
+    const gray = colorType === 0 || colorType === 4;
+    d[o] = to8(v[0]);
+    d[o + 1] = to8(gray ? v[0] : v[1]);
+    d[o + 2] = to8(gray ? v[0] : v[2]);
+    if (colorType === 4) d[o + 3] = to8(v[1]);
+    else if (colorType === 6) d[o + 3] = to8(v[3]);
+    else d[o + 3] = key && key.every((k, c) => k === v[c]) ? 0 : 255;
+  });
+
+  return out;
+}
+
+// -----------------------------
+// Decode a 16-bit gray or RGB(A) PNG to one float sample per pixel at full
+// precision: 0..1, color channels averaged, NaN where fully transparent.
+// Null for any other kind of PNG (decodePng covers those).
+// -----------------------------
+export async function decodePngSamples(
+  bytes: Uint8Array
+): Promise<DepthBuffer | null> {
+  const png = await readPng(bytes);
+  const { width, height, bitDepth, colorType, channels } = png;
+  if (bitDepth !== 16 || colorType === 3) return null;
+
+  const data = new Float32Array(width * height);
+  const sample = sampler(png);
+  const color = colorType === 2 || colorType === 6 ? 3 : 1;
+  const alpha = colorType === 4 || colorType === 6 ? channels - 1 : -1;
+  scanPixels(png, (line, x, p) => {
+    if (alpha >= 0 && sample(line, x, alpha) === 0) {
+      data[p] = NaN;
+      return;
+    }
+    let sum = 0;
+    for (let c = 0; c < color; c++) sum += sample(line, x, c);
+    data[p] = sum / (color * 65535);
+  });
+
+  return { width, height, data };
+}
+
+async function readPng(bytes: Uint8Array): Promise<PngData> {
+  if (!isPng(bytes)) throw new Error("not a PNG file");
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+  let width = 0;
+  let height = 0;
+  let bitDepth = 0;
+  let colorType = 0;
+  let interlace = 0;
+  let palette: Uint8Array | null = null;
+  let transparency: Uint8Array | null = null;
+  const idat: Uint8Array[] = [];
+
+  let pos = 8;
+  while (pos + 8 <= bytes.length) {
+    const length = view.getUint32(pos);
+    const type = String.fromCharCode(...bytes.subarray(pos + 4, pos + 8));
+    const start = pos + 8;
+    const data = bytes.subarray(start, start + length);
+    if (data.length < length) throw new Error("truncated PNG");
+    pos = start + length + 4;
+
+    if (type === "IHDR") {
+      width = view.getUint32(start);
+      height = view.getUint32(start + 4);
+      bitDepth = data[8];
+      colorType = data[9];
+      interlace = data[12];
+    } else if (type === "PLTE") {
+      palette = data;
+    } else if (type === "tRNS") {
+      transparency = data;
+    } else if (type === "IDAT") {
+      idat.push(data);
+    } else if (type === "IEND") {
+      break;
+    }
+  }
+
+  const channels = { 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 }[colorType];
+  if (width === 0 || height === 0 || !channels) {
+    throw new Error("unsupported or corrupt PNG header");
+  }
+  if (colorType === 3 && !palette) throw new Error("PNG palette missing");
+
+  return {
+    width,
+    height,
+    bitDepth,
+    colorType,
+    channels,
+    palette,
+    transparency,
+    interlace,
+    raw: await inflate(concat(idat)),
+  };
+}
+
+// Sample c of pixel x on an unfiltered scanline, at the PNG's bit depth
+function sampler({ bitDepth, channels }: PngData) {
+  const maxValue = (1 << bitDepth) - 1;
+  return (line: Uint8Array, x: number, c: number) => {
+    if (bitDepth === 8) return line[x * channels + c];
+    if (bitDepth === 16) {
+      const i = (x * channels + c) * 2;
+      return (line[i] << 8) | line[i + 1];
+    }
+    const bit = (x * channels + c) * bitDepth;
+    return (line[bit >> 3] >> (8 - bitDepth - (bit & 7))) & maxValue;
+  };
+}
+
+// Unfilters every scanline (all interlace passes) and visits each pixel on
+// it with its index p in the full image.
+function scanPixels(
+  png: PngData,
+  visit: (line: Uint8Array, x: number, p: number) => void
+) {
+  const { width, height, bitDepth, channels, raw } = png;
+  const bpp = Math.max(1, (channels * bitDepth) >> 3);
+
+  let offset = 0;
+  const passes = png.interlace ? ADAM7 : [[0, 0, 1, 1]];
+  for (const [x0, y0, dx, dy] of passes) {
+    const pw = Math.ceil((width - x0) / dx);
+    const ph = Math.ceil((height - y0) / dy);
+    if (pw <= 0 || ph <= 0) continue;
+
+    const stride = Math.ceil((pw * channels * bitDepth) / 8);
+    let prev = new Uint8Array(stride);
+    for (let row = 0; row < ph; row++) {
+      if (offset + 1 + stride > raw.length) throw new Error("truncated PNG");
+      const filter = raw[offset];
+      const line = raw.slice(offset + 1, offset + 1 + stride);
+      offset += 1 + stride;
+      unfilter(filter, line, prev, bpp);
+
+      const y = y0 + row * dy;
+      for (let col = 0; col < pw; col++) {
+        visit(line, col, y * width + x0 + col * dx);
+      }
+      prev = line;
+    }
+  }
+}
+
+function unfilter(
+  filter: number,
+  line: Uint8Array,
+  prev: Uint8Array,
+  bpp: number
+) {
+  for (let i = 0; i < line.length; i++) {
+    const a = i >= bpp ? line[i - bpp] : 0;
+    const b = prev[i];
+    const c = i >= bpp ? prev[i - bpp] : 0;
+    switch (filter) {
+      case 0:
+        break;
+      case 1:
+        line[i] += a;
+        break;
+      case 2:
+        line[i] += b;
+        break;
+      case 3:
+        line[i] += (a + b) >> 1;
+        break;
+      case 4:
+        line[i] += paeth(a, b, c);
+        break;
+      default:
+        throw new Error(`bad PNG filter type ${filter}`);
+    }
+  }
+}
+
+function paeth(a: number, b: number, c: number) {
+  const p = a + b - c;
+  const pa = Math.abs(p - a);
+  const pb = Math.abs(p - b);
+  const pc = Math.abs(p - c);
+  return pa <= pb && pa <= pc ? a : pb <= pc ? b : c;
+}
+
+// -----------------------------
+// Encode 8-bit RGBA as PNG. Each row takes the filter with the smallest
+// absolute sum (the usual heuristic), which keeps shadows and masks small.
+// -----------------------------
+export async function encodePng(img: RgbaImage): Promise<Uint8Array> {
+  const { width, height, data } = img;
+  const stride = width * 4;
+  const raw = new Uint8Array((stride + 1) * height);
+  const candidate = new Uint8Array(stride);
+
+  for (let y = 0; y < height; y++) {
+    const line = data.subarray(y * stride, (y + 1) * stride);
+    const prev =
+      y > 0
+        ? data.subarray((y - 1) * stride, y * stride)
+        : new Uint8Array(stride);
+    let bestSum = Infinity;
+    for (let filter = 0; filter <= 4; filter++) {
+      let sum = 0;
+      for (let i = 0; i < stride; i++) {
+        const a = i >= 4 ? line[i - 4] : 0;
+        const b = prev[i];
+        const c = i >= 4 ? prev[i - 4] : 0;
+        const pred =
+          filter === 0
+            ? 0
+            : filter === 1
+              ? a
+              : filter === 2
+                ? b
+                : filter === 3
+                  ? (a + b) >> 1
+                  : paeth(a, b, c);
+        const v = (line[i] - pred) & 255;
+        candidate[i] = v;
+        sum += v < 128 ? v : 256 - v;
+      }
+      if (sum < bestSum) {
+        bestSum = sum;
+        raw[y * (stride + 1)] = filter;
+        raw.set(candidate, y * (stride + 1) + 1);
+      }
+    }
+  }
+
+  const header = new Uint8Array(13);
+  const hv = new DataView(header.buffer);
+  hv.setUint32(0, width);
+  hv.setUint32(4, height);
+  header[8] = 8; // bit depth
+  header[9] = 6; // RGBA
+  return concat([
+    new Uint8Array(SIGNATURE),
+    chunk("IHDR", header),
+    chunk("IDAT", await deflate(raw)),
+    chunk("IEND", new Uint8Array(0)),
+  ]);
+}
+
+function chunk(type: string, data: Uint8Array) {
+  const out = new Uint8Array(12 + data.length);
+  const view = new DataView(out.buffer);
+  view.setUint32(0, data.length);
+  for (let i = 0; i < 4; i++) out[4 + i] = type.charCodeAt(i);
+  out.set(data, 8);
+  view.setUint32(8 + data.length, crc32(out.subarray(4, 8 + data.length)));
+  return out;
+}
+
+function concat(parts: Uint8Array[]) {
+  const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+  let pos = 0;
+  for (const p of parts) {
+    out.set(p, pos);
+    pos += p.length;
+  }
+  return out;
+}
@@ -0,0 +1,190 @@
+import type { ImageLayer, LayeredImage } from "../layers";
+
+// Photoshop blend mode keys
+const BLEND_KEYS: Record<ImageLayer["blend"], string> = {
+  normal: "norm",
+  multiply: "mul ",
+};
+
+// -----------------------------
+// Encode a layered image as PSD (version 1, 8-bit RGB): one pixel layer per
+// ImageLayer with transparency, opacity, blend mode and layer mask, plus the
+// flattened image for readers that skip layers. Channels are PackBits
+// compressed, which keeps mostly empty shadow layers small.
+// -----------------------------
+export function encodePsd(doc: LayeredImage): Uint8Array {
+  const { width, height } = doc;
+
+  const header = new Uint8Array(26);
+  const hv = new DataView(header.buffer);
+  header.set(ascii("8BPS"), 0);
+  hv.setUint16(4, 1); // version
+  hv.setUint16(12, 3); // channels of the flattened image
+  hv.setUint32(14, height);
+  hv.setUint32(18, width);
+  hv.setUint16(22, 8); // bits per channel
+  hv.setUint16(24, 3); // RGB
+
+  // Layer records, then every layer's channel data in the same order
+  const records: Uint8Array[] = [];
+  const channels: Uint8Array[] = [];
+  for (const layer of doc.layers) {
+    const { image, mask } = layer;
+    const planes: [number, Uint8Array][] = [
+      [-1, channelData(plane(image, 3), image.width, image.height)],
+      [0, channelData(plane(image, 0), image.width, image.height)],
+      [1, channelData(plane(image, 1), image.width, image.height)],
+      [2, channelData(plane(image, 2), image.width, image.height)],
+    ];
+    if (mask) {
+      planes.push([-2, channelData(plane(mask, 3), mask.width, mask.height)]);
+    }
+    records.push(layerRecord(layer, planes));
+    channels.push(...planes.map(([, data]) => data));
+  }
+
+  const count = new Uint8Array(2);
+  new DataView(count.buffer).setInt16(0, doc.layers.length);
+  let layerInfo = concat([count, ...records, ...channels]);
+  if (layerInfo.length % 2) layerInfo = concat([layerInfo, new Uint8Array(1)]);
+
+  const merged = [0, 1, 2].map((c) =>
+    packPlane(plane(doc.merged, c), width, height)
+  );
+
+  return concat([
+    header,
+    u32(0), // color mode data
+    u32(0), // image resources
+    u32(4 + layerInfo.length + 4),
+    u32(layerInfo.length),
+    layerInfo,
+    u32(0), // global layer mask info
+    u16(1), // PackBits
+    ...merged.map((m) => m.counts),
+    ...merged.map((m) => m.data),
+  ]);
+}
+
+function layerRecord(layer: ImageLayer, planes: [number, Uint8Array][]) {
+  const { image, x, y, mask } = layer;
+
+  const head = new Uint8Array(18 + planes.length * 6 + 12);
+  const hv = new DataView(head.buffer);
+  hv.setInt32(0, y);
+  hv.setInt32(4, x);
+  hv.setInt32(8, y + image.height);
+  hv.setInt32(12, x + image.width);
+  hv.setUint16(16, planes.length);
+  let pos = 18;
+  for (const [id, data] of planes) {
+    hv.setInt16(pos, id);
+    hv.setUint32(pos + 2, data.length);
+    pos += 6;
+  }
+  head.set(ascii("8BIM"), pos);
+  head.set(ascii(BLEND_KEYS[layer.blend]), pos + 4);
+  head[pos + 8] = Math.round(Math.max(0, Math.min(1, layer.opacity)) * 255);
+  // clipping, flags (visible), filler stay 0
+
+  const maskData = new Uint8Array(mask ? 24 : 4);
+  if (mask) {
+    const mv = new DataView(maskData.buffer);
+    mv.setUint32(0, 20);
+    mv.setInt32(4, y);
+    mv.setInt32(8, x);
+    mv.setInt32(12, y + mask.height);
+    mv.setInt32(16, x + mask.width);
+    // default color 0 (hidden outside the mask), flags 0
+  }
+
+  // Pascal string padded to a multiple of 4
+  const name = ascii(layer.name.slice(0, 255));
+  const nameData = new Uint8Array(Math.ceil((name.length + 1) / 4) * 4);
+  nameData[0] = name.length;
+  nameData.set(name, 1);
+
+  const extra = concat([maskData, u32(0), nameData]); // no blending ranges
+  return concat([head, u32(extra.length), extra]);
+}
+
+// One channel of a layer: compression, row byte counts, rows
+function channelData(values: Uint8Array, width: number, height: number) {
+  if (width === 0 || height === 0) return u16(0);
+  const { counts, data } = packPlane(values, width, height);
+  return concat([u16(1), counts, data]);
+}
+
+// PackBits rows of a width x height plane, with their byte counts
+function packPlane(values: Uint8Array, width: number, height: number) {
+  const counts = new Uint8Array(height * 2);
+  const cv = new DataView(counts.buffer);
+  // Worst case two bytes a pixel (a literal then a 2-byte run, or a lone one)
+  const data = new Uint8Array(height * width * 2);
+  let pos = 0;
+  for (let y = 0; y < height; y++) {
+    const start = pos;
+    pos = packRow(values.subarray(y * width, (y + 1) * width), data, pos);
+    cv.setUint16(y * 2, pos - start);
+  }
+  return { counts, data: data.subarray(0, pos) };
+}
+
+function packRow(row: Uint8Array, out: Uint8Array, pos: number) {
+  const n = row.length;
+  let i = 0;
+  while (i < n) {
+    let run = 1;
+    while (i + run < n && run < 128 && row[i + run] === row[i]) run++;
+    if (run > 1) {
+      out[pos++] = 257 - run;
+      out[pos++] = row[i];
+      i += run;
+      continue;
+    }
+    // Literals up to the next repeat
+    const start = i++;
+    while (i < n && i - start < 128 && row[i] !== row[i + 1]) i++;
+    out[pos++] = i - start - 1;
+    out.set(row.subarray(start, i), pos);
+    pos += i - start;
+  }
+  return pos;
+}
+
+// Channel c of an RGBA image as its own plane
+function plane(img: { data: Uint8ClampedArray }, c: number) {
+  const out = new Uint8Array(img.data.length / 4);
+  for (let p = 0; p < out.length; p++) out[p] = img.data[p * 4 + c];
+  return out;
+}
+
+// Latin-1 bytes; anything beyond shows as "?"
+function ascii(text: string) {
+  return Uint8Array.from(text, (ch) => {
+    const code = ch.charCodeAt(0);
+    return code < 256 ? code : 63;
+  });
+}
+
+function u16(v: number) {
+  const out = new Uint8Array(2);
+  new DataView(out.buffer).setUint16(0, v);
+  return out;
+}
+
+function u32(v: number) {
+  const out = new Uint8Array(4);
+  new DataView(out.buffer).setUint32(0, v);
+  return out;
+}
+
+function concat(parts: Uint8Array[]) {
+  const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+  let pos = 0;
+  for (const p of parts) {
+    out.set(p, pos);
+    pos += p.length;
+  }
+  return out;
+}
@@ -0,0 +1,19 @@
+// zlib streams through the web Compression Streams API, which browsers,
+// workers and Node (18+) all provide.
+
+async function pipe(
+  data: Uint8Array,
+  stream: CompressionStream | DecompressionStream
+): Promise<Uint8Array> {
+  const input = new Blob([data as Uint8Array<ArrayBuffer>]).stream();
+  const out = await new Response(input.pipeThrough(stream)).arrayBuffer();
+  return new Uint8Array(out);
+}
+
+export function inflate(data: Uint8Array): Promise<Uint8Array> {
+  return pipe(data, new DecompressionStream("deflate"));
+}
+
+export function deflate(data: Uint8Array): Promise<Uint8Array> {
+  return pipe(data, new CompressionStream("deflate"));
+}
@@ -0,0 +1,120 @@
+import { decodeDepthBytes, isDepthFormat } from "./codecs";
+import type { DepthMap, RgbaImage } from "./shadow";
+
+// Browser-side glue between File/<img>/<canvas> and the headless pipeline.
+
+export function readFileAsDataURL(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result));
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+}
+
+export function loadImage(src: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    // Safe for future cases where images might not be data URLs
+    img.crossOrigin = "anonymous";
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error("not an image the browser can read"));
+    img.src = src;
+  });
+}
+
+// Decode an image URL into a plain RGBA buffer at its natural size.
+export async function decodeImage(src: string): Promise<RgbaImage> {
+  const img = await loadImage(src);
+  const c = document.createElement("canvas");
+  c.width = img.naturalWidth;
+  c.height = img.naturalHeight;
+
+  const ctx = c.getContext("2d", { willReadFrequently: true });
+  if (!ctx) throw new Error("2D canvas context unavailable");
+
+  ctx.drawImage(img, 0, 0);
+  const id = ctx.getImageData(0, 0, c.width, c.height);
+  return { width: id.width, height: id.height, data: id.data };
+}
+
+// Decode a depth map URL: 16-bit PNG, PFM and OpenEXR keep their full
+// precision, other images go through <img>, anything else is read as raw
+// float32 sized by `aspect`, the one of the image named `of` (see
+// decodeDepthBytes).
+export async function decodeDepthMap(
+  src: string,
+  aspect: number | null,
+  of: string
+): Promise<DepthMap> {
+  const bytes = new Uint8Array(await (await fetch(src)).arrayBuffer());
+  if (isDepthFormat(bytes)) return decodeDepthBytes(bytes, aspect, of);
+  try {
+    return await decodeImage(src);
+  } catch {
+    return decodeDepthBytes(bytes, aspect, of);
+  }
+}
+
+// Resize canvas to the image and put its pixels.
+export function putImage(canvas: HTMLCanvasElement, img: RgbaImage) {
+  if (canvas.width !== img.width) canvas.width = img.width;
+  if (canvas.height !== img.height) canvas.height = img.height;
+  if (img.width === 0 || img.height === 0) return;
+
+  const ctx = canvas.getContext("2d");
+  if (!ctx) return;
+
+  const id = new ImageData(img.width, img.height);
+  id.data.set(img.data);
+  ctx.putImageData(id, 0, 0);
+}
+
+// Shrink a canvas to an empty 1x1 (keeps it valid for later draws).
+export function clearCanvas(canvas: HTMLCanvasElement | null) {
+  if (!canvas) return;
+  canvas.width = 1;
+  canvas.height = 1;
+  canvas.getContext("2d")?.clearRect(0, 0, 1, 1);
+}
+
+// Canvas pixels per CSS pixel for a canvas drawn with `object-fit: contain`.
+export function canvasPixelRatio(canvas: HTMLCanvasElement) {
+  const rect = canvas.getBoundingClientRect();
+  if (rect.width === 0 || rect.height === 0) return 1;
+  const s = Math.min(rect.width / canvas.width, rect.height / canvas.height);
+  return s > 0 ? 1 / s : 1;
+}
+
+// Client (event) coordinates -> canvas pixel coordinates, for a canvas drawn
+// with `object-fit: contain` (letterboxed inside its CSS box).
+export function clientToCanvas(
+  canvas: HTMLCanvasElement,
+  clientX: number,
+  clientY: number
+): [number, number] {
+  const rect = canvas.getBoundingClientRect();
+  const s = Math.min(rect.width / canvas.width, rect.height / canvas.height);
+  if (!(s > 0)) return [0, 0];
+  const ox = rect.left + (rect.width - canvas.width * s) / 2;
+  const oy = rect.top + (rect.height - canvas.height * s) / 2;
+  return [(clientX - ox) / s, (clientY - oy) / s];
+}
+
+// Resize canvas to a render-worker pass and draw it (bitmap or raw pixels).
+export function putFrame(
+  canvas: HTMLCanvasElement,
+  frame: ImageBitmap | RgbaImage
+) {
+  if ("data" in frame) {
+    putImage(canvas, frame);
+    return;
+  }
+  if (canvas.width !== frame.width) canvas.width = frame.width;
+  if (canvas.height !== frame.height) canvas.height = frame.height;
+
+  const ctx = canvas.getContext("2d");
+  if (!ctx) return;
+  ctx.clearRect(0, 0, canvas.width, canvas.height);
+  ctx.drawImage(frame, 0, 0);
+}
@@ -0,0 +1,251 @@
+// GLSL for the WebGL shadow renderer (see shadowRenderer.ts). Every pass
+// draws one full-screen triangle; gl_FragCoord is the canvas pixel center,
+// with canvas row y stored as texture row y (so nothing gets flipped until
+// readPixels hands the rows back in canvas order). Coverage lives in the
+// red channel. Each function mirrors its CPU twin in src/shadow.
+
+export const VERTEX = `#version 300 es
+void main() {
+  vec2 p = vec2(float((gl_VertexID << 1) & 2), float(gl_VertexID & 2));
+  gl_Position = vec4(p * 2.0 - 1.0, 0.0, 1.0);
+}
+`;
+
+const HEADER = `#version 300 es
+precision highp float;
+precision highp int;
+precision highp sampler2D;
+out vec4 outColor;
+`;
+
+// casterHeightAt, penumbraSigmaAt and gradientAt (plan.ts, math.ts)
+const FUNCTIONS = `
+uniform bool uHasCaster;
+uniform mat3 uUnshear;
+uniform float uCasterB0;
+uniform float uCasterSlope;
+uniform float uCasterMax;
+uniform float uCasterHorizon;
+
+float casterHeight(vec2 p) {
+  if (!uHasCaster) return 0.0;
+  vec3 q = uUnshear * vec3(p, 1.0);
+  if (abs(q.z) < 1e-12) return uCasterHorizon;
+  q.xy /= q.z;
+  return min(uCasterMax, max(0.0, uCasterB0 + uCasterSlope * q.x - q.y));
+}
+
+uniform float uSigmaBase;
+uniform float uSigmaGain;
+uniform float uLamp; // <= 0: directional
+
+float penumbraSigma(vec2 p) {
+  float h = casterHeight(p);
+  return uSigmaBase + uSigmaGain * h / (uLamp > 0.0 ? max(1.0, uLamp - h) : 1.0);
+}
+
+uniform vec2 uStops[4];
+uniform int uStopCount;
+
+float gradientAt(float t) {
+  if (t <= uStops[0].x) return uStops[0].y;
+  for (int i = 1; i < uStopCount; i++) {
+    if (t <= uStops[i].x) {
+      vec2 a = uStops[i - 1];
+      vec2 b = uStops[i];
+      return mix(a.y, b.y, (t - a.x) / (b.x - a.x));
+    }
+  }
+  return uStops[uStopCount - 1].y;
+}
+`;
+
+// warpAlpha / warpAlphaProjective, times opacity
+export const CAST = `${HEADER}
+uniform sampler2D uSource;
+uniform vec2 uSourceSize;
+uniform mat3 uToSource;
+uniform vec3 uForwardW;
+uniform float uOpacity;
+
+void main() {
+  outColor = vec4(0.0, 0.0, 0.0, 1.0);
+  vec3 q = uToSource * vec3(gl_FragCoord.xy, 1.0);
+  if (abs(q.z) < 1e-12) return;
+  vec2 uv = q.xy / q.z;
+  if (uv.x < 0.0 || uv.y < 0.0 || uv.x >= uSourceSize.x || uv.y >= uSourceSize.y) return;
+  if (dot(uForwardW, vec3(uv, 1.0)) <= 0.0) return;
+  outColor.r = texture(uSource, uv / uSourceSize).a * uOpacity;
+}
+`;
+
+// A coverage map already in canvas space, placed at uOrigin, times opacity
+export const DRAW = `${HEADER}
+uniform sampler2D uSource;
+uniform ivec2 uOrigin;
+uniform float uOpacity;
+
+void main() {
+  outColor = vec4(0.0, 0.0, 0.0, 1.0);
+  ivec2 p = ivec2(gl_FragCoord.xy) - uOrigin;
+  ivec2 size = textureSize(uSource, 0);
+  if (p.x < 0 || p.y < 0 || p.x >= size.x || p.y >= size.y) return;
+  outColor.r = texelFetch(uSource, p, 0).r * uOpacity;
+}
+`;
+
+// One direction of a gaussian (zero outside the texture)
+export const BLUR = `${HEADER}
+uniform sampler2D uSource;
+uniform ivec2 uDirection;
+uniform int uTaps;
+uniform float uSigma;
+uniform float uOpacity;
+
+void main() {
+  ivec2 size = textureSize(uSource, 0);
+  ivec2 p = ivec2(gl_FragCoord.xy);
+  float k = -0.5 / (uSigma * uSigma);
+  float sum = 0.0;
+  float norm = 0.0;
+  for (int i = -uTaps; i <= uTaps; i++) {
+    float w = exp(float(i * i) * k);
+    norm += w;
+    ivec2 q = p + uDirection * i;
+    if (q.x < 0 || q.y < 0 || q.x >= size.x || q.y >= size.y) continue;
+    sum += w * texelFetch(uSource, q, 0).r;
+  }
+  outColor = vec4(uOpacity * sum / norm, 0.0, 0.0, 1.0);
+}
+`;
+
+// Mean of each uFactor x uFactor block (outside the texture counts as 0).
+// The downsampled texture has a one texel border: texel i holds block i - 1.
+export const DOWNSAMPLE = `${HEADER}
+uniform sampler2D uSource;
+uniform int uFactor;
+
+void main() {
+  ivec2 size = textureSize(uSource, 0);
+  ivec2 origin = (ivec2(gl_FragCoord.xy) - 1) * uFactor;
+  float sum = 0.0;
+  for (int y = 0; y < uFactor; y++) {
+    for (int x = 0; x < uFactor; x++) {
+      ivec2 q = origin + ivec2(x, y);
+      if (q.x < 0 || q.y < 0 || q.x >= size.x || q.y >= size.y) continue;
+      sum += texelFetch(uSource, q, 0).r;
+    }
+  }
+  outColor = vec4(sum / float(uFactor * uFactor), 0.0, 0.0, 1.0);
+}
+`;
+
+// Bilinear read of a texture downsampled by uFactor (with its border),
+// times opacity
+export const UPSAMPLE = `${HEADER}
+uniform sampler2D uSource;
+uniform float uFactor;
+uniform float uOpacity;
+
+void main() {
+  vec2 at = (gl_FragCoord.xy / uFactor + 1.0) / vec2(textureSize(uSource, 0));
+  outColor = vec4(uOpacity * texture(uSource, at).r, 0.0, 0.0, 1.0);
+}
+`;
+
+// One ladder level's share of variableBlurAlpha, added up across levels
+export const SOFTEN = `${HEADER}
+${FUNCTIONS}
+uniform sampler2D uSource;
+uniform float uLevels[16];
+uniform int uTop;
+uniform int uLevel;
+
+void main() {
+  vec2 p = gl_FragCoord.xy;
+  float s = clamp(penumbraSigma(p), 0.0, uLevels[uTop]);
+  int l = 0;
+  while (l < uTop - 1 && uLevels[l + 1] <= s) l++;
+  float frac = uTop == 0
+    ? 0.0
+    : min(1.0, (s - uLevels[l]) / (uLevels[l + 1] - uLevels[l]));
+  float weight = l == uLevel ? 1.0 - frac : l + 1 == uLevel ? frac : 0.0;
+  outColor = vec4(weight * texelFetch(uSource, ivec2(p), 0).r, 0.0, 0.0, 1.0);
+}
+`;
+
+// fadeAt (plan.ts): the factor coverage gets multiplied by
+export const FADE = `${HEADER}
+${FUNCTIONS}
+uniform int uKind; // 0 along, 1 height, 2 local
+uniform float uGain;
+uniform vec2 uOrigin;
+uniform vec2 uDirection;
+uniform float uLength;
+uniform float uHeight;
+uniform mat3 uToSource;
+uniform mat3 uToCanvas;
+uniform vec2 uSourceSize;
+uniform float uLineB0;
+uniform float uLineSlope;
+
+float fade(vec2 p) {
+  float t;
+  if (uKind == 0) {
+    t = dot(p - uOrigin, uDirection) / uLength;
+  } else if (uKind == 1) {
+    t = clamp(1.0 - casterHeight(p) / uHeight, 0.0, 1.0);
+  } else {
+    vec3 q = uToSource * vec3(p, 1.0);
+    if (abs(q.z) < 1e-12) return 0.0;
+    vec2 uv = q.xy / q.z;
+    if (uv.x < 0.0 || uv.y < 0.0 || uv.x >= uSourceSize.x || uv.y >= uSourceSize.y) return 0.0;
+    vec2 s = (uToCanvas * vec3(uv, 1.0)).xy;
+    t = clamp(1.0 + (s.y - (uLineB0 + uLineSlope * s.x)) / uHeight, 0.0, 1.0);
+  }
+  return uGain * gradientAt(t);
+}
+
+void main() {
+  outColor = vec4(fade(gl_FragCoord.xy), 0.0, 0.0, 1.0);
+}
+`;
+
+// reliefAt (plan.ts): coverage read where the light's ray through the raised
+// background meets the ground; bilinear, 0 off the canvas
+export const RELIEF = `${HEADER}
+uniform sampler2D uSource;
+uniform sampler2D uSurface;
+uniform float uBase;
+uniform int uKind; // 0 directional, 1 point
+uniform vec2 uShift;
+uniform vec3 uLamp;
+
+void main() {
+  outColor = vec4(0.0, 0.0, 0.0, 1.0);
+  vec2 p = gl_FragCoord.xy;
+  ivec2 cell = clamp(ivec2(p), ivec2(0), textureSize(uSurface, 0) - 1);
+  float h = texelFetch(uSurface, cell, 0).r - uBase;
+  vec2 f = p + vec2(0.0, h);
+  vec2 q;
+  if (uKind == 0) {
+    q = f + h * uShift;
+  } else {
+    if (h >= uLamp.z) return;
+    q = f + (f - uLamp.xy) * (h / (uLamp.z - h));
+  }
+  vec2 size = vec2(textureSize(uSource, 0));
+  if (q.x < 0.0 || q.y < 0.0 || q.x >= size.x || q.y >= size.y) return;
+  outColor.r = texture(uSource, q / size).r;
+}
+`;
+
+// alphaToImage: black with the coverage in alpha
+export const OUTPUT = `${HEADER}
+uniform sampler2D uSource;
+
+void main() {
+  float a = min(1.0, texelFetch(uSource, ivec2(gl_FragCoord.xy), 0).r);
+  outColor = vec4(0.0, 0.0, 0.0, a);
+}
+`;
@@ -0,0 +1,708 @@
+import {
+  applyMat3,
+  createImage,
+  type AlphaMap,
+  invertMat3,
+  type CasterHeight,
+  type Mat3,
+  type PenumbraSigma,
+  type RgbaImage,
+  type ShadowFade,
+  type ShadowPlan,
+  type ShadowStep,
+  type SurfaceHeight,
+} from "../shadow";
+import {
+  BLUR,
+  CAST,
+  DOWNSAMPLE,
+  DRAW,
+  FADE,
+  OUTPUT,
+  RELIEF,
+  SOFTEN,
+  UPSAMPLE,
+  VERTEX,
+} from "./shaders";
+
+// -----------------------------
+// WebGL2 shadow renderer: runs the same plans as runShadowPlan (see
+// src/shadow/plan.ts), with the warps, blurs and fades as fragment shaders.
+// Draws into its own OffscreenCanvas context, so it works in a worker, and
+// needs no extensions (half-float targets when available, else 8-bit), so
+// software GL will do.
+// -----------------------------
+export type GlShadowRenderer = {
+  // Null when the plan's canvas is too big for this GL
+  run(plan: ShadowPlan): RgbaImage | null;
+  dispose(): void;
+};
+
+// Null where WebGL2 (or OffscreenCanvas) is unavailable.
+export function createGlShadowRenderer(): GlShadowRenderer | null {
+  if (typeof OffscreenCanvas === "undefined") return null;
+  const gl = new OffscreenCanvas(1, 1).getContext("webgl2", {
+    alpha: true,
+    antialias: false,
+    depth: false,
+    stencil: false,
+    premultipliedAlpha: false,
+  });
+  if (!gl) return null;
+  try {
+    return setup(gl);
+  } catch {
+    return null;
+  }
+}
+
+type Target = {
+  texture: WebGLTexture;
+  framebuffer: WebGLFramebuffer;
+  width: number;
+  height: number;
+};
+
+// Pixel rect [x0, x1) x [y0, y1) in canvas coordinates
+type Bounds = { x0: number; y0: number; x1: number; y1: number };
+
+type Program = {
+  use(): void;
+  // Uniform location (cached; null for uniforms the compiler dropped)
+  at(name: string): WebGLUniformLocation | null;
+};
+
+// Stdev ladder of variableBlurAlpha
+function sigmaLevels(maxSigma: number) {
+  const levels = [0];
+  for (let s = 1; levels[levels.length - 1] < maxSigma; s *= 2) levels.push(s);
+  return levels;
+}
+
+function grow(b: Bounds, by: number, W: number, H: number): Bounds {
+  return {
+    x0: Math.max(0, b.x0 - by),
+    y0: Math.max(0, b.y0 - by),
+    x1: Math.min(W, b.x1 + by),
+    y1: Math.min(H, b.y1 + by),
+  };
+}
+
+function union(a: Bounds | null, b: Bounds): Bounds {
+  if (!a) return b;
+  return {
+    x0: Math.min(a.x0, b.x0),
+    y0: Math.min(a.y0, b.y0),
+    x1: Math.max(a.x1, b.x1),
+    y1: Math.max(a.y1, b.y1),
+  };
+}
+
+// Where a cast lands (the region warpAlpha / warpAlphaProjective scan), null
+// if off canvas
+function castBounds(
+  m: Mat3,
+  width: number,
+  height: number,
+  W: number,
+  H: number
+): Bounds | null {
+  const corners = [
+    applyMat3(m, 0, 0),
+    applyMat3(m, width, 0),
+    applyMat3(m, 0, height),
+    applyMat3(m, width, height),
+  ];
+  let b: Bounds = { x0: 0, y0: 0, x1: W, y1: H };
+  if (corners.every((p) => p !== null)) {
+    const xs = corners.map((p) => p![0]);
+    const ys = corners.map((p) => p![1]);
+    b = {
+      x0: Math.max(0, Math.floor(Math.min(...xs))),
+      y0: Math.max(0, Math.floor(Math.min(...ys))),
+      x1: Math.min(W, Math.ceil(Math.max(...xs))),
+      y1: Math.min(H, Math.ceil(Math.max(...ys))),
+    };
+  }
+  return b.x1 > b.x0 && b.y1 > b.y0 ? b : null;
+}
+
+function setup(gl: WebGL2RenderingContext): GlShadowRenderer {
+  const compile = (type: number, source: string) => {
+    const shader = gl.createShader(type)!;
+    gl.shaderSource(shader, source);
+    gl.compileShader(shader);
+    if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
+      throw new Error(gl.getShaderInfoLog(shader) ?? "shader compile failed");
+    }
+    return shader;
+  };
+  const vertex = compile(gl.VERTEX_SHADER, VERTEX);
+
+  const link = (fragmentSource: string): Program => {
+    const program = gl.createProgram()!;
+    gl.attachShader(program, vertex);
+    gl.attachShader(program, compile(gl.FRAGMENT_SHADER, fragmentSource));
+    gl.linkProgram(program);
+    if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
+      throw new Error(gl.getProgramInfoLog(program) ?? "program link failed");
+    }
+    const locations = new Map<string, WebGLUniformLocation | null>();
+    return {
+      use: () => gl.useProgram(program),
+      at: (name) => {
+        if (!locations.has(name)) {
+          locations.set(name, gl.getUniformLocation(program, name));
+        }
+        return locations.get(name)!;
+      },
+    };
+  };
+
+  const programs = {
+    cast: link(CAST),
+    draw: link(DRAW),
+    blur: link(BLUR),
+    downsample: link(DOWNSAMPLE),
+    upsample: link(UPSAMPLE),
+    soften: link(SOFTEN),
+    fade: link(FADE),
+    relief: link(RELIEF),
+    output: link(OUTPUT),
+  };
+
+  // Draws need a vertex array even without attributes
+  gl.bindVertexArray(gl.createVertexArray());
+
+  // Coverage targets: half float where renderable, else 8-bit
+  const halfFloat =
+    !!gl.getExtension("EXT_color_buffer_float") ||
+    !!gl.getExtension("EXT_color_buffer_half_float");
+  const maxSize = Math.min(
+    gl.getParameter(gl.MAX_TEXTURE_SIZE) as number,
+    ...(gl.getParameter(gl.MAX_VIEWPORT_DIMS) as Int32Array)
+  );
+
+  const createTarget = (W: number, H: number, format: number): Target => {
+    const texture = gl.createTexture()!;
+    gl.bindTexture(gl.TEXTURE_2D, texture);
+    gl.texStorage2D(gl.TEXTURE_2D, 1, format, W, H);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.LINEAR);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.LINEAR);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+    const framebuffer = gl.createFramebuffer()!;
+    gl.bindFramebuffer(gl.FRAMEBUFFER, framebuffer);
+    gl.framebufferTexture2D(
+      gl.FRAMEBUFFER,
+      gl.COLOR_ATTACHMENT0,
+      gl.TEXTURE_2D,
+      texture,
+      0
+    );
+    return { texture, framebuffer, width: W, height: H };
+  };
+  const deleteTarget = (t: Target) => {
+    gl.deleteFramebuffer(t.framebuffer);
+    gl.deleteTexture(t.texture);
+  };
+  const complete = () =>
+    gl.checkFramebufferStatus(gl.FRAMEBUFFER) === gl.FRAMEBUFFER_COMPLETE;
+
+  // Canvas-sized targets, kept while the canvas size stays the same, plus
+  // pairs of downsampled ones by factor
+  let pool: {
+    W: number;
+    H: number;
+    acc: Target;
+    out: Target;
+    tmp: Target;
+    scratch: Target;
+    result: Target;
+    small: Map<number, [Target, Target]>;
+  } | null = null;
+  let coverageFormat = halfFloat ? gl.R16F : gl.RGBA8;
+
+  const targets = (W: number, H: number) => {
+    if (pool && pool.W === W && pool.H === H) return pool;
+    if (pool) {
+      const { acc, out, tmp, scratch, result, small } = pool;
+      for (const target of [acc, out, tmp, scratch, result]) {
+        deleteTarget(target);
+      }
+      for (const pair of small.values()) pair.forEach(deleteTarget);
+    }
+    let acc = createTarget(W, H, coverageFormat);
+    if (!complete() && coverageFormat !== gl.RGBA8) {
+      deleteTarget(acc);
+      coverageFormat = gl.RGBA8;
+      acc = createTarget(W, H, coverageFormat);
+    }
+    if (!complete()) throw new Error("WebGL render target unsupported");
+    pool = {
+      W,
+      H,
+      acc,
+      out: createTarget(W, H, coverageFormat),
+      tmp: createTarget(W, H, coverageFormat),
+      scratch: createTarget(W, H, coverageFormat),
+      result: createTarget(W, H, gl.RGBA8),
+      small: new Map(),
+    };
+    return pool;
+  };
+
+  const smallTargets = (f: number) => {
+    const { W, H, small } = pool!;
+    let pair = small.get(f);
+    if (!pair) {
+      // One texel of border around the canvas (see DOWNSAMPLE)
+      const w = Math.ceil(W / f) + 2;
+      const h = Math.ceil(H / f) + 2;
+      pair = [
+        createTarget(w, h, coverageFormat),
+        createTarget(w, h, coverageFormat),
+      ];
+      small.set(f, pair);
+    }
+    return pair;
+  };
+
+  const uploadImage = (img: RgbaImage) => {
+    const texture = gl.createTexture()!;
+    gl.bindTexture(gl.TEXTURE_2D, texture);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.LINEAR);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.LINEAR);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+    gl.texImage2D(
+      gl.TEXTURE_2D,
+      0,
+      gl.RGBA8,
+      img.width,
+      img.height,
+      0,
+      gl.RGBA,
+      gl.UNSIGNED_BYTE,
+      new Uint8Array(img.data.buffer, img.data.byteOffset, img.data.length)
+    );
+    return texture;
+  };
+
+  // Float samples as is (R32F can't be filtered, DRAW and RELIEF read texels)
+  const uploadCoverage = (map: AlphaMap | SurfaceHeight) => {
+    const texture = gl.createTexture()!;
+    gl.bindTexture(gl.TEXTURE_2D, texture);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.NEAREST);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.NEAREST);
+    gl.texImage2D(
+      gl.TEXTURE_2D,
+      0,
+      gl.R32F,
+      map.width,
+      map.height,
+      0,
+      gl.RED,
+      gl.FLOAT,
+      map.data
+    );
+    return texture;
+  };
+
+  // Blending modes on the red (coverage) channel
+  const blend = (mode: "replace" | "over" | "multiply" | "add") => {
+    if (mode === "replace") {
+      gl.disable(gl.BLEND);
+      return;
+    }
+    gl.enable(gl.BLEND);
+    if (mode === "over") gl.blendFunc(gl.ONE, gl.ONE_MINUS_SRC_COLOR);
+    else if (mode === "multiply") gl.blendFunc(gl.ZERO, gl.SRC_COLOR);
+    else gl.blendFunc(gl.ONE, gl.ONE);
+  };
+
+  const clear = (t: Target) => {
+    gl.bindFramebuffer(gl.FRAMEBUFFER, t.framebuffer);
+    gl.disable(gl.SCISSOR_TEST);
+    gl.clearColor(0, 0, 0, 0);
+    gl.clear(gl.COLOR_BUFFER_BIT);
+  };
+
+  const draw = (target: Target, region: Bounds, source?: WebGLTexture) => {
+    gl.bindFramebuffer(gl.FRAMEBUFFER, target.framebuffer);
+    gl.viewport(0, 0, target.width, target.height);
+    gl.enable(gl.SCISSOR_TEST);
+    gl.scissor(
+      region.x0,
+      region.y0,
+      region.x1 - region.x0,
+      region.y1 - region.y0
+    );
+    gl.activeTexture(gl.TEXTURE0);
+    gl.bindTexture(gl.TEXTURE_2D, source ?? null);
+    gl.drawArrays(gl.TRIANGLES, 0, 3);
+  };
+
+  // Separable gaussian of src into dst over region; the second pass is
+  // blended into dst with `mode` at opacity.
+  const gaussian = (
+    src: WebGLTexture,
+    tmp: Target,
+    dst: Target,
+    region: Bounds,
+    sigma: number,
+    mode: "replace" | "over",
+    opacity: number
+  ) => {
+    const p = programs.blur;
+    p.use();
+    gl.uniform1f(p.at("uSigma"), sigma);
+    gl.uniform1i(p.at("uTaps"), Math.ceil(3 * sigma));
+
+    clear(tmp);
+    blend("replace");
+    gl.uniform2i(p.at("uDirection"), 1, 0);
+    gl.uniform1f(p.at("uOpacity"), 1);
+    draw(tmp, region, src);
+
+    blend(mode);
+    gl.uniform2i(p.at("uDirection"), 0, 1);
+    gl.uniform1f(p.at("uOpacity"), opacity);
+    draw(dst, region, tmp.texture);
+  };
+
+  // Blur of a canvas-sized src (zero outside region) into dst, like
+  // blurAlpha; returns the region written. Wide blurs run on a copy
+  // box-downsampled by f <= sigma / 2, less the spread the box and the
+  // bilinear upsampling add back (about f² / 4 in variance).
+  const blur = (
+    src: WebGLTexture,
+    region: Bounds,
+    sigma: number,
+    dst: Target,
+    mode: "replace" | "over",
+    opacity: number
+  ): Bounds => {
+    const { W, H, tmp } = pool!;
+    const reach = grow(region, Math.ceil(sigma * 3), W, H);
+    let f = 1;
+    while (f < 32 && f * 4 <= sigma) f *= 2;
+    if (f === 1) {
+      gaussian(src, tmp, dst, reach, sigma, mode, opacity);
+      return reach;
+    }
+
+    const [small, smallTmp] = smallTargets(f);
+    const smallSigma = Math.sqrt(sigma * sigma - (f * f) / 4) / f;
+    const covered = {
+      x0: Math.floor(region.x0 / f) + 1,
+      y0: Math.floor(region.y0 / f) + 1,
+      x1: Math.ceil(region.x1 / f) + 1,
+      y1: Math.ceil(region.y1 / f) + 1,
+    };
+
+    clear(small);
+    programs.downsample.use();
+    gl.uniform1i(programs.downsample.at("uFactor"), f);
+    blend("replace");
+    draw(small, covered, src);
+
+    const smallReach = grow(
+      covered,
+      Math.ceil(smallSigma * 3) + 1,
+      small.width,
+      small.height
+    );
+    gaussian(
+      small.texture,
+      smallTmp,
+      small,
+      smallReach,
+      smallSigma,
+      "replace",
+      1
+    );
+
+    const p = programs.upsample;
+    p.use();
+    gl.uniform1f(p.at("uFactor"), f);
+    gl.uniform1f(p.at("uOpacity"), opacity);
+    blend(mode);
+    draw(dst, reach, small.texture);
+    return reach;
+  };
+
+  const setCaster = (p: Program, c: CasterHeight) => {
+    gl.uniform1i(p.at("uHasCaster"), c.unshear ? 1 : 0);
+    if (c.unshear) gl.uniformMatrix3fv(p.at("uUnshear"), true, c.unshear);
+    gl.uniform1f(p.at("uCasterB0"), c.b0);
+    gl.uniform1f(p.at("uCasterSlope"), c.slope);
+    gl.uniform1f(p.at("uCasterMax"), Math.min(c.max, 1e30));
+    gl.uniform1f(p.at("uCasterHorizon"), c.horizon);
+  };
+
+  const setSigma = (p: Program, s: PenumbraSigma) => {
+    setCaster(p, s.caster);
+    gl.uniform1f(p.at("uSigmaBase"), s.base);
+    gl.uniform1f(p.at("uSigmaGain"), s.gain);
+    gl.uniform1f(p.at("uLamp"), s.lamp ?? 0);
+  };
+
+  const setFade = (p: Program, f: ShadowFade) => {
+    if (f.stops.length > 4) throw new Error("fade has more than 4 stops");
+    gl.uniform2fv(p.at("uStops"), f.stops.flat());
+    gl.uniform1i(p.at("uStopCount"), f.stops.length);
+    gl.uniform1f(p.at("uGain"), f.gain);
+    switch (f.kind) {
+      case "along":
+        gl.uniform1i(p.at("uKind"), 0);
+        gl.uniform2fv(p.at("uOrigin"), f.origin);
+        gl.uniform2fv(p.at("uDirection"), f.dir);
+        gl.uniform1f(p.at("uLength"), f.length);
+        break;
+      case "height":
+        gl.uniform1i(p.at("uKind"), 1);
+        setCaster(p, f.caster);
+        gl.uniform1f(p.at("uHeight"), f.height);
+        break;
+      case "local": {
+        const [a, b, c, d, e, g] = f.toCanvas;
+        gl.uniform1i(p.at("uKind"), 2);
+        gl.uniformMatrix3fv(p.at("uToSource"), true, f.toSource);
+        gl.uniformMatrix3fv(p.at("uToCanvas"), true, [
+          a,
+          c,
+          e,
+          b,
+          d,
+          g,
+          0,
+          0,
+          1,
+        ]);
+        gl.uniform2f(p.at("uSourceSize"), f.sourceWidth, f.sourceHeight);
+        gl.uniform1f(p.at("uLineB0"), f.b0);
+        gl.uniform1f(p.at("uLineSlope"), f.slope);
+        gl.uniform1f(p.at("uHeight"), f.height);
+        break;
+      }
+    }
+  };
+
+  function run(plan: ShadowPlan): RgbaImage | null {
+    const { width: W, height: H } = plan;
+    const out = createImage(W, H);
+    if (W === 0 || H === 0) return out;
+    if (W > maxSize || H > maxSize) return null;
+    if (gl.isContextLost()) throw new Error("WebGL context lost");
+
+    const t = targets(W, H);
+    let acc = t.acc;
+    let spare = t.out;
+    clear(acc);
+    // Everything outside stays 0
+    let bounds: Bounds | null = null;
+
+    const textures = new Map<
+      RgbaImage | AlphaMap | SurfaceHeight,
+      WebGLTexture
+    >();
+    const textureOf = (img: RgbaImage) => {
+      let tex = textures.get(img);
+      if (!tex) {
+        tex = uploadImage(img);
+        textures.set(img, tex);
+      }
+      return tex;
+    };
+
+    // Draws source over region with p (set up but for uOpacity), blurred by
+    // blurSigma, source-over into acc at opacity
+    const stamp = (
+      p: Program,
+      region: Bounds,
+      source: WebGLTexture,
+      blurSigma: number,
+      opacity: number
+    ) => {
+      if (blurSigma > 0.25) {
+        clear(t.scratch);
+        blend("replace");
+        gl.uniform1f(p.at("uOpacity"), 1);
+        draw(t.scratch, region, source);
+        const blurred = blur(
+          t.scratch.texture,
+          region,
+          blurSigma,
+          acc,
+          "over",
+          opacity
+        );
+        bounds = union(bounds, blurred);
+        return;
+      }
+
+      blend("over");
+      gl.uniform1f(p.at("uOpacity"), opacity);
+      draw(acc, region, source);
+      bounds = union(bounds, region);
+    };
+
+    const cast = (step: Extract<ShadowStep, { op: "cast" }>) => {
+      const { image, matrix } = step;
+      if (image.width === 0 || image.height === 0) return;
+      const toSource = invertMat3(matrix);
+      const region =
+        toSource && castBounds(matrix, image.width, image.height, W, H);
+      if (!toSource || !region) return;
+
+      const p = programs.cast;
+      p.use();
+      gl.uniformMatrix3fv(p.at("uToSource"), true, toSource);
+      gl.uniform3f(p.at("uForwardW"), matrix[6], matrix[7], matrix[8]);
+      gl.uniform2f(p.at("uSourceSize"), image.width, image.height);
+      stamp(p, region, textureOf(image), step.blur, step.opacity);
+    };
+
+    const drawCoverage = (step: Extract<ShadowStep, { op: "draw" }>) => {
+      const { coverage: map } = step;
+      const region = {
+        x0: Math.max(0, map.x),
+        y0: Math.max(0, map.y),
+        x1: Math.min(W, map.x + map.width),
+        y1: Math.min(H, map.y + map.height),
+      };
+      if (region.x1 <= region.x0 || region.y1 <= region.y0) return;
+
+      let source = textures.get(map);
+      if (!source) {
+        source = uploadCoverage(map);
+        textures.set(map, source);
+      }
+      const p = programs.draw;
+      p.use();
+      gl.uniform2i(p.at("uOrigin"), map.x, map.y);
+      stamp(p, region, source, step.blur, step.opacity);
+    };
+
+    const soften = (step: Extract<ShadowStep, { op: "soften" }>) => {
+      if (!bounds) return;
+      const levels = sigmaLevels(step.maxSigma);
+      const top = levels.length - 1;
+      if (top >= 16) throw new Error("penumbra too wide");
+      const region = grow(bounds, Math.ceil(levels[top] * 3), W, H);
+
+      clear(spare);
+      for (let l = 0; l <= top; l++) {
+        let level = acc.texture;
+        if (l > 0) {
+          clear(t.scratch);
+          blur(acc.texture, bounds, levels[l], t.scratch, "replace", 1);
+          level = t.scratch.texture;
+        }
+        const p = programs.soften;
+        p.use();
+        setSigma(p, step.sigma);
+        gl.uniform1fv(p.at("uLevels"), levels);
+        gl.uniform1i(p.at("uTop"), top);
+        gl.uniform1i(p.at("uLevel"), l);
+        blend("add");
+        draw(spare, region, level);
+      }
+
+      [acc, spare] = [spare, acc];
+      bounds = region;
+    };
+
+    // Reads acc anywhere, so the whole canvas gets written
+    const relief = (step: Extract<ShadowStep, { op: "relief" }>) => {
+      if (!bounds) return;
+      const r = step.relief;
+      const region = { x0: 0, y0: 0, x1: W, y1: H };
+      let surface = textures.get(r.surface);
+      if (!surface) {
+        surface = uploadCoverage(r.surface);
+        textures.set(r.surface, surface);
+      }
+
+      const p = programs.relief;
+      p.use();
+      gl.uniform1i(p.at("uSource"), 0);
+      gl.uniform1i(p.at("uSurface"), 1);
+      gl.uniform1f(p.at("uBase"), r.base);
+      if (r.kind === "directional") {
+        gl.uniform1i(p.at("uKind"), 0);
+        gl.uniform2fv(p.at("uShift"), r.shift);
+      } else {
+        gl.uniform1i(p.at("uKind"), 1);
+        gl.uniform3f(p.at("uLamp"), r.lamp.x, r.lamp.y, r.lamp.height);
+      }
+      gl.activeTexture(gl.TEXTURE1);
+      gl.bindTexture(gl.TEXTURE_2D, surface);
+      clear(spare);
+      blend("replace");
+      draw(spare, region, acc.texture);
+      gl.activeTexture(gl.TEXTURE1);
+      gl.bindTexture(gl.TEXTURE_2D, null);
+
+      [acc, spare] = [spare, acc];
+      bounds = region;
+    };
+
+    try {
+      for (const step of plan.steps) {
+        switch (step.op) {
+          case "cast":
+            cast(step);
+            break;
+          case "draw":
+            drawCoverage(step);
+            break;
+          case "fade": {
+            if (!bounds) break;
+            const p = programs.fade;
+            p.use();
+            setFade(p, step.fade);
+            blend("multiply");
+            draw(acc, bounds);
+            break;
+          }
+          case "soften":
+            soften(step);
+            break;
+          case "relief":
+            relief(step);
+            break;
+        }
+      }
+
+      clear(t.result);
+      if (bounds) {
+        programs.output.use();
+        blend("replace");
+        draw(t.result, bounds, acc.texture);
+      }
+      gl.bindFramebuffer(gl.FRAMEBUFFER, t.result.framebuffer);
+      gl.readPixels(
+        0,
+        0,
+        W,
+        H,
+        gl.RGBA,
+        gl.UNSIGNED_BYTE,
+        new Uint8Array(out.data.buffer)
+      );
+    } finally {
+      for (const tex of textures.values()) gl.deleteTexture(tex);
+    }
+    if (gl.isContextLost()) throw new Error("WebGL context lost");
+    return out;
+  }
+
+  function dispose() {
+    gl.getExtension("WEBGL_lose_context")?.loseContext();
+    pool = null;
+  }
+
+  return { run, dispose };
+}
@@ -0,0 +1,28 @@
+import type { GroundPlane, Point } from "./shadow";
+
+export type GroundQuad = GroundPlane["quad"];
+
+// How the ground plane is marked: off (screen-space shadows), a rectangle's
+// four corners, or two pairs of parallel lines (see quadFromVanishingLines).
+export type GroundMode = "off" | "quad" | "lines";
+
+// A floor-ish trapezoid in the lower part of the background to start from.
+export function defaultGroundQuad(width: number, height: number): GroundQuad {
+  return [
+    [width * 0.3, height * 0.7],
+    [width * 0.7, height * 0.7],
+    [width * 0.85, height * 0.95],
+    [width * 0.15, height * 0.95],
+  ];
+}
+
+// The quad's edges as two pairs of opposite sides: far / near, then left /
+// right; the order quadFromVanishingLines expects.
+export function quadEdges([p0, p1, p2, p3]: GroundQuad): [Point, Point][] {
+  return [
+    [p0, p1],
+    [p3, p2],
+    [p0, p3],
+    [p1, p2],
+  ];
+}
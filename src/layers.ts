@@ -0,0 +1,176 @@
+import type { ProjectScene } from "./project";
+import type { ScenePasses } from "./scene";
+import {
+  cloneImage,
+  compose,
+  createImage,
+  drawImage,
+  placementFrame,
+  placementFrameMatrix,
+  scale,
+  tintShadow,
+  type RgbaImage,
+} from "./shadow";
+
+// Layered documents for finishing a scene in an image editor (written by
+// encodePsd / encodeOra in ./codecs).
+
+export type ImageLayer = {
+  name: string;
+  // Placed with its top-left corner at (x, y) on the document
+  image: RgbaImage;
+  x: number;
+  y: number;
+  opacity: number; // 0..1
+  blend: "normal" | "multiply";
+  // Layer mask over the same rectangle: its alpha shows the layer
+  mask?: RgbaImage;
+};
+
+export type LayeredImage = {
+  width: number;
+  height: number;
+  // Bottom to top
+  layers: ImageLayer[];
+  // The flattened composite
+  merged: RgbaImage;
+};
+
+// -----------------------------
+// A rendered scene (renderScene, or the app's pipeline) as separate layers
+// over its background: cast and contact shadow (blend mode kept, their
+// strength as layer opacity), reflection, foreground at its placement with
+// the mask as layer mask, and its shading. Empty passes are left out.
+// -----------------------------
+export function sceneLayers(
+  bg: RgbaImage,
+  scene: ProjectScene,
+  passes: ScenePasses
+): LayeredImage {
+  const { placement, cutout } = passes;
+  const blend = scene.shadowStyle.blend;
+  const frame = placementFrame(placement);
+
+  const layers: ImageLayer[] = [
+    {
+      name: "Background",
+      image: bg,
+      x: 0,
+      y: 0,
+      opacity: 1,
+      blend: "normal",
+    },
+  ];
+  const add = (
+    name: string,
+    image: RgbaImage | null,
+    x: number,
+    y: number,
+    blend: ImageLayer["blend"] = "normal",
+    opacity: number = 1
+  ) => {
+    const cropped = image && cropLayer(image, x, y);
+    if (!cropped) return;
+    layers.push({ name, ...cropped, opacity, blend });
+  };
+
+  const cast = tintShadow(passes.castShadow, passes.shadowColor);
+  const castOpacity = peakAlpha(cast);
+  add("Shadow", liftAlpha(cast, castOpacity), 0, 0, blend, castOpacity);
+
+  const contactOpacity = scene.contactShadow.opacity;
+  add(
+    "Contact shadow",
+    liftAlpha(
+      tintShadow(passes.contactShadow, passes.shadowColor),
+      contactOpacity
+    ),
+    0,
+    0,
+    blend,
+    contactOpacity
+  );
+
+  add("Reflection", passes.reflection, 0, 0);
+
+  // The cutout's colors, opaque wherever it has any: the mask alone decides
+  // what shows
+  const placed = createImage(frame.w, frame.h);
+  drawImage(
+    placed,
+    cutout,
+    compose(
+      placementFrameMatrix(placement),
+      scale(placement.w / cutout.width, placement.h / cutout.height)
+    )
+  );
+  for (let i = 3; i < placed.data.length; i += 4) {
+    if (placed.data[i] > 0) placed.data[i] = 255;
+  }
+  layers.push({
+    name: "Foreground",
+    image: placed,
+    x: frame.x,
+    y: frame.y,
+    opacity: 1,
+    blend: "normal",
+    mask: passes.mask,
+  });
+
+  add("Shading", passes.selfShading, frame.x, frame.y);
+
+  return {
+    width: bg.width,
+    height: bg.height,
+    layers,
+    merged: passes.composite,
+  };
+}
+
+// Highest alpha in the image, 0..1
+function peakAlpha(img: RgbaImage) {
+  let peak = 0;
+  for (let i = 3; i < img.data.length; i += 4) {
+    peak = Math.max(peak, img.data[i]);
+  }
+  return peak / 255;
+}
+
+// Alpha divided by the opacity the layer gets back (clamped)
+function liftAlpha(img: RgbaImage, opacity: number): RgbaImage | null {
+  if (opacity <= 0) return null;
+  const out = cloneImage(img);
+  for (let i = 3; i < out.data.length; i += 4) {
+    out.data[i] = Math.round(out.data[i] / opacity);
+  }
+  return out;
+}
+
+// The non-transparent part of an image placed at (x, y); null when empty
+function cropLayer(img: RgbaImage, x: number, y: number) {
+  const { width: w, height: h, data } = img;
+  let minX = w;
+  let minY = h;
+  let maxX = -1;
+  let maxY = -1;
+  for (let py = 0; py < h; py++) {
+    for (let px = 0; px < w; px++) {
+      if (data[(py * w + px) * 4 + 3] === 0) continue;
+      minX = Math.min(minX, px);
+      maxX = Math.max(maxX, px);
+      minY = Math.min(minY, py);
+      maxY = Math.max(maxY, py);
+    }
+  }
+  if (maxX < 0) return null;
+
+  const image = createImage(maxX - minX + 1, maxY - minY + 1);
+  for (let py = 0; py < image.height; py++) {
+    const src = ((minY + py) * w + minX) * 4;
+    image.data.set(
+      data.subarray(src, src + image.width * 4),
+      py * image.width * 4
+    );
+  }
+  return { image, x: x + minX, y: y + minY };
+}
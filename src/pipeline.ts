@@ -0,0 +1,275 @@
+import {
+  createGlShadowRenderer,
+  type GlShadowRenderer,
+} from "./gl/shadowRenderer";
+import type { ProjectScene } from "./project";
+import {
+  sceneCastShadow,
+  sceneComposite,
+  sceneContact,
+  sceneContactShadow,
+  sceneCutout,
+  sceneDepth,
+  sceneMask,
+  sceneReflection,
+  sceneRefinedCutout,
+  sceneSelfShading,
+  sceneShadow,
+  sceneShadowDepth,
+  sceneSurface,
+  type ScenePasses,
+} from "./scene";
+import {
+  renderDepthPreview,
+  renderSurfacePreview,
+  runShadowPlan,
+  type ContactLine,
+  type DepthMap,
+  type Placement,
+  type PlanRunner,
+  type RgbaImage,
+  type ShadowPlan,
+} from "./shadow";
+
+export type PipelineImages = {
+  fg: RgbaImage | null;
+  bg: RgbaImage | null;
+  depth: DepthMap | null;
+  // Depth / height map of the background, for shadows on its relief
+  surface: DepthMap | null;
+};
+export type PipelineSlot = keyof PipelineImages;
+
+// What draws the cast shadow. "webgl" falls back to the CPU where WebGL2 is
+// missing or fails; both give the same shadow.
+export type ShadowRenderer = "cpu" | "webgl";
+
+export type PipelineRequest = {
+  scene: ProjectScene & { placement: Placement };
+  showDepthPreview: boolean;
+  showSurfacePreview: boolean;
+  renderer: ShadowRenderer;
+};
+
+// renderScene's passes, plus what the app shows besides them
+export type PipelineResult = ScenePasses & {
+  contact: ContactLine;
+  // The one that drew castShadow
+  renderer: ShadowRenderer;
+  depthSize: { width: number; height: number } | null;
+  // Only with showDepthPreview and a depth buffer (loaded or estimated)
+  depthPreview: RgbaImage | null;
+  depthMaskedPreview: RgbaImage | null;
+  // Only with showSurfacePreview and a relief (loaded or estimated)
+  surfacePreview: RgbaImage | null;
+};
+
+// Called between stages with the fraction done; may throw to abandon the run
+export type Checkpoint = (progress: number) => Promise<void>;
+
+// -----------------------------
+// The app's render chain: the stages of renderScene (scene.ts) with their
+// memoization kept across runs. Each stage recomputes only when its inputs
+// changed, like the useMemo chain it replaces (a gamma drag rebuilds depth
+// onward, a light drag only the shadows). Inputs arrive as plain data (worker messages), so stages are
+// keyed by image versions + JSON of their settings.
+// -----------------------------
+export function createPipeline() {
+  const images: PipelineImages = {
+    fg: null,
+    bg: null,
+    depth: null,
+    surface: null,
+  };
+  const versions: Record<PipelineSlot, number> = {
+    fg: 0,
+    bg: 0,
+    depth: 0,
+    surface: 0,
+  };
+  const cache = new Map<string, { key: string; value: unknown }>();
+  // Created on first use; null once unavailable (or after it failed)
+  let gl: GlShadowRenderer | null | undefined;
+
+  function stage<T>(name: string, deps: unknown[], compute: () => T): T {
+    const key = JSON.stringify(deps);
+    const hit = cache.get(name);
+    if (hit && hit.key === key) return hit.value as T;
+    const value = compute();
+    cache.set(name, { key, value });
+    return value;
+  }
+
+  // Null when the plan has to go to the CPU instead
+  function runOnGl(plan: ShadowPlan): RgbaImage | null {
+    if (gl === undefined) gl = createGlShadowRenderer();
+    if (!gl) return null;
+    try {
+      return gl.run(plan);
+    } catch {
+      gl.dispose();
+      gl = null;
+      return null;
+    }
+  }
+
+  function setImage<S extends PipelineSlot>(slot: S, image: PipelineImages[S]) {
+    images[slot] = image;
+    versions[slot]++;
+  }
+
+  async function run(
+    request: PipelineRequest,
+    checkpoint: Checkpoint
+  ): Promise<PipelineResult | null> {
+    const { fg: photo, bg, depth: depthImg, surface: surfaceImg } = images;
+    if (!photo || !bg) return null;
+    const { scene } = request;
+    const { placement } = scene;
+    const steps = 11;
+
+    await checkpoint(0);
+    const cutoutDeps = [versions.fg, scene.cutout];
+    const fg = stage("cutout", cutoutDeps, () => sceneCutout(photo, scene));
+    const refineDeps = [...cutoutDeps, scene.mask];
+    const refined = stage("refine", refineDeps, () =>
+      sceneRefinedCutout(fg, scene)
+    );
+    const maskDeps = [...refineDeps, placement];
+    const mask = stage("mask", maskDeps, () => sceneMask(refined, placement));
+    const contactDeps = [...maskDeps, scene.contactPoints];
+    const contact = stage("contact", contactDeps, () =>
+      sceneContact(mask, placement, scene)
+    );
+
+    await checkpoint(1 / steps);
+    const depthDeps = [versions.depth, placement, scene.depth];
+    // An estimate follows the mask (later stages are keyed by it anyway)
+    const depthKey = depthImg ? depthDeps : [...maskDeps, ...depthDeps];
+    const depth = stage("depth", depthKey, () =>
+      sceneDepth(depthImg, mask, placement, scene)
+    );
+
+    await checkpoint(2 / steps);
+    const layersDeps = [...maskDeps, ...depthDeps];
+    const layers = stage("layers", layersDeps, () =>
+      sceneShadowDepth(mask, depth, scene)
+    );
+
+    await checkpoint(3 / steps);
+    const previews = stage(
+      "depthPreview",
+      [...layersDeps, request.showDepthPreview],
+      () =>
+        depth && request.showDepthPreview
+          ? [renderDepthPreview(depth), renderDepthPreview(depth, mask)]
+          : [null, null]
+    );
+
+    await checkpoint(4 / steps);
+    const surfaceDeps = [versions.bg, versions.surface, scene.surface];
+    const surface = stage("surface", surfaceDeps, () =>
+      sceneSurface(surfaceImg, bg, scene)
+    );
+    const surfacePreview = stage(
+      "surfacePreview",
+      [...surfaceDeps, request.showSurfacePreview],
+      () =>
+        surface && request.showSurfacePreview
+          ? renderSurfacePreview(surface)
+          : null
+    );
+
+    await checkpoint(5 / steps);
+    const target = { width: bg.width, height: bg.height, placement, contact };
+    const castDeps = [
+      ...surfaceDeps,
+      ...contactDeps,
+      ...layersDeps,
+      scene.lights,
+      scene.ambient,
+      scene.depthStrength,
+      scene.ground,
+      request.renderer,
+    ];
+    const cast = stage("cast", castDeps, () => {
+      let renderer = request.renderer;
+      const run: PlanRunner = (plan) => {
+        const img = renderer === "webgl" ? runOnGl(plan) : null;
+        if (img) return img;
+        renderer = "cpu";
+        return runShadowPlan(plan);
+      };
+      const image = sceneCastShadow(mask, layers, surface, target, scene, run);
+      return { image, renderer };
+    });
+    const castShadow = cast.image;
+
+    await checkpoint(6 / steps);
+    const touchDeps = [versions.bg, ...contactDeps, scene.contactShadow];
+    const contactShadow = stage("touch", touchDeps, () =>
+      sceneContactShadow(mask, target, scene)
+    );
+
+    await checkpoint(7 / steps);
+    const reflectionDeps = [versions.bg, ...contactDeps, scene.reflection];
+    const reflection = stage("reflection", reflectionDeps, () =>
+      sceneReflection(fg, mask, target, scene)
+    );
+
+    await checkpoint(8 / steps);
+    const shadingDeps = [
+      ...contactDeps,
+      ...depthDeps,
+      scene.lights,
+      scene.ambient,
+      scene.selfShading,
+    ];
+    const selfShading = stage("shading", shadingDeps, () =>
+      sceneSelfShading(mask, depth, target, scene)
+    );
+
+    await checkpoint(9 / steps);
+    const shadowDeps = [...castDeps, ...touchDeps, scene.shadowStyle];
+    const { shadow, shadowColor } = stage("shadow", shadowDeps, () =>
+      sceneShadow(bg, castShadow, contactShadow, scene)
+    );
+
+    await checkpoint(10 / steps);
+    const out = stage(
+      "composite",
+      [...shadowDeps, ...shadingDeps, ...reflectionDeps],
+      () =>
+        sceneComposite(
+          bg,
+          shadow,
+          fg,
+          selfShading,
+          reflection,
+          placement,
+          scene
+        )
+    );
+
+    return {
+      placement,
+      cutout: fg,
+      mask,
+      contact,
+      castShadow,
+      renderer: cast.renderer,
+      contactShadow,
+      reflection,
+      selfShading,
+      shadow,
+      shadowColor,
+      composite: out,
+      depthSize: depth ? { width: depth.width, height: depth.height } : null,
+      depthPreview: previews[0],
+      depthMaskedPreview: previews[1],
+      surfacePreview,
+    };
+  }
+
+  return { setImage, run };
+}
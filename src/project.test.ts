@@ -0,0 +1,152 @@
+import { describe, expect, it } from "vitest";
+import {
+  parseProject,
+  PROJECT_FORMAT,
+  PROJECT_VERSION,
+  stringifyProject,
+  type Project,
+} from "./project";
+import { DEFAULT_SCENE } from "./scene";
+
+const PROJECT: Project = {
+  format: PROJECT_FORMAT,
+  version: PROJECT_VERSION,
+  images: {
+    foreground: { embedded: "data:image/png;base64,AAAA" },
+    background: { href: "backgrounds/street.jpg" },
+    depth: null,
+    surface: null,
+  },
+  scene: {
+    ...DEFAULT_SCENE,
+    placement: { x: 10, y: 20, w: 30, h: 40, rotation: 5 },
+    contactPoints: [
+      [0.2, 1],
+      [0.8, 1],
+    ],
+  },
+};
+
+// What a version-1 file held: no shading, cutout, mask refinement, relief or
+// reflection, and depth as slices with a single scale
+function versionOne() {
+  const { reflection, surface, cutout, mask, selfShading, depth, ...scene } =
+    DEFAULT_SCENE;
+  void [reflection, surface, cutout, mask, selfShading];
+  return {
+    format: PROJECT_FORMAT,
+    version: 1,
+    images: { foreground: null, background: null, depth: null },
+    scene: {
+      ...scene,
+      depth: {
+        invert: depth.invert,
+        gamma: depth.gamma,
+        layerCount: depth.layerCount,
+        offsetX: 0.1,
+        offsetY: -0.2,
+        scale: 1.5,
+      },
+    },
+  };
+}
+
+function withScene(patch: (scene: Record<string, unknown>) => void) {
+  const doc = JSON.parse(stringifyProject(PROJECT));
+  patch(doc.scene);
+  return JSON.stringify(doc);
+}
+
+describe("parseProject", () => {
+  it("reads back what stringifyProject wrote", () => {
+    expect(parseProject(stringifyProject(PROJECT))).toEqual(PROJECT);
+  });
+
+  it("migrates a version 1 file to the current version", () => {
+    const project = parseProject(JSON.stringify(versionOne()));
+
+    expect(project.version).toBe(PROJECT_VERSION);
+    expect(project.images.surface).toBeNull();
+    expect(project.scene.depth).toEqual({
+      ...DEFAULT_SCENE.depth,
+      projection: "sliced",
+      estimate: false,
+      encoding: "gray",
+      autoRange: false,
+      clipMin: 0,
+      clipMax: 1,
+      scaleX: 1.5,
+      scaleY: 1.5,
+      rotation: 0,
+      offsetX: 0.1,
+      offsetY: -0.2,
+    });
+    expect(project.scene.selfShading).toEqual({
+      enabled: false,
+      strength: 0.6,
+    });
+    expect(project.scene.mask).toEqual(DEFAULT_SCENE.mask);
+    expect(project.scene.cutout).toEqual(DEFAULT_SCENE.cutout);
+    expect(project.scene.surface).toEqual(DEFAULT_SCENE.surface);
+    expect(project.scene.reflection).toEqual(DEFAULT_SCENE.reflection);
+  });
+
+  it("adds only what each later version lacked", () => {
+    const current = JSON.parse(stringifyProject(PROJECT));
+    const { reflection, ...v9Scene } = current.scene;
+    const { surface, ...v8Scene } = v9Scene;
+    void [reflection, surface];
+
+    const v9 = parseProject(
+      JSON.stringify({ ...current, version: 9, scene: v9Scene })
+    );
+    const v8 = parseProject(
+      JSON.stringify({ ...current, version: 8, scene: v8Scene })
+    );
+
+    expect(v9.scene).toEqual(PROJECT.scene);
+    expect(v8.scene).toEqual(PROJECT.scene);
+  });
+
+  it("refuses files from a newer version", () => {
+    const text = JSON.stringify({ ...PROJECT, version: PROJECT_VERSION + 1 });
+
+    expect(() => parseProject(text)).toThrow(/newer than this app/);
+  });
+
+  it("refuses other JSON", () => {
+    expect(() => parseProject("{")).toThrow(/not JSON/);
+    expect(() => parseProject('{"format":"other"}')).toThrow(
+      /format should be "shadowgen-project"/
+    );
+  });
+
+  it("names the field that is wrong", () => {
+    const text = withScene((scene) => {
+      (scene.lights as { angle: unknown }[])[0].angle = "abc";
+    });
+
+    expect(() => parseProject(text)).toThrow(
+      'Invalid project: scene.lights[0].angle should be a number (got "abc")'
+    );
+  });
+
+  it("limits depth layers to 32", () => {
+    const text = (layerCount: number) =>
+      withScene((scene) => {
+        (scene.depth as { layerCount: number }).layerCount = layerCount;
+      });
+
+    expect(parseProject(text(32)).scene.depth.layerCount).toBe(32);
+    expect(() => parseProject(text(33))).toThrow(/scene\.depth\.layerCount/);
+    expect(() => parseProject(text(0))).toThrow(/scene\.depth\.layerCount/);
+  });
+
+  it("refuses a reversed depth clip range", () => {
+    const text = withScene((scene) => {
+      Object.assign(scene.depth as object, { clipMin: 0.8, clipMax: 0.2 });
+    });
+
+    expect(() => parseProject(text)).toThrow(/scene\.depth\.clipMax/);
+  });
+});
@@ -0,0 +1,579 @@
+import type { GroundMode, GroundQuad } from "./groundPlane";
+import type { SceneLight } from "./sceneLights";
+import type {
+  BackgroundRemoval,
+  ContactShadowSettings,
+  DepthCalibration,
+  MaskRefinement,
+  MaskStroke,
+  Placement,
+  Point,
+  ReflectionSettings,
+  Rgb,
+  ShadowStyle,
+  SurfaceSettings,
+} from "./shadow";
+
+// Saved scenes. A project is plain JSON (no DOM), so the same file opens in
+// the app and in scripts:
+//   { format, version, images: { foreground, background, depth, surface },
+//     scene }
+// Images are embedded as data: URLs or referenced by path / URL.
+
+export const PROJECT_FORMAT = "shadowgen-project";
+export const PROJECT_VERSION = 10;
+
+export type ProjectImage = { embedded: string } | { href: string };
+
+export type ProjectImages = {
+  foreground: ProjectImage | null;
+  background: ProjectImage | null;
+  depth: ProjectImage | null;
+  // Depth / height map of the background
+  surface: ProjectImage | null;
+};
+
+// Decoding, range and alignment of the depth map, plus how depth drives
+// the shadow
+export type DepthSettings = DepthCalibration & {
+  // "sliced": layerCount depth bands (fast preview); "continuous": every
+  // pixel cast by its own depth
+  projection: "sliced" | "continuous";
+  layerCount: number;
+  // Guess depth from the mask when there is no depth map
+  estimate: boolean;
+};
+
+// Shading of the subject from its depth map (needs a depth map)
+export type SelfShadingSettings = {
+  enabled: boolean;
+  strength: number; // 0..1
+};
+
+export type GroundSettings = {
+  mode: GroundMode;
+  quad: GroundQuad | null;
+  lines: [Point, Point][];
+  aspect: number;
+};
+
+export type ProjectScene = {
+  lights: SceneLight[];
+  ambient: number;
+  placement: Placement | null;
+  // Backdrop removal for foregrounds without alpha
+  cutout: BackgroundRemoval;
+  // Clean-up of the cutout's alpha for the mask (shadows, depth, export)
+  mask: MaskRefinement;
+  // Manual contact points normalized to the foreground box; null = auto
+  contactPoints: Point[] | null;
+  depthStrength: number;
+  depth: DepthSettings;
+  selfShading: SelfShadingSettings;
+  contactShadow: ContactShadowSettings;
+  shadowStyle: ShadowStyle;
+  ground: GroundSettings;
+  // Relief of the background the cast shadow falls on
+  surface: SurfaceSettings;
+  // Mirror image in a glossy floor or water
+  reflection: ReflectionSettings;
+};
+
+export type Project = {
+  format: typeof PROJECT_FORMAT;
+  version: typeof PROJECT_VERSION;
+  images: ProjectImages;
+  scene: ProjectScene;
+};
+
+type Json = Record<string, unknown>;
+
+// migrations[n] upgrades a version-n document to version n + 1. Add one
+// whenever PROJECT_VERSION goes up so older files keep opening.
+const MIGRATIONS: Record<number, (doc: Json) => Json> = {
+  // Version 1 only had depth slices
+  1: (doc) => {
+    const scene = object(doc.scene, "scene");
+    const depth = object(scene.depth, "scene.depth");
+    return {
+      ...doc,
+      scene: { ...scene, depth: { ...depth, projection: "sliced" } },
+    };
+  },
+  // Version 2 pasted the subject unshaded
+  2: (doc) => {
+    const scene = object(doc.scene, "scene");
+    return {
+      ...doc,
+      scene: { ...scene, selfShading: { enabled: false, strength: 0.6 } },
+    };
+  },
+  // Version 3 had no depth without a depth map
+  3: (doc) => {
+    const scene = object(doc.scene, "scene");
+    const depth = object(scene.depth, "scene.depth");
+    return {
+      ...doc,
+      scene: { ...scene, depth: { ...depth, estimate: false } },
+    };
+  },
+  // Version 4 read depth as 8-bit gray at full scale
+  4: (doc) => {
+    const scene = object(doc.scene, "scene");
+    const depth = object(scene.depth, "scene.depth");
+    return {
+      ...doc,
+      scene: {
+        ...scene,
+        depth: {
+          ...depth,
+          encoding: "gray",
+          autoRange: false,
+          clipMin: 0,
+          clipMax: 1,
+        },
+      },
+    };
+  },
+  // Version 5 aligned depth by one scale
+  5: (doc) => {
+    const scene = object(doc.scene, "scene");
+    const { scale, ...depth } = object(scene.depth, "scene.depth");
+    return {
+      ...doc,
+      scene: {
+        ...scene,
+        depth: { ...depth, scaleX: scale, scaleY: scale, rotation: 0 },
+      },
+    };
+  },
+  // Version 6 used the cutout's alpha as the mask unchanged
+  6: (doc) => {
+    const scene = object(doc.scene, "scene");
+    return {
+      ...doc,
+      scene: {
+        ...scene,
+        mask: {
+          threshold: 0,
+          minIsland: 0,
+          fillHoles: 0,
+          grow: 0,
+          strokes: [],
+          feather: 0,
+        },
+      },
+    };
+  },
+  // Version 7 took the foreground's alpha as it came
+  7: (doc) => {
+    const scene = object(doc.scene, "scene");
+    return {
+      ...doc,
+      scene: {
+        ...scene,
+        cutout: {
+          mode: "off",
+          color: null,
+          tolerance: 0.12,
+          softness: 0.08,
+          box: null,
+        },
+      },
+    };
+  },
+  // Version 8 cast every shadow onto a flat background
+  8: (doc) => {
+    const scene = object(doc.scene, "scene");
+    return {
+      ...doc,
+      scene: {
+        ...scene,
+        surface: {
+          kind: "depth",
+          invert: false,
+          height: 0.25,
+          smooth: 2,
+          estimate: false,
+        },
+      },
+    };
+  },
+  // Version 9 had no reflection
+  9: (doc) => {
+    const scene = object(doc.scene, "scene");
+    return {
+      ...doc,
+      scene: {
+        ...scene,
+        reflection: {
+          enabled: false,
+          opacity: 0.35,
+          fade: 0.6,
+          blur: 0.03,
+          ripple: 0,
+          wavelength: 0.05,
+        },
+      },
+    };
+  },
+};
+
+export function stringifyProject(project: Project): string {
+  return JSON.stringify(project, null, 2);
+}
+
+// -----------------------------
+// Parse + validate a project file, migrating older versions forward.
+// Throws an Error naming the offending field, e.g.
+//   "Invalid project: scene.lights[0].angle should be a number (got "abc")"
+// -----------------------------
+export function parseProject(text: string): Project {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch (err) {
+    throw new Error(`Invalid project: not JSON (${(err as Error).message})`);
+  }
+
+  let doc = object(raw, "project");
+  if (doc.format !== PROJECT_FORMAT) {
+    throw new Error(
+      `Invalid project: format should be "${PROJECT_FORMAT}" (got ${describe(doc.format)})`
+    );
+  }
+
+  let version = int(doc.version, "version", 1);
+  if (version > PROJECT_VERSION) {
+    throw new Error(
+      `Unsupported project: version ${version} is newer than this app (${PROJECT_VERSION}); update the app to open it`
+    );
+  }
+  while (version < PROJECT_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) {
+      throw new Error(
+        `Unsupported project: no migration from version ${version}`
+      );
+    }
+    doc = migrate(doc);
+    version++;
+  }
+
+  return {
+    format: PROJECT_FORMAT,
+    version: PROJECT_VERSION,
+    images: readImages(object(doc.images, "images")),
+    scene: readScene(object(doc.scene, "scene")),
+  };
+}
+
+function readImages(v: Json): ProjectImages {
+  const image = (x: unknown, path: string): ProjectImage | null => {
+    if (x === null || x === undefined) return null;
+    const o = object(x, path);
+    if (typeof o.embedded === "string") return { embedded: o.embedded };
+    if (typeof o.href === "string") return { href: o.href };
+    throw new Error(
+      `Invalid project: ${path} should have an "embedded" data URL or an "href"`
+    );
+  };
+  return {
+    foreground: image(v.foreground, "images.foreground"),
+    background: image(v.background, "images.background"),
+    depth: image(v.depth, "images.depth"),
+    surface: image(v.surface, "images.surface"),
+  };
+}
+
+function readScene(v: Json): ProjectScene {
+  const lights = array(v.lights, "scene.lights").map((l, i) =>
+    readLight(object(l, `scene.lights[${i}]`), `scene.lights[${i}]`)
+  );
+  if (lights.length === 0) {
+    throw new Error("Invalid project: scene.lights should not be empty");
+  }
+
+  const cutout = object(v.cutout, "scene.cutout");
+  const mask = object(v.mask, "scene.mask");
+  const depth = object(v.depth, "scene.depth");
+  const shading = object(v.selfShading, "scene.selfShading");
+  const contact = object(v.contactShadow, "scene.contactShadow");
+  const style = object(v.shadowStyle, "scene.shadowStyle");
+  const ground = object(v.ground, "scene.ground");
+  const surface = object(v.surface, "scene.surface");
+  const reflection = object(v.reflection, "scene.reflection");
+
+  const clipMin = num(depth.clipMin, "scene.depth.clipMin", 0, 1);
+  const clipMax = num(depth.clipMax, "scene.depth.clipMax", 0, 1);
+  if (clipMin > clipMax) {
+    fail("scene.depth.clipMax", `at least clipMin (${clipMin})`, clipMax);
+  }
+
+  return {
+    lights,
+    ambient: num(v.ambient, "scene.ambient", 0),
+    placement: nullable(v.placement, (p) =>
+      readPlacement(p, "scene.placement")
+    ),
+    cutout: {
+      mode: oneOf(cutout.mode, "scene.cutout.mode", [
+        "off",
+        "color",
+        "flood",
+        "grabcut",
+      ]),
+      color: nullable(cutout.color, (c) => rgb(c, "scene.cutout.color")),
+      tolerance: num(cutout.tolerance, "scene.cutout.tolerance", 0, 1),
+      softness: num(cutout.softness, "scene.cutout.softness", 0, 1),
+      box: nullable(cutout.box, (b) => {
+        const o = object(b, "scene.cutout.box");
+        return {
+          x: num(o.x, "scene.cutout.box.x"),
+          y: num(o.y, "scene.cutout.box.y"),
+          w: num(o.w, "scene.cutout.box.w", 1),
+          h: num(o.h, "scene.cutout.box.h", 1),
+        };
+      }),
+    },
+    mask: {
+      threshold: num(mask.threshold, "scene.mask.threshold", 0, 1),
+      minIsland: num(mask.minIsland, "scene.mask.minIsland", 0),
+      fillHoles: num(mask.fillHoles, "scene.mask.fillHoles", 0),
+      grow: num(mask.grow, "scene.mask.grow"),
+      strokes: array(mask.strokes, "scene.mask.strokes").map((s, i) =>
+        readStroke(
+          object(s, `scene.mask.strokes[${i}]`),
+          `scene.mask.strokes[${i}]`
+        )
+      ),
+      feather: num(mask.feather, "scene.mask.feather", 0),
+    },
+    contactPoints: nullable(v.contactPoints, (p) =>
+      array(p, "scene.contactPoints").map((q, i) =>
+        point(q, `scene.contactPoints[${i}]`)
+      )
+    ),
+    depthStrength: num(v.depthStrength, "scene.depthStrength", 0),
+    depth: {
+      encoding: oneOf(depth.encoding, "scene.depth.encoding", [
+        "gray",
+        "turbo",
+        "inferno",
+      ]),
+      autoRange: bool(depth.autoRange, "scene.depth.autoRange"),
+      clipMin,
+      clipMax,
+      invert: bool(depth.invert, "scene.depth.invert"),
+      gamma: num(depth.gamma, "scene.depth.gamma", 0.01),
+      projection: oneOf(depth.projection, "scene.depth.projection", [
+        "sliced",
+        "continuous",
+      ]),
+      layerCount: int(depth.layerCount, "scene.depth.layerCount", 1, 32),
+      scaleX: num(depth.scaleX, "scene.depth.scaleX", 0.01),
+      scaleY: num(depth.scaleY, "scene.depth.scaleY", 0.01),
+      rotation: num(depth.rotation, "scene.depth.rotation"),
+      offsetX: num(depth.offsetX, "scene.depth.offsetX"),
+      offsetY: num(depth.offsetY, "scene.depth.offsetY"),
+      estimate: bool(depth.estimate, "scene.depth.estimate"),
+    },
+    selfShading: {
+      enabled: bool(shading.enabled, "scene.selfShading.enabled"),
+      strength: num(shading.strength, "scene.selfShading.strength", 0, 1),
+    },
+    contactShadow: {
+      opacity: num(contact.opacity, "scene.contactShadow.opacity", 0, 1),
+      spread: num(contact.spread, "scene.contactShadow.spread", 0),
+      falloff: num(contact.falloff, "scene.contactShadow.falloff", 0),
+    },
+    shadowStyle: {
+      color: oneOf(style.color, "scene.shadowStyle.color", ["fixed", "auto"]),
+      rgb: rgb(style.rgb, "scene.shadowStyle.rgb"),
+      blend: oneOf(style.blend, "scene.shadowStyle.blend", [
+        "normal",
+        "multiply",
+      ]),
+    },
+    ground: {
+      mode: oneOf(ground.mode, "scene.ground.mode", ["off", "quad", "lines"]),
+      quad: nullable(ground.quad, (q) => {
+        const pts = array(q, "scene.ground.quad");
+        if (pts.length !== 4) {
+          throw new Error("Invalid project: scene.ground.quad needs 4 points");
+        }
+        return pts.map((p, i) =>
+          point(p, `scene.ground.quad[${i}]`)
+        ) as GroundQuad;
+      }),
+      lines: array(ground.lines, "scene.ground.lines").map((l, i) => {
+        const ends = array(l, `scene.ground.lines[${i}]`);
+        if (ends.length !== 2) {
+          throw new Error(
+            `Invalid project: scene.ground.lines[${i}] needs 2 points`
+          );
+        }
+        return [
+          point(ends[0], `scene.ground.lines[${i}][0]`),
+          point(ends[1], `scene.ground.lines[${i}][1]`),
+        ];
+      }),
+      aspect: num(ground.aspect, "scene.ground.aspect", 0.01),
+    },
+    surface: {
+      kind: oneOf(surface.kind, "scene.surface.kind", ["height", "depth"]),
+      invert: bool(surface.invert, "scene.surface.invert"),
+      height: num(surface.height, "scene.surface.height", 0),
+      smooth: num(surface.smooth, "scene.surface.smooth", 0),
+      estimate: bool(surface.estimate, "scene.surface.estimate"),
+    },
+    reflection: {
+      enabled: bool(reflection.enabled, "scene.reflection.enabled"),
+      opacity: num(reflection.opacity, "scene.reflection.opacity", 0, 1),
+      fade: num(reflection.fade, "scene.reflection.fade", 0),
+      blur: num(reflection.blur, "scene.reflection.blur", 0),
+      ripple: num(reflection.ripple, "scene.reflection.ripple", 0),
+      wavelength: num(
+        reflection.wavelength,
+        "scene.reflection.wavelength",
+        0.001
+      ),
+    },
+  };
+}
+
+function readLight(v: Json, path: string): SceneLight {
+  const light: SceneLight = {
+    id: int(v.id, `${path}.id`),
+    solo: bool(v.solo, `${path}.solo`),
+    angle: num(v.angle, `${path}.angle`),
+    elev: num(v.elev, `${path}.elev`, 1, 89),
+  };
+  if (v.size !== undefined) light.size = num(v.size, `${path}.size`, 0);
+  if (v.intensity !== undefined) {
+    light.intensity = num(v.intensity, `${path}.intensity`, 0);
+  }
+  if (v.color !== undefined) light.color = rgb(v.color, `${path}.color`);
+  if (v.kind !== undefined) {
+    light.kind = oneOf(v.kind, `${path}.kind`, ["directional", "point"]);
+  }
+  if (v.position !== undefined) {
+    const p = object(v.position, `${path}.position`);
+    light.position = {
+      x: num(p.x, `${path}.position.x`),
+      y: num(p.y, `${path}.position.y`),
+      height: num(p.height, `${path}.position.height`, 0),
+    };
+  }
+  return light;
+}
+
+function readStroke(v: Json, path: string): MaskStroke {
+  return {
+    mode: oneOf(v.mode, `${path}.mode`, ["paint", "erase"]),
+    radius: num(v.radius, `${path}.radius`, 0),
+    points: array(v.points, `${path}.points`).map((p, i) =>
+      point(p, `${path}.points[${i}]`)
+    ),
+  };
+}
+
+function readPlacement(v: unknown, path: string): Placement {
+  const p = object(v, path);
+  return {
+    x: num(p.x, `${path}.x`),
+    y: num(p.y, `${path}.y`),
+    w: num(p.w, `${path}.w`, 1),
+    h: num(p.h, `${path}.h`, 1),
+    rotation: num(p.rotation, `${path}.rotation`),
+  };
+}
+
+// -----------------------------
+// Field readers: return the typed value or throw with the field's path
+// -----------------------------
+function describe(v: unknown) {
+  if (v === undefined) return "nothing";
+  const s = JSON.stringify(v);
+  return s.length > 40 ? `${s.slice(0, 37)}...` : s;
+}
+
+function fail(path: string, expected: string, got: unknown): never {
+  throw new Error(
+    `Invalid project: ${path} should be ${expected} (got ${describe(got)})`
+  );
+}
+
+function object(v: unknown, path: string): Json {
+  if (typeof v !== "object" || v === null || Array.isArray(v)) {
+    fail(path, "an object", v);
+  }
+  return v as Json;
+}
+
+function array(v: unknown, path: string): unknown[] {
+  if (!Array.isArray(v)) fail(path, "an array", v);
+  return v;
+}
+
+function nullable<T>(v: unknown, read: (v: unknown) => T): T | null {
+  return v === null || v === undefined ? null : read(v);
+}
+
+function num(
+  v: unknown,
+  path: string,
+  min = -Infinity,
+  max = Infinity
+): number {
+  if (typeof v !== "number" || !Number.isFinite(v)) fail(path, "a number", v);
+  if (v < min || v > max) {
+    const range =
+      max === Infinity ? `at least ${min}` : `between ${min} and ${max}`;
+    fail(path, `a number ${range}`, v);
+  }
+  return v;
+}
+
+function int(
+  v: unknown,
+  path: string,
+  min = -Infinity,
+  max = Infinity
+): number {
+  const n = num(v, path, min, max);
+  if (!Number.isInteger(n)) fail(path, "a whole number", v);
+  return n;
+}
+
+function bool(v: unknown, path: string): boolean {
+  if (typeof v !== "boolean") fail(path, "true or false", v);
+  return v;
+}
+
+function oneOf<const T extends string>(
+  v: unknown,
+  path: string,
+  options: readonly T[]
+): T {
+  if (!options.includes(v as T)) {
+    fail(path, `one of ${options.map((o) => `"${o}"`).join(", ")}`, v);
+  }
+  return v as T;
+}
+
+function point(v: unknown, path: string): Point {
+  const a = array(v, path);
+  if (a.length !== 2) fail(path, "an [x, y] pair", v);
+  return [num(a[0], `${path}[0]`), num(a[1], `${path}[1]`)];
+}
+
+function rgb(v: unknown, path: string): Rgb {
+  const a = array(v, path);
+  if (a.length !== 3) fail(path, "an [r, g, b] triple", v);
+  return [
+    num(a[0], `${path}[0]`, 0, 255),
+    num(a[1], `${path}[1]`, 0, 255),
+    num(a[2], `${path}[2]`, 0, 255),
+  ];
+}
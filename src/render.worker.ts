@@ -0,0 +1,10 @@
+import { createRenderJobs, type RenderRequestMessage } from "./renderJobs";
+
+// Render worker: keeps the images and the memoized pipeline off the main
+// thread. See useRenderWorker for the page side.
+
+const jobs = createRenderJobs((message, transfer) =>
+  self.postMessage(message, { transfer })
+);
+
+self.onmessage = (e: MessageEvent<RenderRequestMessage>) => jobs.handle(e.data);
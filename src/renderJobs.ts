@@ -0,0 +1,189 @@
+import { encodeOra, encodePsd } from "./codecs";
+import { sceneLayers } from "./layers";
+import {
+  createPipeline,
+  type PipelineRequest,
+  type PipelineResult,
+  type ShadowRenderer,
+} from "./pipeline";
+import type { ContactLine, DepthMap, RgbaImage } from "./shadow";
+
+// Messages between the app and the render worker (render.worker.ts), plus
+// the worker-side job loop, shared with the in-page fallback.
+
+export type PassName =
+  | "mask"
+  | "shadow"
+  | "contactShadow"
+  | "reflection"
+  | "selfShading"
+  | "composite"
+  | "depthPreview"
+  | "depthMaskedPreview"
+  | "surfacePreview";
+
+// A pass as delivered: an ImageBitmap painted off-thread when the worker has
+// OffscreenCanvas, else the raw buffer.
+export type PassFrame = ImageBitmap | RgbaImage;
+
+// Layered file formats (see sceneLayers)
+export type LayeredFormat = "psd" | "ora";
+
+export type RenderRequestMessage =
+  | { type: "image"; slot: "fg" | "bg"; image: RgbaImage | null }
+  | { type: "image"; slot: "depth" | "surface"; image: DepthMap | null }
+  | { type: "render"; id: number; request: PipelineRequest }
+  // Layered file of a request; ids are their own, apart from renders'
+  | {
+      type: "layers";
+      id: number;
+      request: PipelineRequest;
+      format: LayeredFormat;
+    };
+
+export type RenderResponseMessage =
+  | { type: "progress"; id: number; progress: number }
+  | {
+      type: "done";
+      id: number;
+      // Only the passes that changed since the last "done"; null = cleared
+      passes: Partial<Record<PassName, PassFrame | null>>;
+      contact: ContactLine;
+      depthSize: { width: number; height: number } | null;
+      renderer: ShadowRenderer;
+    }
+  | { type: "error"; id: number; message: string }
+  | { type: "idle"; id: number }
+  | { type: "layers"; id: number; data: Uint8Array }
+  | { type: "layersFailed"; id: number; message: string };
+
+const PASSES: PassName[] = [
+  "mask",
+  "shadow",
+  "contactShadow",
+  "reflection",
+  "selfShading",
+  "composite",
+  "depthPreview",
+  "depthMaskedPreview",
+  "surfacePreview",
+];
+
+class Superseded extends Error {}
+
+// -----------------------------
+// Job loop: runs the newest render request, abandoning older ones at the
+// next stage boundary. `post` delivers responses (postMessage in the
+// worker) with the buffers to transfer.
+// -----------------------------
+export function createRenderJobs(
+  post: (message: RenderResponseMessage, transfer: Transferable[]) => void
+) {
+  const pipeline = createPipeline();
+  const sent = new Map<PassName, RgbaImage | null>();
+  let latest = 0;
+  // The layers start with it
+  let background: RgbaImage | null = null;
+
+  // Yield so newer messages get handled, then bail if one superseded us
+  const checkpoint = (id: number) => async (progress: number) => {
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    if (id !== latest) throw new Superseded();
+    post({ type: "progress", id, progress }, []);
+  };
+
+  async function render(id: number, request: PipelineRequest) {
+    let result: PipelineResult | null;
+    try {
+      result = await pipeline.run(request, checkpoint(id));
+    } catch (err) {
+      if (err instanceof Superseded) return;
+      post({ type: "error", id, message: (err as Error).message }, []);
+      return;
+    }
+    if (id !== latest) return;
+    if (!result) {
+      post({ type: "idle", id }, []);
+      return;
+    }
+
+    const passes: Partial<Record<PassName, PassFrame | null>> = {};
+    const transfer: Transferable[] = [];
+    for (const name of PASSES) {
+      const img = result[name];
+      if (sent.get(name) === img) continue;
+      sent.set(name, img);
+      const frame = img && toFrame(img);
+      if (frame && !("data" in frame)) transfer.push(frame);
+      passes[name] = frame;
+    }
+
+    post(
+      {
+        type: "done",
+        id,
+        passes,
+        contact: result.contact,
+        depthSize: result.depthSize,
+        renderer: result.renderer,
+      },
+      transfer
+    );
+  }
+
+  // Renders (mostly from the stage cache) without checkpoints, so newer
+  // render requests don't abandon it
+  async function layers(
+    id: number,
+    request: PipelineRequest,
+    format: LayeredFormat
+  ) {
+    try {
+      const result = await pipeline.run(request, async () => {});
+      if (!result || !background) {
+        throw new Error("a foreground and a background are needed");
+      }
+      const doc = sceneLayers(background, request.scene, result);
+      const data = format === "psd" ? encodePsd(doc) : await encodeOra(doc);
+      post({ type: "layers", id, data }, [data.buffer as ArrayBuffer]);
+    } catch (err) {
+      post({ type: "layersFailed", id, message: (err as Error).message }, []);
+    }
+  }
+
+  function handle(message: RenderRequestMessage) {
+    if (message.type === "image") {
+      // Split by image type, so each call sees a single one
+      if (message.slot === "fg" || message.slot === "bg") {
+        pipeline.setImage(message.slot, message.image);
+        if (message.slot === "bg") background = message.image;
+      } else {
+        pipeline.setImage(message.slot, message.image);
+      }
+      return;
+    }
+    if (message.type === "layers") {
+      void layers(message.id, message.request, message.format);
+      return;
+    }
+    latest = message.id;
+    void render(message.id, message.request);
+  }
+
+  return { handle };
+}
+
+// Paint into an OffscreenCanvas and hand over the bitmap (drawn on the page
+// without another copy); raw pixels where that isn't available.
+function toFrame(img: RgbaImage): PassFrame {
+  if (typeof OffscreenCanvas === "undefined" || !img.width || !img.height) {
+    return img;
+  }
+  const canvas = new OffscreenCanvas(img.width, img.height);
+  const ctx = canvas.getContext("2d");
+  if (!ctx) return img;
+  const id = new ImageData(img.width, img.height);
+  id.data.set(img.data);
+  ctx.putImageData(id, 0, 0);
+  return canvas.transferToImageBitmap();
+}
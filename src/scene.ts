@@ -0,0 +1,369 @@
+import type { ProjectScene } from "./project";
+import { DEFAULT_KEY_LIGHT, renderableLights } from "./sceneLights";
+import {
+  buildDepthBuffer,
+  buildMask,
+  buildSurfaceHeight,
+  combineShadows,
+  composite,
+  contactLine,
+  estimateDepth,
+  estimateSurfaceHeight,
+  fitPlacement,
+  quadFromVanishingLines,
+  refineMask,
+  removeBackground,
+  renderContactShadow,
+  renderLights,
+  renderReflection,
+  renderSelfShading,
+  resolveShadowColor,
+  sliceDepthLayers,
+  tintShadow,
+  type ContactLine,
+  type DepthBuffer,
+  type DepthMap,
+  type GroundPlane,
+  type Placement,
+  type PlanRunner,
+  type Rgb,
+  type RgbaImage,
+  type ShadowDepth,
+  type SurfaceHeight,
+} from "./shadow";
+
+// What a fresh session starts with (the app's initial controls)
+export const DEFAULT_SCENE: ProjectScene = {
+  lights: [DEFAULT_KEY_LIGHT],
+  ambient: 0,
+  placement: null,
+  cutout: {
+    mode: "off",
+    color: null,
+    tolerance: 0.12,
+    softness: 0.08,
+    box: null,
+  },
+  mask: {
+    threshold: 0,
+    minIsland: 0,
+    fillHoles: 0,
+    grow: 0,
+    strokes: [],
+    feather: 0,
+  },
+  contactPoints: null,
+  depthStrength: 0.8,
+  depth: {
+    encoding: "gray",
+    autoRange: true,
+    clipMin: 0,
+    clipMax: 1,
+    invert: false,
+    gamma: 1.0,
+    projection: "sliced",
+    layerCount: 16,
+    scaleX: 1,
+    scaleY: 1,
+    rotation: 0,
+    offsetX: 0,
+    offsetY: 0,
+    estimate: true,
+  },
+  selfShading: { enabled: false, strength: 0.6 },
+  contactShadow: { opacity: 0.6, spread: 0.04, falloff: 0.1 },
+  shadowStyle: { color: "fixed", rgb: [0, 0, 0], blend: "normal" },
+  ground: { mode: "off", quad: null, lines: [], aspect: 1 },
+  surface: {
+    kind: "depth",
+    invert: false,
+    height: 0.25,
+    smooth: 2,
+    estimate: false,
+  },
+  reflection: {
+    enabled: false,
+    opacity: 0.35,
+    fade: 0.6,
+    blur: 0.03,
+    ripple: 0,
+    wavelength: 0.05,
+  },
+};
+
+export type SceneImages = {
+  background: RgbaImage;
+  foreground: RgbaImage;
+  depth: DepthMap | null;
+  // Depth / height map of the background
+  surface: DepthMap | null;
+};
+
+export type ScenePasses = {
+  placement: Placement;
+  // The foreground with its backdrop removed (as composited)
+  cutout: RgbaImage;
+  mask: RgbaImage;
+  castShadow: RgbaImage;
+  contactShadow: RgbaImage;
+  // Mirror image under the subject; null when off
+  reflection: RgbaImage | null;
+  // Subject shading in the placement frame; null when off or without depth
+  selfShading: RgbaImage | null;
+  // Cast + contact, tinted
+  shadow: RgbaImage;
+  // What the shadow was tinted with
+  shadowColor: Rgb;
+  composite: RgbaImage;
+};
+
+// Calibrated ground plane of a scene, if any ("lines" needs 4 usable lines).
+export function sceneGroundPlane(
+  ground: ProjectScene["ground"]
+): GroundPlane | undefined {
+  const quad =
+    ground.mode === "quad"
+      ? ground.quad
+      : ground.mode === "lines"
+        ? quadFromVanishingLines(ground.lines)
+        : null;
+  return quad ? { quad, aspect: ground.aspect } : undefined;
+}
+
+// -----------------------------
+// Every pass of a scene in one go, for callers without React (batch runs,
+// scripts): the stages below in order. The app's pipeline (pipeline.ts) runs
+// the same stages, memoized across renders. No placement in the scene means
+// "fit to the background".
+// -----------------------------
+export function renderScene(
+  images: SceneImages,
+  scene: ProjectScene
+): ScenePasses {
+  const bg = images.background;
+  const cutout = sceneCutout(images.foreground, scene);
+  const placement = scene.placement ?? fitPlacement(bg, cutout);
+
+  const mask = sceneMask(sceneRefinedCutout(cutout, scene), placement);
+  const contact = sceneContact(mask, placement, scene);
+  const target = { width: bg.width, height: bg.height, placement, contact };
+  const depth = sceneDepth(images.depth, mask, placement, scene);
+  const layers = sceneShadowDepth(mask, depth, scene);
+  const surface = sceneSurface(images.surface, bg, scene);
+
+  const castShadow = sceneCastShadow(mask, layers, surface, target, scene);
+  const contactShadow = sceneContactShadow(mask, target, scene);
+  const reflection = sceneReflection(cutout, mask, target, scene);
+  const selfShading = sceneSelfShading(mask, depth, target, scene);
+  const { shadow, shadowColor } = sceneShadow(
+    bg,
+    castShadow,
+    contactShadow,
+    scene
+  );
+
+  return {
+    placement,
+    cutout,
+    mask,
+    castShadow,
+    contactShadow,
+    reflection,
+    selfShading,
+    shadow,
+    shadowColor,
+    composite: sceneComposite(
+      bg,
+      shadow,
+      cutout,
+      selfShading,
+      reflection,
+      placement,
+      scene
+    ),
+  };
+}
+
+// Where the placed passes go: the background's size, the subject's
+// placement and the ground contact line
+export type SceneTarget = {
+  width: number;
+  height: number;
+  placement: Placement;
+  contact: ContactLine;
+};
+
+// The foreground with its backdrop removed
+export function sceneCutout(photo: RgbaImage, scene: ProjectScene) {
+  return removeBackground(photo, scene.cutout);
+}
+
+// The cutout with the mask refinements applied (before placement)
+export function sceneRefinedCutout(cutout: RgbaImage, scene: ProjectScene) {
+  return refineMask(cutout, scene.mask);
+}
+
+export function sceneMask(refined: RgbaImage, placement: Placement) {
+  return buildMask(refined, placement);
+}
+
+export function sceneContact(
+  mask: RgbaImage,
+  placement: Placement,
+  scene: ProjectScene
+) {
+  return contactLine(mask, placement, scene.contactPoints);
+}
+
+// The subject's depth: the loaded map, else an estimate from the mask (when
+// on), else none
+export function sceneDepth(
+  map: DepthMap | null,
+  mask: RgbaImage,
+  placement: Placement,
+  scene: ProjectScene
+): DepthBuffer | null {
+  return map
+    ? buildDepthBuffer(map, placement, scene.depth)
+    : scene.depth.estimate
+      ? estimateDepth(mask)
+      : null;
+}
+
+// Depth as the shadow casters use it: sliced into layers or continuous
+export function sceneShadowDepth(
+  mask: RgbaImage,
+  depth: DepthBuffer | null,
+  scene: ProjectScene
+): ShadowDepth {
+  return !depth
+    ? []
+    : scene.depth.projection === "continuous"
+      ? depth
+      : sliceDepthLayers(mask, depth, scene.depth.layerCount);
+}
+
+// The background's relief: the loaded map, else an estimate (when on)
+export function sceneSurface(
+  map: DepthMap | null,
+  bg: RgbaImage,
+  scene: ProjectScene
+): SurfaceHeight | null {
+  return map
+    ? buildSurfaceHeight(map, bg.width, bg.height, scene.surface)
+    : scene.surface.estimate
+      ? estimateSurfaceHeight(bg, scene.surface)
+      : null;
+}
+
+// Cast shadow of every light; `run` draws the shadow plans (GPU or CPU)
+export function sceneCastShadow(
+  mask: RgbaImage,
+  layers: ShadowDepth,
+  surface: SurfaceHeight | null,
+  target: SceneTarget,
+  scene: ProjectScene,
+  run?: PlanRunner
+) {
+  return renderLights(
+    mask,
+    layers,
+    renderableLights(scene.lights),
+    {
+      ...target,
+      depthStrength: scene.depthStrength,
+      ground: sceneGroundPlane(scene.ground),
+      ambient: scene.ambient,
+      surface: surface ?? undefined,
+    },
+    run
+  );
+}
+
+export function sceneContactShadow(
+  mask: RgbaImage,
+  target: SceneTarget,
+  scene: ProjectScene
+) {
+  return renderContactShadow(mask, scene.contactShadow, target);
+}
+
+export function sceneReflection(
+  cutout: RgbaImage,
+  mask: RgbaImage,
+  target: SceneTarget,
+  scene: ProjectScene
+) {
+  return scene.reflection.enabled
+    ? renderReflection(cutout, mask, scene.reflection, target)
+    : null;
+}
+
+export function sceneSelfShading(
+  mask: RgbaImage,
+  depth: DepthBuffer | null,
+  target: SceneTarget,
+  scene: ProjectScene
+) {
+  return depth && scene.selfShading.enabled
+    ? renderSelfShading(mask, depth, renderableLights(scene.lights), {
+        ...target,
+        strength: scene.selfShading.strength,
+        ambient: scene.ambient,
+      })
+    : null;
+}
+
+// Cast + contact shadow, tinted; with the color it was tinted with
+export function sceneShadow(
+  bg: RgbaImage,
+  castShadow: RgbaImage,
+  contactShadow: RgbaImage,
+  scene: ProjectScene
+) {
+  const combined = combineShadows(
+    bg.width,
+    bg.height,
+    castShadow,
+    contactShadow
+  );
+  const shadowColor = resolveShadowColor(scene.shadowStyle, bg, combined);
+  return { shadow: tintShadow(combined, shadowColor), shadowColor };
+}
+
+export function sceneComposite(
+  bg: RgbaImage,
+  shadow: RgbaImage,
+  cutout: RgbaImage,
+  selfShading: RgbaImage | null,
+  reflection: RgbaImage | null,
+  placement: Placement,
+  scene: ProjectScene
+) {
+  return composite(
+    bg,
+    shadow,
+    cutout,
+    placement,
+    scene.shadowStyle.blend,
+    selfShading,
+    reflection
+  );
+}
+
+// Same spot for a different foreground: keeps the bottom-center, height and
+// rotation of `placement`, width follows the new image's aspect ratio.
+export function refitPlacement(
+  placement: Placement,
+  fg: { width: number; height: number }
+): Placement {
+  const h = placement.h;
+  const w = Math.max(1, Math.round((h * fg.width) / Math.max(1, fg.height)));
+  return {
+    x: Math.round(placement.x + (placement.w - w) / 2),
+    y: placement.y,
+    w,
+    h,
+    rotation: placement.rotation,
+  };
+}
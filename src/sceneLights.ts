@@ -0,0 +1,64 @@
+import type { Light, LightPosition, Rgb } from "./shadow";
+
+// A light as edited in the UI; id/solo never reach the renderer.
+export type SceneLight = Light & { id: number; solo: boolean };
+
+export const DEFAULT_KEY_LIGHT: SceneLight = {
+  id: 1,
+  angle: 180,
+  elev: 55,
+  size: 3,
+  intensity: 1,
+  color: [255, 255, 255],
+  solo: false,
+};
+
+export const DEFAULT_FILL_LIGHT: Omit<SceneLight, "id"> = {
+  angle: 60,
+  elev: 35,
+  size: 10,
+  intensity: 0.4,
+  color: [205, 220, 255],
+  solo: false,
+};
+
+// Where a light switched to point mode starts: off to the left, on the ground
+// near the bottom, hanging at 60% of the scene height.
+export function defaultLightPosition(
+  sceneWidth: number,
+  sceneHeight: number
+): LightPosition {
+  return {
+    x: Math.round(sceneWidth * 0.2),
+    y: Math.round(sceneHeight * 0.9),
+    height: Math.round(sceneHeight * 0.6),
+  };
+}
+
+// Lights that should render: the soloed ones if any are soloed, else all.
+export function renderableLights(lights: SceneLight[]): Light[] {
+  const soloed = lights.filter((l) => l.solo);
+  return (soloed.length > 0 ? soloed : lights).map(
+    ({ angle, elev, size, intensity, color, kind, position }) => ({
+      angle,
+      elev,
+      size,
+      intensity,
+      color,
+      kind,
+      position,
+    })
+  );
+}
+
+export function rgbToHex([r, g, b]: Rgb) {
+  return (
+    "#" +
+    [r, g, b].map((c) => Math.round(c).toString(16).padStart(2, "0")).join("")
+  );
+}
+
+export function hexToRgb(hex: string): Rgb {
+  const n = parseInt(hex.slice(1), 16);
+  return [(n >> 16) & 255, (n >> 8) & 255, n & 255];
+}
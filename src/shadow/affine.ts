@@ -0,0 +1,81 @@
+// 2D affine matrices in the same layout as CanvasRenderingContext2D.transform:
+//   x' = a * x + c * y + e
+//   y' = b * x + d * y + f
+export type Affine = [
+  a: number,
+  b: number,
+  c: number,
+  d: number,
+  e: number,
+  f: number,
+];
+
+export type Rect = { x: number; y: number; w: number; h: number };
+
+export function identity(): Affine {
+  return [1, 0, 0, 1, 0, 0];
+}
+
+export function translate(x: number, y: number): Affine {
+  return [1, 0, 0, 1, x, y];
+}
+
+export function scale(sx: number, sy: number = sx): Affine {
+  return [sx, 0, 0, sy, 0, 0];
+}
+
+export function rotate(rad: number): Affine {
+  const cs = Math.cos(rad);
+  const sn = Math.sin(rad);
+  return [cs, sn, -sn, cs, 0, 0];
+}
+
+// Same order as successive ctx.transform() calls: multiply(m1, m2) applies m2 first.
+export function multiply(m1: Affine, m2: Affine): Affine {
+  const [a1, b1, c1, d1, e1, f1] = m1;
+  const [a2, b2, c2, d2, e2, f2] = m2;
+  return [
+    a1 * a2 + c1 * b2,
+    b1 * a2 + d1 * b2,
+    a1 * c2 + c1 * d2,
+    b1 * c2 + d1 * d2,
+    a1 * e2 + c1 * f2 + e1,
+    b1 * e2 + d1 * f2 + f1,
+  ];
+}
+
+export function compose(...ms: Affine[]): Affine {
+  return ms.reduce((acc, m) => multiply(acc, m), identity());
+}
+
+// Returns null for degenerate (non-invertible) matrices.
+export function invert(m: Affine): Affine | null {
+  const [a, b, c, d, e, f] = m;
+  const det = a * d - b * c;
+  if (Math.abs(det) < 1e-12) return null;
+  const ia = d / det;
+  const ib = -b / det;
+  const ic = -c / det;
+  const id = a / det;
+  return [ia, ib, ic, id, -(ia * e + ic * f), -(ib * e + id * f)];
+}
+
+export function apply(m: Affine, x: number, y: number): [number, number] {
+  return [m[0] * x + m[2] * y + m[4], m[1] * x + m[3] * y + m[5]];
+}
+
+// Axis-aligned bounds of the rect (0,0,w,h) after transformation by m.
+export function transformedBounds(m: Affine, w: number, h: number): Rect {
+  const pts = [apply(m, 0, 0), apply(m, w, 0), apply(m, 0, h), apply(m, w, h)];
+  let x0 = Infinity;
+  let y0 = Infinity;
+  let x1 = -Infinity;
+  let y1 = -Infinity;
+  for (const [x, y] of pts) {
+    x0 = Math.min(x0, x);
+    y0 = Math.min(y0, y);
+    x1 = Math.max(x1, x);
+    y1 = Math.max(y1, y);
+  }
+  return { x: x0, y: y0, w: x1 - x0, h: y1 - y0 };
+}
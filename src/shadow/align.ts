@@ -0,0 +1,217 @@
+import { apply, invert, type Affine } from "./affine";
+import { depthAlignMatrix, depthSamples, isDepthSamples } from "./depth";
+import type { RgbaImage } from "./image";
+import type { DepthAlignment, DepthCalibration, DepthMap } from "./types";
+
+// Silhouettes are compared on a grid this many cells across the box
+const GRID = 96;
+
+// A depth sample belongs to the subject when it differs from the map's
+// border (the backdrop) by this much of the map's range
+const SILHOUETTE = 0.1;
+
+// Search: first steps (box fraction, log scale, degrees), halved this often
+const STEP_OFFSET = 0.05;
+const STEP_SCALE = 0.05;
+const STEP_ROTATION = 4;
+const REFINEMENTS = 8;
+const MAX_ROUNDS = 200;
+
+// -----------------------------
+// Auto-align a depth map to the foreground: the subject's silhouette in the
+// depth map (its alpha, or what stands out from the map's border) is
+// registered to the foreground's alpha. Starts from matching centroids and
+// spreads, then searches offset, per-axis scale and rotation for the best
+// overlap. Null when the depth map has no clear silhouette.
+// boxW x boxH is the placement box the alignment is measured in.
+// -----------------------------
+export function alignDepth(
+  map: DepthMap,
+  fg: RgbaImage,
+  calib: DepthCalibration,
+  boxW: number,
+  boxH: number
+): DepthAlignment | null {
+  const sil = depthSilhouette(map, calib);
+  if (!sil || fg.width === 0 || fg.height === 0) return null;
+  const { width: mw, height: mh } = map;
+
+  // Foreground alpha on the grid, in box space
+  const k = GRID / Math.max(boxW, boxH);
+  const gw = Math.max(1, Math.round(boxW * k));
+  const gh = Math.max(1, Math.round(boxH * k));
+  const target = new Uint8Array(gw * gh);
+  for (let gy = 0; gy < gh; gy++) {
+    const fy = Math.min(
+      fg.height - 1,
+      Math.floor(((gy + 0.5) / gh) * fg.height)
+    );
+    for (let gx = 0; gx < gw; gx++) {
+      const fx = Math.min(
+        fg.width - 1,
+        Math.floor(((gx + 0.5) / gw) * fg.width)
+      );
+      target[gy * gw + gx] =
+        fg.data[(fy * fg.width + fx) * 4 + 3] >= 128 ? 1 : 0;
+    }
+  }
+
+  const overlap = (a: DepthAlignment) => {
+    const toMap = invert(depthAlignMatrix(a, boxW, boxH, mw, mh));
+    if (!toMap) return 0;
+    let both = 0;
+    let either = 0;
+    for (let gy = 0; gy < gh; gy++) {
+      for (let gx = 0; gx < gw; gx++) {
+        const t = target[gy * gw + gx];
+        const s = silhouetteAt(
+          sil,
+          mw,
+          mh,
+          toMap,
+          (gx + 0.5) / k,
+          (gy + 0.5) / k
+        );
+        both += t & s;
+        either += t | s;
+      }
+    }
+    return either > 0 ? both / either : 0;
+  };
+
+  // Start: centroids and spreads matched, box-space axes
+  const ms = moments(mw, mh, (p) => sil[p] === 1, boxW / mw, boxH / mh);
+  const mt = moments(gw, gh, (p) => target[p] === 1, 1 / k, 1 / k);
+  if (!ms || !mt) return null;
+  const sx = ms.sdx > 0 ? mt.sdx / ms.sdx : 1;
+  const sy = ms.sdy > 0 ? mt.sdy / ms.sdy : 1;
+  let best: DepthAlignment = {
+    scaleX: sx,
+    scaleY: sy,
+    rotation: 0,
+    offsetX: mt.mx - boxW / 2 - sx * (ms.mx - boxW / 2),
+    offsetY: mt.my - boxH / 2 - sy * (ms.my - boxH / 2),
+  };
+  let bestScore = overlap(best);
+
+  // Pattern search, one parameter at a time
+  const moves: ((a: DepthAlignment, d: number) => DepthAlignment)[] = [
+    (a, d) => ({ ...a, offsetX: a.offsetX + d * STEP_OFFSET * boxW }),
+    (a, d) => ({ ...a, offsetY: a.offsetY + d * STEP_OFFSET * boxH }),
+    (a, d) => ({ ...a, scaleX: a.scaleX * Math.exp(d * STEP_SCALE) }),
+    (a, d) => ({ ...a, scaleY: a.scaleY * Math.exp(d * STEP_SCALE) }),
+    (a, d) => ({ ...a, rotation: a.rotation + d * STEP_ROTATION }),
+  ];
+  let step = 1;
+  for (let round = 0, r = 0; r <= REFINEMENTS && round < MAX_ROUNDS; round++) {
+    let improved = false;
+    for (const move of moves) {
+      for (const d of [step, -step]) {
+        const a = move(best, d);
+        const score = overlap(a);
+        if (score > bestScore) {
+          best = a;
+          bestScore = score;
+          improved = true;
+          break;
+        }
+      }
+    }
+    if (!improved) {
+      step /= 2;
+      r++;
+    }
+  }
+
+  return best;
+}
+
+// 1 where the depth map shows the subject; null without a usable one
+function depthSilhouette(
+  map: DepthMap,
+  calib: DepthCalibration
+): Uint8Array | null {
+  const n = map.width * map.height;
+  const sil = new Uint8Array(n);
+
+  if (!isDepthSamples(map) && map.data.some((a, i) => i % 4 === 3 && a < 128)) {
+    for (let p = 0; p < n; p++) sil[p] = map.data[p * 4 + 3] >= 128 ? 1 : 0;
+  } else {
+    const { width: w, height: h, data } = depthSamples(map, calib.encoding);
+    let min = Infinity;
+    let max = -Infinity;
+    for (const v of data) {
+      if (!Number.isFinite(v)) continue;
+      min = Math.min(min, v);
+      max = Math.max(max, v);
+    }
+    if (!(max > min)) return null;
+
+    const border: number[] = [];
+    for (let x = 0; x < w; x++) border.push(data[x], data[(h - 1) * w + x]);
+    for (let y = 0; y < h; y++) border.push(data[y * w], data[y * w + w - 1]);
+    const known = border.filter(Number.isFinite).sort((a, b) => a - b);
+    if (known.length === 0) return null;
+    const backdrop = known[known.length >> 1];
+
+    const threshold = SILHOUETTE * (max - min);
+    for (let p = 0; p < n; p++) {
+      const v = data[p];
+      sil[p] = Number.isFinite(v) && Math.abs(v - backdrop) > threshold ? 1 : 0;
+    }
+  }
+
+  let count = 0;
+  for (let p = 0; p < n; p++) count += sil[p];
+  return count > 0.005 * n && count < 0.995 * n ? sil : null;
+}
+
+function silhouetteAt(
+  sil: Uint8Array,
+  w: number,
+  h: number,
+  toMap: Affine,
+  x: number,
+  y: number
+) {
+  const [u, v] = apply(toMap, x, y);
+  if (u < 0 || v < 0 || u >= w || v >= h) return 0;
+  return sil[Math.floor(v) * w + Math.floor(u)];
+}
+
+// Centroid and per-axis spread of the cells where `inside`, scaled by
+// (kx, ky); null when empty
+function moments(
+  w: number,
+  h: number,
+  inside: (p: number) => boolean,
+  kx: number,
+  ky: number
+) {
+  let n = 0;
+  let sx = 0;
+  let sy = 0;
+  let sxx = 0;
+  let syy = 0;
+  for (let y = 0; y < h; y++) {
+    for (let x = 0; x < w; x++) {
+      if (!inside(y * w + x)) continue;
+      const px = (x + 0.5) * kx;
+      const py = (y + 0.5) * ky;
+      n++;
+      sx += px;
+      sy += py;
+      sxx += px * px;
+      syy += py * py;
+    }
+  }
+  if (n === 0) return null;
+  const mx = sx / n;
+  const my = sy / n;
+  return {
+    mx,
+    my,
+    sdx: Math.sqrt(Math.max(0, sxx / n - mx * mx)),
+    sdy: Math.sqrt(Math.max(0, syy / n - my * my)),
+  };
+}
@@ -0,0 +1,400 @@
+import { invert, transformedBounds, type Affine } from "./affine";
+import { applyMat3, invertMat3, projectMat3, type Mat3 } from "./homography";
+import { createImage, sampleAlpha, type RgbaImage } from "./image";
+
+// Float coverage (0..1) for a sub-rectangle of a larger canvas.
+// The shadow passes only ever need alpha, so they work on these instead of RGBA.
+export type AlphaMap = {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  data: Float32Array;
+};
+
+export function createAlphaMap(
+  x: number,
+  y: number,
+  width: number,
+  height: number
+): AlphaMap {
+  const w = Math.max(0, width);
+  const h = Math.max(0, height);
+  return { x, y, width: w, height: h, data: new Float32Array(w * h) };
+}
+
+// Rasterize src's alpha through m into a canvas of boundsW x boundsH.
+// Returns only the touched region (grown by pad on each side), or null if empty.
+export function warpAlpha(
+  src: RgbaImage,
+  m: Affine,
+  boundsW: number,
+  boundsH: number,
+  pad: number = 0
+): AlphaMap | null {
+  if (src.width === 0 || src.height === 0) return null;
+  const inv = invert(m);
+  if (!inv) return null;
+
+  const b = transformedBounds(m, src.width, src.height);
+  const x0 = Math.max(0, Math.floor(b.x) - pad);
+  const y0 = Math.max(0, Math.floor(b.y) - pad);
+  const x1 = Math.min(boundsW, Math.ceil(b.x + b.w) + pad);
+  const y1 = Math.min(boundsH, Math.ceil(b.y + b.h) + pad);
+  if (x1 <= x0 || y1 <= y0) return null;
+
+  const out = createAlphaMap(x0, y0, x1 - x0, y1 - y0);
+  const od = out.data;
+
+  for (let y = y0; y < y1; y++) {
+    const py = y + 0.5;
+    for (let x = x0; x < x1; x++) {
+      const px = x + 0.5;
+      const u = inv[0] * px + inv[2] * py + inv[4];
+      const v = inv[1] * px + inv[3] * py + inv[5];
+      if (u < 0 || v < 0 || u >= src.width || v >= src.height) continue;
+      od[(y - y0) * out.width + (x - x0)] = sampleAlpha(src, u, v);
+    }
+  }
+
+  return out;
+}
+
+// Projective version of warpAlpha. Source points that m sends to or behind
+// the horizon (w' <= 0) cast nothing; if any source corner does, the whole
+// canvas is scanned since the projected bounds are unbounded.
+export function warpAlphaProjective(
+  src: RgbaImage,
+  m: Mat3,
+  boundsW: number,
+  boundsH: number
+): AlphaMap | null {
+  if (src.width === 0 || src.height === 0) return null;
+  const inv = invertMat3(m);
+  if (!inv) return null;
+
+  let x0 = 0;
+  let y0 = 0;
+  let x1 = boundsW;
+  let y1 = boundsH;
+  const corners = [
+    applyMat3(m, 0, 0),
+    applyMat3(m, src.width, 0),
+    applyMat3(m, 0, src.height),
+    applyMat3(m, src.width, src.height),
+  ];
+  if (corners.every((p) => p !== null)) {
+    const xs = corners.map((p) => p![0]);
+    const ys = corners.map((p) => p![1]);
+    x0 = Math.max(0, Math.floor(Math.min(...xs)));
+    y0 = Math.max(0, Math.floor(Math.min(...ys)));
+    x1 = Math.min(boundsW, Math.ceil(Math.max(...xs)));
+    y1 = Math.min(boundsH, Math.ceil(Math.max(...ys)));
+  }
+  if (x1 <= x0 || y1 <= y0) return null;
+
+  const out = createAlphaMap(x0, y0, x1 - x0, y1 - y0);
+  const od = out.data;
+
+  for (let y = y0; y < y1; y++) {
+    const py = y + 0.5;
+    for (let x = x0; x < x1; x++) {
+      const px = x + 0.5;
+      // Inverse may flip the homogeneous sign (see projectMat3), so check
+      // the forward w' of the recovered source point.
+      const p = projectMat3(inv, px, py);
+      if (!p) continue;
+      const [u, v] = p;
+      if (u < 0 || v < 0 || u >= src.width || v >= src.height) continue;
+      if (m[6] * u + m[7] * v + m[8] <= 0) continue;
+      od[(y - y0) * out.width + (x - x0)] = sampleAlpha(src, u, v);
+    }
+  }
+
+  return out;
+}
+
+// Box sizes whose three successive passes approximate a gaussian of sigma.
+function boxesForGauss(sigma: number, n: number) {
+  const wIdeal = Math.sqrt((12 * sigma * sigma) / n + 1);
+  let wl = Math.floor(wIdeal);
+  if (wl % 2 === 0) wl--;
+  const wu = wl + 2;
+  const mIdeal =
+    (12 * sigma * sigma - n * wl * wl - 4 * n * wl - 3 * n) / (-4 * wl - 4);
+  const m = Math.round(mIdeal);
+  const sizes: number[] = [];
+  for (let i = 0; i < n; i++) sizes.push(i < m ? wl : wu);
+  return sizes;
+}
+
+function boxBlurH(
+  src: Float32Array,
+  dst: Float32Array,
+  w: number,
+  h: number,
+  r: number
+) {
+  const norm = 1 / (2 * r + 1);
+  for (let y = 0; y < h; y++) {
+    const row = y * w;
+    let acc = 0;
+    for (let x = -r; x <= r; x++) {
+      if (x >= 0 && x < w) acc += src[row + x];
+    }
+    for (let x = 0; x < w; x++) {
+      dst[row + x] = acc * norm;
+      const xa = x + r + 1;
+      const xr = x - r;
+      if (xa < w) acc += src[row + xa];
+      if (xr >= 0) acc -= src[row + xr];
+    }
+  }
+}
+
+function boxBlurV(
+  src: Float32Array,
+  dst: Float32Array,
+  w: number,
+  h: number,
+  r: number
+) {
+  const norm = 1 / (2 * r + 1);
+  for (let x = 0; x < w; x++) {
+    let acc = 0;
+    for (let y = -r; y <= r; y++) {
+      if (y >= 0 && y < h) acc += src[y * w + x];
+    }
+    for (let y = 0; y < h; y++) {
+      dst[y * w + x] = acc * norm;
+      const ya = y + r + 1;
+      const yr = y - r;
+      if (ya < h) acc += src[ya * w + x];
+      if (yr >= 0) acc -= src[yr * w + x];
+    }
+  }
+}
+
+// Gaussian-like blur (stdDev = sigma, matching CSS `blur(sigma px)`), with an
+// optional separate vertical stdDev. The result is grown by 3 sigma on each
+// side, clipped to the canvas bounds.
+export function blurAlpha(
+  map: AlphaMap,
+  sigma: number,
+  boundsW: number,
+  boundsH: number,
+  sigmaY: number = sigma
+): AlphaMap {
+  const blurX = sigma > 0.25;
+  const blurY = sigmaY > 0.25;
+  if (!blurX && !blurY) return map;
+
+  const growX = blurX ? Math.ceil(sigma * 3) : 0;
+  const growY = blurY ? Math.ceil(sigmaY * 3) : 0;
+  const x0 = Math.max(0, map.x - growX);
+  const y0 = Math.max(0, map.y - growY);
+  const x1 = Math.min(boundsW, map.x + map.width + growX);
+  const y1 = Math.min(boundsH, map.y + map.height + growY);
+
+  const out = createAlphaMap(x0, y0, x1 - x0, y1 - y0);
+  const w = out.width;
+  const h = out.height;
+
+  for (let y = 0; y < map.height; y++) {
+    const srcRow = y * map.width;
+    const dstRow = (y + map.y - y0) * w + (map.x - x0);
+    out.data.set(map.data.subarray(srcRow, srcRow + map.width), dstRow);
+  }
+
+  const tmp = new Float32Array(w * h);
+  const sizesX = blurX ? boxesForGauss(sigma, 3) : [1, 1, 1];
+  const sizesY = blurY ? boxesForGauss(sigmaY, 3) : [1, 1, 1];
+  for (let i = 0; i < 3; i++) {
+    boxBlurH(out.data, tmp, w, h, (sizesX[i] - 1) / 2);
+    boxBlurV(tmp, out.data, w, h, (sizesY[i] - 1) / 2);
+  }
+
+  return out;
+}
+
+// Blur with a per-pixel stdDev (sigmaAt, canvas coordinates), clamped to
+// maxSigma. Blends between a ladder of fixed-sigma blurs, one level at a time
+// so memory stays at a couple of maps regardless of the ladder length.
+export function variableBlurAlpha(
+  map: AlphaMap,
+  sigmaAt: (x: number, y: number) => number,
+  maxSigma: number,
+  boundsW: number,
+  boundsH: number
+): AlphaMap {
+  const levels = [0];
+  for (let s = 1; levels[levels.length - 1] < maxSigma; s *= 2) levels.push(s);
+  const top = levels.length - 1;
+
+  // Output covers the widest blur
+  const grow = Math.ceil(levels[top] * 3);
+  const x0 = Math.max(0, map.x - grow);
+  const y0 = Math.max(0, map.y - grow);
+  const x1 = Math.min(boundsW, map.x + map.width + grow);
+  const y1 = Math.min(boundsH, map.y + map.height + grow);
+  const out = createAlphaMap(x0, y0, x1 - x0, y1 - y0);
+  const n = out.width * out.height;
+
+  // Ladder position per pixel: level index + blend toward the next level
+  const level = new Uint8Array(n);
+  const frac = new Float32Array(n);
+  for (let y = 0; y < out.height; y++) {
+    for (let x = 0; x < out.width; x++) {
+      const i = y * out.width + x;
+      const s = Math.max(
+        0,
+        Math.min(levels[top], sigmaAt(x0 + x + 0.5, y0 + y + 0.5))
+      );
+      let l = 0;
+      while (l < top - 1 && levels[l + 1] <= s) l++;
+      level[i] = l;
+      frac[i] =
+        top === 0
+          ? 0
+          : Math.min(1, (s - levels[l]) / (levels[l + 1] - levels[l]));
+    }
+  }
+
+  for (let l = 0; l <= top; l++) {
+    const b = l === 0 ? map : blurAlpha(map, levels[l], boundsW, boundsH);
+    for (let y = Math.max(b.y, y0); y < Math.min(b.y + b.height, y1); y++) {
+      for (let x = Math.max(b.x, x0); x < Math.min(b.x + b.width, x1); x++) {
+        const i = (y - y0) * out.width + (x - x0);
+        const weight =
+          level[i] === l ? 1 - frac[i] : level[i] + 1 === l ? frac[i] : 0;
+        if (weight === 0) continue;
+        out.data[i] += weight * b.data[(y - b.y) * b.width + (x - b.x)];
+      }
+    }
+  }
+
+  return out;
+}
+
+// Shrink a map to the bounding box of its non-zero pixels.
+export function trimAlpha(map: AlphaMap): AlphaMap {
+  let minX = map.width;
+  let minY = map.height;
+  let maxX = -1;
+  let maxY = -1;
+  for (let y = 0; y < map.height; y++) {
+    for (let x = 0; x < map.width; x++) {
+      if (map.data[y * map.width + x] <= 0) continue;
+      if (x < minX) minX = x;
+      if (x > maxX) maxX = x;
+      if (y < minY) minY = y;
+      if (y > maxY) maxY = y;
+    }
+  }
+  if (maxX < 0) return createAlphaMap(map.x, map.y, 0, 0);
+
+  const out = createAlphaMap(
+    map.x + minX,
+    map.y + minY,
+    maxX - minX + 1,
+    maxY - minY + 1
+  );
+  for (let y = 0; y < out.height; y++) {
+    const src = (y + minY) * map.width + minX;
+    out.data.set(map.data.subarray(src, src + out.width), y * out.width);
+  }
+  return out;
+}
+
+// Source-over: dst = src * opacity + dst * (1 - src * opacity), on the overlap.
+export function blendAlphaOver(dst: AlphaMap, src: AlphaMap, opacity: number) {
+  const x0 = Math.max(dst.x, src.x);
+  const y0 = Math.max(dst.y, src.y);
+  const x1 = Math.min(dst.x + dst.width, src.x + src.width);
+  const y1 = Math.min(dst.y + dst.height, src.y + src.height);
+
+  for (let y = y0; y < y1; y++) {
+    let di = (y - dst.y) * dst.width + (x0 - dst.x);
+    let si = (y - src.y) * src.width + (x0 - src.x);
+    for (let x = x0; x < x1; x++, di++, si++) {
+      const s = src.data[si] * opacity;
+      if (s <= 0) continue;
+      dst.data[di] = s + dst.data[di] * (1 - s);
+    }
+  }
+}
+
+// Resample over the whole boundsW x boundsH canvas: each pixel reads map
+// (bilinear, 0 outside it) where lookup sends its center; null reads 0.
+export function remapAlpha(
+  map: AlphaMap,
+  lookup: (x: number, y: number) => [number, number] | null,
+  boundsW: number,
+  boundsH: number
+): AlphaMap {
+  const out = createAlphaMap(0, 0, boundsW, boundsH);
+  const { width: w, height: h, data } = map;
+  if (w === 0 || h === 0) return out;
+
+  const at = (x: number, y: number) =>
+    x < 0 || y < 0 || x >= w || y >= h ? 0 : data[y * w + x];
+  for (let y = 0, i = 0; y < boundsH; y++) {
+    for (let x = 0; x < boundsW; x++, i++) {
+      const q = lookup(x + 0.5, y + 0.5);
+      if (!q) continue;
+      const fx = q[0] - 0.5 - map.x;
+      const fy = q[1] - 0.5 - map.y;
+      const x0 = Math.floor(fx);
+      const y0 = Math.floor(fy);
+      if (x0 < -1 || y0 < -1 || x0 >= w || y0 >= h) continue;
+      const tx = fx - x0;
+      const ty = fy - y0;
+      const top = at(x0, y0) + (at(x0 + 1, y0) - at(x0, y0)) * tx;
+      const bot = at(x0, y0 + 1) + (at(x0 + 1, y0 + 1) - at(x0, y0 + 1)) * tx;
+      out.data[i] = top + (bot - top) * ty;
+    }
+  }
+  return out;
+}
+
+// Multiply every pixel by factor(x, y) in canvas coordinates (destination-in).
+export function multiplyAlpha(
+  map: AlphaMap,
+  factor: (x: number, y: number) => number
+) {
+  for (let y = 0; y < map.height; y++) {
+    const row = y * map.width;
+    for (let x = 0; x < map.width; x++) {
+      const i = row + x;
+      if (map.data[i] === 0) continue;
+      map.data[i] *= factor(map.x + x + 0.5, map.y + y + 0.5);
+    }
+  }
+}
+
+// Expand a coverage map into a full RGBA image of a single color.
+export function alphaToImage(
+  map: AlphaMap,
+  width: number,
+  height: number,
+  rgb: [number, number, number] = [0, 0, 0]
+): RgbaImage {
+  const img = createImage(width, height);
+  const d = img.data;
+  for (let y = 0; y < map.height; y++) {
+    const cy = map.y + y;
+    if (cy < 0 || cy >= height) continue;
+    for (let x = 0; x < map.width; x++) {
+      const cx = map.x + x;
+      if (cx < 0 || cx >= width) continue;
+      const a = map.data[y * map.width + x];
+      if (a <= 0) continue;
+      const o = (cy * width + cx) * 4;
+      d[o + 0] = rgb[0];
+      d[o + 1] = rgb[1];
+      d[o + 2] = rgb[2];
+      d[o + 3] = Math.round(Math.min(1, a) * 255);
+    }
+  }
+  return img;
+}
@@ -0,0 +1,101 @@
+import { clamp01 } from "./math";
+import type { DepthEncoding, Rgb } from "./types";
+
+// Polynomial fits of the colormaps (0..1 per channel, lowest power first):
+// Google's Turbo approximation and a fit of matplotlib's "inferno". They
+// follow the published tables closely, most loosely at the dark ends.
+const POLYNOMIALS: Record<Exclude<DepthEncoding, "gray">, number[][]> = {
+  turbo: [
+    [
+      0.13572138, 4.6153926, -42.66032258, 132.13108234, -152.94239396,
+      59.28637943,
+    ],
+    [0.09140261, 2.19418839, 4.84296658, -14.18503333, 4.27729857, 2.82956604],
+    [
+      0.1066733, 12.64194608, -60.58204836, 110.36276771, -89.90310912,
+      27.34824973,
+    ],
+  ],
+  inferno: [
+    [
+      0.0002189403691192265, 0.1065134194856116, 11.60249308247187,
+      -41.70399613139459, 77.162935699427, -71.31942824499214,
+      25.13112622477341,
+    ],
+    [
+      0.001651004631001012, 0.5639564367884091, -3.972853965665698,
+      17.43639888205313, -33.40235894210092, 32.62606426397723,
+      -12.24266895238567,
+    ],
+    [
+      -0.01948089843709184, 3.932712388889277, -15.9423941062914,
+      44.35414519872813, -81.80730925738993, 73.20951985803202,
+      -23.07032500287172,
+    ],
+  ],
+};
+
+// Entries searched before refining between neighbours
+const TABLE_SIZE = 256;
+const REFINE_STEPS = 16;
+
+function colormapColor(name: Exclude<DepthEncoding, "gray">, t: number): Rgb {
+  return POLYNOMIALS[name].map((coeffs) => {
+    let v = 0;
+    for (let i = coeffs.length - 1; i >= 0; i--) v = v * t + coeffs[i];
+    return clamp01(v) * 255;
+  }) as Rgb;
+}
+
+// -----------------------------
+// Color -> position along a colormap (0..1): the nearest table entry, refined
+// between its neighbours. Colors repeat a lot in depth images, so each one is
+// looked up once.
+// -----------------------------
+export function colormapDecoder(
+  name: Exclude<DepthEncoding, "gray">
+): (r: number, g: number, b: number) => number {
+  const table = new Float32Array(TABLE_SIZE * 3);
+  for (let i = 0; i < TABLE_SIZE; i++) {
+    table.set(colormapColor(name, i / (TABLE_SIZE - 1)), i * 3);
+  }
+  const cache = new Map<number, number>();
+
+  const distance = (t: number, r: number, g: number, b: number) => {
+    const [cr, cg, cb] = colormapColor(name, t);
+    return (cr - r) ** 2 + (cg - g) ** 2 + (cb - b) ** 2;
+  };
+
+  return (r, g, b) => {
+    const key = (r << 16) | (g << 8) | b;
+    const hit = cache.get(key);
+    if (hit !== undefined) return hit;
+
+    let best = 0;
+    let bestD = Infinity;
+    for (let i = 0; i < TABLE_SIZE; i++) {
+      const d =
+        (table[i * 3] - r) ** 2 +
+        (table[i * 3 + 1] - g) ** 2 +
+        (table[i * 3 + 2] - b) ** 2;
+      if (d < bestD) {
+        bestD = d;
+        best = i;
+      }
+    }
+
+    let t = best / (TABLE_SIZE - 1);
+    const step = 1 / (TABLE_SIZE - 1);
+    for (let k = -REFINE_STEPS; k <= REFINE_STEPS; k++) {
+      const u = clamp01((best + k / REFINE_STEPS) * step);
+      const d = distance(u, r, g, b);
+      if (d < bestD) {
+        bestD = d;
+        t = u;
+      }
+    }
+
+    cache.set(key, t);
+    return t;
+  };
+}
@@ -0,0 +1,67 @@
+import {
+  blendOver,
+  cloneImage,
+  createImage,
+  drawImage,
+  multiplyOver,
+  type RgbaImage,
+} from "./image";
+import { translate } from "./affine";
+import { placementFrame, placementMatrix } from "./placement";
+import type { Placement, ShadowStyle } from "./types";
+
+// -----------------------------
+// Composite: BG -> Shadow -> Reflection -> FG (-> its shading)
+// The shadow goes on source-over, or multiplied into the background; the
+// reflection (renderReflection) is a mirror image on top of it.
+// shading (renderSelfShading) sits in the placement frame.
+// -----------------------------
+export function composite(
+  bg: RgbaImage,
+  shadow: RgbaImage | null,
+  fg: RgbaImage | null,
+  placement: Placement | null,
+  blend: ShadowStyle["blend"] = "normal",
+  shading: RgbaImage | null = null,
+  reflection: RgbaImage | null = null
+): RgbaImage {
+  const out = cloneImage(bg);
+
+  if (shadow && shadow.width === out.width && shadow.height === out.height) {
+    if (blend === "multiply") multiplyOver(out, shadow);
+    else blendOver(out, shadow);
+  }
+
+  if (
+    reflection &&
+    reflection.width === out.width &&
+    reflection.height === out.height
+  ) {
+    blendOver(out, reflection);
+  }
+
+  if (fg && placement) {
+    drawImage(out, fg, placementMatrix(fg, placement));
+    if (shading) {
+      const frame = placementFrame(placement);
+      drawImage(out, shading, translate(frame.x, frame.y));
+    }
+  }
+
+  return out;
+}
+
+// Stack shadow passes (e.g. cast + contact) onto one layer, source-over.
+export function combineShadows(
+  width: number,
+  height: number,
+  ...passes: (RgbaImage | null)[]
+): RgbaImage {
+  const out = createImage(width, height);
+  for (const pass of passes) {
+    if (pass && pass.width === width && pass.height === height) {
+      blendOver(out, pass);
+    }
+  }
+  return out;
+}
@@ -0,0 +1,185 @@
+import { apply, invert } from "./affine";
+import type { RgbaImage } from "./image";
+import { placementBoxMatrix, placementFrame } from "./placement";
+import type { ContactLine, Placement, Point } from "./types";
+
+// Max |slope| of a fitted contact line (45°); steeper fits are noise.
+const MAX_SLOPE = 1;
+
+export type ContactOptions = {
+  // Alpha (0..1) at or above which a mask pixel counts as solid
+  threshold?: number;
+  // Rows above the lowest solid row that still count as touching the ground,
+  // as a fraction of the mask height (at least 2 px)
+  band?: number;
+};
+
+// -----------------------------
+// Auto-detect ground contacts: one point per run of solid columns in the
+// lowest rows of the mask, at that run's bottom edge. Mask pixel coordinates.
+// -----------------------------
+export function detectContactPoints(
+  mask: RgbaImage,
+  options: ContactOptions = {}
+): Point[] {
+  const { width: w, height: h, data } = mask;
+  const threshold = Math.round((options.threshold ?? 0.5) * 255);
+
+  // Lowest solid pixel per column (-1 = column is empty)
+  const bottom = new Int32Array(w).fill(-1);
+  let yMax = -1;
+  for (let x = 0; x < w; x++) {
+    for (let y = h - 1; y >= 0; y--) {
+      if (data[(y * w + x) * 4 + 3] >= threshold) {
+        bottom[x] = y;
+        yMax = Math.max(yMax, y);
+        break;
+      }
+    }
+  }
+  if (yMax < 0) return [];
+
+  const band = Math.max(2, Math.round(h * (options.band ?? 0.02)));
+  const points: Point[] = [];
+
+  let runStart = -1;
+  let runBottom = -1;
+  for (let x = 0; x <= w; x++) {
+    const touching = x < w && bottom[x] >= 0 && bottom[x] >= yMax - band;
+    if (touching) {
+      if (runStart < 0) runStart = x;
+      runBottom = Math.max(runBottom, bottom[x]);
+    } else if (runStart >= 0) {
+      points.push([(runStart + x) / 2, runBottom + 1]);
+      runStart = -1;
+      runBottom = -1;
+    }
+  }
+
+  return points;
+}
+
+// Least-squares line through the points (horizontal through a single point),
+// spanning their x range.
+export function fitContactLine(points: Point[]): ContactLine | null {
+  if (points.length === 0) return null;
+
+  let sx = 0;
+  let sy = 0;
+  let minX = Infinity;
+  let maxX = -Infinity;
+  for (const [x, y] of points) {
+    sx += x;
+    sy += y;
+    minX = Math.min(minX, x);
+    maxX = Math.max(maxX, x);
+  }
+  const mx = sx / points.length;
+  const my = sy / points.length;
+
+  let sxx = 0;
+  let sxy = 0;
+  for (const [x, y] of points) {
+    sxx += (x - mx) * (x - mx);
+    sxy += (x - mx) * (y - my);
+  }
+  const slope =
+    sxx < 1 ? 0 : Math.max(-MAX_SLOPE, Math.min(MAX_SLOPE, sxy / sxx));
+
+  return {
+    x0: minX,
+    y0: my + slope * (minX - mx),
+    x1: maxX,
+    y1: my + slope * (maxX - mx),
+  };
+}
+
+// Bottom edge of the placement frame (the pre-detection behaviour).
+function frameBottom(placement: Placement): ContactLine {
+  const f = placementFrame(placement);
+  const y = f.y + f.h;
+  return { x0: f.x + f.w / 2, y0: y, x1: f.x + f.w / 2, y1: y };
+}
+
+// -----------------------------
+// Contact line in background pixels. Manual points (normalized to the
+// foreground box, see contactPointsToPlacement) win over auto-detection;
+// falls back to the frame's bottom edge when the mask is empty.
+// -----------------------------
+export function contactLine(
+  mask: RgbaImage,
+  placement: Placement,
+  manualPoints: Point[] | null = null,
+  options: ContactOptions = {}
+): ContactLine {
+  if (manualPoints && manualPoints.length > 0) {
+    const fitted = fitContactLine(
+      contactPointsToBackground(manualPoints, placement)
+    );
+    if (fitted) return fitted;
+  }
+
+  const f = placementFrame(placement);
+  const sx = f.w / Math.max(1, mask.width);
+  const sy = f.h / Math.max(1, mask.height);
+  const detected = detectContactPoints(mask, options).map(([x, y]): Point => [
+    f.x + x * sx,
+    f.y + y * sy,
+  ]);
+  return fitContactLine(detected) ?? frameBottom(placement);
+}
+
+// Normalized foreground-box points (0..1) -> background pixels.
+// Storing manual contacts normalized keeps them attached to the subject while
+// it is moved, scaled and rotated.
+export function contactPointsToBackground(
+  points: Point[],
+  placement: Placement
+): Point[] {
+  const m = placementBoxMatrix(placement);
+  return points.map(([u, v]) => apply(m, u * placement.w, v * placement.h));
+}
+
+// Background pixels -> normalized foreground-box points (0..1).
+export function contactPointsToPlacement(
+  points: Point[],
+  placement: Placement
+): Point[] {
+  const inv = invert(placementBoxMatrix(placement));
+  if (!inv) return [];
+  return points.map(([x, y]) => {
+    const [u, v] = apply(inv, x, y);
+    return [u / placement.w, v / placement.h];
+  });
+}
+
+// Ground line y at background x.
+export function contactYAt(line: ContactLine, x: number) {
+  const dx = line.x1 - line.x0;
+  if (Math.abs(dx) < 1e-6) return (line.y0 + line.y1) / 2;
+  return line.y0 + ((line.y1 - line.y0) * (x - line.x0)) / dx;
+}
+
+// Ground line for a placed mask: y = b0 + slope * x, anchored at (ax, ay),
+// the middle of the contact line. height is the subject's extent above it.
+export type Ground = {
+  contact: ContactLine;
+  ax: number;
+  ay: number;
+  slope: number;
+  b0: number;
+  height: number;
+};
+
+export function resolveGround(
+  mask: RgbaImage,
+  placement: Placement,
+  contact: ContactLine = contactLine(mask, placement)
+): Ground {
+  const ax = (contact.x0 + contact.x1) / 2;
+  const ay = contactYAt(contact, ax);
+  const dx = contact.x1 - contact.x0;
+  const slope = Math.abs(dx) < 1e-6 ? 0 : (contact.y1 - contact.y0) / dx;
+  const height = Math.max(1, ay - placementFrame(placement).y);
+  return { contact, ax, ay, slope, b0: ay - slope * ax, height };
+}
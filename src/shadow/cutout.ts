@@ -0,0 +1,123 @@
+import { grabCut } from "./grabcut";
+import { cloneImage, type RgbaImage } from "./image";
+import { clamp01 } from "./math";
+import type { BackgroundRemoval, Rgb } from "./types";
+
+// Key distance weighs brightness this much against hue, so shading and soft
+// shadows on a backdrop still key out with it
+const LUMA_WEIGHT = 0.5;
+
+// Default grabcut box: the image inset by this fraction on each side
+const BOX_INSET = 0.04;
+
+// -----------------------------
+// The foreground with its backdrop removed (see BackgroundRemoval): the new
+// alpha is multiplied into the cutout's own. Returns fg itself when off.
+// -----------------------------
+export function removeBackground(
+  fg: RgbaImage,
+  settings: BackgroundRemoval
+): RgbaImage {
+  if (settings.mode === "off" || fg.width === 0 || fg.height === 0) return fg;
+
+  const alpha =
+    settings.mode === "grabcut"
+      ? grabCut(fg, settings.box ?? defaultCutoutBox(fg.width, fg.height))
+      : keyAlpha(fg, settings);
+
+  const out = cloneImage(fg);
+  for (let p = 0; p < alpha.length; p++) {
+    out.data[p * 4 + 3] = Math.round(out.data[p * 4 + 3] * alpha[p]);
+  }
+  return out;
+}
+
+// The box grabcut starts from when none was drawn
+export function defaultCutoutBox(width: number, height: number) {
+  return {
+    x: Math.round(width * BOX_INSET),
+    y: Math.round(height * BOX_INSET),
+    w: Math.round(width * (1 - 2 * BOX_INSET)),
+    h: Math.round(height * (1 - 2 * BOX_INSET)),
+  };
+}
+
+// Median color of the image border: the backdrop of a studio shot
+export function borderColor(img: RgbaImage): Rgb {
+  const { width: w, height: h, data } = img;
+  const channels: number[][] = [[], [], []];
+  const add = (x: number, y: number) => {
+    const o = (y * w + x) * 4;
+    for (let c = 0; c < 3; c++) channels[c].push(data[o + c]);
+  };
+  for (let x = 0; x < w; x++) {
+    add(x, 0);
+    add(x, h - 1);
+  }
+  for (let y = 1; y < h - 1; y++) {
+    add(0, y);
+    add(w - 1, y);
+  }
+  return channels.map((v) => {
+    v.sort((a, b) => a - b);
+    return v[v.length >> 1];
+  }) as Rgb;
+}
+
+// "color" / "flood": alpha from each pixel's distance to the key color
+function keyAlpha(fg: RgbaImage, settings: BackgroundRemoval): Float32Array {
+  const { width: w, height: h, data } = fg;
+  const n = w * h;
+  const [kr, kg, kb] = settings.color ?? borderColor(fg);
+  const key = toYCbCr(kr, kg, kb);
+  const { tolerance, softness } = settings;
+
+  const alpha = new Float32Array(n);
+  for (let p = 0; p < n; p++) {
+    const [y, cb, cr] = toYCbCr(data[p * 4], data[p * 4 + 1], data[p * 4 + 2]);
+    const d =
+      Math.hypot(LUMA_WEIGHT * (y - key[0]), cb - key[1], cr - key[2]) / 255;
+    alpha[p] =
+      softness > 0
+        ? clamp01((d - tolerance) / softness)
+        : d < tolerance
+          ? 0
+          : 1;
+  }
+  if (settings.mode === "color") return alpha;
+
+  // Flood: keep the keying only where it reaches in from the border
+  const reached = new Uint8Array(n);
+  const stack: number[] = [];
+  const visit = (p: number) => {
+    if (reached[p] || alpha[p] >= 1) return;
+    reached[p] = 1;
+    stack.push(p);
+  };
+  for (let x = 0; x < w; x++) {
+    visit(x);
+    visit((h - 1) * w + x);
+  }
+  for (let y = 0; y < h; y++) {
+    visit(y * w);
+    visit(y * w + w - 1);
+  }
+  while (stack.length > 0) {
+    const p = stack.pop()!;
+    const x = p % w;
+    if (x > 0) visit(p - 1);
+    if (x < w - 1) visit(p + 1);
+    if (p >= w) visit(p - w);
+    if (p < n - w) visit(p + w);
+  }
+  for (let p = 0; p < n; p++) if (!reached[p]) alpha[p] = 1;
+  return alpha;
+}
+
+function toYCbCr(r: number, g: number, b: number): Rgb {
+  return [
+    0.299 * r + 0.587 * g + 0.114 * b,
+    -0.1687 * r - 0.3313 * g + 0.5 * b,
+    0.5 * r - 0.4187 * g - 0.0813 * b,
+  ];
+}
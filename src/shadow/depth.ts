@@ -0,0 +1,332 @@
+import {
+  apply,
+  compose,
+  invert,
+  rotate,
+  scale,
+  translate,
+  type Affine,
+} from "./affine";
+import { blurAlpha, createAlphaMap } from "./alpha";
+import { colormapDecoder } from "./colormap";
+import { distanceToEdge } from "./distance";
+import { createImage, type RgbaImage } from "./image";
+import { clamp01 } from "./math";
+import { placementFrame, placementFrameMatrix } from "./placement";
+import type {
+  DepthAlignment,
+  DepthBuffer,
+  DepthCalibration,
+  DepthEncoding,
+  DepthLayer,
+  DepthMap,
+  Placement,
+} from "./types";
+
+// Estimated depth: z = BASE - BULGE * roundness - LOW * lowness, where
+// lowness runs 0 at the top of the subject .. 1 at its base; clamped to 0..1
+const BASE = 0.8;
+const BULGE = 0.35;
+const LOW = 0.2;
+
+// Smoothing of the estimate (creases along the medial axis), stdDev as a
+// fraction of the subject's larger side
+const ESTIMATE_SMOOTH = 0.03;
+
+// -----------------------------
+// Depth buffer from a depth map (see DepthCalibration: decoding, range,
+// invert/gamma, alignment). The map is aligned to the unrotated foreground,
+// then follows the placement into the same frame as buildMask(). Pixels the
+// map doesn't cover (or marks unknown) read as 0 before invert/gamma.
+// -----------------------------
+export function buildDepthBuffer(
+  map: DepthMap,
+  placement: Placement,
+  calib: DepthCalibration
+): DepthBuffer {
+  const samples = depthSamples(map, calib.encoding);
+  const { width: mw, height: mh, data: src } = samples;
+  const [lo, hi] = depthRange(src, calib);
+
+  const frame = placementFrame(placement);
+  const buf = new Float32Array(frame.w * frame.h);
+  const toMap = invert(
+    compose(
+      placementFrameMatrix(placement),
+      depthAlignMatrix(calib, placement.w, placement.h, mw, mh)
+    )
+  );
+
+  for (let y = 0, p = 0; y < frame.h; y++) {
+    for (let x = 0; x < frame.w; x++, p++) {
+      let v = NaN;
+      if (toMap) {
+        const [u, w] = apply(toMap, x + 0.5, y + 0.5);
+        if (u >= 0 && w >= 0 && u < mw && w < mh)
+          v = sampleDepth(samples, u, w);
+      }
+      buf[p] = normalizeDepth(v, lo, hi, calib);
+    }
+  }
+
+  return { width: frame.w, height: frame.h, data: buf };
+}
+
+// Depth map pixels -> placement box pixels (see DepthAlignment)
+export function depthAlignMatrix(
+  align: DepthAlignment,
+  boxW: number,
+  boxH: number,
+  mapW: number,
+  mapH: number
+): Affine {
+  const sx = Math.max(0.1, Math.min(4, align.scaleX));
+  const sy = Math.max(0.1, Math.min(4, align.scaleY));
+  return compose(
+    translate(boxW / 2 + align.offsetX, boxH / 2 + align.offsetY),
+    rotate((align.rotation * Math.PI) / 180),
+    scale((boxW * sx) / mapW, (boxH * sy) / mapH),
+    translate(-mapW / 2, -mapH / 2)
+  );
+}
+
+export function isDepthSamples(map: DepthMap): map is DepthBuffer {
+  return map.data instanceof Float32Array;
+}
+
+// Depth map -> scalar samples in its own units, NaN where unknown: 8-bit
+// images by gray level or colormap position (transparent = unknown)
+export function depthSamples(
+  map: DepthMap,
+  encoding: DepthEncoding
+): DepthBuffer {
+  if (isDepthSamples(map)) return map;
+
+  const n = map.width * map.height;
+  const data = new Float32Array(n);
+  const d = map.data;
+  const decode = encoding === "gray" ? null : colormapDecoder(encoding);
+  for (let p = 0, i = 0; p < n; p++, i += 4) {
+    if (d[i + 3] === 0) {
+      data[p] = NaN;
+    } else if (decode) {
+      data[p] = decode(d[i], d[i + 1], d[i + 2]);
+    } else {
+      data[p] = (d[i] + d[i + 1] + d[i + 2]) / (3 * 255);
+    }
+  }
+  return { width: map.width, height: map.height, data };
+}
+
+// The sample values stretched to 0..1 (see DepthCalibration)
+function depthRange(
+  samples: Float32Array,
+  calib: DepthCalibration
+): [number, number] {
+  let lo = 0;
+  let hi = 1;
+  if (calib.autoRange) {
+    let min = Infinity;
+    let max = -Infinity;
+    for (const v of samples) {
+      if (!Number.isFinite(v)) continue;
+      if (v < min) min = v;
+      if (v > max) max = v;
+    }
+    if (min <= max) {
+      lo = min;
+      hi = max;
+    }
+  }
+  const a = clamp01(Math.min(calib.clipMin, calib.clipMax));
+  const b = clamp01(Math.max(calib.clipMin, calib.clipMax));
+  return [lo + (hi - lo) * a, lo + (hi - lo) * b];
+}
+
+function normalizeDepth(
+  v: number,
+  lo: number,
+  hi: number,
+  calib: DepthCalibration
+) {
+  let z = 0;
+  if (Number.isFinite(v)) {
+    z = hi > lo ? clamp01((v - lo) / (hi - lo)) : v >= hi ? 1 : 0;
+  }
+  if (calib.invert) z = 1 - z;
+  return Math.pow(z, calib.gamma);
+}
+
+// Bilinear sample at (x, y) (pixel centers at +0.5, clamped to the edge),
+// skipping unknown samples; NaN when all four are unknown.
+export function sampleDepth(samples: DepthBuffer, x: number, y: number) {
+  const { width: w, height: h, data } = samples;
+  const fx = Math.max(0, Math.min(w - 1, x - 0.5));
+  const fy = Math.max(0, Math.min(h - 1, y - 0.5));
+  const x0 = Math.floor(fx);
+  const y0 = Math.floor(fy);
+  const x1 = Math.min(w - 1, x0 + 1);
+  const y1 = Math.min(h - 1, y0 + 1);
+  const tx = fx - x0;
+  const ty = fy - y0;
+
+  let sum = 0;
+  let weight = 0;
+  const add = (p: number, k: number) => {
+    const v = data[p];
+    if (k <= 0 || !Number.isFinite(v)) return;
+    sum += v * k;
+    weight += k;
+  };
+  add(y0 * w + x0, (1 - tx) * (1 - ty));
+  add(y0 * w + x1, tx * (1 - ty));
+  add(y1 * w + x0, (1 - tx) * ty);
+  add(y1 * w + x1, tx * ty);
+  return weight > 0 ? sum / weight : NaN;
+}
+
+// -----------------------------
+// The depth map as calibrated (no alignment), in its own pixels: gray 0..255
+// by depth, transparent where unknown. For lining it up over the foreground.
+// -----------------------------
+export function renderDepthMap(
+  map: DepthMap,
+  calib: DepthCalibration
+): RgbaImage {
+  const samples = depthSamples(map, calib.encoding);
+  const [lo, hi] = depthRange(samples.data, calib);
+  const out = createImage(samples.width, samples.height);
+  const od = out.data;
+  samples.data.forEach((v, p) => {
+    if (!Number.isFinite(v)) return;
+    const g = Math.round(normalizeDepth(v, lo, hi, calib) * 255);
+    od[p * 4] = g;
+    od[p * 4 + 1] = g;
+    od[p * 4 + 2] = g;
+    od[p * 4 + 3] = 255;
+  });
+  return out;
+}
+
+// -----------------------------
+// Depth buffer guessed from the mask alone, for when no depth map is given.
+// The silhouette is inflated like a pillow: a circular profile over the
+// distance to its edge (the thickest part nearest, edges falling away), and
+// lower parts come slightly nearer, as they usually stand closer to the
+// camera. Outside the subject is far (1). Same frame as buildMask().
+// -----------------------------
+export function estimateDepth(mask: RgbaImage): DepthBuffer {
+  const w = mask.width;
+  const h = mask.height;
+  const n = w * h;
+  const buf = new Float32Array(n).fill(1);
+  const dist = distanceToEdge(mask);
+
+  let radius = 0;
+  let top = h;
+  let bottom = -1;
+  for (let y = 0; y < h; y++) {
+    for (let x = 0; x < w; x++) {
+      const p = y * w + x;
+      if (mask.data[p * 4 + 3] === 0) continue;
+      radius = Math.max(radius, dist[p]);
+      top = Math.min(top, y);
+      bottom = y;
+    }
+  }
+  if (bottom < 0) return { width: w, height: h, data: buf };
+
+  // Mask-weighted blur, so the far outside doesn't pull the edges back
+  const weight = createAlphaMap(0, 0, w, h);
+  const weighted = createAlphaMap(0, 0, w, h);
+  const span = Math.max(1, bottom - top);
+  for (let y = 0; y < h; y++) {
+    for (let x = 0; x < w; x++) {
+      const p = y * w + x;
+      const a = mask.data[p * 4 + 3] / 255;
+      if (a === 0) continue;
+      const t = 1 - Math.min(1, dist[p] / Math.max(1, radius));
+      const round = Math.sqrt(1 - t * t);
+      const low = (y - top) / span;
+      weight.data[p] = a;
+      weighted.data[p] = a * clamp01(BASE - BULGE * round - LOW * low);
+    }
+  }
+  const sigma = ESTIMATE_SMOOTH * Math.max(w, h);
+  const wb = blurAlpha(weight, sigma, w, h).data;
+  const db = blurAlpha(weighted, sigma, w, h).data;
+
+  for (let p = 0; p < n; p++) {
+    if (mask.data[p * 4 + 3] > 0 && wb[p] > 1e-4) buf[p] = db[p] / wb[p];
+  }
+
+  return { width: w, height: h, data: buf };
+}
+
+// -----------------------------
+// Pre-slice mask into depth layers (so the shadow pass doesn't rebuild per light change)
+// -----------------------------
+export function sliceDepthLayers(
+  mask: RgbaImage,
+  depth: DepthBuffer,
+  layerCount: number
+): DepthLayer[] {
+  const w = mask.width;
+  const h = mask.height;
+  if (depth.width !== w || depth.height !== h) return [];
+
+  const maskData = mask.data;
+  const n = Math.max(1, Math.round(layerCount));
+  const layers: DepthLayer[] = [];
+
+  for (let li = 0; li < n; li++) {
+    const z0 = li / n;
+    const z1 = (li + 1) / n;
+    const zMid = (z0 + z1) * 0.5;
+
+    const image = createImage(w, h);
+    const outData = image.data;
+
+    for (let p = 0; p < w * h; p++) {
+      const a = maskData[p * 4 + 3];
+      if (a === 0) continue;
+
+      const z = depth.data[p];
+      const inRange = li === n - 1 ? z >= z0 && z <= 1 : z >= z0 && z < z1;
+      if (!inRange) continue;
+
+      // store as black with alpha
+      outData[p * 4 + 3] = a;
+    }
+
+    layers.push({ image, zMid });
+  }
+
+  return layers;
+}
+
+// -----------------------------
+// Grayscale view of a depth buffer; alpha from mask when given (transparent outside subject)
+// -----------------------------
+export function renderDepthPreview(
+  depth: DepthBuffer,
+  mask: RgbaImage | null = null
+): RgbaImage {
+  const w = depth.width;
+  const h = depth.height;
+  const out = createImage(w, h);
+  const od = out.data;
+
+  const useMask = !!mask && mask.width === w && mask.height === h;
+
+  for (let p = 0; p < w * h; p++) {
+    const v = Math.round(clamp01(depth.data[p]) * 255);
+    const o = p * 4;
+    od[o + 0] = v;
+    od[o + 1] = v;
+    od[o + 2] = v;
+    od[o + 3] = useMask ? mask.data[o + 3] : 255;
+  }
+
+  return out;
+}
@@ -0,0 +1,99 @@
+import type { RgbaImage } from "./image";
+
+// -----------------------------
+// Exact Euclidean distance (px) from every pixel with alpha >= threshold to
+// the nearest pixel below it; 0 outside. Beyond the image counts as outside,
+// so a subject cut off by the frame still thins toward that edge.
+// -----------------------------
+export function distanceToEdge(
+  mask: RgbaImage,
+  threshold: number = 128
+): Float32Array {
+  const inside = new Uint8Array(mask.width * mask.height);
+  for (let p = 0; p < inside.length; p++) {
+    inside[p] = mask.data[p * 4 + 3] >= threshold ? 1 : 0;
+  }
+  return distanceField(inside, mask.width, mask.height, true);
+}
+
+// -----------------------------
+// Exact Euclidean distance (px) from every set pixel of a w x h grid to the
+// nearest unset one; 0 on unset pixels. borderOutside: whether beyond the
+// image counts as unset (else only real pixels do).
+// Two 1D passes of squared distances (Felzenszwalb & Huttenlocher).
+// -----------------------------
+export function distanceField(
+  inside: Uint8Array,
+  w: number,
+  h: number,
+  borderOutside: boolean
+): Float32Array {
+  const out = new Float32Array(w * h);
+  if (w === 0 || h === 0) return out;
+
+  const INF = (w + h + 2) ** 2;
+  const grid = new Float64Array(w * h);
+  for (let p = 0; p < w * h; p++) grid[p] = inside[p] ? INF : 0;
+
+  // One padding sample on each end of every line
+  const pad = borderOutside ? 0 : INF;
+  const n = Math.max(w, h) + 2;
+  const f = new Float64Array(n);
+  const d = new Float64Array(n);
+  const v = new Int32Array(n);
+  const z = new Float64Array(n + 1);
+
+  for (let x = 0; x < w; x++) {
+    f[0] = pad;
+    for (let y = 0; y < h; y++) f[y + 1] = grid[y * w + x];
+    f[h + 1] = pad;
+    squaredDistance1d(f, h + 2, d, v, z);
+    for (let y = 0; y < h; y++) grid[y * w + x] = d[y + 1];
+  }
+  for (let y = 0; y < h; y++) {
+    f[0] = pad;
+    for (let x = 0; x < w; x++) f[x + 1] = grid[y * w + x];
+    f[w + 1] = pad;
+    squaredDistance1d(f, w + 2, d, v, z);
+    for (let x = 0; x < w; x++) out[y * w + x] = Math.sqrt(d[x + 1]);
+  }
+
+  return out;
+}
+
+// Lower envelope of the parabolas (i - q)^2 + f[q]; d[i] = min over q
+function squaredDistance1d(
+  f: Float64Array,
+  n: number,
+  d: Float64Array,
+  v: Int32Array,
+  z: Float64Array
+) {
+  let k = 0;
+  v[0] = 0;
+  z[0] = -Infinity;
+  z[1] = Infinity;
+  for (let q = 1; q < n; q++) {
+    let s = intersect(f, v[k], q);
+    while (s <= z[k]) {
+      k--;
+      s = intersect(f, v[k], q);
+    }
+    k++;
+    v[k] = q;
+    z[k] = s;
+    z[k + 1] = Infinity;
+  }
+
+  k = 0;
+  for (let q = 0; q < n; q++) {
+    while (z[k + 1] < q) k++;
+    const r = v[k];
+    d[q] = (q - r) * (q - r) + f[r];
+  }
+}
+
+// Where the parabolas rooted at r and q cross
+function intersect(f: Float64Array, r: number, q: number) {
+  return (f[q] + q * q - (f[r] + r * r)) / (2 * (q - r));
+}
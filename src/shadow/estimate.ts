@@ -0,0 +1,221 @@
+import { blurAlpha, createAlphaMap, type AlphaMap } from "./alpha";
+import type { RgbaImage } from "./image";
+import { clamp01, lerp } from "./math";
+import { SQUASH } from "./shadow";
+import type { Point } from "./types";
+
+// Analysis resolution (longest side, px); lighting cues are low-frequency
+const ANALYSIS_SIZE = 160;
+
+// A pixel is shadow when darker than this fraction of its surroundings
+const SHADOW_RATIO = 0.6;
+
+// Near-white pixels (sky, blown highlights) carry no shading direction
+const HIGHLIGHT = 0.92;
+
+export type LightEstimate = {
+  angle: number;
+  elev: number;
+  // 0..1, how strongly the image agrees on a direction
+  confidence: number;
+  // What the guess came from
+  source: "shadows" | "shading";
+};
+
+// -----------------------------
+// Guess the key light from the background alone:
+//   shading - brightness rises toward the light, so the magnitude-weighted
+//             mean luminance gradient points at it;
+//   shadows - pixels much darker than their surroundings; if they form an
+//             elongated cloud, its long axis (signed away from the light)
+//             is the cast direction and its elongation hints at elevation.
+// A heuristic: good enough to start from, not a measurement.
+// -----------------------------
+export function estimateLight(bg: RgbaImage): LightEstimate {
+  const lum = luminanceMap(bg, ANALYSIS_SIZE);
+  const { width: w, height: h } = lum;
+  const L = blurMean(lum, 1);
+
+  // Mean gradient = direction the light comes from (screen, y down)
+  let gx = 0;
+  let gy = 0;
+  let total = 0;
+  for (let y = 1; y < h - 1; y++) {
+    for (let x = 1; x < w - 1; x++) {
+      const i = y * w + x;
+      if (L[i] > HIGHLIGHT) continue;
+      const dx = (L[i + 1] - L[i - 1]) / 2;
+      const dy = (L[i + w] - L[i - w]) / 2;
+      const m = Math.hypot(dx, dy);
+      if (m < 0.0005) continue;
+      gx += dx * m;
+      gy += dy * m;
+      total += m * m;
+    }
+  }
+  const gLen = Math.hypot(gx, gy);
+  const dominance = total > 0 ? gLen / total : 0;
+  // Flat image: light from the top-left, the usual default
+  const fromX = gLen > 0 ? gx / gLen : -Math.SQRT1_2;
+  const fromY = gLen > 0 ? gy / gLen : -Math.SQRT1_2;
+
+  // Shadow pixels: darker than a fraction of their surroundings
+  const local = blurMean(lum, Math.max(2, Math.max(w, h) * 0.08));
+
+  let n = 0;
+  let mx = 0;
+  let my = 0;
+  for (let y = 0; y < h; y++) {
+    for (let x = 0; x < w; x++) {
+      const i = y * w + x;
+      if (L[i] < SHADOW_RATIO * local[i]) {
+        n++;
+        mx += x;
+        my += y;
+      }
+    }
+  }
+
+  const fraction = n / (w * h);
+  if (n > 0 && fraction > 0.005 && fraction < 0.4) {
+    mx /= n;
+    my /= n;
+    let sxx = 0;
+    let sxy = 0;
+    let syy = 0;
+    for (let y = 0; y < h; y++) {
+      for (let x = 0; x < w; x++) {
+        const i = y * w + x;
+        if (L[i] >= SHADOW_RATIO * local[i]) continue;
+        sxx += (x - mx) * (x - mx);
+        sxy += (x - mx) * (y - my);
+        syy += (y - my) * (y - my);
+      }
+    }
+    // Principal axis of the shadow cloud
+    const tr = (sxx + syy) / n;
+    const det = (sxx * syy - sxy * sxy) / (n * n);
+    const disc = Math.sqrt(Math.max(0, (tr * tr) / 4 - det));
+    const lMax = tr / 2 + disc;
+    const lMin = Math.max(1e-6, tr / 2 - disc);
+    const anisotropy = 1 - lMin / lMax;
+
+    if (anisotropy > 0.3) {
+      const theta = 0.5 * Math.atan2(2 * sxy, sxx - syy);
+      let dirX = Math.cos(theta);
+      let dirY = Math.sin(theta);
+      // Shadows fall away from the light
+      if (dirX * fromX + dirY * fromY > 0) {
+        dirX = -dirX;
+        dirY = -dirY;
+      }
+      const elongation = Math.sqrt(lMax / lMin);
+      return {
+        angle: angleFromShadowDir(dirX, dirY),
+        elev: Math.round(lerp(70, 20, clamp01((elongation - 1) / 3))),
+        confidence: clamp01(anisotropy),
+        source: "shadows",
+      };
+    }
+  }
+
+  return {
+    angle: angleFromShadowDir(-fromX, -fromY),
+    elev: Math.round(lerp(70, 25, clamp01(dominance * 2))),
+    confidence: clamp01(dominance),
+    source: "shading",
+  };
+}
+
+// An object in the background and its cast shadow, in background pixels:
+// base is where it touches the ground, tip the far end of its shadow, top
+// (optional) the point of the object that casts the tip.
+export type ShadowReference = { base: Point; tip: Point; top?: Point };
+
+// -----------------------------
+// Light that makes renderShadow cast a shadow from base to tip: the exact
+// inverse of the ground shear. Without a top point the object height is
+// unknown, so only the angle is solved and `elev` is kept. Pass squash 0 when
+// shadows land on a calibrated ground plane (no screen-space squash there).
+// -----------------------------
+export function lightFromReference(
+  ref: ShadowReference,
+  elev: number,
+  squash = SQUASH
+): { angle: number; elev: number } | null {
+  const dx = ref.tip[0] - ref.base[0];
+  const dy = ref.tip[1] - ref.base[1];
+  const len = Math.hypot(dx, dy);
+  if (len < 1) return null;
+
+  // The top of an object of height hObj lands at
+  //   base + hObj * (k * dir - squash * perp),  perp = (-dirY, dirX)
+  const hObj = ref.top
+    ? Math.hypot(ref.top[0] - ref.base[0], ref.top[1] - ref.base[1])
+    : 0;
+  let k: number;
+  if (hObj >= 1) {
+    k = Math.sqrt(
+      Math.max(1e-4, (len * len) / (hObj * hObj) - squash * squash)
+    );
+    elev = (Math.atan(1 / k) * 180) / Math.PI;
+  } else {
+    k = 1 / Math.tan((Math.max(1, Math.min(89, elev)) * Math.PI) / 180);
+  }
+
+  // dir = (k I - squash R90)^-1 (tip - base), up to scale
+  const dirX = k * dx - squash * dy;
+  const dirY = squash * dx + k * dy;
+
+  return {
+    angle: angleFromShadowDir(dirX, dirY),
+    elev: Math.max(1, Math.min(89, elev)),
+  };
+}
+
+// renderShadow casts along (-cos(angle), sin(angle)); invert that.
+function angleFromShadowDir(dirX: number, dirY: number) {
+  const deg = (Math.atan2(dirY, -dirX) * 180) / Math.PI;
+  return (deg + 360) % 360;
+}
+
+// Gaussian mean that ignores the outside of the map (blurAlpha treats it as
+// zero, which would darken the borders).
+function blurMean(map: AlphaMap, sigma: number): Float32Array {
+  const { width: w, height: h } = map;
+  const ones = createAlphaMap(0, 0, w, h);
+  ones.data.fill(1);
+  const sum = blurAlpha(map, sigma, w, h).data;
+  const weight = blurAlpha(ones, sigma, w, h).data;
+  const out = new Float32Array(w * h);
+  for (let i = 0; i < out.length; i++) {
+    out[i] = sum[i] / Math.max(1e-6, weight[i]);
+  }
+  return out;
+}
+
+// Box-downsampled luminance (0..1), longest side at most maxSize.
+function luminanceMap(img: RgbaImage, maxSize: number): AlphaMap {
+  const f = Math.max(1, Math.ceil(Math.max(img.width, img.height) / maxSize));
+  const w = Math.max(1, Math.floor(img.width / f));
+  const h = Math.max(1, Math.floor(img.height / f));
+  const out = createAlphaMap(0, 0, w, h);
+  const d = img.data;
+
+  for (let y = 0; y < h; y++) {
+    for (let x = 0; x < w; x++) {
+      let sum = 0;
+      let count = 0;
+      for (let yy = y * f; yy < Math.min(img.height, (y + 1) * f); yy++) {
+        for (let xx = x * f; xx < Math.min(img.width, (x + 1) * f); xx++) {
+          const i = (yy * img.width + xx) * 4;
+          sum += (0.2126 * d[i] + 0.7152 * d[i + 1] + 0.0722 * d[i + 2]) / 255;
+          count++;
+        }
+      }
+      out.data[y * w + x] = count > 0 ? sum / count : 0;
+    }
+  }
+
+  return out;
+}
@@ -0,0 +1,481 @@
+import type { Rect } from "./affine";
+import type { RgbaImage } from "./image";
+
+// The segmentation runs on a copy this many pixels across (at most); the
+// full-size edge is then settled per pixel by the color models
+const WORK_SIZE = 160;
+
+// Gaussians per color model, model / cut rounds, and the edge weight
+// (GrabCut's gamma): higher follows strong edges more and color less
+const COMPONENTS = 5;
+const ITERATIONS = 4;
+const SMOOTHNESS = 50;
+
+// Samples used to seed the color models (k-means)
+const KMEANS_SAMPLES = 4000;
+const KMEANS_ROUNDS = 6;
+
+// Added to covariance diagonals so flat colors stay invertible
+const COVARIANCE_FLOOR = 1;
+
+const EPS = 1e-9;
+
+type Gaussian = {
+  weight: number;
+  mean: [number, number, number];
+  inverse: number[]; // 3x3, row major
+  logNorm: number; // log(weight / sqrt((2 pi)^3 det))
+};
+
+// -----------------------------
+// GrabCut (Rother et al. 2004): everything outside `box` is backdrop, the
+// inside starts as subject. Alternates learning a Gaussian mixture of each
+// side's colors and a min cut that trades color fit against cutting along
+// weak edges. Runs on a small copy; returns full-size alpha (0..1).
+// -----------------------------
+export function grabCut(img: RgbaImage, box: Rect): Float32Array {
+  const { width: w, height: h } = img;
+  const s = Math.min(1, WORK_SIZE / Math.max(w, h));
+  const ww = Math.max(1, Math.round(w * s));
+  const wh = Math.max(1, Math.round(h * s));
+  const sx = ww / w;
+  const sy = wh / h;
+  const colors = downsample(img, ww, wh);
+  const n = ww * wh;
+
+  // 1 = subject; pixels outside the box are fixed backdrop
+  const inBox = new Uint8Array(n);
+  const bx0 = Math.floor(box.x * sx);
+  const by0 = Math.floor(box.y * sy);
+  const bx1 = Math.ceil((box.x + box.w) * sx);
+  const by1 = Math.ceil((box.y + box.h) * sy);
+  for (let y = Math.max(0, by0); y < Math.min(wh, by1); y++) {
+    for (let x = Math.max(0, bx0); x < Math.min(ww, bx1); x++) {
+      inBox[y * ww + x] = 1;
+    }
+  }
+  const label = inBox.slice();
+
+  const full = new Float32Array(w * h);
+  if (!label.includes(1)) return full;
+  if (!label.includes(0)) return full.fill(1);
+
+  const links = neighbourLinks(colors, ww, wh);
+  const comp = new Uint8Array(n);
+  let fgModel = seedModel(colors, label, 1, comp);
+  let bgModel = seedModel(colors, label, 0, comp);
+
+  for (let it = 0; it < ITERATIONS; it++) {
+    if (it > 0) {
+      for (let p = 0; p < n; p++) {
+        comp[p] = bestComponent(label[p] ? fgModel : bgModel, colors, p);
+      }
+      fgModel = fitModel(colors, label, 1, comp);
+      bgModel = fitModel(colors, label, 0, comp);
+    }
+
+    const source = new Float64Array(n);
+    const sink = new Float64Array(n);
+    for (let p = 0; p < n; p++) {
+      if (!inBox[p]) {
+        sink[p] = Infinity;
+        continue;
+      }
+      // Cut from the source = labelled backdrop, pays the backdrop cost
+      source[p] = -logLikelihood(bgModel, colors, p);
+      sink[p] = -logLikelihood(fgModel, colors, p);
+    }
+
+    const side = minCut(ww, wh, source, sink, links);
+    let changed = 0;
+    for (let p = 0; p < n; p++) {
+      const l = inBox[p] ? side[p] : 0;
+      if (l !== label[p]) changed++;
+      label[p] = l;
+    }
+    if (!label.includes(1)) return full;
+    if (changed === 0) break;
+  }
+
+  // Full size: the small labels, with the edge band between them decided
+  // by each pixel's own color
+  const px = new Float64Array(3);
+  for (let y = 0; y < h; y++) {
+    const fy = Math.min(wh - 1, Math.max(0, (y + 0.5) * sy - 0.5));
+    const y0 = Math.floor(fy);
+    const y1 = Math.min(wh - 1, y0 + 1);
+    const ty = fy - y0;
+    for (let x = 0; x < w; x++) {
+      if (x < box.x || y < box.y || x >= box.x + box.w || y >= box.y + box.h) {
+        continue;
+      }
+      const fx = Math.min(ww - 1, Math.max(0, (x + 0.5) * sx - 0.5));
+      const x0 = Math.floor(fx);
+      const x1 = Math.min(ww - 1, x0 + 1);
+      const tx = fx - x0;
+      const u =
+        (label[y0 * ww + x0] * (1 - tx) + label[y0 * ww + x1] * tx) * (1 - ty) +
+        (label[y1 * ww + x0] * (1 - tx) + label[y1 * ww + x1] * tx) * ty;
+
+      const p = y * w + x;
+      if (u <= 0 || u >= 1) {
+        full[p] = u;
+        continue;
+      }
+      px[0] = img.data[p * 4];
+      px[1] = img.data[p * 4 + 1];
+      px[2] = img.data[p * 4 + 2];
+      const lf = logLikelihood(fgModel, px, 0);
+      const lb = logLikelihood(bgModel, px, 0);
+      full[p] = 1 / (1 + Math.exp(Math.max(-50, Math.min(50, lb - lf))));
+    }
+  }
+  return full;
+}
+
+// Area-averaged RGB at ww x wh
+function downsample(img: RgbaImage, ww: number, wh: number): Float64Array {
+  const { width: w, height: h, data } = img;
+  const out = new Float64Array(ww * wh * 3);
+  const count = new Float64Array(ww * wh);
+  for (let y = 0; y < h; y++) {
+    const ty = Math.min(wh - 1, Math.floor((y * wh) / h));
+    for (let x = 0; x < w; x++) {
+      const t = ty * ww + Math.min(ww - 1, Math.floor((x * ww) / w));
+      const o = (y * w + x) * 4;
+      out[t * 3] += data[o];
+      out[t * 3 + 1] += data[o + 1];
+      out[t * 3 + 2] += data[o + 2];
+      count[t]++;
+    }
+  }
+  for (let t = 0; t < ww * wh; t++) {
+    const k = count[t] > 0 ? 1 / count[t] : 0;
+    out[t * 3] *= k;
+    out[t * 3 + 1] *= k;
+    out[t * 3 + 2] *= k;
+  }
+  return out;
+}
+
+// -----------------------------
+// Color models
+// -----------------------------
+function logLikelihood(model: Gaussian[], colors: Float64Array, p: number) {
+  let max = -Infinity;
+  const terms = model.map((g) => {
+    const t = g.logNorm + logExponent(g, colors, p);
+    max = Math.max(max, t);
+    return t;
+  });
+  if (max === -Infinity) return -1e6;
+  let sum = 0;
+  for (const t of terms) sum += Math.exp(t - max);
+  return max + Math.log(sum);
+}
+
+function bestComponent(model: Gaussian[], colors: Float64Array, p: number) {
+  let best = 0;
+  let bestScore = -Infinity;
+  model.forEach((g, k) => {
+    const score = g.logNorm + logExponent(g, colors, p);
+    if (score > bestScore) {
+      bestScore = score;
+      best = k;
+    }
+  });
+  return best;
+}
+
+function logExponent(g: Gaussian, colors: Float64Array, p: number) {
+  const d0 = colors[p * 3] - g.mean[0];
+  const d1 = colors[p * 3 + 1] - g.mean[1];
+  const d2 = colors[p * 3 + 2] - g.mean[2];
+  const m = g.inverse;
+  return (
+    -0.5 *
+    (d0 * (m[0] * d0 + m[1] * d1 + m[2] * d2) +
+      d1 * (m[3] * d0 + m[4] * d1 + m[5] * d2) +
+      d2 * (m[6] * d0 + m[7] * d1 + m[8] * d2))
+  );
+}
+
+// k-means over a sample of one side's pixels, then a Gaussian per cluster
+function seedModel(
+  colors: Float64Array,
+  label: Uint8Array,
+  side: number,
+  comp: Uint8Array
+): Gaussian[] {
+  const members: number[] = [];
+  for (let p = 0; p < label.length; p++) if (label[p] === side) members.push(p);
+  const stride = Math.max(1, Math.floor(members.length / KMEANS_SAMPLES));
+  const sample = members.filter((_, i) => i % stride === 0);
+
+  const dist2 = (p: number, c: number[]) =>
+    (colors[p * 3] - c[0]) ** 2 +
+    (colors[p * 3 + 1] - c[1]) ** 2 +
+    (colors[p * 3 + 2] - c[2]) ** 2;
+  const colorOf = (p: number) => [
+    colors[p * 3],
+    colors[p * 3 + 1],
+    colors[p * 3 + 2],
+  ];
+  const nearest = (p: number, centers: number[][]) => {
+    let best = 0;
+    for (let k = 1; k < centers.length; k++) {
+      if (dist2(p, centers[k]) < dist2(p, centers[best])) best = k;
+    }
+    return best;
+  };
+
+  // Farthest-point start: deterministic and spread over the colors
+  const centers = [colorOf(sample[0])];
+  while (centers.length < Math.min(COMPONENTS, sample.length)) {
+    let far = sample[0];
+    let farD = -1;
+    for (const p of sample) {
+      const d = Math.min(...centers.map((c) => dist2(p, c)));
+      if (d > farD) {
+        farD = d;
+        far = p;
+      }
+    }
+    if (farD <= 0) break;
+    centers.push(colorOf(far));
+  }
+
+  for (let round = 0; round < KMEANS_ROUNDS; round++) {
+    const sums = centers.map(() => [0, 0, 0, 0]);
+    for (const p of sample) {
+      const s = sums[nearest(p, centers)];
+      s[0] += colors[p * 3];
+      s[1] += colors[p * 3 + 1];
+      s[2] += colors[p * 3 + 2];
+      s[3]++;
+    }
+    sums.forEach((s, k) => {
+      if (s[3] > 0) centers[k] = [s[0] / s[3], s[1] / s[3], s[2] / s[3]];
+    });
+  }
+
+  for (const p of members) comp[p] = nearest(p, centers);
+  return fitModel(colors, label, side, comp);
+}
+
+// Weight, mean and covariance of each component from its pixels
+function fitModel(
+  colors: Float64Array,
+  label: Uint8Array,
+  side: number,
+  comp: Uint8Array
+): Gaussian[] {
+  const acc = Array.from({ length: COMPONENTS }, () => new Float64Array(10));
+  let total = 0;
+  for (let p = 0; p < label.length; p++) {
+    if (label[p] !== side) continue;
+    const a = acc[comp[p]];
+    const r = colors[p * 3];
+    const g = colors[p * 3 + 1];
+    const b = colors[p * 3 + 2];
+    a[0]++;
+    a[1] += r;
+    a[2] += g;
+    a[3] += b;
+    a[4] += r * r;
+    a[5] += r * g;
+    a[6] += r * b;
+    a[7] += g * g;
+    a[8] += g * b;
+    a[9] += b * b;
+    total++;
+  }
+
+  const model: Gaussian[] = [];
+  for (const a of acc) {
+    const count = a[0];
+    if (count === 0) continue;
+    const m: [number, number, number] = [
+      a[1] / count,
+      a[2] / count,
+      a[3] / count,
+    ];
+    const c = [
+      a[4] / count - m[0] * m[0] + COVARIANCE_FLOOR,
+      a[5] / count - m[0] * m[1],
+      a[6] / count - m[0] * m[2],
+      a[7] / count - m[1] * m[1] + COVARIANCE_FLOOR,
+      a[8] / count - m[1] * m[2],
+      a[9] / count - m[2] * m[2] + COVARIANCE_FLOOR,
+    ];
+    // Symmetric 3x3 inverse by cofactors
+    const [xx, xy, xz, yy, yz, zz] = c;
+    const c00 = yy * zz - yz * yz;
+    const c01 = xz * yz - xy * zz;
+    const c02 = xy * yz - xz * yy;
+    const det = xx * c00 + xy * c01 + xz * c02;
+    if (!(det > 0)) continue;
+    const c11 = xx * zz - xz * xz;
+    const c12 = xy * xz - xx * yz;
+    const c22 = xx * yy - xy * xy;
+    const k = 1 / det;
+    const weight = count / total;
+    model.push({
+      weight,
+      mean: m,
+      inverse: [c00, c01, c02, c01, c11, c12, c02, c12, c22].map((v) => v * k),
+      logNorm: Math.log(weight) - 0.5 * Math.log((2 * Math.PI) ** 3 * det),
+    });
+  }
+  return model;
+}
+
+// -----------------------------
+// Graph
+// -----------------------------
+
+// Right, down, down-right and down-left neighbours of each pixel, weighted
+// by how alike their colors are (an 8-connected contrast term)
+function neighbourLinks(colors: Float64Array, w: number, h: number) {
+  const offsets: [number, number, number][] = [
+    [1, 0, 1],
+    [0, 1, 1],
+    [1, 1, Math.SQRT1_2],
+    [-1, 1, Math.SQRT1_2],
+  ];
+  const diff2 = (p: number, q: number) =>
+    (colors[p * 3] - colors[q * 3]) ** 2 +
+    (colors[p * 3 + 1] - colors[q * 3 + 1]) ** 2 +
+    (colors[p * 3 + 2] - colors[q * 3 + 2]) ** 2;
+
+  const pairs: number[] = [];
+  const lengths: number[] = [];
+  let sum = 0;
+  for (let y = 0; y < h; y++) {
+    for (let x = 0; x < w; x++) {
+      for (const [dx, dy, length] of offsets) {
+        const nx = x + dx;
+        const ny = y + dy;
+        if (nx < 0 || nx >= w || ny >= h) continue;
+        const p = y * w + x;
+        const q = ny * w + nx;
+        pairs.push(p, q);
+        lengths.push(length);
+        sum += diff2(p, q);
+      }
+    }
+  }
+  const count = pairs.length / 2;
+  const beta = sum > 0 ? count / (2 * sum) : 0;
+
+  const weights = new Float64Array(count);
+  for (let i = 0, k = 0; i < pairs.length; i += 2, k++) {
+    const p = pairs[i];
+    const q = pairs[i + 1];
+    weights[k] = SMOOTHNESS * lengths[k] * Math.exp(-beta * diff2(p, q));
+  }
+  return { pairs, weights };
+}
+
+// Min s-t cut (Dinic's max flow) over the pixels; 1 where a pixel stays on
+// the source (subject) side
+function minCut(
+  w: number,
+  h: number,
+  source: Float64Array,
+  sink: Float64Array,
+  links: { pairs: number[]; weights: Float64Array }
+): Uint8Array {
+  const n = w * h;
+  const S = n;
+  const T = n + 1;
+  const maxEdges = 2 * (links.weights.length + n);
+  const head = new Int32Array(n + 2).fill(-1);
+  const next = new Int32Array(maxEdges);
+  const to = new Int32Array(maxEdges);
+  const cap = new Float64Array(maxEdges);
+  let edges = 0;
+  const addEdge = (u: number, v: number, c: number, back: number) => {
+    to[edges] = v;
+    cap[edges] = c;
+    next[edges] = head[u];
+    head[u] = edges++;
+    to[edges] = u;
+    cap[edges] = back;
+    next[edges] = head[v];
+    head[v] = edges++;
+  };
+
+  // Only the difference of the two terminal costs matters
+  for (let p = 0; p < n; p++) {
+    const m = Math.min(source[p], sink[p]);
+    const cs = source[p] - m;
+    const ct = sink[p] === Infinity ? 1e12 : sink[p] - m;
+    if (cs > 0) addEdge(S, p, cs, 0);
+    else if (ct > 0) addEdge(p, T, ct, 0);
+  }
+  for (let k = 0; k < links.weights.length; k++) {
+    const c = links.weights[k];
+    addEdge(links.pairs[2 * k], links.pairs[2 * k + 1], c, c);
+  }
+
+  const level = new Int32Array(n + 2);
+  const iter = new Int32Array(n + 2);
+  const queue = new Int32Array(n + 2);
+  const path = new Int32Array(n + 2);
+
+  const bfs = () => {
+    level.fill(-1);
+    level[S] = 0;
+    let qh = 0;
+    let qt = 0;
+    queue[qt++] = S;
+    while (qh < qt) {
+      const u = queue[qh++];
+      for (let e = head[u]; e !== -1; e = next[e]) {
+        if (cap[e] > EPS && level[to[e]] < 0) {
+          level[to[e]] = level[u] + 1;
+          queue[qt++] = to[e];
+        }
+      }
+    }
+    return level[T] >= 0;
+  };
+
+  while (bfs()) {
+    iter.set(head);
+    for (;;) {
+      // One augmenting path along the level graph, dead ends pruned
+      let u = S;
+      let depth = 0;
+      while (u !== T) {
+        let e = iter[u];
+        while (e !== -1 && !(cap[e] > EPS && level[to[e]] === level[u] + 1)) {
+          e = next[e];
+        }
+        iter[u] = e;
+        if (e === -1) {
+          if (depth === 0) break;
+          level[u] = -1;
+          u = to[path[--depth] ^ 1];
+          continue;
+        }
+        path[depth++] = e;
+        u = to[e];
+      }
+      if (u !== T) break;
+
+      let f = Infinity;
+      for (let i = 0; i < depth; i++) f = Math.min(f, cap[path[i]]);
+      for (let i = 0; i < depth; i++) {
+        cap[path[i]] -= f;
+        cap[path[i] ^ 1] += f;
+      }
+    }
+  }
+
+  // Source side: reachable in the residual graph (the last bfs)
+  const side = new Uint8Array(n);
+  for (let p = 0; p < n; p++) side[p] = level[p] >= 0 ? 1 : 0;
+  return side;
+}
@@ -0,0 +1,112 @@
+import type { Affine } from "./affine";
+
+// 3x3 projective matrix, row-major:
+//   [x', y', w'] = [[m0 m1 m2], [m3 m4 m5], [m6 m7 m8]] * [x, y, 1]
+export type Mat3 = [
+  number,
+  number,
+  number,
+  number,
+  number,
+  number,
+  number,
+  number,
+  number,
+];
+
+export function identityMat3(): Mat3 {
+  return [1, 0, 0, 0, 1, 0, 0, 0, 1];
+}
+
+export function mat3FromAffine(m: Affine): Mat3 {
+  const [a, b, c, d, e, f] = m;
+  return [a, c, e, b, d, f, 0, 0, 1];
+}
+
+// multiplyMat3(m1, m2) applies m2 first.
+export function multiplyMat3(m1: Mat3, m2: Mat3): Mat3 {
+  const out = new Array(9).fill(0) as Mat3;
+  for (let r = 0; r < 3; r++) {
+    for (let c = 0; c < 3; c++) {
+      out[r * 3 + c] =
+        m1[r * 3] * m2[c] +
+        m1[r * 3 + 1] * m2[3 + c] +
+        m1[r * 3 + 2] * m2[6 + c];
+    }
+  }
+  return out;
+}
+
+// Returns null for singular matrices.
+export function invertMat3(m: Mat3): Mat3 | null {
+  const [a, b, c, d, e, f, g, h, i] = m;
+  const A = e * i - f * h;
+  const B = -(d * i - f * g);
+  const C = d * h - e * g;
+  const det = a * A + b * B + c * C;
+  if (Math.abs(det) < 1e-12) return null;
+  return [
+    A / det,
+    -(b * i - c * h) / det,
+    (b * f - c * e) / det,
+    B / det,
+    (a * i - c * g) / det,
+    -(a * f - c * d) / det,
+    C / det,
+    -(a * h - b * g) / det,
+    (a * e - b * d) / det,
+  ];
+}
+
+// Projects (x, y); null when the point maps to or behind the horizon (w' <= 0).
+export function applyMat3(
+  m: Mat3,
+  x: number,
+  y: number
+): [number, number] | null {
+  const w = m[6] * x + m[7] * y + m[8];
+  if (w <= 1e-9) return null;
+  return [(m[0] * x + m[1] * y + m[2]) / w, (m[3] * x + m[4] * y + m[5]) / w];
+}
+
+// Like applyMat3 but divides whatever the sign of w'; for inverse matrices,
+// whose w' is negative exactly where the forward map was behind the horizon.
+export function projectMat3(
+  m: Mat3,
+  x: number,
+  y: number
+): [number, number] | null {
+  const w = m[6] * x + m[7] * y + m[8];
+  if (Math.abs(w) < 1e-12) return null;
+  return [(m[0] * x + m[1] * y + m[2]) / w, (m[3] * x + m[4] * y + m[5]) / w];
+}
+
+// Maps the unit square (0,0) (1,0) (1,1) (0,1) onto the quad's corners, in
+// that order (Heckbert). Null for degenerate quads.
+export function squareToQuad(quad: readonly [number, number][]): Mat3 | null {
+  const [[x0, y0], [x1, y1], [x2, y2], [x3, y3]] = quad;
+  const sx = x0 - x1 + x2 - x3;
+  const sy = y0 - y1 + y2 - y3;
+  if (Math.abs(sx) < 1e-9 && Math.abs(sy) < 1e-9) {
+    return [x1 - x0, x3 - x0, x0, y1 - y0, y3 - y0, y0, 0, 0, 1];
+  }
+  const dx1 = x1 - x2;
+  const dx2 = x3 - x2;
+  const dy1 = y1 - y2;
+  const dy2 = y3 - y2;
+  const den = dx1 * dy2 - dx2 * dy1;
+  if (Math.abs(den) < 1e-9) return null;
+  const g = (sx * dy2 - dx2 * sy) / den;
+  const h = (dx1 * sy - sx * dy1) / den;
+  return [
+    x1 - x0 + g * x1,
+    x3 - x0 + h * x3,
+    x0,
+    y1 - y0 + g * y1,
+    y3 - y0 + h * y3,
+    y0,
+    g,
+    h,
+    1,
+  ];
+}
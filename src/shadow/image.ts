@@ -0,0 +1,194 @@
+import { invert, transformedBounds, type Affine } from "./affine";
+
+// Plain, non-premultiplied RGBA8 buffer (same layout as ImageData).
+// Nothing in this module touches the DOM, so it runs in Node as well.
+export type RgbaImage = {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray;
+};
+
+export function createImage(width: number, height: number): RgbaImage {
+  const w = Math.max(0, Math.round(width));
+  const h = Math.max(0, Math.round(height));
+  return { width: w, height: h, data: new Uint8ClampedArray(w * h * 4) };
+}
+
+export function cloneImage(img: RgbaImage): RgbaImage {
+  return { width: img.width, height: img.height, data: img.data.slice() };
+}
+
+export function fillImage(
+  img: RgbaImage,
+  r: number,
+  g: number,
+  b: number,
+  a: number
+) {
+  const d = img.data;
+  for (let i = 0; i < d.length; i += 4) {
+    d[i + 0] = r;
+    d[i + 1] = g;
+    d[i + 2] = b;
+    d[i + 3] = a;
+  }
+}
+
+// Premultiplied bilinear sample at pixel-space (x, y), clamped to the image edge
+// like canvas drawImage smoothing. Writes [r*a, g*a, b*a, a] (a in 0..1) to out.
+export function samplePremul(
+  img: RgbaImage,
+  x: number,
+  y: number,
+  out: Float32Array
+) {
+  const w = img.width;
+  const h = img.height;
+  const d = img.data;
+
+  const fx = Math.max(0, Math.min(w - 1, x - 0.5));
+  const fy = Math.max(0, Math.min(h - 1, y - 0.5));
+  const x0 = Math.floor(fx);
+  const y0 = Math.floor(fy);
+  const x1 = Math.min(w - 1, x0 + 1);
+  const y1 = Math.min(h - 1, y0 + 1);
+  const tx = fx - x0;
+  const ty = fy - y0;
+
+  const o00 = (y0 * w + x0) * 4;
+  const o10 = (y0 * w + x1) * 4;
+  const o01 = (y1 * w + x0) * 4;
+  const o11 = (y1 * w + x1) * 4;
+
+  const w00 = ((1 - tx) * (1 - ty) * d[o00 + 3]) / 255;
+  const w10 = (tx * (1 - ty) * d[o10 + 3]) / 255;
+  const w01 = ((1 - tx) * ty * d[o01 + 3]) / 255;
+  const w11 = (tx * ty * d[o11 + 3]) / 255;
+
+  for (let k = 0; k < 3; k++) {
+    out[k] =
+      d[o00 + k] * w00 + d[o10 + k] * w10 + d[o01 + k] * w01 + d[o11 + k] * w11;
+  }
+  out[3] = w00 + w10 + w01 + w11;
+}
+
+// Bilinear alpha-only sample (0..1), clamped to the image edge.
+export function sampleAlpha(img: RgbaImage, x: number, y: number) {
+  const w = img.width;
+  const h = img.height;
+  const d = img.data;
+
+  const fx = Math.max(0, Math.min(w - 1, x - 0.5));
+  const fy = Math.max(0, Math.min(h - 1, y - 0.5));
+  const x0 = Math.floor(fx);
+  const y0 = Math.floor(fy);
+  const x1 = Math.min(w - 1, x0 + 1);
+  const y1 = Math.min(h - 1, y0 + 1);
+  const tx = fx - x0;
+  const ty = fy - y0;
+
+  const a00 = d[(y0 * w + x0) * 4 + 3];
+  const a10 = d[(y0 * w + x1) * 4 + 3];
+  const a01 = d[(y1 * w + x0) * 4 + 3];
+  const a11 = d[(y1 * w + x1) * 4 + 3];
+
+  const top = a00 + (a10 - a00) * tx;
+  const bot = a01 + (a11 - a01) * tx;
+  return (top + (bot - top) * ty) / 255;
+}
+
+// Equivalent of ctx.setTransform(m); ctx.globalAlpha = opacity; ctx.drawImage(src, 0, 0)
+// with source-over blending and bilinear smoothing.
+export function drawImage(
+  dst: RgbaImage,
+  src: RgbaImage,
+  m: Affine,
+  opacity: number = 1
+) {
+  if (src.width === 0 || src.height === 0) return;
+  const inv = invert(m);
+  if (!inv) return;
+
+  const b = transformedBounds(m, src.width, src.height);
+  const x0 = Math.max(0, Math.floor(b.x));
+  const y0 = Math.max(0, Math.floor(b.y));
+  const x1 = Math.min(dst.width, Math.ceil(b.x + b.w));
+  const y1 = Math.min(dst.height, Math.ceil(b.y + b.h));
+
+  const d = dst.data;
+  const s = new Float32Array(4);
+
+  for (let y = y0; y < y1; y++) {
+    for (let x = x0; x < x1; x++) {
+      const px = x + 0.5;
+      const py = y + 0.5;
+      const u = inv[0] * px + inv[2] * py + inv[4];
+      const v = inv[1] * px + inv[3] * py + inv[5];
+      if (u < 0 || v < 0 || u >= src.width || v >= src.height) continue;
+
+      samplePremul(src, u, v, s);
+      const sa = s[3] * opacity;
+      if (sa <= 0) continue;
+
+      const o = (y * dst.width + x) * 4;
+      const da = d[o + 3] / 255;
+      const outA = sa + da * (1 - sa);
+      if (outA <= 0) continue;
+
+      const keep = da * (1 - sa);
+      d[o + 0] = (s[0] * opacity + d[o + 0] * keep) / outA;
+      d[o + 1] = (s[1] * opacity + d[o + 1] * keep) / outA;
+      d[o + 2] = (s[2] * opacity + d[o + 2] * keep) / outA;
+      d[o + 3] = outA * 255;
+    }
+  }
+}
+
+// Source-over of two images that share the same size and origin.
+export function blendOver(dst: RgbaImage, src: RgbaImage, opacity: number = 1) {
+  if (dst.width !== src.width || dst.height !== src.height) {
+    throw new Error(
+      `blendOver: size mismatch ${src.width}x${src.height} vs ${dst.width}x${dst.height}`
+    );
+  }
+
+  const d = dst.data;
+  const s = src.data;
+  for (let i = 0; i < d.length; i += 4) {
+    const sa = (s[i + 3] / 255) * opacity;
+    if (sa <= 0) continue;
+
+    const da = d[i + 3] / 255;
+    const outA = sa + da * (1 - sa);
+    const keep = da * (1 - sa);
+    d[i + 0] = (s[i + 0] * sa + d[i + 0] * keep) / outA;
+    d[i + 1] = (s[i + 1] * sa + d[i + 1] * keep) / outA;
+    d[i + 2] = (s[i + 2] * sa + d[i + 2] * keep) / outA;
+    d[i + 3] = outA * 255;
+  }
+}
+
+// Multiply blend, like globalCompositeOperation = "multiply": where src is
+// opaque, dst is darkened by src's color; dst alpha is kept.
+export function multiplyOver(
+  dst: RgbaImage,
+  src: RgbaImage,
+  opacity: number = 1
+) {
+  if (dst.width !== src.width || dst.height !== src.height) {
+    throw new Error(
+      `multiplyOver: size mismatch ${src.width}x${src.height} vs ${dst.width}x${dst.height}`
+    );
+  }
+
+  const d = dst.data;
+  const s = src.data;
+  for (let i = 0; i < d.length; i += 4) {
+    const sa = (s[i + 3] / 255) * opacity;
+    if (sa <= 0) continue;
+
+    d[i + 0] *= 1 - sa + (sa * s[i + 0]) / 255;
+    d[i + 1] *= 1 - sa + (sa * s[i + 1]) / 255;
+    d[i + 2] *= 1 - sa + (sa * s[i + 2]) / 255;
+  }
+}
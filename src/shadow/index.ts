@@ -0,0 +1,120 @@
+// Headless shadow pipeline. Everything here works on plain RGBA buffers and
+// has no DOM dependency, so it can run in the browser, a worker or Node.
+//
+//   fg     = removeBackground(photo, removal)   (cutouts with alpha pass through)
+//   mask   = buildMask(refineMask(fg, refinement), placement)
+//   depth  = buildDepthBuffer(depthMap, placement, calib)
+//            (depthMap: an 8-bit image, or float samples from the codecs)
+//            (or estimateDepth(mask) without a depth map)
+//            (alignDepth(depthMap, fg, calib, w, h) lines the map up with the cutout)
+//   layers = sliceDepthLayers(mask, depth, layerCount)
+//   shadow = renderShadow(mask, layers, light, { width, height, placement, depthStrength })
+//            (pass depth itself instead of layers to cast every pixel by its own depth)
+//            (pass ground: { quad } to land it on a calibrated ground plane)
+//            (pass surface: buildSurfaceHeight(bgDepthMap, width, height, settings)
+//             to land it on the background's relief; estimateSurfaceHeight(bg, ...) without a map)
+//            (or renderLights(mask, layers, lights, { ..., ambient }) for several lights)
+//            (= runShadowPlan(planShadow(...)); other renderers run the same plan)
+//   shade  = renderSelfShading(mask, depth, lights, { width, height, placement, strength })
+//   touch  = renderContactShadow(mask, { opacity, spread, falloff }, { width, height, placement })
+//   mirror = renderReflection(fg, mask, { opacity, fade, blur, ripple, ... }, { width, height, placement })
+//   ink    = tintShadow(combineShadows(width, height, shadow, touch), resolveShadowColor(style, bg, ...))
+//   out    = composite(bg, ink, fg, placement, style.blend, shade, mirror)
+
+export type { Affine, Rect } from "./affine";
+export type { AlphaMap } from "./alpha";
+export type { ContactOptions } from "./contact";
+export type { LightEstimate, ShadowReference } from "./estimate";
+export type { Mat3 } from "./homography";
+export type {
+  CasterHeight,
+  PenumbraSigma,
+  PlanRunner,
+  ShadowFade,
+  ShadowPlan,
+  ShadowStep,
+  SurfaceRelief,
+} from "./plan";
+export type { RgbaImage } from "./image";
+export type { PlacementHandle } from "./placement";
+export type {
+  BackgroundRemoval,
+  ContactLine,
+  ContactShadowSettings,
+  DepthAlignment,
+  DepthBuffer,
+  DepthCalibration,
+  DepthEncoding,
+  DepthLayer,
+  DepthMap,
+  GroundPlane,
+  Light,
+  LightPosition,
+  LightingParams,
+  MaskRefinement,
+  MaskStroke,
+  Placement,
+  Point,
+  ReflectionSettings,
+  Rgb,
+  ShadingParams,
+  ShadowDepth,
+  ShadowParams,
+  ShadowStyle,
+  ShadowTarget,
+  SurfaceHeight,
+  SurfaceSettings,
+} from "./types";
+
+export {
+  createImage,
+  cloneImage,
+  drawImage,
+  blendOver,
+  multiplyOver,
+} from "./image";
+export { buildMask } from "./mask";
+export { refineMask } from "./refine";
+export { borderColor, defaultCutoutBox, removeBackground } from "./cutout";
+export {
+  buildDepthBuffer,
+  depthAlignMatrix,
+  estimateDepth,
+  isDepthSamples,
+  sliceDepthLayers,
+  renderDepthMap,
+  renderDepthPreview,
+} from "./depth";
+export { alignDepth } from "./align";
+export {
+  buildSurfaceHeight,
+  estimateSurfaceHeight,
+  renderSurfacePreview,
+} from "./surface";
+export {
+  contactLine,
+  contactPointsToBackground,
+  contactPointsToPlacement,
+  detectContactPoints,
+  fitContactLine,
+} from "./contact";
+export { apply, compose, invert, scale } from "./affine";
+export { applyMat3, invertMat3 } from "./homography";
+export { groundHomography, quadFromVanishingLines } from "./perspective";
+export { planShadow, renderShadow } from "./shadow";
+export { runShadowPlan } from "./plan";
+export { estimateLight, lightFromReference } from "./estimate";
+export { renderLights } from "./lights";
+export { renderContactShadow } from "./occlusion";
+export { renderReflection } from "./reflection";
+export { renderSelfShading } from "./shading";
+export { resolveShadowColor, tintShadow } from "./tint";
+export { combineShadows, composite } from "./composite";
+export {
+  fitPlacement,
+  hitTestPlacement,
+  placementFrame,
+  placementFrameMatrix,
+  placementHandles,
+  placementMatrix,
+} from "./placement";
@@ -0,0 +1,95 @@
+import { createImage, type RgbaImage } from "./image";
+import { runShadowPlan, type PlanRunner } from "./plan";
+import { planShadow } from "./shadow";
+import type { Light, LightingParams, ShadowDepth } from "./types";
+
+// Tint for partially blocked channels is solved against a mid-gray surface
+const TINT_REFERENCE = 128;
+
+// -----------------------------
+// Shadow of several lights. Each light's shadow removes its share of the
+// total illumination (ambient + sum of intensity * color), per channel, so
+// overlapping shadows add up instead of clipping, and a key-light shadow
+// keeps the fill light's color.
+// Returns a source-over RGBA layer: alpha = strongest channel darkening,
+// rgb = tint that leaves the less-darkened channels brighter.
+// Each light's shadow is drawn by `run` (the CPU by default).
+// -----------------------------
+export function renderLights(
+  mask: RgbaImage,
+  depth: ShadowDepth,
+  lights: Light[],
+  params: LightingParams,
+  run: PlanRunner = runShadowPlan
+): RgbaImage {
+  const { width: W, height: H } = params;
+  const ambient = Math.max(0, params.ambient ?? 0);
+  const active = lights.filter((l) => (l.intensity ?? 1) > 0);
+
+  if (active.length === 0) return createImage(W, H);
+  if (active.length === 1 && ambient === 0) {
+    return run(planShadow(mask, depth, active[0], params));
+  }
+
+  const shares = lightShares(active, ambient);
+  const n = W * H;
+  const dark = [new Float32Array(n), new Float32Array(n), new Float32Array(n)];
+
+  active.forEach((l, li) => {
+    const share = shares[li];
+    const s = run(planShadow(mask, depth, l, params)).data;
+    for (let p = 0; p < n; p++) {
+      const a = s[p * 4 + 3];
+      if (a === 0) continue;
+      const cov = a / 255;
+      dark[0][p] += share[0] * cov;
+      dark[1][p] += share[1] * cov;
+      dark[2][p] += share[2] * cov;
+    }
+  });
+
+  return darkeningLayer(dark, W, H);
+}
+
+// Per-channel share of the total illumination (ambient + sum of
+// intensity * color) each light contributes.
+export function lightShares(lights: Light[], ambient: number): number[][] {
+  const total = [ambient, ambient, ambient];
+  for (const l of lights) {
+    const [r, g, b] = l.color ?? [255, 255, 255];
+    const i = l.intensity ?? 1;
+    total[0] += (i * r) / 255;
+    total[1] += (i * g) / 255;
+    total[2] += (i * b) / 255;
+  }
+  return lights.map((l) => {
+    const [r, g, b] = l.color ?? [255, 255, 255];
+    const i = l.intensity ?? 1;
+    return [r, g, b].map((c, ch) =>
+      total[ch] > 0 ? (i * c) / 255 / total[ch] : 0
+    );
+  });
+}
+
+// Per-channel darkening (0..1, one map per channel) as the source-over layer
+// renderLights returns.
+export function darkeningLayer(
+  dark: Float32Array[],
+  W: number,
+  H: number
+): RgbaImage {
+  const n = W * H;
+  const out = createImage(W, H);
+  const d = out.data;
+  for (let p = 0; p < n; p++) {
+    const A = Math.min(1, Math.max(dark[0][p], dark[1][p], dark[2][p]));
+    if (A <= 0) continue;
+    const o = p * 4;
+    for (let ch = 0; ch < 3; ch++) {
+      d[o + ch] = (TINT_REFERENCE * (A - Math.min(1, dark[ch][p]))) / A;
+    }
+    d[o + 3] = A * 255;
+  }
+
+  return out;
+}
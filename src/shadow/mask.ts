@@ -0,0 +1,30 @@
+import { compose, scale } from "./affine";
+import { createImage, drawImage, type RgbaImage } from "./image";
+import { placementFrame, placementFrameMatrix } from "./placement";
+import type { Placement } from "./types";
+
+// White silhouette of the placed (scaled + rotated) foreground, alpha copied
+// from the cutout. Sized to placementFrame(placement).
+export function buildMask(fg: RgbaImage, placement: Placement): RgbaImage {
+  const frame = placementFrame(placement);
+  const mask = createImage(frame.w, frame.h);
+  if (placement.w <= 0 || placement.h <= 0) return mask;
+
+  drawImage(
+    mask,
+    fg,
+    compose(
+      placementFrameMatrix(placement),
+      scale(placement.w / fg.width, placement.h / fg.height)
+    )
+  );
+
+  const d = mask.data;
+  for (let i = 0; i < d.length; i += 4) {
+    d[i + 0] = 255;
+    d[i + 1] = 255;
+    d[i + 2] = 255;
+  }
+
+  return mask;
+}
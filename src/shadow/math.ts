@@ -0,0 +1,20 @@
+export function clamp01(x: number) {
+  return Math.max(0, Math.min(1, x));
+}
+
+export function lerp(a: number, b: number, t: number) {
+  return a + (b - a) * t;
+}
+
+// Piecewise-linear gradient lookup; stops are [offset, value] sorted by offset.
+export function gradientAt(stops: [number, number][], t: number) {
+  if (t <= stops[0][0]) return stops[0][1];
+  for (let i = 1; i < stops.length; i++) {
+    const [t1, v1] = stops[i];
+    if (t <= t1) {
+      const [t0, v0] = stops[i - 1];
+      return lerp(v0, v1, (t - t0) / (t1 - t0));
+    }
+  }
+  return stops[stops.length - 1][1];
+}
@@ -0,0 +1,79 @@
+import { alphaToImage, blurAlpha, createAlphaMap } from "./alpha";
+import { resolveGround } from "./contact";
+import { createImage, type RgbaImage } from "./image";
+import { placementFrame } from "./placement";
+import type { ContactShadowSettings, ShadowTarget } from "./types";
+
+// Vertical / horizontal blur ratio: the ground is seen foreshortened
+const GROUND_SQUASH = 0.35;
+
+// -----------------------------
+// Contact shadow: for every column, how much of the subject sits within
+// `falloff` of the ground (weighted toward the ground), splatted onto the
+// contact line and blurred along it. Black RGBA of target.width x height.
+// -----------------------------
+export function renderContactShadow(
+  mask: RgbaImage,
+  settings: ContactShadowSettings,
+  target: ShadowTarget
+): RgbaImage {
+  const { width: W, height: H, placement } = target;
+  if (mask.width === 0 || mask.height === 0 || settings.opacity <= 0) {
+    return createImage(W, H);
+  }
+
+  const frame = placementFrame(placement);
+  const { slope, b0, height } = resolveGround(mask, placement, target.contact);
+  const falloffPx = Math.max(1, settings.falloff * height);
+  const spreadPx = Math.max(0.5, settings.spread * height);
+
+  const sx = frame.w / mask.width;
+  const sy = frame.h / mask.height;
+  const lineY = (x: number) => b0 + slope * x;
+
+  // 1px-tall strip that follows the contact line across the frame
+  const x0 = Math.max(0, frame.x);
+  const x1 = Math.min(W, frame.x + frame.w);
+  const yA = lineY(frame.x);
+  const yB = lineY(frame.x + frame.w);
+  const y0 = Math.max(0, Math.floor(Math.min(yA, yB)));
+  const y1 = Math.min(H, Math.ceil(Math.max(yA, yB)) + 1);
+  if (x1 <= x0 || y1 <= y0) return createImage(W, H);
+
+  const strip = createAlphaMap(x0, y0, x1 - x0, y1 - y0);
+
+  for (let mx = 0; mx < mask.width; mx++) {
+    const x = frame.x + (mx + 0.5) * sx;
+    if (x < x0 || x >= x1) continue;
+    const gy = lineY(x);
+
+    let occ = 0;
+    for (let my = mask.height - 1; my >= 0; my--) {
+      const v = gy - (frame.y + (my + 0.5) * sy); // height above ground
+      if (v > falloffPx) break;
+
+      const a = mask.data[(my * mask.width + mx) * 4 + 3] / 255;
+      if (a === 0) continue;
+      const t = 1 - Math.max(0, v) / falloffPx;
+      occ = Math.max(occ, a * t * t);
+    }
+    if (occ === 0) continue;
+
+    const py = Math.round(gy) - y0;
+    if (py < 0 || py >= strip.height) continue;
+    const i = py * strip.width + Math.floor(x - x0);
+    strip.data[i] = Math.max(strip.data[i], occ);
+  }
+
+  const sigmaY = spreadPx * GROUND_SQUASH;
+  const blurred = blurAlpha(strip, spreadPx, W, H, sigmaY);
+
+  // A blurred 1px line peaks at 1 / (sqrt(2π) sigmaY); bring it back to ~1
+  const gain = sigmaY > 0.25 ? Math.sqrt(2 * Math.PI) * sigmaY : 1;
+  const d = blurred.data;
+  for (let i = 0; i < d.length; i++) {
+    d[i] = Math.min(1, d[i] * gain) * settings.opacity;
+  }
+
+  return alphaToImage(blurred, W, H);
+}
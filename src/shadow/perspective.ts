@@ -0,0 +1,132 @@
+import {
+  applyMat3,
+  invertMat3,
+  multiplyMat3,
+  squareToQuad,
+  type Mat3,
+} from "./homography";
+import type { GroundPlane, Point } from "./types";
+
+// -----------------------------
+// Ground plane calibration. A GroundPlane marks a real-world rectangle on the
+// photo; its homography G maps ground coordinates (0..aspect across the first
+// edge, 0..1 along the second) to background pixels. Shadows are built in
+// ground coordinates and sent back through G, so they foreshorten with the
+// photo's perspective instead of a constant squash.
+// -----------------------------
+export function groundHomography(plane: GroundPlane): Mat3 | null {
+  const toQuad = squareToQuad(plane.quad);
+  const aspect = plane.aspect ?? 1;
+  if (!toQuad || !(aspect > 0)) return null;
+  return multiplyMat3(toQuad, [1 / aspect, 0, 0, 0, 1, 0, 0, 0, 1]);
+}
+
+// Two pairs of lines, each pair parallel on the real ground and the pairs at
+// right angles (tile seams, road edges...). Their four intersections are the
+// corners of a ground rectangle, in quad order. Null if a pair of crossing
+// lines is parallel in the image too.
+export function quadFromVanishingLines(
+  lines: [Point, Point][]
+): GroundPlane["quad"] | null {
+  if (lines.length !== 4) return null;
+  const [a0, a1, b0, b1] = lines;
+  const corners = [
+    intersect(a0, b0),
+    intersect(a0, b1),
+    intersect(a1, b1),
+    intersect(a1, b0),
+  ];
+  if (corners.some((c) => c === null)) return null;
+  return corners as GroundPlane["quad"];
+}
+
+function intersect([p, q]: [Point, Point], [r, s]: [Point, Point]) {
+  const d1x = q[0] - p[0];
+  const d1y = q[1] - p[1];
+  const d2x = s[0] - r[0];
+  const d2y = s[1] - r[1];
+  const den = d1x * d2y - d1y * d2x;
+  if (Math.abs(den) < 1e-9) return null;
+  const t = ((r[0] - p[0]) * d2y - (r[1] - p[1]) * d2x) / den;
+  return [p[0] + t * d1x, p[1] + t * d1y] as Point;
+}
+
+// The ground around the subject's contact anchor (ax, ay), linearized along
+// the contact line: a canvas point at x sits over the ground point
+//   foot(x) = anchor + (x - ax) * along
+// and screen heights convert to ground units with `scale` (ground units per
+// horizontal pixel at the anchor; the subject is assumed to face the camera).
+export type GroundFrame = {
+  toScreen: Mat3;
+  toGround: Mat3;
+  anchor: Point;
+  along: Point;
+  scale: number;
+  ax: number;
+  b0: number;
+  slope: number;
+};
+
+export function groundFrame(
+  toScreen: Mat3,
+  ax: number,
+  b0: number,
+  slope: number
+): GroundFrame | null {
+  const toGround = invertMat3(toScreen);
+  if (!toGround) return null;
+  const ay = b0 + slope * ax;
+  const anchor = applyMat3(toGround, ax, ay);
+  const along = groundDelta(toGround, ax, ay, 1, slope);
+  const across = groundDelta(toGround, ax, ay, 1, 0);
+  if (!anchor || !along || !across) return null;
+  const scale = Math.hypot(across[0], across[1]);
+  if (scale < 1e-12) return null;
+  return { toScreen, toGround, anchor, along, scale, ax, b0, slope };
+}
+
+// Ground-space change per unit of screen step (dx, dy) at (x, y).
+function groundDelta(
+  toGround: Mat3,
+  x: number,
+  y: number,
+  dx: number,
+  dy: number
+): Point | null {
+  const p = applyMat3(toGround, x + dx, y + dy);
+  const q = applyMat3(toGround, x - dx, y - dy);
+  if (!p || !q) return null;
+  return [(p[0] - q[0]) / 2, (p[1] - q[1]) / 2];
+}
+
+// Canvas -> canvas: each subject point at screen height v above the contact
+// line moves k * v (in ground units) along the ground direction that looks
+// like screen direction (dirX, dirY) at the anchor.
+export function directionalGroundCast(
+  g: GroundFrame,
+  k: number,
+  dirX: number,
+  dirY: number
+): Mat3 | null {
+  const [aX, aY] = g.anchor;
+  const d = groundDelta(g.toGround, g.ax, g.b0 + g.slope * g.ax, dirX, dirY);
+  if (!d) return null;
+  const len = Math.hypot(d[0], d[1]);
+  if (len < 1e-12) return null;
+  const sx = (g.scale * k * d[0]) / len;
+  const sy = (g.scale * k * d[1]) / len;
+  const [tx, ty] = g.along;
+  // ground = anchor + (x - ax) * along + (b0 + slope * x - y) * (sx, sy)
+  const toPlane: Mat3 = [
+    tx + g.slope * sx,
+    -sx,
+    aX - g.ax * tx + g.b0 * sx,
+    ty + g.slope * sy,
+    -sy,
+    aY - g.ax * ty + g.b0 * sy,
+    0,
+    0,
+    1,
+  ];
+  return multiplyMat3(g.toScreen, toPlane);
+}
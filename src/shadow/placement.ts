@@ -0,0 +1,100 @@
+import {
+  apply,
+  compose,
+  invert,
+  rotate,
+  scale,
+  transformedBounds,
+  translate,
+  type Affine,
+  type Rect,
+} from "./affine";
+import type { Placement } from "./types";
+
+type Size = { width: number; height: number };
+
+export type PlacementHandle = "move" | "scale" | "rotate";
+
+// Bottom-center of the background, scaled down (never up) to fit.
+export function fitPlacement(bg: Size, fg: Size): Placement {
+  const scale = Math.min(1, bg.width / fg.width, bg.height / fg.height);
+
+  const w = Math.round(scale * fg.width);
+  const h = Math.round(scale * fg.height);
+  const x = Math.round((bg.width - w) / 2);
+  const y = Math.round(bg.height - h);
+
+  return { x, y, w, h, rotation: 0 };
+}
+
+// Placement box (0,0,w,h) -> background pixel: rotation is about the box center.
+export function placementBoxMatrix(placement: Placement): Affine {
+  const { x, y, w, h, rotation } = placement;
+  return compose(
+    translate(x + w / 2, y + h / 2),
+    rotate((rotation * Math.PI) / 180),
+    translate(-w / 2, -h / 2)
+  );
+}
+
+// Foreground pixel -> background pixel for a placement.
+export function placementMatrix(fg: Size, placement: Placement): Affine {
+  return compose(
+    placementBoxMatrix(placement),
+    scale(placement.w / fg.width, placement.h / fg.height)
+  );
+}
+
+// Integer, axis-aligned bounds of the placed (possibly rotated) foreground.
+// Mask, depth buffer and shadow all work in this frame.
+export function placementFrame(placement: Placement): Rect {
+  const b = transformedBounds(
+    placementBoxMatrix(placement),
+    placement.w,
+    placement.h
+  );
+  const x0 = Math.floor(b.x + 1e-6);
+  const y0 = Math.floor(b.y + 1e-6);
+  const x1 = Math.ceil(b.x + b.w - 1e-6);
+  const y1 = Math.ceil(b.y + b.h - 1e-6);
+  return { x: x0, y: y0, w: Math.max(1, x1 - x0), h: Math.max(1, y1 - y0) };
+}
+
+// Placement box -> frame-local pixel (what buildMask/buildDepthBuffer draw with).
+export function placementFrameMatrix(placement: Placement): Affine {
+  const f = placementFrame(placement);
+  return compose(translate(-f.x, -f.y), placementBoxMatrix(placement));
+}
+
+// Background-space positions of the placement corners (tl, tr, br, bl)
+// and of the rotate handle, which sits `rotateOffset` px above the top edge.
+export function placementHandles(placement: Placement, rotateOffset: number) {
+  const m = placementBoxMatrix(placement);
+  const { w, h } = placement;
+  return {
+    corners: [apply(m, 0, 0), apply(m, w, 0), apply(m, w, h), apply(m, 0, h)],
+    center: apply(m, w / 2, h / 2),
+    rotate: apply(m, w / 2, -rotateOffset),
+  };
+}
+
+// Which interaction a pointer at background pixel (px, py) starts, if any.
+export function hitTestPlacement(
+  placement: Placement,
+  px: number,
+  py: number,
+  tolerance: number,
+  rotateOffset: number
+): PlacementHandle | null {
+  const inv = invert(placementBoxMatrix(placement));
+  if (!inv) return null;
+
+  const [u, v] = apply(inv, px, py);
+  const { w, h } = placement;
+  const near = (x: number, y: number) => Math.hypot(u - x, v - y) <= tolerance;
+
+  if (near(w / 2, -rotateOffset)) return "rotate";
+  if (near(0, 0) || near(w, 0) || near(w, h) || near(0, h)) return "scale";
+  if (u >= 0 && v >= 0 && u <= w && v <= h) return "move";
+  return null;
+}
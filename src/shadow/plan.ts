@@ -0,0 +1,230 @@
+import { apply, type Affine } from "./affine";
+import {
+  alphaToImage,
+  blendAlphaOver,
+  blurAlpha,
+  createAlphaMap,
+  multiplyAlpha,
+  remapAlpha,
+  trimAlpha,
+  variableBlurAlpha,
+  warpAlpha,
+  warpAlphaProjective,
+  type AlphaMap,
+} from "./alpha";
+import { projectMat3, type Mat3 } from "./homography";
+import type { RgbaImage } from "./image";
+import { clamp01, gradientAt } from "./math";
+import { surfaceHeightAt } from "./surface";
+import type { LightPosition, Point, SurfaceHeight } from "./types";
+
+// -----------------------------
+// A cast shadow as data: the steps renderShadow takes on a coverage canvas,
+// with every per-pixel function described by parameters instead of closures.
+// runShadowPlan executes it on the CPU; the WebGL renderer (src/gl) runs the
+// same plan in shaders, so both draw the same shadow.
+// -----------------------------
+
+// Height above the ground line y = b0 + slope * x of whatever casts onto a
+// canvas point, found by sending the point back through `unshear`.
+export type CasterHeight = {
+  // Canvas -> caster position; null: no caster anywhere (height 0)
+  unshear: Mat3 | null;
+  b0: number;
+  slope: number;
+  // Heights clamp to 0..max
+  max: number;
+  // Points that unshear sends to infinity
+  horizon: number;
+};
+
+// Coverage multiplier gain * gradientAt(stops, t), t depending on kind:
+//   along:  distance from origin along dir, over length
+//   height: clamp01(1 - casterHeight / height)
+//   local:  position of the source pixel, 0 at the subject's top .. 1 at the
+//           ground line (clamp01(1 + (y - ground(x)) / height) in canvas
+//           space); pixels outside the source rect get 0 instead
+export type ShadowFade = {
+  stops: [number, number][];
+  gain: number;
+} & (
+  | { kind: "along"; origin: Point; dir: Point; length: number }
+  | { kind: "height"; caster: CasterHeight; height: number }
+  | {
+      kind: "local";
+      // Canvas -> source pixel, source pixel -> unsheared canvas
+      toSource: Mat3;
+      toCanvas: Affine;
+      sourceWidth: number;
+      sourceHeight: number;
+      b0: number;
+      slope: number;
+      height: number;
+    }
+);
+
+// Penumbra stdDev in px: base + gain * h / (lamp ? max(1, lamp - h) : 1)
+// with h the caster height; the lamp height makes it a point light's.
+export type PenumbraSigma = {
+  caster: CasterHeight;
+  base: number;
+  gain: number;
+  lamp: number | null;
+};
+
+// Where the flat shadow shows on a raised background: a point h px above
+// the ground is shaded when the light's ray through it meets the ground in
+// shadow, so canvas point p reads the coverage there. Its ground spot is
+// F = p + (0, h) (straight below on screen), and
+//   directional: F + h * shift  (shift: where 1 px of height casts, from F)
+//   point:       F + (F - L) * h / (hl - h); nothing at or above the lamp
+// with h counted from base (the surface under the subject's contact anchor).
+// The flat shadow ends at the canvas edge, so a wall can only show as much
+// of it as landed on the canvas, and it keeps the ground's penumbra.
+export type SurfaceRelief = {
+  surface: SurfaceHeight;
+  base: number;
+} & (
+  { kind: "directional"; shift: Point } | { kind: "point"; lamp: LightPosition }
+);
+
+export type ShadowStep =
+  // Warp image's alpha through matrix (source px -> canvas), blur it by a
+  // fixed stdDev (0 = sharp), then draw it source-over at opacity
+  | {
+      op: "cast";
+      image: RgbaImage;
+      matrix: Mat3;
+      blur: number;
+      opacity: number;
+    }
+  // Draw coverage that is already in canvas space (splatAlpha's), blurred
+  // and source-over like a cast
+  | { op: "draw"; coverage: AlphaMap; blur: number; opacity: number }
+  // Multiply coverage (destination-in)
+  | { op: "fade"; fade: ShadowFade }
+  // Per-pixel blur, stdDev clamped to maxSigma
+  | { op: "soften"; sigma: PenumbraSigma; maxSigma: number }
+  // Coverage as it lands on the background's relief (last)
+  | { op: "relief"; relief: SurfaceRelief };
+
+export type ShadowPlan = {
+  width: number;
+  height: number;
+  steps: ShadowStep[];
+};
+
+// How plans get drawn (runShadowPlan, or a GPU renderer's run)
+export type PlanRunner = (plan: ShadowPlan) => RgbaImage;
+
+export function casterHeightAt(c: CasterHeight, x: number, y: number) {
+  if (!c.unshear) return 0;
+  const src = projectMat3(c.unshear, x, y);
+  if (!src) return c.horizon;
+  return Math.min(c.max, Math.max(0, c.b0 + c.slope * src[0] - src[1]));
+}
+
+export function penumbraSigmaAt(s: PenumbraSigma, x: number, y: number) {
+  const h = casterHeightAt(s.caster, x, y);
+  return (
+    s.base + (s.gain * h) / (s.lamp === null ? 1 : Math.max(1, s.lamp - h))
+  );
+}
+
+export function fadeAt(f: ShadowFade, x: number, y: number) {
+  let t: number;
+  switch (f.kind) {
+    case "along":
+      t =
+        ((x - f.origin[0]) * f.dir[0] + (y - f.origin[1]) * f.dir[1]) /
+        f.length;
+      break;
+    case "height":
+      t = clamp01(1 - casterHeightAt(f.caster, x, y) / f.height);
+      break;
+    case "local": {
+      const p = projectMat3(f.toSource, x, y);
+      if (!p) return 0;
+      const [u, v] = p;
+      if (u < 0 || v < 0 || u >= f.sourceWidth || v >= f.sourceHeight) {
+        return 0;
+      }
+      const [sx, sy] = apply(f.toCanvas, u, v);
+      t = clamp01(1 + (sy - (f.b0 + f.slope * sx)) / f.height);
+      break;
+    }
+  }
+  return f.gain * gradientAt(f.stops, t);
+}
+
+// Where canvas point (x, y) reads the flat coverage; null = unshaded
+export function reliefAt(r: SurfaceRelief, x: number, y: number): Point | null {
+  const h = surfaceHeightAt(r.surface, x, y) - r.base;
+  const fy = y + h;
+  if (r.kind === "directional") {
+    return [x + h * r.shift[0], fy + h * r.shift[1]];
+  }
+  const { x: lx, y: ly, height: hl } = r.lamp;
+  if (h >= hl) return null;
+  const t = h / (hl - h);
+  return [x + (x - lx) * t, fy + (fy - ly) * t];
+}
+
+function isAffine(m: Mat3) {
+  return m[6] === 0 && m[7] === 0 && m[8] === 1;
+}
+
+// -----------------------------
+// CPU renderer: runs the plan on float coverage maps.
+// Returns a black RGBA image of plan.width x plan.height.
+// -----------------------------
+export function runShadowPlan(plan: ShadowPlan): RgbaImage {
+  const { width: W, height: H } = plan;
+  let acc: AlphaMap = createAlphaMap(0, 0, W, H);
+
+  for (const step of plan.steps) {
+    switch (step.op) {
+      case "cast": {
+        const m = step.matrix;
+        const sharp = isAffine(m)
+          ? warpAlpha(step.image, [m[0], m[3], m[1], m[4], m[2], m[5]], W, H)
+          : warpAlphaProjective(step.image, m, W, H);
+        if (!sharp) break;
+        const src = step.blur > 0 ? blurAlpha(sharp, step.blur, W, H) : sharp;
+        blendAlphaOver(acc, src, step.opacity);
+        break;
+      }
+      case "draw": {
+        const { coverage, blur } = step;
+        const src = blur > 0 ? blurAlpha(coverage, blur, W, H) : coverage;
+        blendAlphaOver(acc, src, step.opacity);
+        break;
+      }
+      case "fade": {
+        const { fade } = step;
+        multiplyAlpha(acc, (x, y) => fadeAt(fade, x, y));
+        break;
+      }
+      case "soften": {
+        const { sigma } = step;
+        acc = variableBlurAlpha(
+          trimAlpha(acc),
+          (x, y) => penumbraSigmaAt(sigma, x, y),
+          step.maxSigma,
+          W,
+          H
+        );
+        break;
+      }
+      case "relief": {
+        const { relief } = step;
+        acc = trimAlpha(
+          remapAlpha(acc, (x, y) => reliefAt(relief, x, y), W, H)
+        );
+        break;
+      }
+    }
+  }
+
+  return alphaToImage(acc, W, H);
+}
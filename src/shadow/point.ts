@@ -0,0 +1,182 @@
+import { compose, scale, translate } from "./affine";
+import { resolveGround } from "./contact";
+import {
+  invertMat3,
+  mat3FromAffine,
+  multiplyMat3,
+  type Mat3,
+} from "./homography";
+import type { RgbaImage } from "./image";
+import { clamp01, lerp } from "./math";
+import { placementFrame } from "./placement";
+import type { CasterHeight, ShadowPlan, ShadowStep } from "./plan";
+import { splatAlpha } from "./splat";
+import { surfaceHeightAt } from "./surface";
+import type { Light, ShadowDepth, ShadowParams } from "./types";
+
+// Penumbra stdDev bounds in px (same as the directional path)
+const MIN_PENUMBRA = 0.5;
+const MAX_PENUMBRA = 64;
+
+// Angular size assumed when the light has none (a bare bulb)
+const DEFAULT_SIZE = 2;
+
+// -----------------------------
+// Point light shadow: every subject pixel at height v above its ground foot F
+// lands where the ray from the lamp through it meets the ground:
+//   S = F + (F - L) * v / (hl - v)
+// with L the lamp's ground spot and hl its height. Along a straight contact
+// line that is a homography of canvas space, so the mask is warped with a
+// true projective transform. Anything at or above the lamp casts nothing.
+// It is the screen image of the 3D construction (the lamp ray meets the
+// lamp's ground line), so it needs no ground plane calibration.
+// Returns the steps for runShadowPlan (see plan.ts).
+// -----------------------------
+export function planPointShadow(
+  mask: RgbaImage,
+  depth: ShadowDepth,
+  light: Light,
+  params: ShadowParams
+): ShadowPlan {
+  const { width: W, height: H, placement, depthStrength } = params;
+
+  const steps: ShadowStep[] = [];
+  const plan = { width: W, height: H, steps };
+  const pos = light.position;
+  if (mask.width === 0 || mask.height === 0 || !pos || pos.height <= 0) {
+    return plan;
+  }
+
+  const frame = placementFrame(placement);
+  const {
+    ax,
+    ay,
+    slope,
+    b0,
+    height: hEff,
+  } = resolveGround(mask, placement, params.contact);
+
+  const maskToCanvas = mat3FromAffine(
+    compose(
+      translate(frame.x, frame.y),
+      scale(frame.w / mask.width, frame.h / mask.height)
+    )
+  );
+
+  // Canvas -> ground projection for a lamp at height hl. With
+  // v = b0 + slope * x - y (height above the ground line):
+  //   X = x * hl - lx * v,  Y = (b0 + slope * x) * hl - ly * v,  w = hl - v
+  const { x: lx, y: ly } = pos;
+  const project = (hl: number): Mat3 => [
+    hl - lx * slope,
+    lx,
+    -lx * b0,
+    slope * (hl - ly),
+    ly,
+    b0 * (hl - ly),
+    -slope,
+    1,
+    hl - b0,
+  ];
+  const castMatrix = (hl: number) => multiplyMat3(project(hl), maskToCanvas);
+
+  // Height above the ground of whatever casts onto canvas (x, y)
+  const caster: CasterHeight = {
+    unshear: invertMat3(project(pos.height)),
+    b0,
+    slope,
+    max: hEff,
+    horizon: hEff,
+  };
+
+  // An area lamp of angular size theta (seen from the subject) has a radius of
+  // about hl * tan(theta / 2); similar triangles give the penumbra width.
+  const radius =
+    pos.height *
+    Math.tan(((Math.max(0, light.size ?? DEFAULT_SIZE) / 2) * Math.PI) / 180);
+  const sigmaAt = (v: number) =>
+    Math.min(
+      MAX_PENUMBRA,
+      MIN_PENUMBRA + (0.5 * radius * v) / Math.max(1, pos.height - v)
+    );
+
+  // deeper -> as if the lamp were lower: longer, lighter shadow
+  const castAt = (z: number) =>
+    castMatrix(pos.height / (1 + Math.max(0, depthStrength) * z));
+  const densityAt = (z: number) =>
+    1 - (1 - lerp(0.85, 0.25, z)) * (1 - lerp(0.06, 0.2, z));
+
+  const layers = Array.isArray(depth) ? depth : [];
+  const field =
+    !Array.isArray(depth) &&
+    depth.width === mask.width &&
+    depth.height === mask.height
+      ? depth
+      : null;
+  if (field) {
+    const maps = splatAlpha(mask, field, castAt, [densityAt], W, H);
+    if (maps) {
+      steps.push({ op: "draw", coverage: maps[0], blur: 0, opacity: 1 });
+    }
+  } else if (layers.length === 0) {
+    steps.push({
+      op: "cast",
+      image: mask,
+      matrix: castMatrix(pos.height),
+      blur: 0,
+      opacity: 0.9,
+    });
+  } else {
+    for (const layer of layers) {
+      const z = clamp01(layer.zMid);
+      steps.push({
+        op: "cast",
+        image: layer.image,
+        matrix: castAt(z),
+        blur: 0,
+        opacity: densityAt(z),
+      });
+    }
+  }
+
+  steps.push(
+    {
+      op: "soften",
+      sigma: {
+        caster,
+        base: MIN_PENUMBRA,
+        gain: 0.5 * radius,
+        lamp: pos.height,
+      },
+      maxSigma: sigmaAt(hEff),
+    },
+    // Fade toward the tip: 1 at the contact line .. 0 where the top casts
+    {
+      op: "fade",
+      fade: {
+        kind: "height",
+        caster,
+        height: hEff,
+        stops: [
+          [0.0, 0.0],
+          [0.6, 0.6],
+          [1.0, 1.0],
+        ],
+        gain: 1,
+      },
+    }
+  );
+  if (params.surface) {
+    steps.push({
+      op: "relief",
+      relief: {
+        kind: "point",
+        surface: params.surface,
+        base: surfaceHeightAt(params.surface, ax, ay),
+        lamp: pos,
+      },
+    });
+  }
+
+  return plan;
+}
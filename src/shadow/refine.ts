@@ -0,0 +1,180 @@
+import { blurAlpha } from "./alpha";
+import { distanceField } from "./distance";
+import { createImage, type RgbaImage } from "./image";
+import { clamp01 } from "./math";
+import type { MaskRefinement, MaskStroke } from "./types";
+
+// Coverage at or above this counts as inside for islands, holes and grow
+const SOLID = 0.5;
+
+// -----------------------------
+// The foreground's alpha cleaned up for use as the shadow mask: threshold,
+// speck removal, hole filling, erode / dilate, brush strokes, then feather.
+// Returns a white image of the cutout's size (buildMask places it), or fg
+// itself when the settings change nothing.
+// -----------------------------
+export function refineMask(fg: RgbaImage, settings: MaskRefinement): RgbaImage {
+  const { threshold, minIsland, fillHoles, grow, strokes, feather } = settings;
+  if (
+    threshold <= 0 &&
+    minIsland <= 0 &&
+    fillHoles <= 0 &&
+    grow === 0 &&
+    strokes.length === 0 &&
+    feather <= 0
+  ) {
+    return fg;
+  }
+
+  const w = fg.width;
+  const h = fg.height;
+  const n = w * h;
+  const a = new Float32Array(n);
+  for (let p = 0; p < n; p++) {
+    const v = fg.data[p * 4 + 3] / 255;
+    a[p] = v < threshold ? 0 : v;
+  }
+
+  if (minIsland > 0) {
+    // Any coverage joins a speck, so its faint fringe goes with it
+    forEachRegion(
+      a,
+      w,
+      h,
+      (v) => v > 0,
+      (pixels) => {
+        if (pixels.length < minIsland) for (const p of pixels) a[p] = 0;
+      }
+    );
+  }
+
+  if (fillHoles > 0) {
+    forEachRegion(
+      a,
+      w,
+      h,
+      (v) => v < SOLID,
+      (pixels, touchesBorder) => {
+        if (touchesBorder || pixels.length > fillHoles) return;
+        for (const p of pixels) a[p] = 1;
+      }
+    );
+  }
+
+  if (grow !== 0) {
+    // Distances between pixel centers; the last pixel is ramped so the edge
+    // stays antialiased. The frame edge neither grows nor erodes anything.
+    const solid = new Uint8Array(n);
+    for (let p = 0; p < n; p++) solid[p] = a[p] >= SOLID ? 1 : 0;
+    if (grow > 0) {
+      for (let p = 0; p < n; p++) solid[p] ^= 1;
+      const dist = distanceField(solid, w, h, false);
+      for (let p = 0; p < n; p++) {
+        if (solid[p]) a[p] = Math.max(a[p], clamp01(grow + 1 - dist[p]));
+      }
+    } else {
+      const dist = distanceField(solid, w, h, false);
+      for (let p = 0; p < n; p++) {
+        if (solid[p]) a[p] = Math.min(a[p], clamp01(dist[p] + grow));
+      }
+    }
+  }
+
+  for (const stroke of strokes) applyStroke(a, w, h, stroke);
+
+  const edge =
+    feather > 0
+      ? blurAlpha({ x: 0, y: 0, width: w, height: h, data: a }, feather, w, h)
+          .data
+      : a;
+
+  const out = createImage(w, h);
+  for (let p = 0; p < n; p++) {
+    const o = p * 4;
+    out.data[o] = 255;
+    out.data[o + 1] = 255;
+    out.data[o + 2] = 255;
+    out.data[o + 3] = Math.round(clamp01(edge[p]) * 255);
+  }
+  return out;
+}
+
+// 8-connected regions of the pixels where `inside`, one call each with its
+// pixel indices and whether it reaches the image border
+function forEachRegion(
+  a: Float32Array,
+  w: number,
+  h: number,
+  inside: (v: number) => boolean,
+  visit: (pixels: number[], touchesBorder: boolean) => void
+) {
+  const seen = new Uint8Array(w * h);
+  const stack: number[] = [];
+  for (let start = 0; start < w * h; start++) {
+    if (seen[start] || !inside(a[start])) continue;
+    const pixels: number[] = [];
+    let touchesBorder = false;
+    seen[start] = 1;
+    stack.push(start);
+    while (stack.length > 0) {
+      const p = stack.pop()!;
+      pixels.push(p);
+      const x = p % w;
+      const y = (p - x) / w;
+      if (x === 0 || y === 0 || x === w - 1 || y === h - 1) {
+        touchesBorder = true;
+      }
+      for (let dy = -1; dy <= 1; dy++) {
+        const ny = y + dy;
+        if (ny < 0 || ny >= h) continue;
+        for (let dx = -1; dx <= 1; dx++) {
+          const nx = x + dx;
+          if (nx < 0 || nx >= w) continue;
+          const q = ny * w + nx;
+          if (seen[q] || !inside(a[q])) continue;
+          seen[q] = 1;
+          stack.push(q);
+        }
+      }
+    }
+    visit(pixels, touchesBorder);
+  }
+}
+
+// Paint / erase a round brush along the stroke, antialiased over one pixel
+function applyStroke(
+  a: Float32Array,
+  w: number,
+  h: number,
+  stroke: MaskStroke
+) {
+  const { points, radius } = stroke;
+  if (points.length === 0 || radius <= 0) return;
+  const erase = stroke.mode === "erase";
+
+  for (let i = 0; i < points.length; i++) {
+    const [x0, y0] = points[Math.max(0, i - 1)];
+    const [x1, y1] = points[i];
+    const dx = x1 - x0;
+    const dy = y1 - y0;
+    const len2 = dx * dx + dy * dy;
+
+    const left = Math.max(0, Math.floor(Math.min(x0, x1) - radius - 1));
+    const right = Math.min(w, Math.ceil(Math.max(x0, x1) + radius + 1));
+    const top = Math.max(0, Math.floor(Math.min(y0, y1) - radius - 1));
+    const bottom = Math.min(h, Math.ceil(Math.max(y0, y1) + radius + 1));
+    for (let y = top; y < bottom; y++) {
+      for (let x = left; x < right; x++) {
+        // Distance from the pixel center to the segment
+        const px = x + 0.5 - x0;
+        const py = y + 0.5 - y0;
+        const t = len2 > 0 ? clamp01((px * dx + py * dy) / len2) : 0;
+        const d = Math.hypot(px - t * dx, py - t * dy);
+        const cover = clamp01(radius + 0.5 - d);
+        if (cover <= 0) continue;
+        const p = y * w + x;
+        a[p] = erase ? Math.min(a[p], 1 - cover) : Math.max(a[p], cover);
+      }
+    }
+  }
+}
@@ -0,0 +1,102 @@
+import { compose, translate } from "./affine";
+import { createAlphaMap, variableBlurAlpha } from "./alpha";
+import { resolveGround } from "./contact";
+import { createImage, drawImage, samplePremul, type RgbaImage } from "./image";
+import { placementFrame, placementMatrix } from "./placement";
+import type { ReflectionSettings, ShadowTarget } from "./types";
+
+// Cap on the distance blur (px stdDev); rougher floors show no image anyway
+const MAX_BLUR = 32;
+
+// -----------------------------
+// Reflection: the placed foreground mirrored vertically about the contact
+// line, fading out `fade` below it, blurred more the farther it is from the
+// line, and swayed sideways by ripples. RGBA of target.width x height, to go
+// between the background and the subject (see composite).
+// -----------------------------
+export function renderReflection(
+  fg: RgbaImage,
+  mask: RgbaImage,
+  settings: ReflectionSettings,
+  target: ShadowTarget
+): RgbaImage {
+  const { width: W, height: H, placement } = target;
+  const out = createImage(W, H);
+  if (!settings.enabled || settings.opacity <= 0) return out;
+  if (fg.width === 0 || fg.height === 0 || mask.width === 0) return out;
+
+  const frame = placementFrame(placement);
+  const { slope, b0, height } = resolveGround(mask, placement, target.contact);
+  const lineY = (x: number) => b0 + slope * x;
+  const reach = Math.max(1, settings.fade * height);
+  const sway = Math.max(0, settings.ripple) * height;
+  const wave = Math.max(1, settings.wavelength * height);
+
+  // The subject as composited, in frame pixels
+  const placed = createImage(frame.w, frame.h);
+  drawImage(
+    placed,
+    fg,
+    compose(translate(-frame.x, -frame.y), placementMatrix(fg, placement))
+  );
+
+  // Band under the line, as wide as the frame plus the sway
+  const x0 = Math.max(0, Math.floor(frame.x - sway));
+  const x1 = Math.min(W, Math.ceil(frame.x + frame.w + sway));
+  const yA = lineY(x0);
+  const yB = lineY(x1);
+  const y0 = Math.max(0, Math.floor(Math.min(yA, yB)));
+  const y1 = Math.min(H, Math.ceil(Math.max(yA, yB) + reach));
+  if (x1 <= x0 || y1 <= y0) return out;
+
+  // Premultiplied r, g, b (0..1) and alpha
+  let channels = [0, 1, 2, 3].map(() =>
+    createAlphaMap(x0, y0, x1 - x0, y1 - y0)
+  );
+  const s = new Float32Array(4);
+  for (let y = y0, i = 0; y < y1; y++) {
+    for (let x = x0; x < x1; x++, i++) {
+      const gy = lineY(x + 0.5);
+      const d = y + 0.5 - gy;
+      if (d < 0 || d >= reach) continue;
+      // Ripples start flat at the line, so the subject stays on its reflection
+      const u = x + 0.5 + sway * Math.sin((2 * Math.PI * d) / wave) - frame.x;
+      const v = gy - d - frame.y;
+      if (u < 0 || v < 0 || u >= frame.w || v >= frame.h) continue;
+
+      samplePremul(placed, u, v, s);
+      if (s[3] <= 0) continue;
+      const t = 1 - d / reach;
+      const k = settings.opacity * t * t;
+      channels[0].data[i] = (s[0] / 255) * k;
+      channels[1].data[i] = (s[1] / 255) * k;
+      channels[2].data[i] = (s[2] / 255) * k;
+      channels[3].data[i] = s[3] * k;
+    }
+  }
+
+  if (settings.blur > 0) {
+    const maxSigma = Math.min(MAX_BLUR, settings.blur * reach);
+    const sigmaAt = (x: number, y: number) =>
+      settings.blur * Math.max(0, y - lineY(x));
+    channels = channels.map((c) =>
+      variableBlurAlpha(c, sigmaAt, maxSigma, W, H)
+    );
+  }
+
+  const [r, g, b, a] = channels;
+  const od = out.data;
+  for (let y = 0; y < a.height; y++) {
+    for (let x = 0; x < a.width; x++) {
+      const i = y * a.width + x;
+      const alpha = a.data[i];
+      if (alpha <= 0) continue;
+      const o = ((a.y + y) * W + a.x + x) * 4;
+      od[o] = (r.data[i] / alpha) * 255;
+      od[o + 1] = (g.data[i] / alpha) * 255;
+      od[o + 2] = (b.data[i] / alpha) * 255;
+      od[o + 3] = alpha * 255;
+    }
+  }
+  return out;
+}
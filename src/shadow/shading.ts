@@ -0,0 +1,200 @@
+import { blurAlpha, createAlphaMap } from "./alpha";
+import { resolveGround } from "./contact";
+import { createImage, type RgbaImage } from "./image";
+import { darkeningLayer, lightShares } from "./lights";
+import { clamp01 } from "./math";
+import { placementFrame } from "./placement";
+import type { DepthBuffer, Light, ShadingParams } from "./types";
+
+// Depth 0..1 spans this fraction of the subject's larger side, in px
+const RELIEF = 0.5;
+
+// Depth smoothing before taking normals (hides 8-bit steps), stdDev in px
+const SMOOTH = 1.5;
+
+// Self-shadow rays travel up to MARCH of the subject's larger side. A ray
+// counts as blocked once the surface is more than BIAS px in front of it,
+// fully so SOFTNESS px further.
+const MARCH = 0.3;
+const BIAS = 1;
+const SOFTNESS = 2;
+
+// Self-shadow fades out over this range of cos(normal, ray) around 0:
+// surfaces turned away from the light are already dimmed by the Lambert term
+const TERMINATOR = 0.2;
+
+// Lit surfaces are compared against one facing the camera (the subject as
+// photographed); this floor keeps backlit references from blowing up.
+const MIN_REFERENCE = 0.05;
+
+// -----------------------------
+// Shading of the subject itself from its depth map: the depth becomes a
+// relief facing the camera, lit by the same lights as the cast shadow
+// (wrapped Lambert against its normals, and rays marched across it toward
+// each light for self-shadowing). Only darkens: a surface turned toward the
+// light keeps the photo as is, one turned away (or in self-shadow) loses
+// that light's share, like renderLights.
+// Returns a source-over layer in the placement frame (same size as the mask),
+// already clipped to the mask and scaled by params.strength.
+// -----------------------------
+export function renderSelfShading(
+  mask: RgbaImage,
+  depth: DepthBuffer,
+  lights: Light[],
+  params: ShadingParams
+): RgbaImage {
+  const w = mask.width;
+  const h = mask.height;
+  const strength = clamp01(params.strength);
+  const active = lights.filter(
+    (l) => (l.intensity ?? 1) > 0 && (l.kind !== "point" || l.position)
+  );
+  if (
+    depth.width !== w ||
+    depth.height !== h ||
+    w === 0 ||
+    h === 0 ||
+    strength === 0 ||
+    active.length === 0
+  ) {
+    return createImage(w, h);
+  }
+
+  const n = w * h;
+  const alpha = new Float32Array(n);
+  for (let p = 0; p < n; p++) alpha[p] = mask.data[p * 4 + 3] / 255;
+
+  // Surface height toward the viewer (t = -relief * depth), smoothed with
+  // mask weights so the background's depth doesn't bleed in at the edges
+  const weight = createAlphaMap(0, 0, w, h);
+  const weighted = createAlphaMap(0, 0, w, h);
+  for (let p = 0; p < n; p++) {
+    weight.data[p] = alpha[p];
+    weighted.data[p] = alpha[p] * depth.data[p];
+  }
+  const wb = blurAlpha(weight, SMOOTH, w, h).data;
+  const db = blurAlpha(weighted, SMOOTH, w, h).data;
+  const relief = RELIEF * Math.max(w, h);
+  const surf = new Float32Array(n);
+  let tMax = -Infinity;
+  for (let p = 0; p < n; p++) {
+    const z = wb[p] > 1e-4 ? db[p] / wb[p] : depth.data[p];
+    surf[p] = -relief * z;
+    if (alpha[p] > 0) tMax = Math.max(tMax, surf[p]);
+  }
+
+  // Unit normals (x right, y down, t toward the viewer)
+  const nx = new Float32Array(n);
+  const ny = new Float32Array(n);
+  const nt = new Float32Array(n);
+  for (let y = 0; y < h; y++) {
+    for (let x = 0; x < w; x++) {
+      const p = y * w + x;
+      if (alpha[p] === 0) continue;
+      const xl = Math.max(0, x - 1);
+      const xr = Math.min(w - 1, x + 1);
+      const yu = Math.max(0, y - 1);
+      const yd = Math.min(h - 1, y + 1);
+      const gx = (surf[y * w + xr] - surf[y * w + xl]) / Math.max(1, xr - xl);
+      const gy = (surf[yd * w + x] - surf[yu * w + x]) / Math.max(1, yd - yu);
+      const len = Math.hypot(gx, gy, 1);
+      nx[p] = -gx / len;
+      ny[p] = -gy / len;
+      nt[p] = 1 / len;
+    }
+  }
+
+  // Fraction of the light reaching pixel (x, y) along (lx, ly, lt). A light
+  // behind the subject is the wrapped Lambert's job: rays never dip behind
+  // the relief (it has no back to block them).
+  const maxSteps = Math.ceil(MARCH * Math.max(w, h));
+  const visibility = (
+    x: number,
+    y: number,
+    lx: number,
+    ly: number,
+    lt: number
+  ) => {
+    const len = Math.hypot(lx, ly);
+    if (len < 1e-3) return 1;
+    const p = y * w + x;
+    const rt = Math.max(0, lt);
+    const facing =
+      (nx[p] * lx + ny[p] * ly + nt[p] * rt) / Math.hypot(lx, ly, rt);
+    const weight = clamp01((facing + TERMINATOR) / (2 * TERMINATOR));
+    if (weight === 0) return 1;
+    const sx = lx / len;
+    const sy = ly / len;
+    const dt = rt / len;
+    const t0 = surf[p];
+    let vis = 1;
+    for (let r = 1; r <= maxSteps; r++) {
+      const qx = Math.round(x + sx * r);
+      const qy = Math.round(y + sy * r);
+      if (qx < 0 || qy < 0 || qx >= w || qy >= h) break;
+      const ray = t0 + dt * r;
+      if (ray > tMax + BIAS) break;
+      const q = qy * w + qx;
+      if (alpha[q] < 0.5) continue;
+      const blocked = (surf[q] - ray - BIAS) / SOFTNESS;
+      if (blocked > 0) vis = Math.min(vis, 1 - clamp01(blocked));
+      if (vis === 0) break;
+    }
+    return 1 - weight * (1 - vis);
+  };
+
+  const frame = placementFrame(params.placement);
+  const { b0, slope } = resolveGround(mask, params.placement, params.contact);
+  const shares = lightShares(active, Math.max(0, params.ambient ?? 0));
+  const dark = [new Float32Array(n), new Float32Array(n), new Float32Array(n)];
+
+  active.forEach((light, li) => {
+    const share = shares[li];
+    const elev = (Math.max(1, Math.min(89, light.elev)) * Math.PI) / 180;
+    const angle = (light.angle * Math.PI) / 180;
+    let lx = Math.cos(angle) * Math.cos(elev);
+    let ly = -Math.sin(elev);
+    let lt = -Math.sin(angle) * Math.cos(elev);
+    const lamp = light.kind === "point" ? light.position : undefined;
+
+    for (let y = 0; y < h; y++) {
+      for (let x = 0; x < w; x++) {
+        const p = y * w + x;
+        if (alpha[p] === 0) continue;
+
+        if (lamp) {
+          // Toward the lamp from this pixel's spot above its ground foot
+          // (screen depth of the ground stands in for distance)
+          const cx = frame.x + x + 0.5;
+          const cy = frame.y + y + 0.5;
+          const foot = b0 + slope * cx;
+          lx = lamp.x - cx;
+          ly = -(lamp.height - (foot - cy));
+          lt = lamp.y - foot;
+          const len = Math.hypot(lx, ly, lt);
+          if (len < 1e-6) continue;
+          lx /= len;
+          ly /= len;
+          lt /= len;
+        }
+
+        const lit = (nx[p] * lx + ny[p] * ly + nt[p] * lt + 1) / 2;
+        const reference = Math.max(MIN_REFERENCE, (lt + 1) / 2);
+        const dim =
+          1 - Math.min(1, (lit * visibility(x, y, lx, ly, lt)) / reference);
+        if (dim <= 0) continue;
+        dark[0][p] += share[0] * dim;
+        dark[1][p] += share[1] * dim;
+        dark[2][p] += share[2] * dim;
+      }
+    }
+  });
+
+  for (let p = 0; p < n; p++) {
+    const k = strength * alpha[p];
+    dark[0][p] *= k;
+    dark[1][p] *= k;
+    dark[2][p] *= k;
+  }
+  return darkeningLayer(dark, w, h);
+}
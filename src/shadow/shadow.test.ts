@@ -0,0 +1,250 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildMask,
+  composite,
+  contactLine,
+  createImage,
+  placementFrame,
+  renderShadow,
+  type Light,
+  type Placement,
+  type RgbaImage,
+} from ".";
+
+// A 200 x 100 background with a 20 x 40 opaque subject standing on y = 80,
+// centered on x = 100
+const W = 200;
+const H = 100;
+const PLACEMENT: Placement = { x: 90, y: 40, w: 20, h: 40, rotation: 0 };
+
+function solid(width: number, height: number, rgba: number[]): RgbaImage {
+  const img = createImage(width, height);
+  for (let p = 0; p < width * height; p++) img.data.set(rgba, p * 4);
+  return img;
+}
+
+function pixel(img: RgbaImage, x: number, y: number) {
+  const i = (y * img.width + x) * 4;
+  return [...img.data.subarray(i, i + 4)];
+}
+
+// Alpha-weighted centroid and extent of the pixels with alpha above 8
+function alphaStats(img: RgbaImage) {
+  let sum = 0;
+  let cx = 0;
+  let cy = 0;
+  let minX = Infinity;
+  let maxX = -Infinity;
+  let minY = Infinity;
+  let maxY = -Infinity;
+  for (let y = 0; y < img.height; y++) {
+    for (let x = 0; x < img.width; x++) {
+      const a = img.data[(y * img.width + x) * 4 + 3];
+      sum += a;
+      cx += a * x;
+      cy += a * y;
+      if (a <= 8) continue;
+      minX = Math.min(minX, x);
+      maxX = Math.max(maxX, x);
+      minY = Math.min(minY, y);
+      maxY = Math.max(maxY, y);
+    }
+  }
+  return { sum, cx: cx / sum, cy: cy / sum, minX, maxX, minY, maxY };
+}
+
+function shadowOf(light: Light, fg = solid(20, 40, [255, 255, 255, 255])) {
+  const mask = buildMask(fg, PLACEMENT);
+  const contact = contactLine(mask, PLACEMENT, null);
+  return renderShadow(mask, [], light, {
+    width: W,
+    height: H,
+    placement: PLACEMENT,
+    depthStrength: 0,
+    contact,
+  });
+}
+
+describe("buildMask", () => {
+  it("is a white silhouette of the placed cutout, sized to its frame", () => {
+    const fg = solid(10, 20, [255, 0, 0, 128]);
+    const mask = buildMask(fg, { x: 5, y: 5, w: 10, h: 20, rotation: 0 });
+
+    expect([mask.width, mask.height]).toEqual([10, 20]);
+    expect(pixel(mask, 5, 10)).toEqual([255, 255, 255, 128]);
+  });
+
+  it("scales the cutout to the placement", () => {
+    const fg = solid(10, 10, [0, 0, 0, 255]);
+    const mask = buildMask(fg, { x: 0, y: 0, w: 30, h: 20, rotation: 0 });
+
+    expect([mask.width, mask.height]).toEqual([30, 20]);
+    expect(pixel(mask, 29, 19)[3]).toBe(255);
+  });
+
+  it("grows its frame to hold a rotated placement", () => {
+    const placement = { x: 0, y: 0, w: 40, h: 10, rotation: 90 };
+    const mask = buildMask(solid(40, 10, [0, 0, 0, 255]), placement);
+    const frame = placementFrame(placement);
+
+    expect([mask.width, mask.height]).toEqual([frame.w, frame.h]);
+    expect([frame.w, frame.h]).toEqual([10, 40]);
+    expect(pixel(mask, 5, 20)[3]).toBe(255);
+  });
+
+  it("keeps transparent pixels out", () => {
+    const fg = solid(10, 10, [255, 255, 255, 255]);
+    for (let y = 0; y < 10; y++) fg.data[(y * 10 + 0) * 4 + 3] = 0;
+    const mask = buildMask(fg, { x: 0, y: 0, w: 10, h: 10, rotation: 0 });
+
+    expect(pixel(mask, 0, 5)[3]).toBe(0);
+    expect(pixel(mask, 5, 5)[3]).toBe(255);
+  });
+});
+
+describe("renderShadow", () => {
+  it("draws black with the shadow in alpha, at the background's size", () => {
+    const shadow = shadowOf({ angle: 0, elev: 45 });
+
+    expect([shadow.width, shadow.height]).toEqual([W, H]);
+    const stats = alphaStats(shadow);
+    expect(stats.sum).toBeGreaterThan(0);
+    for (let i = 0; i < shadow.data.length; i += 4) {
+      if (shadow.data[i + 3] === 0) continue;
+      expect([shadow.data[i], shadow.data[i + 1], shadow.data[i + 2]]).toEqual([
+        0, 0, 0,
+      ]);
+    }
+  });
+
+  it("falls away from the light", () => {
+    const left = alphaStats(shadowOf({ angle: 0, elev: 45 }));
+    const right = alphaStats(shadowOf({ angle: 180, elev: 45 }));
+
+    // Light at 0° throws the shadow left and in front of the contact line,
+    // at 180° right and behind it
+    expect(left.cx).toBeLessThan(100);
+    expect(left.cy).toBeGreaterThan(80);
+    expect(right.cx).toBeGreaterThan(100);
+    expect(right.cy).toBeLessThan(80);
+  });
+
+  it("starts at the subject's feet", () => {
+    const shadow = shadowOf({ angle: 0, elev: 45 });
+
+    expect(pixel(shadow, 100, 81)[3]).toBeGreaterThan(100);
+  });
+
+  it("pivots on the contact line", () => {
+    // Feet at y = 70: the cutout's lowest quarter is empty
+    const fg = solid(20, 40, [255, 255, 255, 255]);
+    fg.data.fill(0, 30 * 20 * 4);
+    const raised = shadowOf({ angle: 0, elev: 45 }, fg);
+
+    expect(pixel(raised, 100, 71)[3]).toBeGreaterThan(100);
+    expect(pixel(shadowOf({ angle: 0, elev: 45 }), 100, 71)[3]).toBe(0);
+
+    // Manual points put it there on the whole cutout
+    const mask = buildMask(solid(20, 40, [255, 255, 255, 255]), PLACEMENT);
+    const contact = contactLine(mask, PLACEMENT, [
+      [0.2, 0.75],
+      [0.8, 0.75],
+    ]);
+    expect(contact).toMatchObject({ y0: 70, y1: 70 });
+  });
+
+  it("gets longer as the light gets lower", () => {
+    const high = alphaStats(shadowOf({ angle: 0, elev: 70 }));
+    const mid = alphaStats(shadowOf({ angle: 0, elev: 45 }));
+    const low = alphaStats(shadowOf({ angle: 0, elev: 20 }));
+
+    expect(mid.minX).toBeLessThan(high.minX);
+    expect(low.minX).toBeLessThan(mid.minX);
+  });
+
+  it("softens away from the feet with a larger light", () => {
+    // Pixels between clear and solid
+    const soft = (img: RgbaImage) =>
+      img.data.filter((a, i) => i % 4 === 3 && a > 8 && a < 200).length;
+    const point = shadowOf({ angle: 0, elev: 45, size: 0 });
+    const area = shadowOf({ angle: 0, elev: 45, size: 10 });
+
+    expect(soft(area)).toBeGreaterThan(soft(point));
+    // Still hard where it touches
+    expect(pixel(area, 100, 81)[3]).toBeGreaterThan(100);
+  });
+
+  it("is empty for an empty mask", () => {
+    const shadow = shadowOf(
+      { angle: 0, elev: 45 },
+      solid(20, 40, [255, 255, 255, 0])
+    );
+
+    expect(alphaStats(shadow).sum).toBe(0);
+  });
+
+  it("is the same on every run", () => {
+    const a = shadowOf({ angle: 30, elev: 40, size: 4 });
+    const b = shadowOf({ angle: 30, elev: 40, size: 4 });
+
+    expect(a.data).toEqual(b.data);
+  });
+});
+
+describe("composite", () => {
+  const bg = solid(W, H, [200, 100, 50, 255]);
+  const fg = solid(20, 40, [10, 20, 30, 255]);
+
+  it("copies the background when there is nothing to add", () => {
+    const out = composite(bg, null, null, null);
+
+    expect(out.data).toEqual(bg.data);
+    expect(out.data).not.toBe(bg.data);
+  });
+
+  it("lays the shadow over the background", () => {
+    const shadow = createImage(W, H);
+    shadow.data.set([0, 0, 0, 128], (10 * W + 10) * 4);
+    const out = composite(bg, shadow, null, null);
+
+    expect(pixel(out, 10, 10)).toEqual([100, 50, 25, 255]);
+    expect(pixel(out, 11, 10)).toEqual([200, 100, 50, 255]);
+  });
+
+  it("multiplies a colored shadow in with the multiply blend", () => {
+    const shadow = solid(W, H, [0, 0, 255, 255]);
+
+    expect(pixel(composite(bg, shadow, null, null), 0, 0)).toEqual([
+      0, 0, 255, 255,
+    ]);
+    expect(pixel(composite(bg, shadow, null, null, "multiply"), 0, 0)).toEqual([
+      0, 0, 50, 255,
+    ]);
+  });
+
+  it("draws the foreground at its placement, over shadow and reflection", () => {
+    const shadow = solid(W, H, [0, 0, 0, 255]);
+    const reflection = solid(W, H, [255, 255, 255, 255]);
+    const out = composite(
+      bg,
+      shadow,
+      fg,
+      PLACEMENT,
+      "normal",
+      null,
+      reflection
+    );
+
+    expect(pixel(out, 100, 60)).toEqual([10, 20, 30, 255]);
+    // The reflection goes over the shadow
+    expect(pixel(out, 20, 20)).toEqual([255, 255, 255, 255]);
+  });
+
+  it("puts the shading on the subject's frame", () => {
+    const shading = solid(20, 40, [0, 0, 0, 255]);
+    const out = composite(bg, null, fg, PLACEMENT, "normal", shading);
+
+    expect(pixel(out, 100, 60)).toEqual([0, 0, 0, 255]);
+    expect(pixel(out, 50, 60)).toEqual([200, 100, 50, 255]);
+  });
+});
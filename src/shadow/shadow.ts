@@ -0,0 +1,325 @@
+import { compose, scale, translate, type Affine } from "./affine";
+import { resolveGround } from "./contact";
+import {
+  applyMat3,
+  invertMat3,
+  mat3FromAffine,
+  multiplyMat3,
+  type Mat3,
+} from "./homography";
+import type { RgbaImage } from "./image";
+import { clamp01, lerp } from "./math";
+import {
+  directionalGroundCast,
+  groundFrame,
+  groundHomography,
+} from "./perspective";
+import {
+  runShadowPlan,
+  type CasterHeight,
+  type ShadowPlan,
+  type ShadowStep,
+} from "./plan";
+import { placementFrame } from "./placement";
+import { planPointShadow } from "./point";
+import { splatAlpha } from "./splat";
+import { surfaceHeightAt } from "./surface";
+import type { Light, ShadowDepth, ShadowParams } from "./types";
+
+// Screen-space foreshortening of the uncalibrated ground (sideways shear)
+export const SQUASH = 0.7;
+
+// Penumbra stdDev bounds in px (anti-aliasing floor, cost ceiling)
+const MIN_PENUMBRA = 0.5;
+const MAX_PENUMBRA = 64;
+
+// Depths of the blur bands a continuous cast spreads its pixels across
+const BLUR_BANDS = [0, 1 / 3, 2 / 3, 1];
+
+// Share of a pixel at depth z in blur band i (linear between neighbours)
+function bandWeight(i: number, z: number) {
+  return Math.max(0, 1 - Math.abs(z * (BLUR_BANDS.length - 1) - i));
+}
+
+// -----------------------------
+// Draw shadow (depth-aware when there is depth: per slice for depth layers,
+// per pixel for a depth buffer). Directional lights use an affine shear about
+// the contact line; point lights go to planPointShadow.
+// Returns a black RGBA image of params.width x params.height with the shadow in alpha.
+// -----------------------------
+export function renderShadow(
+  mask: RgbaImage,
+  depth: ShadowDepth,
+  light: Light,
+  params: ShadowParams
+): RgbaImage {
+  return runShadowPlan(planShadow(mask, depth, light, params));
+}
+
+// The steps of renderShadow, for any renderer (see plan.ts).
+export function planShadow(
+  mask: RgbaImage,
+  depth: ShadowDepth,
+  light: Light,
+  params: ShadowParams
+): ShadowPlan {
+  if (light.kind === "point") {
+    return planPointShadow(mask, depth, light, params);
+  }
+
+  const { width: W, height: H, placement, depthStrength } = params;
+
+  const steps: ShadowStep[] = [];
+  const plan = { width: W, height: H, steps };
+  if (mask.width === 0 || mask.height === 0) return plan;
+
+  // Mask and layers live in the placement frame (bounds of the rotated subject)
+  const frame = placementFrame(placement);
+  const w = frame.w;
+  const h = frame.h;
+
+  const rad = (light.angle * Math.PI) / 180;
+  const dirX = -Math.cos(rad);
+  const dirY = Math.sin(rad);
+
+  const elevClamped = Math.max(1, Math.min(89, light.elev));
+  const elevRad = (elevClamped * Math.PI) / 180;
+  const kBase = 1 / Math.tan(elevRad);
+
+  const perpX = -dirY;
+  const perpY = dirX;
+
+  // Pivot on the ground contact line: y = b0 + slope * x.
+  // hEff = height of the subject above it (fade + cast length reference)
+  const {
+    ax,
+    ay,
+    slope,
+    b0,
+    height: hEff,
+  } = resolveGround(mask, placement, params.contact);
+
+  // Mask pixel -> canvas frame position
+  const maskToCanvas = compose(
+    translate(frame.x, frame.y),
+    scale(w / mask.width, h / mask.height)
+  );
+
+  // Canvas -> canvas shear about the contact line. With v = y - (b0 + slope * x)
+  // (height above the ground, negative upward):
+  //   x' = x + c * v
+  //   y' = (b0 + slope * x) + d * v
+  const groundShear = (k: number): Affine => {
+    const c = -k * dirX + SQUASH * perpX;
+    const d = -k * dirY + SQUASH * perpY;
+    return [1 - c * slope, slope * (1 - d), c, d, -c * b0, b0 * (1 - d)];
+  };
+
+  // With a calibrated ground plane the cast is a homography instead (see
+  // perspective.ts); SQUASH no longer applies.
+  const toScreen = params.ground ? groundHomography(params.ground) : null;
+  const ground = toScreen && groundFrame(toScreen, ax, b0, slope);
+  const groundCast = (k: number): Mat3 | null =>
+    ground
+      ? directionalGroundCast(ground, k, dirX, dirY)
+      : mat3FromAffine(groundShear(k));
+  const castMatrix = (k: number) => {
+    const m = groundCast(k);
+    return m && multiplyMat3(m, mat3FromAffine(maskToCanvas));
+  };
+
+  // Height above the ground of whatever casts onto canvas (x, y)
+  const baseCast = groundCast(kBase);
+  const caster: CasterHeight = {
+    unshear: baseCast && invertMat3(baseCast),
+    b0,
+    slope,
+    max: Infinity,
+    horizon: 0,
+  };
+
+  // On a background relief, the shadow is re-read where each point's light
+  // ray meets the ground (see SurfaceRelief): 1 px of height casts like the
+  // subject's own height does
+  const top = baseCast && applyMat3(baseCast, ax, ay - hEff);
+  const finish = () => {
+    if (params.surface && top && hEff > 0) {
+      steps.push({
+        op: "relief",
+        relief: {
+          kind: "directional",
+          surface: params.surface,
+          base: surfaceHeightAt(params.surface, ax, ay),
+          shift: [(top[0] - ax) / hEff, (top[1] - ay) / hEff],
+        },
+      });
+    }
+    return plan;
+  };
+
+  const invTan = 1 / Math.tan(elevRad);
+  const baseBlur = Math.round(6 * Math.max(0.7, Math.min(2.0, invTan)));
+
+  // Contact-hardening penumbra (light.size set): a light of angular diameter
+  // theta smears an occluder at height v over ~v * tan(theta) / sin²(elev) on
+  // the ground, so blur grows from ~0 at the contact line toward the tip.
+  const penumbra = light.size !== undefined;
+  const sinE = Math.sin(elevRad);
+  const spread =
+    (0.5 * Math.tan((Math.max(0, light.size ?? 0) * Math.PI) / 180)) /
+    (sinE * sinE);
+  const soften: ShadowStep = {
+    op: "soften",
+    sigma: { caster, base: MIN_PENUMBRA, gain: spread, lamp: null },
+    maxSigma: Math.min(
+      MAX_PENUMBRA,
+      MIN_PENUMBRA + spread * hEff * (1 + Math.max(0, depthStrength))
+    ),
+  };
+
+  // Fallback: no depth -> old single-mask method
+  const layers = Array.isArray(depth) ? depth : [];
+  const field =
+    !Array.isArray(depth) &&
+    depth.width === mask.width &&
+    depth.height === mask.height
+      ? depth
+      : null;
+  if (!field && layers.length === 0) {
+    const matrix = castMatrix(kBase);
+    const inv = matrix && invertMat3(matrix);
+    if (!matrix || !inv) return plan;
+
+    const stops: [number, number][] = [
+      [0.0, 0.0],
+      [0.6, 0.6],
+      [1.0, 1.0],
+    ];
+    const sharp = { op: "cast", image: mask, matrix, blur: 0 } as const;
+
+    if (penumbra) {
+      steps.push({ ...sharp, opacity: 0.9 }, soften, {
+        op: "fade",
+        fade: { kind: "height", caster, height: hEff, stops, gain: 0.9 },
+      });
+      return finish();
+    }
+
+    // Fades in local (unsheared) space, 0 outside the mask rect
+    const local = {
+      kind: "local",
+      toSource: inv,
+      toCanvas: maskToCanvas,
+      sourceWidth: mask.width,
+      sourceHeight: mask.height,
+      b0,
+      slope,
+      height: hEff,
+    } as const;
+
+    steps.push(
+      // blurred layer, recolored (source-in) at 0.45 inside the shadow rect
+      { ...sharp, blur: baseBlur, opacity: 0.45 },
+      {
+        op: "fade",
+        fade: {
+          ...local,
+          stops: [
+            [0, 1],
+            [1, 1],
+          ],
+          gain: 0.45,
+        },
+      },
+      // sharp layer, recolored at 0.9; then fade vertically in local space
+      { ...sharp, opacity: 0.9 },
+      { op: "fade", fade: { ...local, stops, gain: 0.9 } }
+    );
+    return finish();
+  }
+
+  // Depth-aware draw. Cast length varies by depth; deeper -> blurrier + lighter
+  const castAt = (z: number) => castMatrix(kBase * (1 + depthStrength * z));
+  const blurPx = (z: number) => Math.round(baseBlur * lerp(0.7, 1.8, z));
+  const sharpAlpha = (z: number) => lerp(0.85, 0.25, z);
+  const blurredAlpha = (z: number) => lerp(0.06, 0.2, z);
+  // With a penumbra, blur comes from the penumbra pass below; keep the
+  // combined density
+  const densityAt = (z: number) =>
+    1 - (1 - sharpAlpha(z)) * (1 - blurredAlpha(z));
+
+  if (field) {
+    // Every pixel cast by its own depth. The blurred share is spread across
+    // a few bands of fixed blur instead of one blur per slice.
+    const weights = penumbra
+      ? [densityAt]
+      : [
+          sharpAlpha,
+          ...BLUR_BANDS.map(
+            (_, i) => (z: number) => blurredAlpha(z) * bandWeight(i, z)
+          ),
+        ];
+    const maps = splatAlpha(mask, field, castAt, weights, W, H);
+    const [sharp, ...bands] = maps ?? [];
+    bands.forEach((coverage, i) =>
+      steps.push({
+        op: "draw",
+        coverage,
+        blur: blurPx(BLUR_BANDS[i]),
+        opacity: 1,
+      })
+    );
+    if (sharp) steps.push({ op: "draw", coverage: sharp, blur: 0, opacity: 1 });
+  }
+
+  for (const layer of layers) {
+    const z = clamp01(layer.zMid);
+    const matrix = castAt(z);
+    if (!matrix) continue;
+    const sharp = { op: "cast", image: layer.image, matrix, blur: 0 } as const;
+
+    if (penumbra) {
+      steps.push({ ...sharp, opacity: densityAt(z) });
+      continue;
+    }
+
+    steps.push(
+      { ...sharp, blur: blurPx(z), opacity: blurredAlpha(z) },
+      { ...sharp, opacity: sharpAlpha(z) }
+    );
+  }
+
+  if (penumbra) steps.push(soften);
+
+  // Fade the whole shadow along cast direction in screen space. On a
+  // calibrated plane, along wherever the top of the subject lands.
+  let fadeX = dirX;
+  let fadeY = dirY;
+  let castLen = hEff * kBase;
+  const tip = ground && top;
+  if (tip) {
+    castLen = Math.hypot(tip[0] - ax, tip[1] - ay);
+    if (castLen > 1e-6) {
+      fadeX = (tip[0] - ax) / castLen;
+      fadeY = (tip[1] - ay) / castLen;
+    }
+  }
+  const maxLen = Math.max(10, castLen * (1 + Math.max(0, depthStrength)) * 0.9);
+  steps.push({
+    op: "fade",
+    fade: {
+      kind: "along",
+      origin: [ax, ay],
+      dir: [fadeX, fadeY],
+      length: maxLen,
+      stops: [
+        [0.0, 1.0],
+        [0.75, 0.55],
+        [1.0, 0.0],
+      ],
+      gain: 1,
+    },
+  });
+
+  return finish();
+}
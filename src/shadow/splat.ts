@@ -0,0 +1,214 @@
+import { createAlphaMap, type AlphaMap } from "./alpha";
+import type { Mat3 } from "./homography";
+import type { RgbaImage } from "./image";
+import type { DepthBuffer } from "./types";
+
+// Cast matrices sampled at this many depth steps; positions in between are
+// interpolated, so depth never gets quantized.
+const DEPTH_STEPS = 256;
+
+// Neighbouring pixels further apart in depth than this are separate surfaces:
+// the mesh tears there instead of stretching a sheet across the gap.
+const DEPTH_JUMP = 0.04;
+
+// -----------------------------
+// Forward warp with a per-pixel depth: mask pixel (u, v) at depth z lands
+// where castAt(z) (source px -> canvas) sends it, so nothing is banded the way
+// depth slices are. Pixel centers are the vertices of a mesh whose cells are
+// filled as two triangles each, which fills the holes a plain point splat
+// leaves wherever the cast stretches the subject. Cells spanning a depth jump
+// are drawn once per surface, fading out toward the other one (like the
+// bilinear edge of a depth slice).
+// Rasterizes one map per weight (vertex value alpha * weight(z)), overlaps
+// keep the max. Returns maps over the same canvas rect, or null if empty.
+// -----------------------------
+export function splatAlpha(
+  mask: RgbaImage,
+  depth: DepthBuffer,
+  castAt: (z: number) => Mat3 | null,
+  weights: ((z: number) => number)[],
+  boundsW: number,
+  boundsH: number
+): AlphaMap[] | null {
+  const w = mask.width;
+  const h = mask.height;
+  if (w === 0 || h === 0 || depth.width !== w || depth.height !== h) {
+    return null;
+  }
+
+  const table: (Mat3 | null)[] = [];
+  for (let i = 0; i <= DEPTH_STEPS; i++) table.push(castAt(i / DEPTH_STEPS));
+
+  // Canvas position of source point (sx, sy) at depth z, into pos; false
+  // when it falls on or behind the horizon
+  const pos = [0, 0];
+  const project = (sx: number, sy: number, z: number) => {
+    const t = Math.max(0, Math.min(1, z)) * DEPTH_STEPS;
+    const i = Math.min(DEPTH_STEPS - 1, Math.floor(t));
+    const f = t - i;
+    const a = table[i];
+    const b = table[i + 1];
+    if (!a || !b) return false;
+    const wa = a[6] * sx + a[7] * sy + a[8];
+    const wb = b[6] * sx + b[7] * sy + b[8];
+    if (wa <= 1e-9 || wb <= 1e-9) return false;
+    const xa = (a[0] * sx + a[1] * sy + a[2]) / wa;
+    const ya = (a[3] * sx + a[4] * sy + a[5]) / wa;
+    const xb = (b[0] * sx + b[1] * sy + b[2]) / wb;
+    const yb = (b[3] * sx + b[4] * sy + b[5]) / wb;
+    pos[0] = xa + (xb - xa) * f;
+    pos[1] = ya + (yb - ya) * f;
+    return true;
+  };
+
+  // Vertex grid: pixel centers plus a ring clamped to the mask's edges, so the
+  // mesh covers the whole source rect like warpAlpha does
+  const gw = w + 2;
+  const gh = h + 2;
+  const alpha = new Float32Array(gw * gh);
+  const zs = new Float32Array(gw * gh);
+  const vx = new Float32Array(gw * gh).fill(NaN);
+  const vy = new Float32Array(gw * gh);
+  const sxs = new Float32Array(gw);
+  const sys = new Float32Array(gh);
+  for (let i = 0; i < gw; i++) sxs[i] = Math.max(0, Math.min(w, i - 0.5));
+  for (let j = 0; j < gh; j++) sys[j] = Math.max(0, Math.min(h, j - 0.5));
+
+  let x0 = Infinity;
+  let y0 = Infinity;
+  let x1 = -Infinity;
+  let y1 = -Infinity;
+  for (let j = 0; j < gh; j++) {
+    const v = Math.max(0, Math.min(h - 1, j - 1));
+    for (let i = 0; i < gw; i++) {
+      const u = Math.max(0, Math.min(w - 1, i - 1));
+      const a = mask.data[(v * w + u) * 4 + 3] / 255;
+      if (a === 0) continue;
+      const g = j * gw + i;
+      const z = depth.data[v * w + u];
+      alpha[g] = a;
+      zs[g] = z;
+      if (!project(sxs[i], sys[j], z)) continue;
+      vx[g] = pos[0];
+      vy[g] = pos[1];
+      x0 = Math.min(x0, pos[0]);
+      y0 = Math.min(y0, pos[1]);
+      x1 = Math.max(x1, pos[0]);
+      y1 = Math.max(y1, pos[1]);
+    }
+  }
+
+  const bx0 = Math.max(0, Math.floor(x0) - 1);
+  const by0 = Math.max(0, Math.floor(y0) - 1);
+  const bx1 = Math.min(boundsW, Math.ceil(x1) + 1);
+  const by1 = Math.min(boundsH, Math.ceil(y1) + 1);
+  if (!(bx1 > bx0 && by1 > by0)) return null;
+
+  const maps = weights.map(() =>
+    createAlphaMap(bx0, by0, bx1 - bx0, by1 - by0)
+  );
+  const mw = bx1 - bx0;
+  const k = weights.length;
+
+  // Per cell corner (in order 00, 10, 11, 01): position + value per weight
+  const cx = [0, 0, 0, 0];
+  const cy = [0, 0, 0, 0];
+  const values = new Float64Array(4 * k);
+  const corners = [0, 0, 0, 0];
+  const order = [0, 1, 2, 3];
+
+  const triangle = (a: number, b: number, c: number) => {
+    const ax = cx[a];
+    const ay = cy[a];
+    const area = (cx[b] - ax) * (cy[c] - ay) - (cy[b] - ay) * (cx[c] - ax);
+    if (Math.abs(area) < 1e-9) return;
+    const tx0 = Math.max(bx0, Math.ceil(Math.min(ax, cx[b], cx[c]) - 0.5));
+    const ty0 = Math.max(by0, Math.ceil(Math.min(ay, cy[b], cy[c]) - 0.5));
+    const tx1 = Math.min(bx1 - 1, Math.floor(Math.max(ax, cx[b], cx[c]) - 0.5));
+    const ty1 = Math.min(by1 - 1, Math.floor(Math.max(ay, cy[b], cy[c]) - 0.5));
+    const inv = 1 / area;
+    for (let y = ty0; y <= ty1; y++) {
+      const py = y + 0.5 - ay;
+      for (let x = tx0; x <= tx1; x++) {
+        const px = x + 0.5 - ax;
+        const lb = (px * (cy[c] - ay) - py * (cx[c] - ax)) * inv;
+        const lc = ((cx[b] - ax) * py - (cy[b] - ay) * px) * inv;
+        const la = 1 - lb - lc;
+        if (la < -1e-6 || lb < -1e-6 || lc < -1e-6) continue;
+        const o = (y - by0) * mw + (x - bx0);
+        for (let m = 0; m < k; m++) {
+          const val =
+            la * values[a * k + m] +
+            lb * values[b * k + m] +
+            lc * values[c * k + m];
+          const d = maps[m].data;
+          if (val > d[o]) d[o] = val;
+        }
+      }
+    }
+  };
+
+  // Draw the cell with corners order[from..to) as its surface (own depth and
+  // alpha); the rest take that surface's mean depth at alpha 0
+  const surface = (i: number, j: number, from: number, to: number) => {
+    let zMean = 0;
+    for (let n = from; n < to; n++) zMean += zs[corners[order[n]]];
+    zMean /= to - from;
+    for (let c = 0; c < 4; c++) {
+      const g = corners[c];
+      let own = false;
+      for (let n = from; n < to; n++) own ||= order[n] === c;
+      if (own) {
+        if (Number.isNaN(vx[g])) return;
+        cx[c] = vx[g];
+        cy[c] = vy[g];
+        for (let m = 0; m < k; m++) {
+          values[c * k + m] = alpha[g] * weights[m](zs[g]);
+        }
+      } else {
+        const gi = i + (c === 1 || c === 2 ? 1 : 0);
+        const gj = j + (c >= 2 ? 1 : 0);
+        if (!project(sxs[gi], sys[gj], zMean)) return;
+        cx[c] = pos[0];
+        cy[c] = pos[1];
+        for (let m = 0; m < k; m++) values[c * k + m] = 0;
+      }
+    }
+    triangle(0, 1, 2);
+    triangle(0, 2, 3);
+  };
+
+  for (let j = 0; j < gh - 1; j++) {
+    for (let i = 0; i < gw - 1; i++) {
+      corners[0] = j * gw + i;
+      corners[1] = corners[0] + 1;
+      corners[2] = corners[0] + gw + 1;
+      corners[3] = corners[0] + gw;
+
+      // Masked corners sorted by depth, split into surfaces at depth jumps
+      let n = 0;
+      for (let c = 0; c < 4; c++) {
+        if (alpha[corners[c]] > 0) order[n++] = c;
+      }
+      if (n === 0) continue;
+      for (let a = 1; a < n; a++) {
+        for (let b = a; b > 0; b--) {
+          if (zs[corners[order[b - 1]]] <= zs[corners[order[b]]]) break;
+          [order[b - 1], order[b]] = [order[b], order[b - 1]];
+        }
+      }
+      let from = 0;
+      for (let to = 1; to <= n; to++) {
+        if (
+          to === n ||
+          zs[corners[order[to]]] - zs[corners[order[to - 1]]] > DEPTH_JUMP
+        ) {
+          surface(i, j, from, to);
+          from = to;
+        }
+      }
+    }
+  }
+
+  return maps;
+}
@@ -0,0 +1,234 @@
+import { blurAlpha, createAlphaMap } from "./alpha";
+import { depthSamples, sampleDepth } from "./depth";
+import { createImage, type RgbaImage } from "./image";
+import type { DepthMap, SurfaceHeight, SurfaceSettings } from "./types";
+
+// "depth" maps: the ground plane is refit this many times on the farther
+// half of the pixels (whatever stands on the ground is nearer than it), from
+// every FIT_STEP-th pixel each way
+const FIT_ROUNDS = 3;
+const FIT_STEP = 4;
+
+// Estimate: shading detail finer than this stdDev (fraction of the larger
+// side) reads as relief; broader light falloff stays flat
+const ESTIMATE_SCALE = 0.02;
+
+// -----------------------------
+// Relief of the background from a depth / height map (see SurfaceSettings),
+// stretched to width x height (the background). Unknown pixels are flat.
+// -----------------------------
+export function buildSurfaceHeight(
+  map: DepthMap,
+  width: number,
+  height: number,
+  settings: SurfaceSettings
+): SurfaceHeight {
+  const samples = depthSamples(map, "gray");
+  const n = width * height;
+  const v = new Float32Array(n);
+  let lo = Infinity;
+  let hi = -Infinity;
+  for (let y = 0, p = 0; y < height; y++) {
+    for (let x = 0; x < width; x++, p++) {
+      v[p] = sampleDepth(
+        samples,
+        ((x + 0.5) * samples.width) / width,
+        ((y + 0.5) * samples.height) / height
+      );
+      if (!Number.isFinite(v[p])) continue;
+      lo = Math.min(lo, v[p]);
+      hi = Math.max(hi, v[p]);
+    }
+  }
+
+  const known = new Uint8Array(n);
+  for (let p = 0; p < n; p++) {
+    if (!Number.isFinite(v[p])) continue;
+    known[p] = 1;
+    const t = hi > lo ? (v[p] - lo) / (hi - lo) : 0;
+    v[p] = settings.invert ? 1 - t : t;
+  }
+
+  const h = new Float32Array(n);
+  if (settings.kind === "height") {
+    for (let p = 0; p < n; p++) if (known[p]) h[p] = v[p];
+  } else {
+    // In front of the ground plane = raised; the highest point gets 1
+    const [a, b, c] = fitGroundPlane(v, known, width, height);
+    let top = 0;
+    for (let y = 0, p = 0; y < height; y++) {
+      for (let x = 0; x < width; x++, p++) {
+        if (!known[p]) continue;
+        h[p] = a + b * x + c * y - v[p];
+        top = Math.max(top, h[p]);
+      }
+    }
+    if (top > 0) for (let p = 0; p < n; p++) h[p] /= top;
+  }
+
+  return finishSurface(h, width, height, settings);
+}
+
+// -----------------------------
+// A rough relief guessed from the background's shading (bright = raised, or
+// dark with invert): fine bumps of sand, gravel or paving, not walls or
+// steps, which need a map.
+// -----------------------------
+export function estimateSurfaceHeight(
+  bg: RgbaImage,
+  settings: SurfaceSettings
+): SurfaceHeight {
+  const { width: w, height: h, data } = bg;
+  const lum = createAlphaMap(0, 0, w, h);
+  for (let p = 0; p < w * h; p++) {
+    const o = p * 4;
+    lum.data[p] =
+      (0.299 * data[o] + 0.587 * data[o + 1] + 0.114 * data[o + 2]) / 255;
+  }
+
+  const broad = smoothField(lum.data, w, h, ESTIMATE_SCALE * Math.max(w, h));
+  const relief = new Float32Array(w * h);
+  let range = 0;
+  for (let p = 0; p < w * h; p++) {
+    const d = lum.data[p] - broad[p];
+    relief[p] = settings.invert ? -d : d;
+    range = Math.max(range, Math.abs(d));
+  }
+  if (range > 0) for (let p = 0; p < w * h; p++) relief[p] /= range;
+
+  return finishSurface(relief, w, h, settings);
+}
+
+// Height of the surface at canvas point (x, y) (nearest pixel, clamped)
+export function surfaceHeightAt(s: SurfaceHeight, x: number, y: number) {
+  const px = Math.max(0, Math.min(s.width - 1, Math.floor(x)));
+  const py = Math.max(0, Math.min(s.height - 1, Math.floor(y)));
+  return s.data[py * s.width + px];
+}
+
+// -----------------------------
+// Grayscale view of a relief: mid gray = the flat ground, brighter = higher
+// -----------------------------
+export function renderSurfacePreview(s: SurfaceHeight): RgbaImage {
+  let range = 0;
+  for (const v of s.data) range = Math.max(range, Math.abs(v));
+  const out = createImage(s.width, s.height);
+  const od = out.data;
+  s.data.forEach((v, p) => {
+    const g = Math.round(128 + (range > 0 ? (127 * v) / range : 0));
+    od[p * 4] = g;
+    od[p * 4 + 1] = g;
+    od[p * 4 + 2] = g;
+    od[p * 4 + 3] = 255;
+  });
+  return out;
+}
+
+// Smoothing, then 0..1 relief -> screen px
+function finishSurface(
+  relief: Float32Array,
+  width: number,
+  height: number,
+  settings: SurfaceSettings
+): SurfaceHeight {
+  const data =
+    settings.smooth > 0.25
+      ? smoothField(relief, width, height, settings.smooth)
+      : relief;
+  const px = Math.max(0, settings.height) * height;
+  for (let p = 0; p < data.length; p++) data[p] *= px;
+  return { width, height, data };
+}
+
+// Blur that keeps its level up to the image edge (normalized by the blurred
+// coverage of the image itself)
+function smoothField(
+  data: Float32Array,
+  w: number,
+  h: number,
+  sigma: number
+): Float32Array {
+  const ones = createAlphaMap(0, 0, w, h);
+  ones.data.fill(1);
+  const sum = blurAlpha({ x: 0, y: 0, width: w, height: h, data }, sigma, w, h);
+  const weight = blurAlpha(ones, sigma, w, h);
+  const out = new Float32Array(w * h);
+  for (let p = 0; p < w * h; p++) {
+    out[p] = weight.data[p] > 1e-6 ? sum.data[p] / weight.data[p] : data[p];
+  }
+  return out;
+}
+
+// Least-squares plane z = a + b * x + c * y through the known pixels,
+// refit on the half farthest behind it each round
+function fitGroundPlane(
+  z: Float32Array,
+  known: Uint8Array,
+  w: number,
+  h: number
+): [number, number, number] {
+  const pixels: number[] = [];
+  for (let y = 0; y < h; y += FIT_STEP) {
+    for (let x = 0; x < w; x += FIT_STEP) {
+      if (known[y * w + x]) pixels.push(y * w + x);
+    }
+  }
+
+  let plane: [number, number, number] = [0, 0, 0];
+  let used = pixels;
+  for (let round = 0; round <= FIT_ROUNDS && used.length >= 3; round++) {
+    plane = solvePlane(z, used, w) ?? plane;
+    const [a, b, c] = plane;
+    const residual = pixels.map(
+      (p) => a + b * (p % w) + c * Math.floor(p / w) - z[p]
+    );
+    used = pixels
+      .map((_, i) => i)
+      .sort((i, j) => residual[i] - residual[j])
+      .slice(0, Math.max(3, pixels.length >> 1))
+      .map((i) => pixels[i]);
+  }
+  return plane;
+}
+
+function solvePlane(
+  z: Float32Array,
+  pixels: number[],
+  w: number
+): [number, number, number] | null {
+  // Normal equations M [a b c]' = r
+  let n = 0;
+  let sx = 0;
+  let sy = 0;
+  let sxx = 0;
+  let sxy = 0;
+  let syy = 0;
+  let sz = 0;
+  let sxz = 0;
+  let syz = 0;
+  for (const p of pixels) {
+    const x = p % w;
+    const y = Math.floor(p / w);
+    n++;
+    sx += x;
+    sy += y;
+    sxx += x * x;
+    sxy += x * y;
+    syy += y * y;
+    sz += z[p];
+    sxz += x * z[p];
+    syz += y * z[p];
+  }
+  const det3 = (m: number[]) =>
+    m[0] * (m[4] * m[8] - m[5] * m[7]) -
+    m[1] * (m[3] * m[8] - m[5] * m[6]) +
+    m[2] * (m[3] * m[7] - m[4] * m[6]);
+  const m = [n, sx, sy, sx, sxx, sxy, sy, sxy, syy];
+  const d = det3(m);
+  if (Math.abs(d) < 1e-9) return null;
+  const r = [sz, sxz, syz];
+  // Cramer's rule: column i replaced by r
+  const solve = (i: number) =>
+    det3(m.map((v, k) => (k % 3 === i ? r[Math.floor(k / 3)] : v))) / d;
+  return [solve(0), solve(1), solve(2)];
+}
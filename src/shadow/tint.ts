@@ -0,0 +1,63 @@
+import { createImage, type RgbaImage } from "./image";
+import type { Rgb, ShadowStyle } from "./types";
+
+// Auto shadow color: the background's mean color under the shadow, brought
+// down to this luminance (0..1). Keeps the surface's hue in its shadow.
+const AUTO_LUMINANCE = 0.3;
+
+// -----------------------------
+// Shadow color for a style: the fixed rgb, or sampled from bg weighted by the
+// shadow's alpha. Falls back to rgb when the shadow is empty.
+// -----------------------------
+export function resolveShadowColor(
+  style: ShadowStyle,
+  bg: RgbaImage,
+  shadow: RgbaImage
+): Rgb {
+  if (style.color === "fixed") return style.rgb;
+  if (bg.width !== shadow.width || bg.height !== shadow.height) {
+    return style.rgb;
+  }
+
+  const b = bg.data;
+  const s = shadow.data;
+  let r = 0;
+  let g = 0;
+  let bl = 0;
+  let w = 0;
+  for (let i = 0; i < s.length; i += 4) {
+    const a = s[i + 3];
+    if (a === 0) continue;
+    r += b[i] * a;
+    g += b[i + 1] * a;
+    bl += b[i + 2] * a;
+    w += a;
+  }
+  if (w === 0) return style.rgb;
+
+  const mean: Rgb = [r / w, g / w, bl / w];
+  const lum = (0.2126 * mean[0] + 0.7152 * mean[1] + 0.0722 * mean[2]) / 255;
+  const k = lum > 1e-3 ? AUTO_LUMINANCE / lum : 0;
+  return mean.map((c) => Math.min(255, Math.round(c * k))) as Rgb;
+}
+
+// -----------------------------
+// Recolor a shadow layer. Black pixels take the color; lighter ones (the
+// per-channel tint of renderLights) are screened over it, so colored fill
+// light still shows through.
+// -----------------------------
+export function tintShadow(shadow: RgbaImage, color: Rgb): RgbaImage {
+  const out = createImage(shadow.width, shadow.height);
+  const s = shadow.data;
+  const d = out.data;
+  for (let i = 0; i < s.length; i += 4) {
+    const a = s[i + 3];
+    if (a === 0) continue;
+    for (let ch = 0; ch < 3; ch++) {
+      const c = color[ch];
+      d[i + ch] = c + s[i + ch] * (1 - c / 255);
+    }
+    d[i + 3] = a;
+  }
+  return out;
+}
@@ -0,0 +1,217 @@
+import type { Rect } from "./affine";
+import type { RgbaImage } from "./image";
+
+export type Rgb = [r: number, g: number, b: number]; // 0..255
+
+// angle: screen-space direction the light comes from, in degrees (0..360)
+// elev: height of the light above the ground plane, in degrees (1..89)
+// size: angular diameter of the light in degrees (sun ~0.5, softbox 10+);
+//   drives contact-hardening penumbra. Omit for the legacy constant blur.
+// intensity / color: only matter relative to the other lights (renderLights);
+//   default 1 and white.
+// kind: "point" projects from `position` (angle / elev are then ignored);
+//   default "directional".
+export type Light = {
+  angle: number;
+  elev: number;
+  size?: number;
+  intensity?: number;
+  color?: Rgb;
+  kind?: "directional" | "point";
+  position?: LightPosition;
+};
+
+// A point light in background pixels: (x, y) is the spot on the ground right
+// below the lamp, height how far above that spot it hangs (in screen px).
+export type LightPosition = { x: number; y: number; height: number };
+
+export type Point = [x: number, y: number];
+
+// Where the (scaled) foreground sits on the background, in background pixels.
+// rotation: degrees, clockwise about the center of the w x h box.
+export type Placement = {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+  rotation: number;
+};
+
+// Removal of a plain backdrop from a foreground without alpha (the result
+// is multiplied into whatever alpha it has):
+//   "color"   - every pixel near the key color
+//   "flood"   - only those connected to the image border through such pixels
+//   "grabcut" - subject / backdrop color models learned from a box around
+//               the subject, split along strong edges
+export type BackgroundRemoval = {
+  mode: "off" | "color" | "flood" | "grabcut";
+  color: Rgb | null; // key color; null = taken from the image border
+  tolerance: number; // 0..1 color distance keyed out fully
+  softness: number; // 0..1 further distance over which alpha ramps back up
+  box: Rect | null; // grabcut: subject box in cutout px; null = image inset
+};
+
+// A freehand touch-up of the mask: a polyline in foreground (cutout)
+// pixels, painted in or erased `radius` px around it.
+export type MaskStroke = {
+  mode: "paint" | "erase";
+  radius: number;
+  points: Point[];
+};
+
+// Clean-up of the foreground's alpha before it becomes the mask, in
+// foreground pixels, applied in this order. Zeros and no strokes leave the
+// alpha as it is.
+export type MaskRefinement = {
+  threshold: number; // 0..1; alpha below it is dropped
+  minIsland: number; // px area; smaller specks are removed
+  fillHoles: number; // px area; smaller enclosed holes are filled
+  grow: number; // px; dilate (> 0) or erode (< 0)
+  strokes: MaskStroke[];
+  feather: number; // px; edge blur (stdDev)
+};
+
+// Per-pixel depth (0 = near, 1 = far) in foreground-placement space.
+export type DepthBuffer = {
+  width: number;
+  height: number;
+  data: Float32Array;
+};
+
+// A depth map as loaded: an 8-bit image (gray, or color-coded, see
+// DepthEncoding), or full-precision samples (16-bit PNG, PFM, EXR, raw
+// float32) in their own units (16-bit as 0..1), NaN where unknown.
+export type DepthMap = RgbaImage | DepthBuffer;
+
+// How an 8-bit depth image codes depth: gray level, or position along a
+// colormap (low end = 0)
+export type DepthEncoding = "gray" | "turbo" | "inferno";
+
+// Where the depth map sits inside the placement box (the unrotated
+// foreground, box pixels): stretched to the box, scaled about its center,
+// rotated (degrees, clockwise), then offset.
+export type DepthAlignment = {
+  scaleX: number; // multiplier (1 = fill the box)
+  scaleY: number;
+  rotation: number;
+  offsetX: number; // px
+  offsetY: number; // px
+};
+
+export type DepthCalibration = DepthAlignment & {
+  encoding: DepthEncoding;
+  // Stretch the map's own min..max to 0..1 (else 8/16-bit full scale, and
+  // floats as they are)
+  autoRange: boolean;
+  // Part of that range kept (0..1 each); it is stretched to 0..1 and
+  // values beyond are clipped
+  clipMin: number;
+  clipMax: number;
+  invert: boolean;
+  gamma: number; // <1 boosts highlights, >1 boosts shadows
+};
+
+// How a background depth / height map becomes the relief shadows fall on
+// (walls, steps, curbs), stretched over the whole background:
+//   "height" - bright = higher (a height map, or a bump map of the floor)
+//   "depth"  - bright = farther; height is how far a pixel stands in front
+//              of the ground plane fitted through the map
+// Values are stretched from the map's own min..max.
+export type SurfaceSettings = {
+  kind: "height" | "depth";
+  invert: boolean;
+  height: number; // relief at full range, as a fraction of the image height
+  smooth: number; // px stdDev, against noise in the map
+  // Guess a relief from the background's shading when there is no map
+  estimate: boolean;
+};
+
+// Height of the background above the flat ground, per background pixel, in
+// screen px (up = positive).
+export type SurfaceHeight = {
+  width: number;
+  height: number;
+  data: Float32Array;
+};
+
+// A band of the mask whose depth falls in [zMid - 1/2n, zMid + 1/2n).
+// Pixels are black with the mask's alpha.
+export type DepthLayer = { image: RgbaImage; zMid: number };
+
+// Depth as the shadow passes take it: the bands of sliceDepthLayers (quick,
+// but stepped with few layers), or the depth buffer itself, cast pixel by
+// pixel (smooth). [] = no depth.
+export type ShadowDepth = DepthLayer[] | DepthBuffer;
+
+// Where the subject meets the ground, in background pixels. The shadow shear
+// pivots about the line through (x0, y0) and (x1, y1).
+export type ContactLine = { x0: number; y0: number; x1: number; y1: number };
+
+// A rectangle lying on the background's ground plane, marked on the photo:
+// corners in background pixels, in order around it. aspect is its real width
+// (first edge) over its depth (second edge); default 1 (a square).
+export type GroundPlane = {
+  quad: [Point, Point, Point, Point];
+  aspect?: number;
+};
+
+// Where a shadow pass draws: output size + the subject's placement on it.
+export type ShadowTarget = {
+  // Output (background) size
+  width: number;
+  height: number;
+  placement: Placement;
+  // Defaults to contactLine(mask, placement) (auto-detected from the mask)
+  contact?: ContactLine;
+  // Calibrated ground; without it shadows use a screen-space approximation
+  ground?: GroundPlane;
+};
+
+export type ShadowParams = ShadowTarget & {
+  depthStrength: number;
+  // Relief of the background (buildSurfaceHeight); the cast shadow falls
+  // onto it instead of the flat ground
+  surface?: SurfaceHeight;
+};
+
+export type LightingParams = ShadowParams & {
+  // Unshadowable fill (sky / bounce), same units as Light.intensity. Default 0.
+  ambient?: number;
+};
+
+// Shading of the subject itself (renderSelfShading), lit like its shadow.
+export type ShadingParams = ShadowTarget & {
+  strength: number; // 0..1
+  ambient?: number; // as in LightingParams
+};
+
+// Tight ambient-occlusion shadow where the subject meets the ground.
+// spread and falloff are fractions of the subject's height above the contact
+// line, so the look survives rescaling the subject.
+export type ContactShadowSettings = {
+  opacity: number; // 0..1
+  spread: number; // blur radius along the ground
+  falloff: number; // how far above the ground the subject still occludes
+};
+
+// Mirror image of the subject in a glossy floor or water, flipped about the
+// contact line. fade, ripple and wavelength are fractions of the subject's
+// height above the line, like ContactShadowSettings.
+export type ReflectionSettings = {
+  enabled: boolean;
+  opacity: number; // 0..1 at the contact line
+  fade: number; // how far below the line it has faded out
+  blur: number; // px stdDev gained per px below the line (0 = a mirror)
+  ripple: number; // sideways sway of water (0 = still)
+  wavelength: number; // between ripple crests
+};
+
+// How the shadow meets the background.
+//   color: "fixed" uses rgb; "auto" samples the background under the shadow
+//   blend: "normal" paints the color over (source-over); "multiply" darkens
+//     the background by it, keeping its texture and hue
+export type ShadowStyle = {
+  color: "fixed" | "auto";
+  rgb: Rgb;
+  blend: "normal" | "multiply";
+};
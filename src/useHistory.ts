@@ -0,0 +1,73 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+
+// Edits with the same label closer together than this merge into one step,
+// so a slider or overlay drag undoes in one go.
+const COALESCE_MS = 800;
+
+const MAX_ENTRIES = 100;
+
+export type HistoryEntry<T> = {
+  label: string;
+  // State after this edit. The current entry's copy may lag behind the app;
+  // it is refreshed from capture() whenever the history moves away from it.
+  state: T | null;
+};
+
+type History<T> = { entries: HistoryEntry<T>[]; index: number };
+
+// -----------------------------
+// Undo / redo over app state that lives in many useStates. Call record(label)
+// right before an edit; capture() snapshots the state, restore() puts a
+// snapshot back. record is stable, so it can go into useCallback deps.
+// -----------------------------
+export function useHistory<T>(capture: () => T, restore: (state: T) => void) {
+  const [history, setHistory] = useState<History<T>>({
+    entries: [{ label: "Start", state: null }],
+    index: 0,
+  });
+  const captureRef = useRef(capture);
+  const lastEdit = useRef<{ label: string; time: number } | null>(null);
+
+  useEffect(() => {
+    captureRef.current = capture;
+  });
+
+  const record = useCallback((label: string) => {
+    const now = Date.now();
+    const last = lastEdit.current;
+    lastEdit.current = { label, time: now };
+    if (last && last.label === label && now - last.time < COALESCE_MS) return;
+
+    const current = captureRef.current();
+    setHistory((h) => {
+      const entries = h.entries.slice(0, h.index + 1);
+      entries[h.index] = { ...entries[h.index], state: current };
+      entries.push({ label, state: null });
+      const kept = entries.slice(-MAX_ENTRIES);
+      return { entries: kept, index: kept.length - 1 };
+    });
+  }, []);
+
+  function jump(index: number) {
+    if (index === history.index) return;
+    const target = history.entries[index]?.state;
+    if (!target) return;
+
+    const entries = history.entries.slice();
+    entries[history.index] = { ...entries[history.index], state: capture() };
+    setHistory({ entries, index });
+    lastEdit.current = null;
+    restore(target);
+  }
+
+  return {
+    labels: history.entries.map((e) => e.label),
+    index: history.index,
+    canUndo: history.index > 0,
+    canRedo: history.index < history.entries.length - 1,
+    record,
+    jump,
+    undo: () => jump(history.index - 1),
+    redo: () => jump(history.index + 1),
+  };
+}
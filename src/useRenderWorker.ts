@@ -0,0 +1,214 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { PipelineRequest, ShadowRenderer } from "./pipeline";
+import {
+  createRenderJobs,
+  type LayeredFormat,
+  type PassFrame,
+  type PassName,
+  type RenderRequestMessage,
+  type RenderResponseMessage,
+} from "./renderJobs";
+import type { ContactLine, DepthMap, RgbaImage } from "./shadow";
+
+export type RenderState = {
+  // Latest frame of each pass (kept while newer jobs run); null = none
+  frames: Partial<Record<PassName, PassFrame | null>>;
+  contact: ContactLine | null;
+  depthSize: { width: number; height: number } | null;
+  // What drew the latest cast shadow (null before the first)
+  renderer: ShadowRenderer | null;
+  // 0..1 while a job runs, null when idle
+  progress: number | null;
+  error: string | null;
+};
+
+// Builds a layered file of `request` in the worker (see sceneLayers)
+export type ExportLayers = (
+  request: PipelineRequest,
+  format: LayeredFormat
+) => Promise<Uint8Array>;
+
+type Backend = {
+  post: (message: RenderRequestMessage) => void;
+  terminate: () => void;
+};
+
+// Module worker when available, else the same job loop on this thread
+// (still chunked at stage boundaries, so stale jobs are dropped).
+function createBackend(
+  onMessage: (message: RenderResponseMessage) => void,
+  onFailure: (message: string) => void
+): Backend {
+  try {
+    const worker = new Worker(new URL("./render.worker.ts", import.meta.url), {
+      type: "module",
+    });
+    worker.onmessage = (e: MessageEvent<RenderResponseMessage>) =>
+      onMessage(e.data);
+    worker.onerror = (e) => onFailure(e.message || "render worker failed");
+    return {
+      post: (message) => {
+        // The worker gets its own copy of an image, transferred rather than
+        // cloned; the page keeps the original
+        if (message.type === "image" && message.image) {
+          const data = message.image.data.slice();
+          worker.postMessage(
+            { ...message, image: { ...message.image, data } },
+            [data.buffer]
+          );
+        } else {
+          worker.postMessage(message);
+        }
+      },
+      terminate: () => worker.terminate(),
+    };
+  } catch {
+    let live = true;
+    const jobs = createRenderJobs((message) => {
+      if (live) onMessage(message);
+    });
+    return {
+      post: (message) => jobs.handle(message),
+      terminate: () => {
+        live = false;
+      },
+    };
+  }
+}
+
+// -----------------------------
+// Runs the render pipeline (see pipeline.ts) in a worker. Images are sent
+// (as transferred copies) once per change; each new request supersedes the
+// one in flight, whose result only updates the frames. Layered exports
+// render there too.
+// -----------------------------
+export function useRenderWorker(
+  images: {
+    fg: RgbaImage | null;
+    bg: RgbaImage | null;
+    depth: DepthMap | null;
+    surface: DepthMap | null;
+  },
+  request: PipelineRequest | null
+): RenderState & { exportLayers: ExportLayers } {
+  const [state, setState] = useState<RenderState>({
+    frames: {},
+    contact: null,
+    depthSize: null,
+    renderer: null,
+    progress: null,
+    error: null,
+  });
+  const backend = useRef<Backend | null>(null);
+  const latest = useRef(0);
+  const exports = useRef(
+    new Map<
+      number,
+      { resolve: (data: Uint8Array) => void; reject: (err: Error) => void }
+    >()
+  );
+  const exportId = useRef(0);
+
+  useEffect(() => {
+    const onMessage = (m: RenderResponseMessage) => {
+      if (m.type === "layers" || m.type === "layersFailed") {
+        const pending = exports.current.get(m.id);
+        exports.current.delete(m.id);
+        if (m.type === "layers") pending?.resolve(m.data);
+        else pending?.reject(new Error(m.message));
+        return;
+      }
+      // The worker sends each pass once (later "done"s leave it out), so a
+      // superseded job's passes still have to land
+      if (m.type === "done" && m.id !== latest.current) {
+        setState((s) => ({ ...s, frames: { ...s.frames, ...m.passes } }));
+        return;
+      }
+      if (m.id !== latest.current) return;
+      switch (m.type) {
+        case "progress":
+          setState((s) => ({ ...s, progress: m.progress }));
+          break;
+        case "done":
+          setState((s) => ({
+            frames: { ...s.frames, ...m.passes },
+            contact: m.contact,
+            depthSize: m.depthSize,
+            renderer: m.renderer,
+            progress: null,
+            error: null,
+          }));
+          break;
+        case "error":
+          setState((s) => ({ ...s, progress: null, error: m.message }));
+          break;
+        case "idle":
+          setState((s) => ({ ...s, progress: null }));
+          break;
+      }
+    };
+    const onFailure = (message: string) => {
+      setState((s) => ({ ...s, progress: null, error: message }));
+      for (const pending of exports.current.values()) {
+        pending.reject(new Error(message));
+      }
+      exports.current.clear();
+    };
+
+    const b = createBackend(onMessage, onFailure);
+    backend.current = b;
+    return () => {
+      b.terminate();
+      backend.current = null;
+    };
+  }, []);
+
+  // Declared after the backend effect so a fresh worker gets the images first
+  useEffect(() => {
+    backend.current?.post({ type: "image", slot: "fg", image: images.fg });
+  }, [images.fg]);
+  useEffect(() => {
+    backend.current?.post({ type: "image", slot: "bg", image: images.bg });
+  }, [images.bg]);
+  useEffect(() => {
+    backend.current?.post({
+      type: "image",
+      slot: "depth",
+      image: images.depth,
+    });
+  }, [images.depth]);
+  useEffect(() => {
+    backend.current?.post({
+      type: "image",
+      slot: "surface",
+      image: images.surface,
+    });
+  }, [images.surface]);
+
+  useEffect(() => {
+    if (!request) return;
+    const id = ++latest.current;
+    backend.current?.post({ type: "render", id, request });
+  }, [request, images.fg, images.bg, images.depth, images.surface]);
+
+  const exportLayers = useCallback<ExportLayers>(
+    (request, format) =>
+      new Promise((resolve, reject) => {
+        const b = backend.current;
+        if (!b) {
+          reject(new Error("render worker not running"));
+          return;
+        }
+        const id = ++exportId.current;
+        exports.current.set(id, { resolve, reject });
+        b.post({ type: "layers", id, request, format });
+      }),
+    []
+  );
+
+  // Without a request there is nothing to show; the frames are only hidden,
+  // since the worker sends each pass once and an equal request brings none
+  return request
+    ? { ...state, exportLayers }
+    : { ...state, frames: {}, contact: null, progress: null, exportLayers };
+}
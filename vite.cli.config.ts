@@ -0,0 +1,18 @@
+import { defineConfig } from 'vite'
+
+// Node build of the command-line renderer: npm run build:cli
+export default defineConfig({
+  // public/ holds the web app's static assets
+  publicDir: false,
+  build: {
+    ssr: 'cli/shadowgen.ts',
+    outDir: 'dist-cli',
+    target: 'node20',
+    rollupOptions: {
+      output: {
+        entryFileNames: 'shadowgen.js',
+        banner: '#!/usr/bin/env node',
+      },
+    },
+  },
+})